@@ -1,18 +1,30 @@
 import { ApplicationConfig, provideBrowserGlobalErrorListeners, provideZoneChangeDetection, isDevMode } from '@angular/core';
 import { provideRouter } from '@angular/router';
-import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
 
 import { routes } from './app.routes';
 import { TranslocoHttpLoader } from './transloco-loader';
 import { provideTransloco, TranslocoService } from '@jsverse/transloco';
 import { APP_INITIALIZER } from '@angular/core';
+import { StateService } from './services/state.service';
+import { authInterceptor } from './interceptors/auth.interceptor';
+import { errorInterceptor } from './interceptors/error.interceptor';
+import { offlineInterceptor } from './interceptors/offline.interceptor';
+import { mockBackendInterceptor } from './interceptors/mock-backend.interceptor';
+import { environment } from '../environments/environment';
 
 export const appConfig: ApplicationConfig = {
   providers: [
     provideBrowserGlobalErrorListeners(),
     provideZoneChangeDetection({ eventCoalescing: true }),
     provideRouter(routes),
-    provideHttpClient(), provideHttpClient(), provideTransloco({
+    provideHttpClient(withInterceptors([
+      errorInterceptor,
+      offlineInterceptor,
+      authInterceptor,
+      // Demo mode: answer API calls in the browser instead of hitting the backend
+      ...(environment.mockBackend ? [mockBackendInterceptor] : [])
+    ])), provideTransloco({
         config: { 
           availableLangs: ['en', 'nl', 'fr'],
           // If a user previously selected a language, prefer that as the default
@@ -36,6 +48,15 @@ export const appConfig: ApplicationConfig = {
         },
         deps: [TranslocoService],
         multi: true
+      },
+      // Restore the persisted review session before the first navigation
+      {
+        provide: APP_INITIALIZER,
+        useFactory: (stateService: StateService) => {
+          return () => stateService.restoreSession();
+        },
+        deps: [StateService],
+        multi: true
       }
   ]
 };
@@ -1,10 +1,12 @@
 import { Routes } from '@angular/router';
 import { LoginPage } from './pages/login/login.page';
+import { ReviewPickerPage } from './pages/review-picker/review-picker.page';
 import { DisclaimerPage } from './pages/disclaimer/disclaimer.page';
 import { InputPage } from './pages/input/input.page';
 import { AnalysisPage } from './pages/analysis/analysis.page';
 import { AnamnesisPage } from './pages/anamnesis/anamnesis.page';
 import { ReportGenerationPage } from './pages/report-generation/report-generation.page';
+import { sessionGuard } from './guards/session.guard';
 
 export const routes: Routes = [
   {
@@ -16,24 +18,35 @@ export const routes: Routes = [
     path: 'login',
     component: LoginPage
   },
+  {
+    path: 'reviews',
+    component: ReviewPickerPage,
+    canActivate: [sessionGuard],
+    data: { requiresReview: false }
+  },
   {
     path: 'disclaimer',
-    component: DisclaimerPage
+    component: DisclaimerPage,
+    canActivate: [sessionGuard]
   },
   {
     path: 'input',
-    component: InputPage
+    component: InputPage,
+    canActivate: [sessionGuard]
   },
   {
     path: 'analysis',
-    component: AnalysisPage
+    component: AnalysisPage,
+    canActivate: [sessionGuard]
   },
   {
     path: 'anamnesis',
-    component: AnamnesisPage
+    component: AnamnesisPage,
+    canActivate: [sessionGuard]
   },
   {
     path: 'report-generation',
-    component: ReportGenerationPage
+    component: ReportGenerationPage,
+    canActivate: [sessionGuard]
   }
 ];
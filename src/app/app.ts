@@ -1,6 +1,8 @@
 import { Component, signal, HostListener, OnInit } from '@angular/core';
 import { RouterOutlet, Router, NavigationEnd } from '@angular/router';
 import { HeaderComponent } from './components/header/header.component';
+import { ToastContainerComponent } from './components/toast-container/toast-container.component';
+import { MergeConflictDialogComponent } from './components/merge-conflict-dialog/merge-conflict-dialog.component';
 import { CommonModule } from '@angular/common';
 import { TranslocoModule } from '@jsverse/transloco';
 import { filter } from 'rxjs/operators';
@@ -8,7 +10,7 @@ import { StateService } from './services/state.service';
 
 @Component({
   selector: 'app-root',
-  imports: [RouterOutlet, HeaderComponent, CommonModule, TranslocoModule],
+  imports: [RouterOutlet, HeaderComponent, ToastContainerComponent, MergeConflictDialogComponent, CommonModule, TranslocoModule],
   templateUrl: './app.html',
   styleUrls: ['./app.scss']
 })
@@ -44,7 +46,8 @@ export class App implements OnInit {
   }
 
   private checkRoute(url: string) {
-    this.isLoginPage = url === '/login' || url === '/' || url === '/disclaimer';
+    url = url.split('?')[0];
+    this.isLoginPage = url === '/login' || url === '/' || url === '/disclaimer' || url === '/reviews';
   }
 
   onOpenNoteOverview() {
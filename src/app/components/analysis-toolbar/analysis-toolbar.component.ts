@@ -7,10 +7,12 @@ export type ToolType =
   | 'therapy-adherence' 
   | 'interactions' 
   | 'contra-indications' 
+  | 'duplication' 
   | 'posology' 
   | 'renadapter' 
   | 'gheops' 
   | 'start-stop-nl' 
+  | 'deprescribing' 
   | 'questionnaire';
 
 export interface ToolItem {
@@ -31,6 +33,8 @@ export class AnalysisToolbarComponent {
   @Input() interactionCount: number = 0;
   @Input() contraindicationCount: number = 0;
   @Input() gheopsWarningCount: number = 0;
+  @Input() duplicationCount: number = 0;
+  @Input() deprescribingCount: number = 0;
   @Output() toolSelected = new EventEmitter<ToolType>();
 
   tools: ToolItem[] = [
@@ -54,6 +58,11 @@ export class AnalysisToolbarComponent {
       label: 'tools.contraindications',
       icon: 'person-warning'
     },
+    {
+      id: 'duplication',
+      label: 'tools.duplication',
+      icon: 'pills-copy'
+    },
     {
       id: 'posology',
       label: 'tools.posology',
@@ -74,6 +83,11 @@ export class AnalysisToolbarComponent {
       label: 'tools.start_stop',
       icon: 'play-stop'
     },
+    {
+      id: 'deprescribing',
+      label: 'tools.deprescribing',
+      icon: 'trend-down'
+    },
     {
       id: 'questionnaire',
       label: 'tools.questionnaire',
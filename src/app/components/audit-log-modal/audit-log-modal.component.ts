@@ -0,0 +1,157 @@
+import { Component, EventEmitter, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { TranslocoModule, TranslocoService } from '@jsverse/transloco';
+import { AuditService } from '../../services/audit.service';
+import { StateService } from '../../services/state.service';
+import { NotificationService } from '../../services/notification.service';
+import { AuditEntity, AuditEntry } from '../../models/api.models';
+
+/**
+ * Audit trail of the current review: who changed what and when.
+ * Filterable by entity and date range, exportable to CSV.
+ */
+@Component({
+  selector: 'app-audit-log-modal',
+  imports: [CommonModule, FormsModule, TranslocoModule],
+  templateUrl: './audit-log-modal.component.html',
+  styleUrls: ['./audit-log-modal.component.scss']
+})
+export class AuditLogModalComponent implements OnInit {
+  @Output() close = new EventEmitter<void>();
+
+  readonly entities: AuditEntity[] = ['patient', 'review', 'medication', 'contraindication', 'lab_value', 'dispensing_history', 'review_note', 'question_answer', 'deprescribing_plan'];
+
+  entries: AuditEntry[] = [];
+  isLoading: boolean = false;
+
+  // Filters
+  entityFilter: AuditEntity | '' = '';
+  dateFrom: string = '';   // yyyy-mm-dd, inclusive
+  dateUntil: string = '';  // yyyy-mm-dd, inclusive
+
+  constructor(
+    private auditService: AuditService,
+    private stateService: StateService,
+    private notificationService: NotificationService,
+    private transloco: TranslocoService
+  ) {}
+
+  ngOnInit(): void {
+    this.loadEntries();
+  }
+
+  get filteredEntries(): AuditEntry[] {
+    return this.entries.filter(entry => {
+      // Compare on the local calendar day of the change
+      const day = this.localDay(entry.occurredAt);
+      return (!this.entityFilter || entry.entity === this.entityFilter)
+        && (!this.dateFrom || day >= this.dateFrom)
+        && (!this.dateUntil || day <= this.dateUntil);
+    });
+  }
+
+  get hasFilters(): boolean {
+    return !!this.entityFilter || !!this.dateFrom || !!this.dateUntil;
+  }
+
+  loadEntries(): void {
+    const reviewId = this.stateService.medicationReviewId;
+    if (!reviewId) {
+      return;
+    }
+
+    this.isLoading = true;
+    this.auditService.getEntries(this.stateService.apbNumber, reviewId).subscribe({
+      next: entries => {
+        this.entries = entries;
+        this.isLoading = false;
+      },
+      error: error => {
+        this.isLoading = false;
+        this.notificationService.error('audit.load_failed', error);
+      }
+    });
+  }
+
+  clearFilters(): void {
+    this.entityFilter = '';
+    this.dateFrom = '';
+    this.dateUntil = '';
+  }
+
+  /**
+   * Download the filtered entries, one line per changed field
+   */
+  exportCsv(): void {
+    const t = (key: string) => this.transloco.translate(key);
+    const header = [t('audit.occurred_at'), t('audit.actor'), t('audit.entity'), t('audit.item'), t('audit.action'), t('audit.field'), t('audit.from'), t('audit.to')];
+
+    const lines = this.filteredEntries.flatMap(entry => {
+      const common = [
+        new Date(entry.occurredAt).toLocaleString(this.transloco.getActiveLang()),
+        entry.actor,
+        t(`audit.entities.${entry.entity}`),
+        entry.label ?? '',
+        t(`audit.actions.${entry.action}`)
+      ];
+      return entry.changes.length === 0
+        ? [[...common, '', '', '']]
+        : entry.changes.map(change => [...common, this.fieldLabel(change.field), this.formatValue(change.from), this.formatValue(change.to)]);
+    });
+
+    // Semicolons and a BOM, so Excel with Belgian regional settings opens it correctly
+    const csv = [header, ...lines].map(line => line.map(cell => this.csvCell(cell)).join(';')).join('\r\n');
+    const blob = new Blob(['﻿' + csv], { type: 'text/csv;charset=utf-8' });
+
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `audit-${this.stateService.medicationReviewId}-${new Date().toISOString().substring(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }
+
+  // Field names are shared with the merge dialog where possible
+  fieldLabel(field: string): string {
+    for (const key of [`audit.fields.${field}`, `concurrency.fields.${field}`]) {
+      const label = this.transloco.translate(key);
+      if (label !== key) {
+        return label;
+      }
+    }
+    return field;
+  }
+
+  formatValue(value: unknown): string {
+    if (value === null || value === undefined || value === '') {
+      return '—';
+    }
+    if (typeof value === 'boolean') {
+      return this.transloco.translate(value ? 'common.yes' : 'common.no');
+    }
+    if (typeof value === 'object') {
+      return JSON.stringify(value);
+    }
+    return String(value);
+  }
+
+  closeModal(): void {
+    this.close.emit();
+  }
+
+  onBackdropClick(event: MouseEvent): void {
+    if ((event.target as HTMLElement).classList.contains('modal-backdrop')) {
+      this.closeModal();
+    }
+  }
+
+  private localDay(timestamp: string): string {
+    const date = new Date(timestamp);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
+  private csvCell(value: string): string {
+    return /[";\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+}
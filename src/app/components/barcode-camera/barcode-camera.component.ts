@@ -0,0 +1,137 @@
+import { Component, ElementRef, EventEmitter, OnDestroy, OnInit, Output, ViewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { TranslocoModule } from '@jsverse/transloco';
+import { BrowserMultiFormatReader } from '@zxing/browser';
+import { BarcodeFormat, DecodeHintType } from '@zxing/library';
+
+// Shape Detection API; decodes on the device, not part of the TypeScript DOM typings yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance;
+
+const FORMATS = ['data_matrix', 'ean_13', 'ean_8', 'code_128', 'code_39'];
+const ZXING_FORMATS = [BarcodeFormat.DATA_MATRIX, BarcodeFormat.EAN_13, BarcodeFormat.EAN_8, BarcodeFormat.CODE_128, BarcodeFormat.CODE_39];
+
+// Reads the codes in the current frame of the video
+type FrameDecoder = (video: HTMLVideoElement) => Promise<string[]>;
+
+// Time between two decoding attempts
+const SCAN_INTERVAL_MS = 250;
+
+/**
+ * Camera preview that reports the barcodes it reads. Decoding happens on the device, so no
+ * image leaves it: with the bundled ZXing decoder, or the browser's built-in BarcodeDetector
+ * where it is available and supports the package formats (faster, native).
+ */
+@Component({
+  selector: 'app-barcode-camera',
+  imports: [CommonModule, TranslocoModule],
+  templateUrl: './barcode-camera.component.html',
+  styleUrls: ['./barcode-camera.component.scss']
+})
+export class BarcodeCameraComponent implements OnInit, OnDestroy {
+  @Output() scanned = new EventEmitter<string>();
+  @ViewChild('video', { static: true }) video!: ElementRef<HTMLVideoElement>;
+
+  errorKey: string | null = null;
+
+  private stream: MediaStream | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private detecting = false;
+  private destroyed = false;
+
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+  }
+
+  async ngOnInit(): Promise<void> {
+    if (!BarcodeCameraComponent.isSupported()) {
+      this.errorKey = 'barcode.camera_unsupported';
+      return;
+    }
+
+    try {
+      this.stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false });
+    } catch {
+      this.errorKey = 'barcode.camera_denied';
+      return;
+    }
+    // Closed while the browser was asking for permission
+    if (this.destroyed) {
+      this.stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    const video = this.video.nativeElement;
+    video.srcObject = this.stream;
+    await video.play().catch(() => undefined);
+
+    const decode = (await this.nativeDecoder()) ?? this.zxingDecoder();
+    if (!this.destroyed) {
+      this.timer = setInterval(() => this.detect(decode), SCAN_INTERVAL_MS);
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.destroyed = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+    this.stream?.getTracks().forEach(track => track.stop());
+  }
+
+  // Null when the browser has no BarcodeDetector, or one that cannot read the package formats
+  private async nativeDecoder(): Promise<FrameDecoder | null> {
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor & { getSupportedFormats?(): Promise<string[]> } }).BarcodeDetector;
+    if (!Detector) {
+      return null;
+    }
+    try {
+      const supported = (await Detector.getSupportedFormats?.()) ?? FORMATS;
+      if (!FORMATS.every(format => supported.includes(format))) {
+        return null;
+      }
+      const detector = new Detector({ formats: FORMATS });
+      return async video => (await detector.detect(video)).map(barcode => barcode.rawValue);
+    } catch {
+      return null;
+    }
+  }
+
+  private zxingDecoder(): FrameDecoder {
+    const hints = new Map<DecodeHintType, unknown>([[DecodeHintType.POSSIBLE_FORMATS, ZXING_FORMATS]]);
+    const reader = new BrowserMultiFormatReader(hints);
+    const canvas = document.createElement('canvas');
+
+    return async video => {
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      canvas.getContext('2d', { willReadFrequently: true })?.drawImage(video, 0, 0);
+      // Throws when the frame holds no readable code
+      return [reader.decodeFromCanvas(canvas).getText()];
+    };
+  }
+
+  private async detect(decode: FrameDecoder): Promise<void> {
+    const video = this.video.nativeElement;
+    if (this.detecting || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) {
+      return;
+    }
+
+    this.detecting = true;
+    try {
+      const codes = await decode(video);
+      codes.forEach(code => this.scanned.emit(code));
+    } catch {
+      // A frame that cannot be decoded; try the next one
+    } finally {
+      this.detecting = false;
+    }
+  }
+}
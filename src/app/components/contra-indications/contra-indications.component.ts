@@ -5,6 +5,7 @@ import { ContraindicationModalComponent } from '../contraindication-modal/contra
 import { ApiService } from '../../services/api.service';
 import { StateService } from '../../services/state.service';
 import { Contraindication } from '../../models/api.models';
+import { NotificationService } from '../../services/notification.service';
 
 @Component({
   selector: 'app-contra-indications',
@@ -21,7 +22,8 @@ export class ContraIndicationsComponent implements OnInit {
   constructor(
     private apiService: ApiService,
     private stateService: StateService,
-    private transloco: TranslocoService
+    private transloco: TranslocoService,
+    private notificationService: NotificationService
   ) {}
 
   ngOnInit() {
@@ -78,7 +80,7 @@ export class ContraIndicationsComponent implements OnInit {
         this.stateService.notifyContraindicationsChanged();
       },
       error: (error) => {
-        alert(this.transloco.translate('errors.failed_remove_contraindication'));
+        this.notificationService.error('errors.failed_remove_contraindication', error);
       }
     });
   }
@@ -5,7 +5,7 @@ import { Subscription } from 'rxjs';
 import { ApiService } from '../../services/api.service';
 import { StateService } from '../../services/state.service';
 import { ContraindicationsCacheService } from '../../services/contraindications-cache.service';
-import { Medication } from '../../models/api.models';
+import { Medication, ContraindicationMatchesResponse, ProductContraindicationsResponse } from '../../models/api.models';
 
 // API Interfaces
 interface ContraindicationDetail {
@@ -119,16 +119,15 @@ export class ContraindicationsComponent implements OnInit, OnDestroy {
     return this.contraindicationsCache.getCacheData().loadingProductContraindications;
   }
 
-  processContraindicationMatches(response: any) {
+  processContraindicationMatches(response: ContraindicationMatchesResponse) {
     this.contraindicationMatches = [];
     
     if (!response.result || response.result.length === 0) {
       return;
     }
 
-    response.result.forEach((match: any) => {
-      // Backend returns Code (capital C) not code (lowercase c)
-      const cnkCode = match.product?.Code || match.product?.code;
+    response.result.forEach(match => {
+      const cnkCode = match.product?.code ?? '';
       const medName = this.getMedicationName(cnkCode);
       
       // Map appreciation codes: '0' = absolute CI, '2'/'3' = precautions
@@ -150,9 +149,9 @@ export class ContraindicationsComponent implements OnInit, OnDestroy {
         appreciation: appreciationText,
         appreciationCode: appreciationCode,
         medication: medName,
-        medicationCnk: match.product?.Code || match.product?.code || 'Unknown',
-        condition: match.physioPathologicalCondition?.Description || match.physioPathologicalCondition?.description || 'Unknown',
-        conditionCode: match.physioPathologicalCondition?.Code || match.physioPathologicalCondition?.code || 'Unknown',
+        medicationCnk: match.product?.code || 'Unknown',
+        condition: match.physioPathologicalCondition?.description || 'Unknown',
+        conditionCode: match.physioPathologicalCondition?.code || 'Unknown',
         contraindications: match.contraIndications || [] // Array of contraindication details
       });
     });
@@ -164,7 +163,7 @@ export class ContraindicationsComponent implements OnInit, OnDestroy {
 
   }
 
-  processProductContraindications(results: any[]) {
+  processProductContraindications(results: ProductContraindicationsResponse[]) {
     this.productContraindications = [];
     
     results.forEach(response => {
@@ -175,10 +174,9 @@ export class ContraindicationsComponent implements OnInit, OnDestroy {
       const cnk = response.cnk;
       const medName = this.getMedicationName(cnk);
 
-      response.result.forEach((item: any) => {
-        // Backend returns Code/Description with capital letters
-        const conditionCode = item.physioPathologicalCondition?.Code || item.physioPathologicalCondition?.code;
-        const conditionDesc = item.physioPathologicalCondition?.Description || item.physioPathologicalCondition?.description;
+      response.result.forEach(item => {
+        const conditionCode = item.physioPathologicalCondition?.code;
+        const conditionDesc = item.physioPathologicalCondition?.description;
         
         // Only add if not already in patient contraindications
         const isInPatientList = this.patientContraindications.some(
@@ -2,16 +2,38 @@ import { Component, EventEmitter, Output } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { TranslocoModule, TranslocoService } from '@jsverse/transloco';
-import { forkJoin } from 'rxjs';
-import * as XLSX from 'xlsx';
+import { catchError, forkJoin, map, of } from 'rxjs';
 import { ApiService } from '../../services/api.service';
 import { StateService } from '../../services/state.service';
 import { ImportMedicationsResponse, ImportedMedication, MedicationSearchRequest, ImportProgressEvent, ImportCompleteEvent } from '../../models/api.models';
+import { NotificationService } from '../../services/notification.service';
+import { PosologyInputComponent } from '../posology-input/posology-input.component';
+import { ParsedPosology } from '../../services/posology-parser.service';
+import {
+  IMPORT_FIELDS,
+  ImportColumnMapping,
+  ImportDelimiter,
+  ImportMappingService,
+  ImportProfile,
+  ImportSource,
+  ImportTable,
+  MappedMedicationRow
+} from '../../services/import-mapping.service';
+import {
+  ImportDiff,
+  ImportDiffEntry,
+  ImportDiffKind,
+  IncomingMedication,
+  MedicationImportDiffService
+} from '../../services/medication-import-diff.service';
+
+// Rows of the file shown while mapping the columns
+const PREVIEW_ROWS = 5;
 
 @Component({
   selector: 'app-csv-import-modal',
   standalone: true,
-  imports: [CommonModule, FormsModule, TranslocoModule],
+  imports: [CommonModule, FormsModule, TranslocoModule, PosologyInputComponent],
   templateUrl: './csv-import-modal.component.html',
   styleUrls: ['./csv-import-modal.component.scss']
 })
@@ -25,6 +47,25 @@ export class CsvImportModalComponent {
   importResults: ImportMedicationsResponse | null = null;
   errorMessage: string | null = null;
 
+  // Column mapping of the selected file
+  readonly fields = IMPORT_FIELDS;
+  readonly delimiters: ImportDelimiter[] = [';', ',', '\t'];
+  source: ImportSource | null = null;
+  table: ImportTable | null = null;
+  columns: ImportColumnMapping[] = [];
+  delimiter: ImportDelimiter = ';';
+  sheetName: string | null = null;
+  headerRow = 1;
+  profiles: ImportProfile[] = [];
+  selectedProfileName = '';
+  profileName = '';
+
+  // Comparison with the current list before anything is saved
+  readonly kinds: ImportDiffKind[] = ['new', 'changed', 'unchanged'];
+  importDiff: ImportDiff | null = null;
+  comparing = false;
+  private rowsByIncoming = new Map<IncomingMedication, MappedMedicationRow>();
+
   // Progress tracking for SSE
   importProgress = {
     current: 0,
@@ -47,8 +88,13 @@ export class CsvImportModalComponent {
   constructor(
     private apiService: ApiService,
     private stateService: StateService,
-    private transloco: TranslocoService
-  ) {}
+    private transloco: TranslocoService,
+    private notificationService: NotificationService,
+    private importMapping: ImportMappingService,
+    public medicationImportDiff: MedicationImportDiffService
+  ) {
+    this.profiles = this.importMapping.getProfiles();
+  }
 
   async onFileSelected(event: any) {
     const file: File = event.target.files[0];
@@ -60,80 +106,142 @@ export class CsvImportModalComponent {
 
       if (!isExcel && !isCsv) {
         this.errorMessage = this.transloco.translate('csv_import.error_invalid_file_type');
-        this.selectedFile = null;
-        this.originalFileName = null;
+        this.resetMapping();
         return;
       }
 
       this.errorMessage = null;
-
-      if (isExcel) {
-        // Convert Excel to CSV
-        this.converting = true;
-        this.originalFileName = file.name;
-        try {
-          this.selectedFile = await this.convertExcelToCsv(file);
-        } catch (error) {
-          this.errorMessage = this.transloco.translate('csv_import.error_conversion_failed');
-          this.selectedFile = null;
-          this.originalFileName = null;
-          console.error('Excel conversion error:', error);
-        } finally {
-          this.converting = false;
+      this.importDiff = null;
+      this.converting = true;
+      this.originalFileName = file.name;
+      try {
+        this.source = await this.importMapping.read(file);
+        this.delimiter = isCsv ? this.importMapping.detectDelimiter(this.source) : ';';
+        this.sheetName = this.source.sheetNames[0] ?? null;
+        this.headerRow = 1;
+        this.selectedProfileName = '';
+        this.loadTable();
+
+        // Files of a known export source get their saved layout straight away
+        const profile = this.table ? this.importMapping.findProfile(this.profiles, this.table.headers) : null;
+        if (profile) {
+          this.applyProfile(profile.name);
         }
-      } else {
-        this.selectedFile = file;
-        this.originalFileName = null;
+      } catch (error) {
+        this.errorMessage = this.transloco.translate('csv_import.error_conversion_failed');
+        this.resetMapping();
+        console.error('File read error:', error);
+      } finally {
+        this.converting = false;
+        // Selecting the same file again should still trigger a change
+        event.target.value = '';
       }
     }
   }
 
-  private async convertExcelToCsv(excelFile: File): Promise<File> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      
-      reader.onload = (e) => {
-        try {
-          const arrayBuffer = e.target?.result as ArrayBuffer;
-          
-          // Parse the Excel file
-          const workbook = XLSX.read(arrayBuffer, { 
-            type: 'array',
-            cellDates: true,
-            cellNF: false,
-            cellText: false
-          });
-          
-          // Get the first sheet
-          const firstSheetName = workbook.SheetNames[0];
-          const worksheet = workbook.Sheets[firstSheetName];
-          
-          // Convert to CSV
-          const csvContent = XLSX.utils.sheet_to_csv(worksheet, {
-            blankrows: false,
-            skipHidden: true
-          });
-          
-          // Create a new File object with the CSV content
-          const csvFileName = excelFile.name.replace(/\.(xlsx|xls)$/i, '.csv');
-          const csvFile = new File(
-            [csvContent], 
-            csvFileName, 
-            { type: 'text/csv' }
-          );
-          
-          resolve(csvFile);
-        } catch (error) {
-          reject(error);
-        }
-      };
-      
-      reader.onerror = () => {
-        reject(new Error('Failed to read file'));
-      };
-      
-      reader.readAsArrayBuffer(excelFile);
+  // ---------------------------------------------------------------------------
+  // Column mapping
+  // ---------------------------------------------------------------------------
+
+  get isExcel(): boolean {
+    return !!this.source?.workbook;
+  }
+
+  get previewRows(): string[][] {
+    return this.table?.rows.slice(0, PREVIEW_ROWS) ?? [];
+  }
+
+  get mappedPreview(): MappedMedicationRow[] {
+    return this.table ? this.importMapping.apply({ ...this.table, rows: this.previewRows }, this.columns) : [];
+  }
+
+  get hasNameColumn(): boolean {
+    return this.columns.some(column => column.field === 'name' || column.field === 'cnk');
+  }
+
+  /**
+   * Re-reads the rows after a change of delimiter, sheet or header row, keeping the mapping
+   * of the columns that are still there
+   */
+  onLayoutChange() {
+    const previous = this.columns;
+    this.loadTable();
+    if (previous.length && this.table) {
+      this.columns = this.importMapping.applyProfile(
+        { name: '', delimiter: this.delimiter, sheetName: this.sheetName, headerRow: this.headerRow, columns: previous },
+        this.table.headers
+      );
+    }
+  }
+
+  applyProfile(name: string) {
+    const profile = this.profiles.find(item => item.name === name);
+    this.selectedProfileName = profile?.name ?? '';
+    if (!profile || !this.source) {
+      return;
+    }
+    this.profileName = profile.name;
+    this.delimiter = profile.delimiter ?? this.importMapping.detectDelimiter(this.source);
+    this.sheetName = profile.sheetName && this.source.sheetNames.includes(profile.sheetName) ? profile.sheetName : this.source.sheetNames[0] ?? null;
+    this.headerRow = profile.headerRow;
+    this.loadTable();
+    if (this.table) {
+      this.columns = this.importMapping.applyProfile(profile, this.table.headers);
+    }
+  }
+
+  saveProfile() {
+    const name = this.profileName.trim();
+    if (!name || !this.hasNameColumn) {
+      return;
+    }
+    this.profiles = this.importMapping.saveProfile({
+      name,
+      delimiter: this.isExcel ? null : this.delimiter,
+      sheetName: this.isExcel ? this.sheetName : null,
+      headerRow: this.headerRow,
+      columns: this.columns
     });
+    this.selectedProfileName = name;
+    this.notificationService.success('csv_import.mapping.profile_saved', { name });
+  }
+
+  deleteProfile() {
+    const name = this.selectedProfileName;
+    if (!name || !confirm(this.transloco.translate('csv_import.mapping.confirm_delete_profile', { name }))) {
+      return;
+    }
+    this.profiles = this.importMapping.deleteProfile(name);
+    this.selectedProfileName = '';
+  }
+
+  intakeSummary(row: MappedMedicationRow): string {
+    const parts = [row.unitsBeforeBreakfast, row.unitsDuringBreakfast, row.unitsBeforeLunch, row.unitsDuringLunch,
+      row.unitsBeforeDinner, row.unitsDuringDinner, row.unitsAtBedtime];
+    const intake = parts.some(units => units) ? parts.map(units => units ?? 0).join('-') : '';
+    const asNeeded = row.asNeeded ? this.transloco.translate('csv_import.as_needed') : '';
+    return [intake, asNeeded].filter(Boolean).join(' · ');
+  }
+
+  private loadTable() {
+    if (!this.source) {
+      return;
+    }
+    this.table = this.importMapping.table(this.source, {
+      delimiter: this.delimiter,
+      sheetName: this.sheetName,
+      headerRow: this.headerRow
+    });
+    this.columns = this.importMapping.suggest(this.table.headers);
+  }
+
+  private resetMapping() {
+    this.importDiff = null;
+    this.source = null;
+    this.table = null;
+    this.columns = [];
+    this.originalFileName = null;
+    this.selectedProfileName = '';
   }
 
   triggerFileInput() {
@@ -141,14 +249,30 @@ export class CsvImportModalComponent {
     fileInput?.click();
   }
 
-  importMedications() {
-    console.log('=== IMPORT MEDICATIONS CALLED ===');
-    console.log('selectedFile:', this.selectedFile);
-    
-    if (!this.selectedFile) {
+  // ---------------------------------------------------------------------------
+  // Comparison with the current list
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Dry run of the import: the mapped rows are compared with the medications of the review
+   * (same CNK, VMP or active ingredient), so a file imported twice adds nothing by default.
+   * Nothing is saved until the decisions are confirmed.
+   */
+  compareWithCurrent() {
+    if (!this.source || !this.table) {
       this.errorMessage = this.transloco.translate('csv_import.error_select_file');
       return;
     }
+    if (!this.hasNameColumn) {
+      this.errorMessage = this.transloco.translate('csv_import.mapping.error_no_name_column');
+      return;
+    }
+
+    const rows = this.importMapping.apply(this.table, this.columns);
+    if (rows.length === 0) {
+      this.errorMessage = this.transloco.translate('csv_import.mapping.error_no_rows');
+      return;
+    }
 
     const apbNumber = this.stateService.apbNumber;
     const reviewId = this.stateService.medicationReviewId;
@@ -157,6 +281,120 @@ export class CsvImportModalComponent {
       return;
     }
 
+    // Without VMP groups the rows are still matched on CNK, active ingredient and name
+    const cnkCodes = [...new Set(rows.map(row => row.cnk).filter((cnk): cnk is string => !!cnk))];
+    const vmpByCnk$ = cnkCodes.length
+      ? this.apiService.getBulkVmpFromCnk(cnkCodes).pipe(
+          map(response => new Map(response.results.filter(result => result.found).map(result => [result.cnk, result.vmp]))),
+          catchError(error => {
+            console.error('[Import] VMP lookup failed:', error);
+            return of(new Map<number, number | null>());
+          })
+        )
+      : of(new Map<number, number | null>());
+
+    this.comparing = true;
+    this.errorMessage = null;
+    forkJoin({
+      current: this.apiService.getMedications(apbNumber, reviewId),
+      vmpByCnk: vmpByCnk$
+    }).subscribe({
+      next: ({ current, vmpByCnk }) => {
+        this.comparing = false;
+        this.rowsByIncoming.clear();
+        const incoming = rows.map(row => {
+          const item = this.importMapping.toIncoming(row, row.cnk ? vmpByCnk.get(Number(row.cnk)) ?? null : null);
+          this.rowsByIncoming.set(item, row);
+          return item;
+        });
+        this.importDiff = this.medicationImportDiff.diff(current, incoming);
+      },
+      error: (err) => {
+        console.error('[Import] Comparison failed:', err);
+        this.comparing = false;
+        this.errorMessage = this.transloco.translate('csv_import.dry_run.error_compare_failed');
+      }
+    });
+  }
+
+  get pendingCount(): number {
+    return this.importDiff?.entries.filter(entry => entry.decision !== 'skip').length ?? 0;
+  }
+
+  countOf(kind: ImportDiffKind): number {
+    return this.importDiff?.entries.filter(entry => entry.kind === kind).length ?? 0;
+  }
+
+  rowOf(entry: ImportDiffEntry): MappedMedicationRow | undefined {
+    return this.rowsByIncoming.get(entry.incoming);
+  }
+
+  resetDecisions() {
+    this.importDiff?.entries.forEach(entry => entry.decision = this.medicationImportDiff.defaultDecision(entry));
+  }
+
+  skipAll() {
+    this.importDiff?.entries.forEach(entry => entry.decision = 'skip');
+  }
+
+  backToMapping() {
+    this.importDiff = null;
+    this.errorMessage = null;
+  }
+
+  /**
+   * Writes the decisions: updates go straight to the matched medications, the rows to add go
+   * through the regular import and are reviewed afterwards
+   */
+  confirmImport() {
+    if (!this.importDiff || !this.source || this.pendingCount === 0 || this.importing) {
+      return;
+    }
+
+    const apbNumber = this.stateService.apbNumber;
+    const reviewId = this.stateService.medicationReviewId;
+    const updates = this.importDiff.entries.filter(entry => entry.decision === 'update');
+    const additions = this.importDiff.entries
+      .filter(entry => entry.decision === 'add')
+      .map(entry => this.rowOf(entry))
+      .filter((row): row is MappedMedicationRow => !!row);
+    const fileName = this.source.fileName;
+
+    this.importing = true;
+    this.errorMessage = null;
+    this.medicationImportDiff.update(apbNumber, reviewId, updates).subscribe({
+      next: updated => {
+        if (updated > 0) {
+          this.stateService.notifyMedicationsChanged();
+        }
+        if (updated < updates.length) {
+          this.notificationService.warning('csv_import.dry_run.updated_partial', { updated, failed: updates.length - updated });
+        } else if (updated > 0) {
+          this.notificationService.success('csv_import.dry_run.updated', { updated });
+        }
+
+        if (additions.length === 0) {
+          this.importing = false;
+          this.close.emit(updated > 0);
+          return;
+        }
+        this.startImport(this.importMapping.toCsvFile(additions, fileName));
+      },
+      error: (err) => {
+        this.importing = false;
+        this.notificationService.error('csv_import.error_update_failed', err);
+      }
+    });
+  }
+
+  /**
+   * Sends the rows to add to the import endpoint; the imported medications are shown for review
+   */
+  private startImport(file: File) {
+    this.selectedFile = file;
+    const apbNumber = this.stateService.apbNumber;
+    const reviewId = this.stateService.medicationReviewId;
+
     console.log('[Component] Starting import:', {
       fileName: this.selectedFile.name,
       fileSize: this.selectedFile.size,
@@ -297,6 +535,26 @@ export class CsvImportModalComponent {
     }
   }
 
+  /**
+   * A posology notation left in the medication name by the import, e.g. "Pantoprazole 40 mg 1-0-0"
+   */
+  posologyInName(medication: ImportedMedication): string {
+    return medication.medicationName?.match(/\b\d+(?:[.,]\d+)?(?:\s*-\s*\d+(?:[.,]\d+)?){2,3}\s*$/)?.[0].trim() ?? '';
+  }
+
+  applyPosology(posology: ParsedPosology) {
+    this.editValues['intakeMoments'] = {
+      unitsBeforeBreakfast: posology.unitsBeforeBreakfast || 0,
+      unitsDuringBreakfast: posology.unitsDuringBreakfast || 0,
+      unitsBeforeLunch: posology.unitsBeforeLunch || 0,
+      unitsDuringLunch: posology.unitsDuringLunch || 0,
+      unitsBeforeDinner: posology.unitsBeforeDinner || 0,
+      unitsDuringDinner: posology.unitsDuringDinner || 0,
+      unitsAtBedtime: posology.unitsAtBedtime || 0,
+      asNeeded: posology.asNeeded
+    };
+  }
+
   cancelEditing() {
     this.editingMedicationId = null;
     this.editingField = null;
@@ -357,7 +615,7 @@ export class CsvImportModalComponent {
         this.cancelEditing();
       },
       error: (err) => {
-        alert(this.transloco.translate('csv_import.error_update_failed') + ': ' + (err.error?.error || 'Unknown error'));
+        this.notificationService.error('csv_import.error_update_failed', err);
         console.error('Update error:', err);
       }
     });
@@ -379,14 +637,14 @@ export class CsvImportModalComponent {
     if (field === 'cnk') {
       const cnkNumber = parseInt(this.editValues['cnk']);
       if (isNaN(cnkNumber) || cnkNumber < 1000000 || cnkNumber > 9999999) {
-        alert(this.transloco.translate('csv_import.error_invalid_cnk'));
+        this.notificationService.warning('csv_import.error_invalid_cnk');
         return;
       }
       updateData.cnk = cnkNumber;
     } else if (field === 'vmp') {
       const vmpNumber = parseInt(this.editValues['vmp']);
       if (this.editValues['vmp'] && (isNaN(vmpNumber) || vmpNumber <= 0)) {
-        alert('Invalid VMP code. Please enter a valid number.');
+        this.notificationService.warning('errors.invalid_vmp_code');
         return;
       }
       updateData.vmp = vmpNumber || null;
@@ -444,7 +702,7 @@ export class CsvImportModalComponent {
         this.cancelEditing();
       },
       error: (err) => {
-        alert(this.transloco.translate('csv_import.error_update_failed') + ': ' + (err.error?.error || 'Unknown error'));
+        this.notificationService.error('csv_import.error_update_failed', err);
         console.error('Update error:', err);
       }
     });
@@ -489,7 +747,7 @@ export class CsvImportModalComponent {
         this.stateService.notifyMedicationsChanged();
       },
       error: (err) => {
-        alert(this.transloco.translate('csv_import.error_delete_failed') + ': ' + (err.error?.error || 'Unknown error'));
+        this.notificationService.error('csv_import.error_delete_failed', err);
         console.error('Delete error:', err);
       }
     });
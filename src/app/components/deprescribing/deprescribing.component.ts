@@ -0,0 +1,320 @@
+import { Component, EventEmitter, OnDestroy, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { TranslocoModule, TranslocoService } from '@jsverse/transloco';
+import { Subject, catchError, forkJoin, of, takeUntil } from 'rxjs';
+import {
+  DeprescribingOutcome,
+  DeprescribingPlan,
+  DeprescribingPlanStatus,
+  DeprescribingProgress,
+  Medication,
+  ReviewNote
+} from '../../models/api.models';
+import { ApiService } from '../../services/api.service';
+import { StateService } from '../../services/state.service';
+import { NotificationService } from '../../services/notification.service';
+import { MedicationStatusService } from '../../services/medication-status.service';
+import { DosageRegimenService } from '../../services/dosage-regimen.service';
+import { DeprescribingService, TaperingProposal, TimelineEvent } from '../../services/deprescribing.service';
+
+type PlanDraft = Omit<DeprescribingPlan, 'planId'> & { planId?: string };
+
+@Component({
+  selector: 'app-deprescribing',
+  standalone: true,
+  imports: [CommonModule, FormsModule, TranslocoModule],
+  templateUrl: './deprescribing.component.html',
+  styleUrls: ['./deprescribing.component.scss']
+})
+export class DeprescribingComponent implements OnInit, OnDestroy {
+  @Output() plansLoaded = new EventEmitter<number>();
+
+  readonly statuses: DeprescribingPlanStatus[] = ['active', 'paused', 'completed', 'abandoned'];
+  readonly outcomes: DeprescribingOutcome[] = ['as_planned', 'withdrawal_symptoms', 'step_postponed', 'relapse', 'stopped'];
+
+  plans: DeprescribingPlan[] = [];
+  medications: Medication[] = [];
+  notes: ReviewNote[] = [];
+  isLoading = true;
+  hasError = false;
+  isSaving = false;
+
+  draft: PlanDraft | null = null;
+  proposal: TaperingProposal | null = null;
+  progressDraft: (DeprescribingProgress & { planId: string }) | null = null;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private apiService: ApiService,
+    private stateService: StateService,
+    private transloco: TranslocoService,
+    private notificationService: NotificationService,
+    private medicationStatus: MedicationStatusService,
+    private dosageRegimen: DosageRegimenService,
+    public deprescribing: DeprescribingService
+  ) {}
+
+  ngOnInit() {
+    this.stateService.medicationsChanged$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.refreshData());
+
+    this.refreshData();
+  }
+
+  ngOnDestroy() {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  refreshData() {
+    const apbNumber = this.stateService.apbNumber;
+    const reviewId = this.stateService.medicationReviewId;
+    if (!reviewId) {
+      this.isLoading = false;
+      return;
+    }
+
+    this.isLoading = true;
+    this.hasError = false;
+    forkJoin({
+      plans: this.deprescribing.getPlans(),
+      medications: this.apiService.getMedications(apbNumber, reviewId),
+      notes: this.apiService.getReviewNotes(apbNumber, reviewId).pipe(catchError(() => of([])))
+    })
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: data => {
+          this.plans = data.plans;
+          this.medications = data.medications;
+          this.notes = data.notes;
+          this.isLoading = false;
+          this.emitCount();
+        },
+        error: () => {
+          this.plans = [];
+          this.hasError = true;
+          this.isLoading = false;
+          this.plansLoaded.emit(0);
+        }
+      });
+  }
+
+  /**
+   * Medications a new plan can be made for: not stopped and without a plan yet
+   */
+  get plannableMedications(): Medication[] {
+    const planned = new Set(this.plans.map(plan => plan.medicationId));
+    return this.medicationStatus.forChecks(this.medications)
+      .filter(medication => !planned.has(medication.medicationId) || medication.medicationId === this.draft?.medicationId);
+  }
+
+  get linkableNotes(): ReviewNote[] {
+    return this.deprescribing.linkableNotes(this.notes, this.draft?.medicationName);
+  }
+
+  timelineOf(plan: DeprescribingPlan): TimelineEvent[] {
+    return this.deprescribing.timeline(plan);
+  }
+
+  linkedNote(plan: DeprescribingPlan): ReviewNote | null {
+    return plan.linkedNoteId ? this.notes.find(note => note.rowKey === plan.linkedNoteId) ?? null : null;
+  }
+
+  formatDate(day: string): string {
+    return day ? this.medicationStatus.formatDate(day) : '';
+  }
+
+  // ---------------------------------------------------------------------------
+  // Plan editor
+  // ---------------------------------------------------------------------------
+
+  startPlan() {
+    const today = this.deprescribing.today();
+    this.draft = {
+      medicationId: null,
+      medicationName: '',
+      cnk: null,
+      reason: '',
+      linkedNoteId: null,
+      status: 'active',
+      steps: [],
+      monitoring: [],
+      progress: []
+    };
+    this.proposal = { startDate: today, startUnits: 1, reductionPercent: 25, daysPerStep: 14, smallestUnit: 0.5 };
+  }
+
+  editPlan(plan: DeprescribingPlan) {
+    this.draft = {
+      ...plan,
+      steps: plan.steps.map(step => ({ ...step })),
+      monitoring: plan.monitoring.map(point => ({ ...point })),
+      progress: plan.progress.map(entry => ({ ...entry }))
+    };
+    this.proposal = null;
+  }
+
+  cancelEdit() {
+    this.draft = null;
+    this.proposal = null;
+  }
+
+  onMedicationChange(medicationId: string) {
+    if (!this.draft) {
+      return;
+    }
+    const medication = this.medications.find(item => item.medicationId === medicationId);
+    this.draft.medicationId = medication?.medicationId ?? null;
+    this.draft.medicationName = medication?.name ?? '';
+    this.draft.cnk = medication?.cnk ? String(medication.cnk) : null;
+
+    // Start the schedule from the current daily dose
+    const dailyUnits = medication ? this.dosageRegimen.unitsPerIntakeDay(medication) : 0;
+    if (this.proposal && dailyUnits > 0) {
+      this.proposal.startUnits = dailyUnits;
+    }
+  }
+
+  onNoteChange(noteId: string | null) {
+    if (!this.draft) {
+      return;
+    }
+    this.draft.linkedNoteId = noteId || null;
+    const note = this.notes.find(item => item.rowKey === noteId);
+    if (note?.text && !this.draft.reason) {
+      this.draft.reason = note.text;
+    }
+  }
+
+  applyProposal() {
+    if (!this.draft || !this.proposal || this.proposal.startUnits <= 0 || this.proposal.daysPerStep <= 0) {
+      return;
+    }
+    this.draft.steps = this.deprescribing.propose(this.proposal);
+
+    // A follow-up a few days into every step, to catch withdrawal symptoms early
+    this.draft.monitoring = this.draft.steps.slice(1).map(step => ({
+      date: this.deprescribing.addDays(step.startDate, 3),
+      description: this.transloco.translate('deprescribing.default_monitoring'),
+      done: false
+    }));
+  }
+
+  addStep() {
+    if (!this.draft) {
+      return;
+    }
+    const last = this.draft.steps[this.draft.steps.length - 1];
+    this.draft.steps.push({
+      startDate: last ? this.deprescribing.addDays(last.startDate, 14) : this.deprescribing.today(),
+      unitsPerDay: last ? Math.max(0, last.unitsPerDay - 0.5) : 1,
+      instructions: null
+    });
+  }
+
+  removeStep(index: number) {
+    this.draft?.steps.splice(index, 1);
+  }
+
+  addMonitoring() {
+    if (!this.draft) {
+      return;
+    }
+    this.draft.monitoring.push({ date: this.deprescribing.today(), description: '', done: false });
+  }
+
+  removeMonitoring(index: number) {
+    this.draft?.monitoring.splice(index, 1);
+  }
+
+  get canSave(): boolean {
+    return !!this.draft?.medicationName && this.draft.steps.length > 0 && this.draft.steps.every(step => !!step.startDate) && !this.isSaving;
+  }
+
+  savePlan() {
+    if (!this.draft || !this.canSave) {
+      return;
+    }
+    const monitoring = this.draft.monitoring.filter(point => point.date && point.description.trim());
+    this.persist({ ...this.draft, monitoring }, 'deprescribing.saved', () => this.cancelEdit());
+  }
+
+  deletePlan(plan: DeprescribingPlan) {
+    const message = this.transloco.translate('deprescribing.delete_confirm', { name: plan.medicationName });
+    if (!confirm(message)) {
+      return;
+    }
+    this.deprescribing.delete(plan)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: () => {
+          this.plans = this.plans.filter(item => item.planId !== plan.planId);
+          this.emitCount();
+        },
+        error: error => this.notificationService.error('deprescribing.save_failed', error)
+      });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Follow-up
+  // ---------------------------------------------------------------------------
+
+  toggleMonitoring(plan: DeprescribingPlan, index: number) {
+    const monitoring = plan.monitoring.map((point, i) => i === index ? { ...point, done: !point.done } : point);
+    this.persist({ ...plan, monitoring });
+  }
+
+  startProgress(plan: DeprescribingPlan) {
+    this.progressDraft = { planId: plan.planId, date: this.deprescribing.today(), outcome: 'as_planned', remark: '' };
+  }
+
+  cancelProgress() {
+    this.progressDraft = null;
+  }
+
+  saveProgress(plan: DeprescribingPlan) {
+    if (!this.progressDraft?.date) {
+      return;
+    }
+    const { planId, ...entry } = this.progressDraft;
+    // Stopping ends the plan, whatever step it was in
+    const status: DeprescribingPlanStatus = entry.outcome === 'stopped' ? 'completed' : plan.status;
+    this.persist({ ...plan, status, progress: [...plan.progress, { ...entry, remark: entry.remark?.trim() || null }] },
+      'deprescribing.progress_saved', () => this.progressDraft = null);
+  }
+
+  setStatus(plan: DeprescribingPlan, status: DeprescribingPlanStatus) {
+    this.persist({ ...plan, status });
+  }
+
+  private persist(plan: PlanDraft, successKey?: string, done?: () => void) {
+    this.isSaving = true;
+    this.deprescribing.save(plan)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: saved => {
+          const index = this.plans.findIndex(item => item.planId === saved.planId);
+          this.plans = index === -1
+            ? [...this.plans, saved]
+            : this.plans.map(item => item.planId === saved.planId ? saved : item);
+          this.isSaving = false;
+          this.emitCount();
+          if (successKey) {
+            this.notificationService.success(successKey, { name: saved.medicationName });
+          }
+          done?.();
+        },
+        error: error => {
+          this.isSaving = false;
+          this.notificationService.error('deprescribing.save_failed', error);
+        }
+      });
+  }
+
+  private emitCount() {
+    this.plansLoaded.emit(this.plans.filter(plan => plan.status === 'active').length);
+  }
+}
@@ -0,0 +1,120 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { TranslocoModule } from '@jsverse/transloco';
+import { DosagePeriodicity, DosageRegimen } from '../../models/api.models';
+import { DosageRegimenService } from '../../services/dosage-regimen.service';
+
+/**
+ * Editor for the structured dosage regimen of a medication: periodicity, weekdays, cycles,
+ * interval dosing, tapering steps and start/end dates.
+ * Emits null when the regimen is plain daily intake, so nothing extra is stored for it.
+ */
+@Component({
+  selector: 'app-dosage-regimen-editor',
+  standalone: true,
+  imports: [CommonModule, FormsModule, TranslocoModule],
+  templateUrl: './dosage-regimen-editor.component.html',
+  styleUrls: ['./dosage-regimen-editor.component.scss']
+})
+export class DosageRegimenEditorComponent implements OnChanges {
+  @Input() regimen: DosageRegimen | null | undefined = null;
+  @Input() idPrefix: string = '';            // Keeps label/input ids unique when listed several times
+  @Output() regimenChange = new EventEmitter<DosageRegimen | null>();
+
+  readonly periodicities: DosagePeriodicity[] = ['daily', 'every_n_days', 'weekdays', 'interval', 'cycle'];
+  readonly weekdays = [1, 2, 3, 4, 5, 6, 7];
+  weekdayLabels: string[] = [];
+
+  draft: DosageRegimen = { periodicity: 'daily' };
+  tapering: boolean = false;
+
+  constructor(private dosageRegimen: DosageRegimenService) {}
+
+  ngOnChanges() {
+    this.draft = this.regimen
+      ? { ...this.regimen, weekdays: [...(this.regimen.weekdays ?? [])], taperingSteps: (this.regimen.taperingSteps ?? []).map(step => ({ ...step })) }
+      : { periodicity: 'daily' };
+    this.tapering = !!this.draft.taperingSteps?.length;
+    this.weekdayLabels = this.dosageRegimen.weekdayNames(this.weekdays);
+  }
+
+  onPeriodicityChange() {
+    // Sensible starting values for the fields of the chosen periodicity
+    switch (this.draft.periodicity) {
+      case 'every_n_days':
+        this.draft.everyNDays = this.draft.everyNDays || 2;
+        break;
+      case 'weekdays':
+        this.draft.weekdays = this.draft.weekdays?.length ? this.draft.weekdays : [1];
+        break;
+      case 'interval':
+        this.draft.intervalHours = this.draft.intervalHours || 8;
+        this.draft.unitsPerIntake = this.draft.unitsPerIntake || 1;
+        break;
+      case 'cycle':
+        this.draft.cycleDaysOn = this.draft.cycleDaysOn || 21;
+        this.draft.cycleLength = this.draft.cycleLength || 28;
+        break;
+    }
+    this.emit();
+  }
+
+  isWeekdaySelected(weekday: number): boolean {
+    return (this.draft.weekdays ?? []).includes(weekday);
+  }
+
+  toggleWeekday(weekday: number) {
+    const selected = this.draft.weekdays ?? [];
+    this.draft.weekdays = selected.includes(weekday)
+      ? selected.filter(day => day !== weekday)
+      : [...selected, weekday].sort((a, b) => a - b);
+    this.emit();
+  }
+
+  onTaperingChange() {
+    this.draft.taperingSteps = this.tapering ? [{ days: 7, units: 1 }] : [];
+    this.emit();
+  }
+
+  addStep() {
+    const steps = this.draft.taperingSteps ?? [];
+    const last = steps[steps.length - 1];
+    // Continue from the previous step at half the dose
+    steps.push({ days: last?.days ?? 7, units: last ? last.units / 2 : 1 });
+    this.draft.taperingSteps = steps;
+    this.emit();
+  }
+
+  removeStep(index: number) {
+    this.draft.taperingSteps = (this.draft.taperingSteps ?? []).filter((_, i) => i !== index);
+    this.tapering = this.draft.taperingSteps.length > 0;
+    this.emit();
+  }
+
+  emit() {
+    const regimen = this.normalize(this.draft);
+    this.regimenChange.emit(this.dosageRegimen.isStructured(regimen) ? regimen : null);
+  }
+
+  // Only keep the fields that belong to the chosen periodicity
+  private normalize(draft: DosageRegimen): DosageRegimen {
+    const number = (value: unknown): number | null => value === '' || value === null || value === undefined || isNaN(Number(value)) ? null : Number(value);
+    const periodicity = draft.periodicity;
+
+    return {
+      periodicity,
+      everyNDays: periodicity === 'every_n_days' ? number(draft.everyNDays) : null,
+      weekdays: periodicity === 'weekdays' ? [...(draft.weekdays ?? [])] : null,
+      intervalHours: periodicity === 'interval' ? number(draft.intervalHours) : null,
+      unitsPerIntake: periodicity === 'interval' ? number(draft.unitsPerIntake) : null,
+      cycleDaysOn: periodicity === 'cycle' ? number(draft.cycleDaysOn) : null,
+      cycleLength: periodicity === 'cycle' ? number(draft.cycleLength) : null,
+      taperingSteps: this.tapering && draft.taperingSteps?.length
+        ? draft.taperingSteps.map(step => ({ days: number(step.days) ?? 0, units: number(step.units) ?? 0 }))
+        : null,
+      startDate: draft.startDate || null,
+      endDate: draft.endDate || null
+    };
+  }
+}
@@ -0,0 +1,82 @@
+import { Component, EventEmitter, OnDestroy, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { TranslocoModule } from '@jsverse/transloco';
+import { Subject, switchMap, takeUntil } from 'rxjs';
+import { ApiService } from '../../services/api.service';
+import { StateService } from '../../services/state.service';
+import { DuplicationCheckService, DuplicationFinding } from '../../services/duplication-check.service';
+
+@Component({
+  selector: 'app-duplication-check',
+  standalone: true,
+  imports: [CommonModule, TranslocoModule],
+  templateUrl: './duplication-check.component.html',
+  styleUrls: ['./duplication-check.component.scss']
+})
+export class DuplicationCheckComponent implements OnInit, OnDestroy {
+  @Output() openNotes = new EventEmitter<{ finding: DuplicationFinding } | void>();
+  @Output() findingsLoaded = new EventEmitter<number>();
+
+  findings: DuplicationFinding[] = [];
+  isLoading = true;
+  hasError = false;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private apiService: ApiService,
+    private stateService: StateService,
+    private duplicationCheck: DuplicationCheckService
+  ) {}
+
+  ngOnInit() {
+    this.stateService.medicationsChanged$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.refreshData());
+
+    this.refreshData();
+  }
+
+  ngOnDestroy() {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  refreshData() {
+    const apbNumber = this.stateService.apbNumber;
+    const reviewId = this.stateService.medicationReviewId;
+    if (!reviewId) {
+      this.isLoading = false;
+      return;
+    }
+
+    this.isLoading = true;
+    this.hasError = false;
+    this.apiService.getMedications(apbNumber, reviewId)
+      .pipe(
+        switchMap(medications => this.duplicationCheck.check(medications)),
+        takeUntil(this.destroy$)
+      )
+      .subscribe({
+        next: findings => {
+          this.findings = findings;
+          this.isLoading = false;
+          this.findingsLoaded.emit(findings.length);
+        },
+        error: () => {
+          this.findings = [];
+          this.hasError = true;
+          this.isLoading = false;
+          this.findingsLoaded.emit(0);
+        }
+      });
+  }
+
+  onAddNote(finding: DuplicationFinding) {
+    this.openNotes.emit({ finding });
+  }
+
+  onAddGeneralNote() {
+    this.openNotes.emit();
+  }
+}
@@ -3,6 +3,7 @@ import { CommonModule } from '@angular/common';
 import { TranslocoModule, TranslocoService } from '@jsverse/transloco';
 import { ApiService, GheopsToolResult, AnticholinergicResult, MedicationToAvoidResult, FallRiskResult } from '../../services/api.service';
 import { StateService } from '../../services/state.service';
+import { MedicationStatusService } from '../../services/medication-status.service';
 import { Medication } from '../../models/api.models';
 import { Subject, forkJoin, of } from 'rxjs';
 import { takeUntil, catchError } from 'rxjs/operators';
@@ -51,7 +52,8 @@ export class GheopsComponent implements OnInit, OnDestroy {
   constructor(
     private apiService: ApiService,
     private stateService: StateService,
-    private transloco: TranslocoService
+    private transloco: TranslocoService,
+    private medicationStatus: MedicationStatusService
   ) {}
 
   ngOnInit() {
@@ -88,10 +90,11 @@ export class GheopsComponent implements OnInit, OnDestroy {
     // Get medications first
     this.apiService.getMedications(apbNumber, reviewId).subscribe({
       next: (medications) => {
-        this.medications = medications;
+        // Stopped medications are not screened
+        this.medications = this.medicationStatus.forChecks(medications);
         
         // Extract CNK codes from medications, padded to 7 digits
-        const cnkCodes = medications
+        const cnkCodes = this.medications
           .filter(m => m.cnk != null)
           .map(m => String(m.cnk).padStart(7, '0'));
 
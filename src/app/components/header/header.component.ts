@@ -9,7 +9,12 @@ import { ApiService } from '../../services/api.service';
 import { SessionData, Contraindication } from '../../models/api.models';
 import { ContraindicationModalComponent } from '../contraindication-modal/contraindication-modal.component';
 import { FeedbackModalComponent } from '../feedback-modal/feedback-modal.component';
+import { AuditLogModalComponent } from '../audit-log-modal/audit-log-modal.component';
 import { ReviewNotesService } from '../../services/review-notes.service';
+import { AuthService } from '../../services/auth.service';
+import { NotificationService } from '../../services/notification.service';
+import { OfflineQueueService, SyncStatus } from '../../services/offline-queue.service';
+import { ReviewSyncService } from '../../services/review-sync.service';
 
 interface Step {
   number: number;
@@ -19,7 +24,7 @@ interface Step {
 
 @Component({
   selector: 'app-header',
-  imports: [CommonModule, TranslocoModule, ContraindicationModalComponent, FeedbackModalComponent],
+  imports: [CommonModule, TranslocoModule, ContraindicationModalComponent, FeedbackModalComponent, AuditLogModalComponent],
   templateUrl: './header.component.html',
   styleUrls: ['./header.component.scss']
 })
@@ -36,6 +41,7 @@ export class HeaderComponent implements OnInit, OnDestroy {
   contraIndications: Contraindication[] = [];
   showContraIndicationsModal: boolean = false;
   showFeedbackModal: boolean = false;
+  showAuditLogModal: boolean = false;
   notesCount: number = 0;
   animateNotes = false;
   private previousNotesCount = 0;
@@ -64,11 +70,20 @@ export class HeaderComponent implements OnInit, OnDestroy {
   activeLang: string = 'en';
   langDropdownOpen: boolean = false;
 
+  // Offline sync indicator
+  syncStatus: SyncStatus = { state: 'synced', pending: 0, conflicts: [], lastSyncedAt: null };
+  conflictsOpen: boolean = false;
+  otherTabs: number = 0;
+
   constructor(
     private router: Router,
     private stateService: StateService,
     private apiService: ApiService,
-    private reviewNotesService: ReviewNotesService
+    private reviewNotesService: ReviewNotesService,
+    private authService: AuthService,
+    private notificationService: NotificationService,
+    private offlineQueue: OfflineQueueService,
+    private reviewSync: ReviewSyncService
     , private transloco: TranslocoService
   ) {
     // Check current route on initialization
@@ -109,6 +124,19 @@ export class HeaderComponent implements OnInit, OnDestroy {
         this.loadContraindications();
       });
 
+    this.offlineQueue.status$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(status => {
+        this.syncStatus = status;
+        if (status.conflicts.length === 0) {
+          this.conflictsOpen = false;
+        }
+      });
+
+    this.reviewSync.otherTabs$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(count => this.otherTabs = count);
+
     // Subscribe to notes count changes
     this.reviewNotesService.notesCount$
       .pipe(takeUntil(this.destroy$))
@@ -136,6 +164,19 @@ export class HeaderComponent implements OnInit, OnDestroy {
     this.langDropdownOpen = !this.langDropdownOpen;
   }
 
+  onSyncStatusClick() {
+    if (this.syncStatus.state === 'conflict') {
+      this.conflictsOpen = !this.conflictsOpen;
+    } else {
+      this.offlineQueue.sync();
+    }
+  }
+
+  dismissConflicts() {
+    this.conflictsOpen = false;
+    this.offlineQueue.dismissConflicts();
+  }
+
   private triggerNotesAnimation() {
     this.animateNotes = true;
     // Clear animation after it finishes
@@ -148,6 +189,7 @@ export class HeaderComponent implements OnInit, OnDestroy {
   }
 
   private checkRoute(url: string) {
+    url = url.split('?')[0];
     this.isLoginPage = url === '/login' || url === '/';
     this.isInputPage = url === '/input';
     this.isAnalysisPage = url === '/analysis';
@@ -227,13 +269,32 @@ export class HeaderComponent implements OnInit, OnDestroy {
   }
 
   navigateHome() {
-    this.router.navigate(['/login']);
+    this.router.navigate(['/reviews']);
+  }
+
+  logout() {
+    this.authService.logout().subscribe(() => {
+      this.reviewNotesService.clearNotes();
+      this.router.navigate(['/login']);
+    });
   }
 
   save() {
     // Save functionality will be implemented later
   }
 
+  get hasReview(): boolean {
+    return !!this.stateService.medicationReviewId;
+  }
+
+  openAuditLog() {
+    this.showAuditLogModal = true;
+  }
+
+  closeAuditLog() {
+    this.showAuditLogModal = false;
+  }
+
   openConversation() {
     this.openNoteOverview.emit();
   }
@@ -253,7 +314,7 @@ export class HeaderComponent implements OnInit, OnDestroy {
         this.stateService.notifyContraindicationsChanged();
       },
       error: (error) => {
-        alert(this.transloco.translate('errors.failed_remove_contraindication'));
+        this.notificationService.error('errors.failed_remove_contraindication', error);
       }
     });
   }
@@ -4,7 +4,7 @@ import { TranslocoModule } from '@jsverse/transloco';
 import { ApiService } from '../../services/api.service';
 import { StateService } from '../../services/state.service';
 import { InteractionsCacheService, InteractionsResponse } from '../../services/interactions-cache.service';
-import { Medication } from '../../models/api.models';
+import { Medication, InteractionDetails } from '../../models/api.models';
 import { Output, EventEmitter } from '@angular/core';
 import { Subscription } from 'rxjs';
 
@@ -79,7 +79,7 @@ export class InteractionsComponent implements OnInit, OnDestroy {
   selectedMedicationId: string | null = null;
   expandedInteraction: string | null = null;
   loadingDetails = false;
-  interactionDetails: any = null;
+  interactionDetails: InteractionDetails | null = null;
   
   drugDrugInteractions: DisplayDrugDrugInteraction[] = [];
   drugFoodInteractions: DisplayDrugFoodInteraction[] = [];
@@ -226,7 +226,7 @@ export class InteractionsComponent implements OnInit, OnDestroy {
       language: 'NL',
       interactionNumber: interactionNumber
     }).subscribe({
-      next: (response: any) => {
+      next: (response) => {
         this.interactionDetails = response.result;
         this.loadingDetails = false;
       },
@@ -6,6 +6,7 @@ import { AddLabValueModalComponent, LabValueData } from '../add-lab-value-modal/
 import { ApiService } from '../../services/api.service';
 import { StateService } from '../../services/state.service';
 import { LabValue } from '../../models/api.models';
+import { NotificationService } from '../../services/notification.service';
 
 @Component({
   selector: 'app-lab-values-list',
@@ -22,7 +23,8 @@ export class LabValuesListComponent implements OnInit {
   constructor(
     private apiService: ApiService,
     private stateService: StateService,
-    private transloco: TranslocoService
+    private transloco: TranslocoService,
+    private notificationService: NotificationService
   ) {}
 
   ngOnInit() {
@@ -78,7 +80,7 @@ export class LabValuesListComponent implements OnInit {
         this.loadLabValues();
       },
       error: (error) => {
-        alert(this.transloco.translate('errors.failed_add_lab_value'));
+        this.notificationService.error('errors.failed_add_lab_value', error);
       }
     });
   }
@@ -95,7 +97,7 @@ export class LabValuesListComponent implements OnInit {
         this.labValues = this.labValues.filter(lv => lv.labValueId !== labValueId);
       },
       error: (error) => {
-        alert(this.transloco.translate('errors.failed_delete_lab_value'));
+        this.notificationService.error('errors.failed_delete_lab_value', error);
       }
     });
   }
@@ -0,0 +1,103 @@
+import { Component, EventEmitter, Input, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { TranslocoModule, TranslocoService } from '@jsverse/transloco';
+import { AuditEntry, DosageRegimen, MedicationStatus } from '../../models/api.models';
+import { MedicationStatusService, StatusSource } from '../../services/medication-status.service';
+import { DosageRegimenService } from '../../services/dosage-regimen.service';
+import { StateService } from '../../services/state.service';
+import { NotificationService } from '../../services/notification.service';
+
+// Fields holding a yyyy-mm-dd date
+const DATE_FIELDS = ['startDate', 'stopDate'];
+
+/**
+ * Timeline of one medication: its current status and effective dates,
+ * followed by every change recorded in the audit trail, oldest first.
+ */
+@Component({
+  selector: 'app-medication-history-modal',
+  imports: [CommonModule, TranslocoModule],
+  templateUrl: './medication-history-modal.component.html',
+  styleUrls: ['./medication-history-modal.component.scss']
+})
+export class MedicationHistoryModalComponent implements OnInit {
+  @Input() medication!: StatusSource & { medicationId: string; name?: string | null };
+  @Output() close = new EventEmitter<void>();
+
+  entries: AuditEntry[] = [];
+  isLoading: boolean = false;
+
+  constructor(
+    public medicationStatus: MedicationStatusService,
+    private dosageRegimen: DosageRegimenService,
+    private stateService: StateService,
+    private notificationService: NotificationService,
+    private transloco: TranslocoService
+  ) {}
+
+  ngOnInit(): void {
+    const reviewId = this.stateService.medicationReviewId;
+    if (!reviewId) {
+      return;
+    }
+
+    this.isLoading = true;
+    this.medicationStatus.getHistory(this.stateService.apbNumber, reviewId, this.medication.medicationId).subscribe({
+      next: entries => {
+        this.entries = entries;
+        this.isLoading = false;
+      },
+      error: error => {
+        this.isLoading = false;
+        this.notificationService.error('medication_status.history_load_failed', error);
+      }
+    });
+  }
+
+  get status(): MedicationStatus {
+    return this.medicationStatus.statusOf(this.medication);
+  }
+
+  // Field names are shared with the audit log and the merge dialog
+  fieldLabel(field: string): string {
+    for (const key of [`audit.fields.${field}`, `concurrency.fields.${field}`]) {
+      const label = this.transloco.translate(key);
+      if (label !== key) {
+        return label;
+      }
+    }
+    return field;
+  }
+
+  formatValue(field: string, value: unknown): string {
+    if (value === null || value === undefined || value === '') {
+      return '—';
+    }
+    if (field === 'status') {
+      return this.transloco.translate(`medication_status.statuses.${value}`);
+    }
+    if (DATE_FIELDS.includes(field) && typeof value === 'string') {
+      return this.medicationStatus.formatDate(value);
+    }
+    if (field === 'dosageRegimen' && typeof value === 'object') {
+      return this.dosageRegimen.describe(value as DosageRegimen) || this.transloco.translate('dosage_regimen.periodicities.daily');
+    }
+    if (typeof value === 'boolean') {
+      return this.transloco.translate(value ? 'common.yes' : 'common.no');
+    }
+    if (typeof value === 'object') {
+      return JSON.stringify(value);
+    }
+    return String(value);
+  }
+
+  closeModal(): void {
+    this.close.emit();
+  }
+
+  onBackdropClick(event: MouseEvent): void {
+    if ((event.target as HTMLElement).classList.contains('modal-backdrop')) {
+      this.closeModal();
+    }
+  }
+}
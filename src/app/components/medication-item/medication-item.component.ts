@@ -4,9 +4,16 @@ import { FormsModule } from '@angular/forms';
 import { TranslocoModule, TranslocoService } from '@jsverse/transloco';
 import { Subject } from 'rxjs';
 import { debounceTime, takeUntil } from 'rxjs/operators';
-import { ApiService } from '../../services/api.service';
 import { StateService } from '../../services/state.service';
 import { ConfirmationModalComponent } from '../confirmation-modal/confirmation-modal.component';
+import { NotificationService } from '../../services/notification.service';
+import { MedicationUndoService } from '../../services/medication-undo.service';
+import { DosageRegimenService } from '../../services/dosage-regimen.service';
+import { DosageRegimenEditorComponent } from '../dosage-regimen-editor/dosage-regimen-editor.component';
+import { PosologyInputComponent } from '../posology-input/posology-input.component';
+import { ParsedPosology } from '../../services/posology-parser.service';
+import { MedicationStatusService } from '../../services/medication-status.service';
+import { DosageRegimen, MedicationStatus } from '../../models/api.models';
 
 export interface Medication {
   medicationId: string;
@@ -20,6 +27,12 @@ export interface Medication {
   asNeeded?: boolean | null;
   specialFrequency?: number | null;
   specialDescription?: string | null;
+  dosageRegimen?: DosageRegimen | null;
+  status?: MedicationStatus | null;
+  startDate?: string | null;
+  stopDate?: string | null;
+  changeReason?: string | null;
+  instructions?: string | null;
   unitsBeforeBreakfast?: number | null;
   unitsDuringBreakfast?: number | null;
   unitsBeforeLunch?: number | null;
@@ -34,7 +47,7 @@ export interface Medication {
 @Component({
   selector: 'app-medication-item',
   standalone: true,
-  imports: [CommonModule, FormsModule, TranslocoModule, ConfirmationModalComponent],
+  imports: [CommonModule, FormsModule, TranslocoModule, ConfirmationModalComponent, DosageRegimenEditorComponent, PosologyInputComponent],
   templateUrl: './medication-item.component.html',
   styleUrls: ['./medication-item.component.scss']
 })
@@ -46,6 +59,8 @@ export class MedicationItemComponent implements OnInit, OnDestroy, OnChanges, Af
   @Output() editRequested = new EventEmitter<Medication>();
   @ViewChild('indicationInput') indicationInput?: ElementRef<HTMLInputElement>;
   
+  readonly statuses: MedicationStatus[] = ['active', 'paused', 'stopped'];
+
   isExpanded = false;
   showDeleteConfirmation = false;
   notDaily = false;
@@ -56,9 +71,12 @@ export class MedicationItemComponent implements OnInit, OnDestroy, OnChanges, Af
   private valueChanged$ = new Subject<void>();
 
   constructor(
-    private apiService: ApiService,
     private stateService: StateService
-    , private transloco: TranslocoService
+    , private transloco: TranslocoService,
+    private notificationService: NotificationService,
+    private medicationUndo: MedicationUndoService,
+    public dosageRegimen: DosageRegimenService,
+    public medicationStatus: MedicationStatusService
   ) {}
 
   ngOnChanges(changes: SimpleChanges) {
@@ -74,6 +92,11 @@ export class MedicationItemComponent implements OnInit, OnDestroy, OnChanges, Af
     // Initialize notDaily based on whether special frequency is set
     this.notDaily = !!(this.medication.specialFrequency || this.medication.specialDescription);
     
+    // Medications without a status are active
+    if (!this.medication.status) {
+      this.medication.status = 'active';
+    }
+
     // Ensure asNeeded is a boolean, not null/undefined
     if (this.medication.asNeeded === null || this.medication.asNeeded === undefined) {
       this.medication.asNeeded = false;
@@ -124,6 +147,21 @@ export class MedicationItemComponent implements OnInit, OnDestroy, OnChanges, Af
     this.valueChanged$.next();
   }
 
+  /**
+   * Confirmed free-text posology: replaces the intake slots (a daily schedule)
+   */
+  onPosologyApplied(posology: ParsedPosology) {
+    this.medication.asNeeded = posology.asNeeded;
+    this.medication.unitsBeforeBreakfast = posology.unitsBeforeBreakfast;
+    this.medication.unitsDuringBreakfast = posology.unitsDuringBreakfast;
+    this.medication.unitsBeforeLunch = posology.unitsBeforeLunch;
+    this.medication.unitsDuringLunch = posology.unitsDuringLunch;
+    this.medication.unitsBeforeDinner = posology.unitsBeforeDinner;
+    this.medication.unitsDuringDinner = posology.unitsDuringDinner;
+    this.medication.unitsAtBedtime = posology.unitsAtBedtime;
+    this.onValueChange();
+  }
+
   onNotDailyChange() {
     if (!this.notDaily) {
       // Clear special frequency fields when unchecked
@@ -156,6 +194,36 @@ export class MedicationItemComponent implements OnInit, OnDestroy, OnChanges, Af
     return doses.reduce((sum: number, d) => sum + (d ?? 0), 0);
   }
 
+  /**
+   * Header summary of a structured regimen, e.g. "2x · Mon, Thu"
+   */
+  get regimenSummary(): string {
+    const description = this.dosageRegimen.describe(this.medication.dosageRegimen);
+    return this.dosageRegimen.usesIntakeSlots(this.medication.dosageRegimen)
+      ? `${this.dosesPerDay}x · ${description}`
+      : description;
+  }
+
+  // Effective status, also stopped once the stop date has passed
+  get currentStatus(): MedicationStatus {
+    return this.medicationStatus.statusOf(this.medication);
+  }
+
+  onStatusChange() {
+    if (this.medication.status === 'stopped') {
+      // Stopping takes effect today unless another date is entered
+      this.medication.stopDate = this.medication.stopDate || this.medicationStatus.today();
+    } else {
+      this.medication.stopDate = null;
+    }
+    this.onValueChange();
+  }
+
+  onRegimenChange(regimen: DosageRegimen | null) {
+    this.medication.dosageRegimen = regimen;
+    this.onValueChange();
+  }
+
   getLocalizedPeriod(): string {
     if (!this.medication.specialDescription) return '';
     const key = `medication.period_${this.medication.specialDescription}`;
@@ -196,6 +264,12 @@ export class MedicationItemComponent implements OnInit, OnDestroy, OnChanges, Af
       asNeeded: this.medication.asNeeded ?? false,
       specialFrequency: parseNumber(this.medication.specialFrequency),
       specialDescription: this.medication.specialDescription || null,
+      dosageRegimen: this.medication.dosageRegimen ?? null,
+      status: this.medication.status || null,
+      startDate: this.medication.startDate || null,
+      stopDate: this.medication.stopDate || null,
+      changeReason: this.medication.changeReason || null,
+      instructions: this.medication.instructions || null,
       unitsBeforeBreakfast: parseNumber(this.medication.unitsBeforeBreakfast),
       unitsDuringBreakfast: parseNumber(this.medication.unitsDuringBreakfast),
       unitsBeforeLunch: parseNumber(this.medication.unitsBeforeLunch),
@@ -205,7 +279,7 @@ export class MedicationItemComponent implements OnInit, OnDestroy, OnChanges, Af
       unitsAtBedtime: parseNumber(this.medication.unitsAtBedtime)
     };
 
-    this.apiService.updateMedication(
+    this.medicationUndo.updateMedication(
       apbNumber,
       medicationReviewId,
       this.medication.medicationId,
@@ -242,14 +316,13 @@ export class MedicationItemComponent implements OnInit, OnDestroy, OnChanges, Af
       return;
     }
 
-    this.apiService.deleteMedication(apbNumber, medicationReviewId, this.medication.medicationId).subscribe({
+    this.medicationUndo.deleteMedication(apbNumber, medicationReviewId, this.medication.medicationId).subscribe({
       next: () => {
         // Emit event to parent component to remove from list
         this.medicationDeleted.emit(this.medication.medicationId);
       },
       error: (error: any) => {
-        const msg = this.transloco.translate('messages.delete_lab_value_error');
-        alert(msg);
+        this.notificationService.error('errors.failed_to_delete_medication', error);
       }
     });
   }
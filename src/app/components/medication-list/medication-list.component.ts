@@ -1,30 +1,37 @@
-import { Component, OnInit, ViewChild, QueryList, ViewChildren } from '@angular/core';
+import { Component, OnInit, OnDestroy, ViewChild, QueryList, ViewChildren } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { TranslocoModule } from '@jsverse/transloco';
 import { MedicationItemComponent, Medication } from '../medication-item/medication-item.component';
-import { MedicationSearchModalComponent } from '../medication-search-modal/medication-search-modal.component';
+import { MedicationSearchModalComponent, SelectedMedication } from '../medication-search-modal/medication-search-modal.component';
+import { PosologyParserService } from '../../services/posology-parser.service';
 import { CnkSelectionModalComponent, MedicationWithMatches } from '../cnk-selection-modal/cnk-selection-modal.component';
 import { ConfirmationModalComponent } from '../confirmation-modal/confirmation-modal.component';
 import { CsvImportModalComponent } from '../csv-import-modal/csv-import-modal.component';
+import { MedicationSchemeImportModalComponent } from '../medication-scheme-import-modal/medication-scheme-import-modal.component';
+import { UndoRedoControlsComponent } from '../undo-redo-controls/undo-redo-controls.component';
 import { MedicationSearchResult } from '../../models/api.models';
 import { ApiService } from '../../services/api.service';
 import { StateService } from '../../services/state.service';
-import { forkJoin, of } from 'rxjs';
-import { catchError, map } from 'rxjs/operators';
+import { Subject, forkJoin, of } from 'rxjs';
+import { catchError, map, takeUntil } from 'rxjs/operators';
+import { NotificationService } from '../../services/notification.service';
+import { ReviewSyncService } from '../../services/review-sync.service';
+import { MedicationUndoService } from '../../services/medication-undo.service';
 
 @Component({
   selector: 'app-medication-list',
   standalone: true,
-  imports: [CommonModule, TranslocoModule, MedicationItemComponent, MedicationSearchModalComponent, CnkSelectionModalComponent, ConfirmationModalComponent, CsvImportModalComponent],
+  imports: [CommonModule, TranslocoModule, MedicationItemComponent, MedicationSearchModalComponent, CnkSelectionModalComponent, ConfirmationModalComponent, CsvImportModalComponent, MedicationSchemeImportModalComponent, UndoRedoControlsComponent],
   templateUrl: './medication-list.component.html',
   styleUrls: ['./medication-list.component.scss']
 })
-export class MedicationListComponent implements OnInit {
+export class MedicationListComponent implements OnInit, OnDestroy {
   medications: Medication[] = [];
   showSearchModal = false;
   showCnkSelectionModal = false;
   showDeleteAllModal = false;
   showCsvImportModal = false;
+  showSchemeImportModal = false;
   isLoading = false;
   editingMedication: Medication | null = null;
   
@@ -35,13 +42,38 @@ export class MedicationListComponent implements OnInit {
 
   @ViewChild('medicationsScroll') medicationsScrollContainer: any;
 
+  private destroy$ = new Subject<void>();
+
   constructor(
     private apiService: ApiService,
-    private stateService: StateService
+    private stateService: StateService,
+    private notificationService: NotificationService,
+    private reviewSync: ReviewSyncService,
+    private medicationUndo: MedicationUndoService,
+    private posologyParser: PosologyParserService
   ) {}
 
   ngOnInit() {
     this.loadMedications();
+
+    // Reload when the medications are changed in another tab
+    this.reviewSync.remoteChange$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(topic => {
+        if (topic === 'medications') {
+          this.loadMedications();
+        }
+      });
+
+    // Reload after an undo or redo
+    this.medicationUndo.applied$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.loadMedications());
+  }
+
+  ngOnDestroy() {
+    this.destroy$.next();
+    this.destroy$.complete();
   }
 
   loadMedications() {
@@ -73,6 +105,12 @@ export class MedicationListComponent implements OnInit {
             asNeeded: med.asNeeded ?? false,
             specialFrequency: med.specialFrequency ?? null,
             specialDescription: med.specialDescription ?? null,
+            dosageRegimen: med.dosageRegimen ?? null,
+            status: med.status ?? null,
+            startDate: med.startDate ?? null,
+            stopDate: med.stopDate ?? null,
+            changeReason: med.changeReason ?? null,
+            instructions: med.instructions ?? null,
             unitsBeforeBreakfast: med.unitsBeforeBreakfast ?? null,
             unitsDuringBreakfast: med.unitsDuringBreakfast ?? null,
             unitsBeforeLunch: med.unitsBeforeLunch ?? null,
@@ -106,6 +144,17 @@ export class MedicationListComponent implements OnInit {
     }
   }
 
+  importMedicationScheme() {
+    this.showSchemeImportModal = true;
+  }
+
+  onSchemeImportClose(medicationsImported: boolean) {
+    this.showSchemeImportModal = false;
+    if (medicationsImported) {
+      this.loadMedications();
+    }
+  }
+
   // Legacy CSV import method - kept for backward compatibility but not used
   importMedicationsLegacy() {
     // Create a hidden file input element
@@ -146,12 +195,12 @@ export class MedicationListComponent implements OnInit {
       if (medications.length > 0) {
         this.saveParsedMedications(medications);
       } else {
-        alert('No medications found in the CSV file. Please check the file format or try a different export.');
+        this.notificationService.warning('errors.no_medications_in_csv');
       }
     };
 
     reader.onerror = (error) => {
-      alert('Failed to read the CSV file. Please try again.');
+      this.notificationService.error('errors.failed_read_csv');
     };
 
     reader.readAsText(file, 'UTF-8');
@@ -351,7 +400,7 @@ export class MedicationListComponent implements OnInit {
   }  private saveParsedMedications(medications: Partial<Medication>[]) {
     const medicationReviewId = this.stateService.medicationReviewId;
     if (!medicationReviewId) {
-      alert('Please create or select a medication review first.');
+      this.notificationService.warning('errors.create_review_first');
       return;
     }
     
@@ -373,7 +422,7 @@ export class MedicationListComponent implements OnInit {
       },
       error: (error) => {
         this.isLoading = false;
-        alert('Failed to match medications to CNK codes. Please try again.');
+        this.notificationService.error('errors.failed_match_cnk', error);
       }
     });
   }
@@ -518,7 +567,7 @@ export class MedicationListComponent implements OnInit {
     const saveNext = (index: number) => {
       if (index >= this.pendingMedicationsToSave.length) {
         this.isLoading = false;
-        alert(`Successfully imported ${savedCount} medication(s).`);
+        this.notificationService.success('errors.import_success', { count: savedCount });
         this.loadMedications();
         this.stateService.notifyMedicationsChanged();
         this.pendingMedicationsToSave = [];
@@ -571,7 +620,7 @@ export class MedicationListComponent implements OnInit {
     this.editingMedication = null;
   }
 
-  onMedicationSelected(medication: MedicationSearchResult) {
+  onMedicationSelected(medication: SelectedMedication) {
     const apbNumber = this.stateService.apbNumber;
     const medicationReviewId = this.stateService.medicationReviewId;
     if (!medicationReviewId) {
@@ -582,7 +631,7 @@ export class MedicationListComponent implements OnInit {
     if (this.editingMedication) {
 
       // Update the existing medication while preserving intake and indication
-      this.apiService.updateMedication(
+      this.medicationUndo.updateMedication(
         apbNumber,
         medicationReviewId,
         this.editingMedication.medicationId,
@@ -595,6 +644,11 @@ export class MedicationListComponent implements OnInit {
           indication: this.editingMedication.indication || undefined,
           specialFrequency: this.editingMedication.specialFrequency ?? undefined,
           specialDescription: this.editingMedication.specialDescription || undefined,
+          dosageRegimen: this.editingMedication.dosageRegimen ?? undefined,
+          status: this.editingMedication.status || undefined,
+          startDate: this.editingMedication.startDate || undefined,
+          stopDate: this.editingMedication.stopDate || undefined,
+          changeReason: this.editingMedication.changeReason || undefined,
           unitsBeforeBreakfast: this.editingMedication.unitsBeforeBreakfast ?? undefined,
           unitsDuringBreakfast: this.editingMedication.unitsDuringBreakfast ?? undefined,
           unitsBeforeLunch: this.editingMedication.unitsBeforeLunch ?? undefined,
@@ -611,20 +665,21 @@ export class MedicationListComponent implements OnInit {
           this.stateService.notifyMedicationsChanged();
         },
         error: (error) => {
-          alert('Failed to update medication. Please try again.');
+          this.notificationService.error('errors.failed_to_update_medication', error);
         }
       });
     } else {
       // Adding new medication
 
-      this.apiService.addMedication(
+      this.medicationUndo.addMedication(
         apbNumber,
         medicationReviewId,
         {
           name: medication.benaming,
           cnk: parseInt(medication.cnk) || undefined,
           vmp: medication.vmp ? parseInt(medication.vmp) : undefined,
-          packageSize: medication.verpakking ?? undefined
+          packageSize: medication.verpakking ?? undefined,
+          ...this.posologyParser.intakeFields(medication.posology)
         }
       ).subscribe({
         next: (response) => {
@@ -638,12 +693,41 @@ export class MedicationListComponent implements OnInit {
           }, 100);
         },
         error: (error) => {
-          alert('Failed to add medication. Please try again.');
+          this.notificationService.error('errors.failed_to_add_medication', error);
         }
       });
     }
   }
 
+  /**
+   * Several medications at once, from the rapid-scan mode of the search modal
+   */
+  onMedicationsSelected(medications: MedicationSearchResult[]) {
+    const apbNumber = this.stateService.apbNumber;
+    const medicationReviewId = this.stateService.medicationReviewId;
+    if (!medicationReviewId) {
+      return;
+    }
+
+    const values = medications.map(medication => ({
+      name: medication.benaming,
+      cnk: parseInt(medication.cnk) || undefined,
+      vmp: medication.vmp ? parseInt(medication.vmp) : undefined,
+      packageSize: medication.verpakking ?? undefined
+    }));
+
+    this.medicationUndo.addMedications(apbNumber, medicationReviewId, values).subscribe(addedCount => {
+      this.showSearchModal = false;
+      this.loadMedications();
+      this.stateService.notifyMedicationsChanged();
+      if (addedCount < medications.length) {
+        this.notificationService.warning('barcode.add_partial', { count: addedCount, failed: medications.length - addedCount });
+      } else {
+        this.notificationService.success('barcode.add_done', { count: addedCount });
+      }
+    });
+  }
+
   onMedicationDeleted(medicationId: string) {
     // Remove from local array
     this.medications = this.medications.filter(med => med.medicationId !== medicationId);
@@ -657,7 +741,7 @@ export class MedicationListComponent implements OnInit {
 
   deleteAllMedications() {
     if (!this.medications || this.medications.length === 0) {
-      alert('No medications to delete.');
+      this.notificationService.info('errors.no_medications_to_delete');
       return;
     }
 
@@ -671,41 +755,18 @@ export class MedicationListComponent implements OnInit {
     const apbNumber = this.stateService.apbNumber;
     const medicationReviewId = this.stateService.medicationReviewId;
     if (!medicationReviewId) {
-      alert('Please create or select a medication review first.');
+      this.notificationService.warning('errors.create_review_first');
       return;
     }
 
-    // Delete sequentially to avoid hitting backend limits
-    const medsToDelete = [...this.medications];
-    let deletedCount = 0;
-
-    const deleteNext = (index: number) => {
-      if (index >= medsToDelete.length) {
-        alert(`Deleted ${deletedCount} medication(s).`);
-        this.loadMedications();
-        this.stateService.notifyMedicationsChanged();
-        return;
-      }
-
-      const med = medsToDelete[index];
-      if (!med.medicationId) {
-        deleteNext(index + 1);
-        return;
-      }
+    // Deleted sequentially to avoid hitting backend limits, undoable as one action
+    const medicationIds = this.medications.map(med => med.medicationId).filter(Boolean);
 
-      this.apiService.deleteMedication(apbNumber, medicationReviewId, med.medicationId).subscribe({
-        next: () => {
-          deletedCount++;
-          deleteNext(index + 1);
-        },
-        error: (err) => {
-          // continue with next
-          deleteNext(index + 1);
-        }
-      });
-    };
-
-    deleteNext(0);
+    this.medicationUndo.deleteMedications(apbNumber, medicationReviewId, medicationIds).subscribe(deletedCount => {
+      this.notificationService.success('errors.delete_success', { count: deletedCount });
+      this.loadMedications();
+      this.stateService.notifyMedicationsChanged();
+    });
   }
 
   onDeleteAllCancelled() {
@@ -0,0 +1,109 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { TranslocoModule } from '@jsverse/transloco';
+import { Medication } from '../../models/api.models';
+import { StateService } from '../../services/state.service';
+import { NotificationService } from '../../services/notification.service';
+import { KmehrImportService } from '../../services/kmehr-import.service';
+import { ImportDiff, ImportDiffKind, MedicationImportDiffService } from '../../services/medication-import-diff.service';
+
+/**
+ * Import of a medication scheme file: the file is read locally and compared with the
+ * current list, and only what the user decides to add or update is saved.
+ */
+@Component({
+  selector: 'app-medication-scheme-import-modal',
+  imports: [CommonModule, FormsModule, TranslocoModule],
+  templateUrl: './medication-scheme-import-modal.component.html',
+  styleUrls: ['./medication-scheme-import-modal.component.scss']
+})
+export class MedicationSchemeImportModalComponent {
+  @Input() existingMedications: Medication[] = [];
+  @Output() close = new EventEmitter<boolean>();
+
+  readonly kinds: ImportDiffKind[] = ['new', 'changed', 'unchanged'];
+
+  fileName: string | null = null;
+  diff: ImportDiff | null = null;
+  isReading: boolean = false;
+  isApplying: boolean = false;
+
+  constructor(
+    public importDiff: MedicationImportDiffService,
+    private kmehrImport: KmehrImportService,
+    private stateService: StateService,
+    private notificationService: NotificationService
+  ) {}
+
+  async onFileSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) {
+      return;
+    }
+
+    this.fileName = file.name;
+    this.diff = null;
+    this.isReading = true;
+    try {
+      const incoming = this.kmehrImport.parse(await file.text());
+      this.diff = this.importDiff.diff(this.existingMedications, incoming);
+    } catch (error) {
+      this.notificationService.error('medication_import.invalid_file', error);
+    } finally {
+      this.isReading = false;
+    }
+  }
+
+  get pendingCount(): number {
+    return this.diff?.entries.filter(entry => entry.decision !== 'skip').length ?? 0;
+  }
+
+  countOf(kind: ImportDiffKind): number {
+    return this.diff?.entries.filter(entry => entry.kind === kind).length ?? 0;
+  }
+
+  resetDecisions(): void {
+    this.diff?.entries.forEach(entry => entry.decision = this.importDiff.defaultDecision(entry));
+  }
+
+  skipAll(): void {
+    this.diff?.entries.forEach(entry => entry.decision = 'skip');
+  }
+
+  applyImport(): void {
+    if (!this.diff || this.pendingCount === 0 || this.isApplying) {
+      return;
+    }
+
+    this.isApplying = true;
+    this.importDiff.apply(this.stateService.apbNumber, this.stateService.medicationReviewId, this.diff).subscribe({
+      next: result => {
+        this.isApplying = false;
+        this.stateService.notifyMedicationsChanged();
+        if (result.failed > 0) {
+          this.notificationService.warning('medication_import.applied_partial', { ...result });
+        } else {
+          this.notificationService.success('medication_import.applied', { ...result });
+        }
+        this.close.emit(true);
+      },
+      error: error => {
+        this.isApplying = false;
+        this.notificationService.error('medication_import.apply_failed', error);
+      }
+    });
+  }
+
+  closeModal(): void {
+    this.close.emit(false);
+  }
+
+  onBackdropClick(event: MouseEvent): void {
+    if ((event.target as HTMLElement).classList.contains('modal-backdrop')) {
+      this.closeModal();
+    }
+  }
+}
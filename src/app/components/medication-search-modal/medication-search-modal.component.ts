@@ -6,28 +6,65 @@ import { Subject } from 'rxjs';
 import { debounceTime, distinctUntilChanged } from 'rxjs/operators';
 import { ApiService } from '../../services/api.service';
 import { MedicationSearchResult } from '../../models/api.models';
+import { BarcodeService, ScannedCode } from '../../services/barcode.service';
+import { BarcodeCameraComponent } from '../barcode-camera/barcode-camera.component';
+import { PosologyInputComponent } from '../posology-input/posology-input.component';
+import { ParsedPosology, PosologyParserService } from '../../services/posology-parser.service';
+
+// A picked medication, with the intake typed as free text (not in edit mode)
+export type SelectedMedication = MedicationSearchResult & { posology?: ParsedPosology | null };
+
+// One product in the rapid-scan queue; scanning more boxes of it only raises the count
+export interface ScanQueueItem {
+  key: string;                       // CNK as scanned
+  status: 'resolving' | 'found' | 'not_found';
+  medication: MedicationSearchResult | null;
+  boxes: number;
+  identities: string[];              // Boxes already counted
+  inReview: boolean;                 // Already on the medication list, will not be added again
+}
+
+// A camera keeps reading the code in front of it; the same code within this time is one scan
+const REPEAT_SCAN_MS = 2000;
 
 @Component({
   selector: 'app-medication-search-modal',
   standalone: true,
-  imports: [CommonModule, FormsModule, TranslocoModule],
+  imports: [CommonModule, FormsModule, TranslocoModule, BarcodeCameraComponent, PosologyInputComponent],
   templateUrl: './medication-search-modal.component.html',
   styleUrls: ['./medication-search-modal.component.scss']
 })
 export class MedicationSearchModalComponent implements AfterViewInit {
   @Input() isEditMode = false;
+  @Input() existingMedications: { cnk?: number | null }[] = [];  // Already on the list, not added again by a scan
   @Output() close = new EventEmitter<void>();
-  @Output() medicationSelected = new EventEmitter<MedicationSearchResult>();
+  @Output() medicationSelected = new EventEmitter<SelectedMedication>();
+  @Output() medicationsSelected = new EventEmitter<MedicationSearchResult[]>();
   @ViewChild('searchInput') searchInput!: ElementRef;
 
   searchTerm = '';
   searchResults: MedicationSearchResult[] = [];
   isSearching = false;
   errorMessage = '';
+  posology: ParsedPosology | null = null;
+
+  // Barcode scanning
+  rapidScan = false;
+  showCamera = false;
+  cameraSupported = BarcodeCameraComponent.isSupported();
+  scanQueue: ScanQueueItem[] = [];
+  scanMessage: { key: string; params?: Record<string, unknown> } | null = null;
+  isResolvingScan = false;
   
   private searchSubject = new Subject<string>();
+  private lastScan: { raw: string; time: number } | null = null;
+  private unknownGtin: string | null = null;       // Learned from the next CNK scanned or medication picked
 
-  constructor(private apiService: ApiService) {
+  constructor(
+    private apiService: ApiService,
+    private barcodeService: BarcodeService,
+    public posologyParser: PosologyParserService
+  ) {
     // Set up debounced search
     this.searchSubject.pipe(
       debounceTime(300),
@@ -56,6 +93,162 @@ export class MedicationSearchModalComponent implements AfterViewInit {
     this.searchSubject.next(value);
   }
 
+  /**
+   * Keyboard-wedge scanners type the code and press Enter
+   */
+  onSearchEnter(event: Event) {
+    const code = this.barcodeService.parse(this.searchTerm);
+    if (!code) {
+      return;
+    }
+    event.preventDefault();
+    this.searchTerm = '';
+    this.searchResults = [];
+    this.searchSubject.next('');
+    this.handleScan(code);
+  }
+
+  onCameraScan(raw: string) {
+    const now = Date.now();
+    if (this.lastScan?.raw === raw && now - this.lastScan.time < REPEAT_SCAN_MS) {
+      this.lastScan.time = now;
+      return;
+    }
+    this.lastScan = { raw, time: now };
+
+    const code = this.barcodeService.parse(raw);
+    if (code) {
+      this.handleScan(code);
+    } else {
+      this.scanMessage = { key: 'barcode.unreadable' };
+    }
+  }
+
+  toggleCamera() {
+    this.showCamera = !this.showCamera;
+  }
+
+  get addableScans(): MedicationSearchResult[] {
+    return this.scanQueue
+      .filter(item => item.status === 'found' && !item.inReview)
+      .map(item => item.medication!);
+  }
+
+  removeScan(item: ScanQueueItem) {
+    this.scanQueue = this.scanQueue.filter(entry => entry !== item);
+  }
+
+  addScannedMedications() {
+    const medications = this.addableScans;
+    if (medications.length === 0) {
+      return;
+    }
+    this.medicationsSelected.emit(medications);
+    this.onCancel();
+  }
+
+  private handleScan(code: ScannedCode) {
+    if (this.rapidScan && !this.isEditMode) {
+      this.queueScan(code);
+      return;
+    }
+
+    // Single scan: add (or replace with) the scanned medication straight away
+    if (this.isResolvingScan) {
+      return;
+    }
+    this.isResolvingScan = true;
+    this.scanMessage = null;
+    const cnk = this.barcodeService.cnkOf(code);
+    if (!cnk) {
+      this.isResolvingScan = false;
+      this.askForCnk(code);
+      return;
+    }
+    this.barcodeService.resolve(code).subscribe(medication => {
+      this.isResolvingScan = false;
+      if (medication) {
+        this.selectMedication(medication);
+      } else {
+        this.scanMessage = { key: 'barcode.not_found', params: { code: cnk } };
+      }
+    });
+  }
+
+  private queueScan(code: ScannedCode) {
+    const key = this.barcodeService.cnkOf(code);
+    if (!key) {
+      this.askForCnk(code);
+      return;
+    }
+    if (code.cnk) {
+      this.learnUnknownGtin(code.cnk);
+    }
+    const existing = this.scanQueue.find(item => item.key === key);
+    if (existing) {
+      if (existing.identities.includes(code.identity)) {
+        this.scanMessage = { key: 'barcode.already_scanned', params: { name: existing.medication?.benaming ?? key } };
+        return;
+      }
+      existing.identities.push(code.identity);
+      existing.boxes++;
+      this.scanMessage = null;
+      return;
+    }
+
+    const item: ScanQueueItem = { key, status: 'resolving', medication: null, boxes: 1, identities: [code.identity], inReview: false };
+    this.scanQueue = [item, ...this.scanQueue];
+    this.scanMessage = null;
+
+    this.barcodeService.resolve(code).subscribe(medication => {
+      if (!medication) {
+        item.status = 'not_found';
+        return;
+      }
+      item.status = 'found';
+      item.medication = medication;
+      item.inReview = this.isInReview(medication);
+    });
+  }
+
+  // A GTIN not learned yet: the CNK scanned (or medication picked) next belongs to the same box
+  private askForCnk(code: ScannedCode) {
+    this.unknownGtin = code.gtin;
+    this.scanMessage = { key: 'barcode.scan_cnk', params: { code: code.gtin } };
+  }
+
+  private learnUnknownGtin(cnk: string) {
+    if (this.unknownGtin) {
+      this.barcodeService.learn(this.unknownGtin, cnk);
+      this.unknownGtin = null;
+    }
+  }
+
+  private queueMedication(medication: MedicationSearchResult) {
+    this.learnUnknownGtin(medication.cnk);
+    this.searchTerm = '';
+    this.searchResults = [];
+    this.searchSubject.next('');
+    if (this.scanQueue.some(item => item.medication?.cnk === medication.cnk)) {
+      this.scanMessage = { key: 'barcode.already_scanned', params: { name: medication.benaming } };
+      return;
+    }
+    this.scanMessage = null;
+    this.scanQueue = [{
+      key: medication.cnk,
+      status: 'found',
+      medication,
+      boxes: 1,
+      identities: [],
+      inReview: this.isInReview(medication)
+    }, ...this.scanQueue];
+    this.searchInput?.nativeElement.focus();
+  }
+
+  private isInReview(medication: MedicationSearchResult): boolean {
+    return this.existingMedications.some(existing => existing.cnk != null && String(existing.cnk).padStart(7, '0') === medication.cnk.padStart(7, '0'));
+  }
+
   performSearch(term: string) {
     this.isSearching = true;
     this.errorMessage = '';
@@ -74,6 +267,13 @@ export class MedicationSearchModalComponent implements AfterViewInit {
   }
 
   selectMedication(medication: MedicationSearchResult) {
+    // In rapid-scan mode a picked result joins the scanned boxes
+    if (this.rapidScan && !this.isEditMode) {
+      this.queueMedication(medication);
+      return;
+    }
+    this.learnUnknownGtin(medication.cnk);
+
     // Warn user if medication has no VMP
     if (!medication.vmp) {
       const confirmed = confirm(
@@ -86,7 +286,7 @@ export class MedicationSearchModalComponent implements AfterViewInit {
         return;
       }
     }
-    this.medicationSelected.emit(medication);
+    this.medicationSelected.emit(this.isEditMode ? medication : { ...medication, posology: this.posology });
     this.onCancel();
   }
 
@@ -0,0 +1,66 @@
+import { Component, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { TranslocoModule } from '@jsverse/transloco';
+import { Subscription } from 'rxjs';
+import { ConcurrencyService, MergeChoice, PendingMergeConflict } from '../../services/concurrency.service';
+
+/**
+ * Side-by-side "yours vs theirs" dialog for edits that conflict with a change made elsewhere.
+ * Rendered once at the app root; opens whenever ConcurrencyService has a conflict waiting.
+ */
+@Component({
+  selector: 'app-merge-conflict-dialog',
+  standalone: true,
+  imports: [CommonModule, TranslocoModule],
+  templateUrl: './merge-conflict-dialog.component.html',
+  styleUrls: ['./merge-conflict-dialog.component.scss']
+})
+export class MergeConflictDialogComponent implements OnDestroy {
+  conflict: PendingMergeConflict | null = null;
+  choices: Record<string, MergeChoice> = {};
+  private subscription: Subscription;
+
+  constructor(private concurrencyService: ConcurrencyService) {
+    this.subscription = this.concurrencyService.conflict$.subscribe(conflict => {
+      this.conflict = conflict;
+      // Default to the user's own edits
+      this.choices = Object.fromEntries((conflict?.fields ?? []).map(field => [field.key, 'mine' as MergeChoice]));
+    });
+  }
+
+  ngOnDestroy() {
+    this.subscription.unsubscribe();
+  }
+
+  choose(key: string, choice: MergeChoice) {
+    this.choices = { ...this.choices, [key]: choice };
+  }
+
+  chooseAll(choice: MergeChoice) {
+    Object.keys(this.choices).forEach(key => this.choose(key, choice));
+  }
+
+  // Save the merged version (update) or delete anyway (delete)
+  confirm() {
+    this.conflict?.resolve(this.choices);
+  }
+
+  // Keep the version saved by the other user
+  keepTheirs() {
+    this.conflict?.resolve(null);
+  }
+
+  formatValue(value: unknown): string {
+    if (value === null || value === undefined || value === '') {
+      return '—';
+    }
+    if (typeof value === 'object') {
+      return JSON.stringify(value);
+    }
+    return String(value);
+  }
+
+  isBoolean(value: unknown): value is boolean {
+    return typeof value === 'boolean';
+  }
+}
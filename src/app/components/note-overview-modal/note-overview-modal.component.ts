@@ -8,6 +8,7 @@ import { TranslocoModule, TranslocoService } from '@jsverse/transloco';
 import { ReviewNotesService, ReviewNote } from '../../services/review-notes.service';
 import { StateService } from '../../services/state.service';
 import { ConfirmationModalComponent } from '../confirmation-modal/confirmation-modal.component';
+import { NotificationService } from '../../services/notification.service';
 
 @Component({
   selector: 'app-note-overview-modal',
@@ -37,7 +38,8 @@ export class NoteOverviewModalComponent implements OnInit, OnDestroy {
     private reviewNotesService: ReviewNotesService,
     private stateService: StateService,
     private router: Router,
-    private transloco: TranslocoService
+    private transloco: TranslocoService,
+    private notificationService: NotificationService
   ) {}
 
   ngOnInit() {
@@ -95,7 +97,7 @@ export class NoteOverviewModalComponent implements OnInit, OnDestroy {
         this.selectedNoteToDelete = null;
       },
       error: (error) => {
-        alert(this.transloco.translate('errors.failed_to_delete_note'));
+        this.notificationService.error('errors.failed_to_delete_note', error);
         this.showDeleteConfirmation = false;
         this.selectedNoteToDelete = null;
       }
@@ -116,7 +118,7 @@ export class NoteOverviewModalComponent implements OnInit, OnDestroy {
       discussWithPatient: !note.discussWithPatient
     }).subscribe({
       error: (error) => {
-        alert(this.transloco.translate('errors.failed_to_update_note'));
+        this.notificationService.error('errors.failed_to_update_note', error);
       }
     });
   }
@@ -130,7 +132,7 @@ export class NoteOverviewModalComponent implements OnInit, OnDestroy {
       communicateToDoctor: !note.communicateToDoctor
     }).subscribe({
       error: (error) => {
-        alert(this.transloco.translate('errors.failed_to_update_note'));
+        this.notificationService.error('errors.failed_to_update_note', error);
       }
     });
   }
@@ -160,7 +162,7 @@ export class NoteOverviewModalComponent implements OnInit, OnDestroy {
         this.cancelEditing();
       },
       error: (error) => {
-        alert(this.transloco.translate('errors.failed_to_update_note'));
+        this.notificationService.error('errors.failed_to_update_note', error);
       }
     });
   }
@@ -228,7 +230,7 @@ export class NoteOverviewModalComponent implements OnInit, OnDestroy {
         this.newNoteText = '';
       },
       error: (error) => {
-        alert(this.transloco.translate('errors.failed_to_save_note'));
+        this.notificationService.error('errors.failed_to_save_note', error);
       }
     });
   }
@@ -0,0 +1,48 @@
+import { Component, EventEmitter, Input, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { TranslocoModule } from '@jsverse/transloco';
+import { ParsedPosology, PosologyParserService } from '../../services/posology-parser.service';
+
+/**
+ * Free-text posology field ("1-0-1", "2x/dag 1 co", "1 's avonds") that shows how the text
+ * is read and only fills the intake fields once the pharmacist confirms it.
+ */
+@Component({
+  selector: 'app-posology-input',
+  imports: [CommonModule, FormsModule, TranslocoModule],
+  templateUrl: './posology-input.component.html',
+  styleUrls: ['./posology-input.component.scss']
+})
+export class PosologyInputComponent implements OnInit {
+  @Input() idPrefix = 'posology';
+  @Input() initialText = '';
+  @Output() apply = new EventEmitter<ParsedPosology>();
+
+  text = '';
+  parsed: ParsedPosology | null = null;
+  interpretation = '';
+
+  constructor(private posologyParser: PosologyParserService) {}
+
+  ngOnInit(): void {
+    if (this.initialText) {
+      this.onTextChange(this.initialText);
+    }
+  }
+
+  onTextChange(text: string): void {
+    this.text = text;
+    this.parsed = this.posologyParser.parse(text);
+    this.interpretation = this.parsed ? this.posologyParser.describe(this.parsed) : '';
+  }
+
+  confirm(event?: Event): void {
+    event?.preventDefault();
+    if (!this.parsed) {
+      return;
+    }
+    this.apply.emit(this.parsed);
+    this.onTextChange('');
+  }
+}
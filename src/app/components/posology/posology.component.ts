@@ -3,39 +3,7 @@ import { CommonModule } from '@angular/common';
 import { TranslocoModule } from '@jsverse/transloco';
 import { ApiService } from '../../services/api.service';
 import { StateService } from '../../services/state.service';
-import { Medication } from '../../models/api.models';
-
-interface DosageLine {
-  content: string;
-  keywords: Array<{
-    externalFileName: string;
-    description: string;
-  }>;
-}
-
-interface DosageTextBlock {
-  title: string;
-  lines: DosageLine[];
-}
-
-interface MaximumDosageSection {
-  title: string;
-  lines: string[];
-}
-
-interface ProductDosageResponse {
-  cnk: string;
-  result?: {
-    dosage?: {
-      textBlocks?: DosageTextBlock[];
-    };
-    maximumDosage?: {
-      adults?: MaximumDosageSection;
-      children?: MaximumDosageSection;
-      remarks?: MaximumDosageSection;
-    };
-  };
-}
+import { Medication, ProductDosageResponse } from '../../models/api.models';
 
 interface MedicationDosage {
   medicationId: string;
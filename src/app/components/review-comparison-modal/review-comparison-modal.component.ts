@@ -0,0 +1,90 @@
+import { Component, EventEmitter, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { TranslocoModule } from '@jsverse/transloco';
+import { ReviewComparison, ReviewComparisonService } from '../../services/review-comparison.service';
+import { MedicationStatusService } from '../../services/medication-status.service';
+import { NotificationService } from '../../services/notification.service';
+
+/**
+ * Reconciliation of the open review against the patient's previous review,
+ * with carry-over of the items that were not entered again.
+ */
+@Component({
+  selector: 'app-review-comparison-modal',
+  imports: [CommonModule, TranslocoModule],
+  templateUrl: './review-comparison-modal.component.html',
+  styleUrls: ['./review-comparison-modal.component.scss']
+})
+export class ReviewComparisonModalComponent implements OnInit {
+  @Output() close = new EventEmitter<void>();
+  @Output() carriedOver = new EventEmitter<void>();
+
+  comparison: ReviewComparison | null = null;
+  isLoading: boolean = false;
+  isCarryingOver: boolean = false;
+
+  constructor(
+    public reviewComparison: ReviewComparisonService,
+    public medicationStatus: MedicationStatusService,
+    private notificationService: NotificationService
+  ) {}
+
+  ngOnInit(): void {
+    this.load();
+  }
+
+  load(): void {
+    this.isLoading = true;
+    this.reviewComparison.compareWithPrevious().subscribe({
+      next: comparison => {
+        this.comparison = comparison;
+        this.isLoading = false;
+      },
+      error: error => {
+        this.isLoading = false;
+        this.notificationService.error('review_comparison.load_failed', error);
+      }
+    });
+  }
+
+  get carryOverCount(): number {
+    if (!this.comparison) {
+      return 0;
+    }
+    return [...this.comparison.medications, ...this.comparison.contraindications]
+      .filter(item => item.change === 'previous_only').length;
+  }
+
+  get changedLabValues() {
+    return this.comparison?.labValues.filter(item => item.change !== 'unchanged') ?? [];
+  }
+
+  carryOver(): void {
+    if (!this.comparison || this.isCarryingOver) {
+      return;
+    }
+
+    this.isCarryingOver = true;
+    this.reviewComparison.carryOver(this.comparison).subscribe(result => {
+      this.isCarryingOver = false;
+      const count = result.medications + result.contraindications;
+      if (result.failed > 0) {
+        this.notificationService.warning('review_comparison.carry_over_partial', { count, failed: result.failed });
+      } else {
+        this.notificationService.success('review_comparison.carry_over_done', { count });
+      }
+      this.carriedOver.emit();
+      this.load();
+    });
+  }
+
+  closeModal(): void {
+    this.close.emit();
+  }
+
+  onBackdropClick(event: MouseEvent): void {
+    if ((event.target as HTMLElement).classList.contains('modal-backdrop')) {
+      this.closeModal();
+    }
+  }
+}
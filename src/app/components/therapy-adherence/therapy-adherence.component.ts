@@ -8,6 +8,7 @@ import { forkJoin, of } from 'rxjs';
 import { map, catchError } from 'rxjs/operators';
 import { ApiService } from '../../services/api.service';
 import { StateService } from '../../services/state.service';
+import { DosageRegimenService } from '../../services/dosage-regimen.service';
 import { DispensingHistoryResponse, CnkDispensingData, Medication as ApiMedication } from '../../models/api.models';
 import { ManualDispensingModalComponent } from '../manual-dispensing-modal/manual-dispensing-modal.component';
 import { ManageMomentsModalComponent } from '../manage-moments-modal/manage-moments-modal.component';
@@ -79,7 +80,8 @@ export class TherapyAdherenceComponent implements OnInit, AfterViewInit, OnDestr
 
   constructor(
     private apiService: ApiService,
-    private stateService: StateService
+    private stateService: StateService,
+    private dosageRegimen: DosageRegimenService
   ) {}
 
   ngOnInit() {
@@ -635,6 +637,7 @@ export class TherapyAdherenceComponent implements OnInit, AfterViewInit, OnDestr
         next: (updatedMed) => {
           // Update local medication object
           item.medication.packageSize = updatedMed.packageSize ?? null;
+          this.stateService.notifyMedicationsChanged();
         },
         error: (err) => {
           console.error('Failed to save units per package:', err);
@@ -922,15 +925,8 @@ export class TherapyAdherenceComponent implements OnInit, AfterViewInit, OnDestr
   }
 
   calculateDailyUsage(medication: ApiMedication): number {
-    const before = (medication.unitsBeforeBreakfast || 0) + 
-                   (medication.unitsBeforeLunch || 0) + 
-                   (medication.unitsBeforeDinner || 0);
-    const during = (medication.unitsDuringBreakfast || 0) + 
-                   (medication.unitsDuringLunch || 0) + 
-                   (medication.unitsDuringDinner || 0);
-    const bedtime = medication.unitsAtBedtime || 0;
-    
-    return before + during + bedtime;
+    // Averaged over the regimen, so e.g. a weekly tablet depletes the stock at 1/7 per day
+    return this.dosageRegimen.averageDailyUnits(medication);
   }
 
   generateStockTimeline(
@@ -0,0 +1,19 @@
+import { Component } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { TranslocoModule } from '@jsverse/transloco';
+import { NotificationService } from '../../services/notification.service';
+
+@Component({
+  selector: 'app-toast-container',
+  standalone: true,
+  imports: [CommonModule, TranslocoModule],
+  templateUrl: './toast-container.component.html',
+  styleUrls: ['./toast-container.component.scss']
+})
+export class ToastContainerComponent {
+  constructor(public notificationService: NotificationService) {}
+
+  dismiss(id: number) {
+    this.notificationService.dismiss(id);
+  }
+}
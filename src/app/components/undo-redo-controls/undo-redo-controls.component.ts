@@ -0,0 +1,64 @@
+import { Component, HostListener, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { TranslocoModule } from '@jsverse/transloco';
+import { Subscription } from 'rxjs';
+import { MedicationUndoService, UndoState } from '../../services/medication-undo.service';
+
+/**
+ * Undo/redo buttons for medication changes, also bound to Ctrl+Z / Ctrl+Shift+Z (Ctrl+Y).
+ * Place it once on a page that edits the medication schema.
+ */
+@Component({
+  selector: 'app-undo-redo-controls',
+  standalone: true,
+  imports: [CommonModule, TranslocoModule],
+  templateUrl: './undo-redo-controls.component.html',
+  styleUrls: ['./undo-redo-controls.component.scss']
+})
+export class UndoRedoControlsComponent implements OnDestroy {
+  state: UndoState = { undo: null, redo: null, busy: false };
+  private subscription: Subscription;
+
+  constructor(private undoService: MedicationUndoService) {
+    this.subscription = this.undoService.state$.subscribe(state => this.state = state);
+  }
+
+  ngOnDestroy() {
+    this.subscription.unsubscribe();
+  }
+
+  undo() {
+    this.undoService.undo();
+  }
+
+  redo() {
+    this.undoService.redo();
+  }
+
+  @HostListener('document:keydown', ['$event'])
+  onKeydown(event: KeyboardEvent) {
+    if (!(event.ctrlKey || event.metaKey) || this.isTextField(event.target)) {
+      return;
+    }
+
+    const key = event.key.toLowerCase();
+    if (key === 'z' && !event.shiftKey) {
+      event.preventDefault();
+      this.undo();
+    } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+      event.preventDefault();
+      this.redo();
+    }
+  }
+
+  // Text fields keep the browser's own undo for what is being typed
+  private isTextField(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) {
+      return false;
+    }
+    if (target.isContentEditable || target instanceof HTMLTextAreaElement) {
+      return true;
+    }
+    return target instanceof HTMLInputElement && ['text', 'search', 'email', 'password', 'url', 'tel'].includes(target.type);
+  }
+}
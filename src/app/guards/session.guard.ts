@@ -0,0 +1,33 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, Router } from '@angular/router';
+import { StateService } from '../services/state.service';
+
+/**
+ * Only allow review pages when a valid (non-expired) session exists.
+ * Otherwise redirect to the login page, remembering where the user was.
+ * Routes with `data: { requiresReview: false }` only need the user to be logged in;
+ * the others are sent to the review picker when no review is open yet.
+ */
+export const sessionGuard: CanActivateFn = async (route, state) => {
+  const stateService = inject(StateService);
+  const router = inject(Router);
+  const requiresReview = route.data['requiresReview'] !== false;
+
+  await stateService.restoreSession();
+
+  if (stateService.hasValidSession(requiresReview)) {
+    return true;
+  }
+
+  if (stateService.hasValidSession(false)) {
+    return router.createUrlTree(['/reviews']);
+  }
+
+  const queryParams: Record<string, string> = { returnUrl: state.url };
+  const expiredReviewId = stateService.getExpiredReviewId();
+  if (expiredReviewId) {
+    queryParams['reviewId'] = expiredReviewId;
+  }
+
+  return router.createUrlTree(['/login'], { queryParams });
+};
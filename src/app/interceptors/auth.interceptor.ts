@@ -0,0 +1,43 @@
+import { inject } from '@angular/core';
+import { HttpErrorResponse, HttpInterceptorFn, HttpRequest } from '@angular/common/http';
+import { catchError, switchMap, throwError } from 'rxjs';
+import { APB_NUMBER_HEADER, AuthService } from '../services/auth.service';
+
+const withToken = (req: HttpRequest<unknown>, token: string | null, apbNumber: string) => {
+  const headers: Record<string, string> = {};
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+  if (apbNumber) {
+    headers[APB_NUMBER_HEADER] = apbNumber;
+  }
+  return Object.keys(headers).length > 0 ? req.clone({ setHeaders: headers }) : req;
+};
+
+/**
+ * Attach the access token and the APB number to every backend request and transparently
+ * refresh the token once on 401
+ */
+export const authInterceptor: HttpInterceptorFn = (req, next) => {
+  const authService = inject(AuthService);
+
+  if (!authService.isApiRequest(req.url) || authService.isAuthRequest(req.url)) {
+    return next(req);
+  }
+
+  return next(withToken(req, authService.accessToken, authService.apbNumber)).pipe(
+    catchError((error: unknown) => {
+      if (!(error instanceof HttpErrorResponse) || error.status !== 401) {
+        return throwError(() => error);
+      }
+
+      return authService.refreshAccessToken().pipe(
+        catchError(refreshError => {
+          authService.handleAuthenticationLost();
+          return throwError(() => refreshError);
+        }),
+        switchMap(token => next(withToken(req, token, authService.apbNumber)))
+      );
+    })
+  );
+};
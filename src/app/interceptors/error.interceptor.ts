@@ -0,0 +1,92 @@
+import { inject } from '@angular/core';
+import { HttpContextToken, HttpErrorResponse, HttpEvent, HttpInterceptorFn } from '@angular/common/http';
+import { Observable, TimeoutError, catchError, retry, switchMap, throwError, timeout, timer } from 'rxjs';
+import { NotificationService } from '../services/notification.service';
+
+// Set on requests whose failures the caller handles itself (e.g. wrong password on login)
+export const SKIP_ERROR_HANDLING = new HttpContextToken<boolean>(() => false);
+// Per-request timeout; 0 disables it (file uploads, long-running imports)
+export const REQUEST_TIMEOUT_MS = new HttpContextToken<number>(() => 30000);
+
+export type HttpErrorKind = 'offline' | 'unauthorized' | 'conflict' | 'server' | 'timeout';
+
+const MAX_AUTO_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+
+/**
+ * Classify a failed request. Returns null for errors the calling component is expected
+ * to handle itself (validation errors, 404 "no data yet", ...).
+ */
+export function classifyHttpError(error: unknown): HttpErrorKind | null {
+  if (error instanceof TimeoutError) {
+    return 'timeout';
+  }
+  if (!(error instanceof HttpErrorResponse)) {
+    return null;
+  }
+  if (error.status === 0) {
+    return navigator.onLine ? 'server' : 'offline';
+  }
+  if (error.status === 401) {
+    return 'unauthorized';
+  }
+  if (error.status === 409) {
+    return 'conflict';
+  }
+  if (error.status >= 500) {
+    return 'server';
+  }
+  return null;
+}
+
+const isTransient = (kind: HttpErrorKind | null) => kind === 'server' || kind === 'timeout';
+
+/**
+ * Global HTTP error handling: times out hanging requests, retries idempotent GETs with
+ * exponential backoff and reports remaining failures as toasts with a retry action.
+ */
+export const errorInterceptor: HttpInterceptorFn = (req, next) => {
+  const notifications = inject(NotificationService);
+
+  if (req.context.get(SKIP_ERROR_HANDLING)) {
+    return next(req);
+  }
+
+  const timeoutMs = req.context.get(REQUEST_TIMEOUT_MS);
+  const isIdempotent = req.method === 'GET' || req.method === 'HEAD';
+
+  const send = (): Observable<HttpEvent<unknown>> => {
+    const request$ = timeoutMs > 0 ? next(req).pipe(timeout({ each: timeoutMs })) : next(req);
+
+    return request$.pipe(
+      retry({
+        count: isIdempotent ? MAX_AUTO_RETRIES : 0,
+        delay: (error, retryCount) => isTransient(classifyHttpError(error))
+          ? timer(RETRY_BASE_DELAY_MS * 2 ** (retryCount - 1))
+          : throwError(() => error)
+      }),
+      catchError(error => {
+        const kind = classifyHttpError(error);
+        if (!kind) {
+          return throwError(() => error);
+        }
+
+        notifications.markReported(error);
+        const messageKey = `errors.http_${kind}`;
+
+        // Retrying cannot fix an expired login or a conflicting edit
+        if (kind === 'unauthorized' || kind === 'conflict') {
+          notifications.error(messageKey);
+          return throwError(() => error);
+        }
+
+        // Keep the request pending until the user retries or dismisses the toast
+        return notifications.errorWithRetry(messageKey).pipe(
+          switchMap(shouldRetry => shouldRetry ? send() : throwError(() => error))
+        );
+      })
+    );
+  };
+
+  return send();
+};
@@ -0,0 +1,44 @@
+import { inject } from '@angular/core';
+import { HttpErrorResponse, HttpInterceptorFn, HttpResponse } from '@angular/common/http';
+import { defer, delay, mergeMap, of, throwError } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { MockBackendService } from '../mock-backend/mock-backend.service';
+
+// Simulated network latency, so loading states stay visible in demos
+const MIN_LATENCY_MS = 150;
+const MAX_LATENCY_MS = 400;
+
+/**
+ * Answer backend requests from the in-memory MockBackendService instead of the network.
+ * Registered last, so the auth and error interceptors behave exactly as against the real backend.
+ */
+export const mockBackendInterceptor: HttpInterceptorFn = (req, next) => {
+  if (!req.url.startsWith(environment.apiBaseUrl)) {
+    return next(req);
+  }
+
+  const mockBackend = inject(MockBackendService);
+  const [path, query] = req.urlWithParams.substring(environment.apiBaseUrl.length + 1).split('?');
+
+  return defer(() => mockBackend.handle({
+    method: req.method,
+    endpoint: path,
+    params: new URLSearchParams(query ?? ''),
+    body: req.body,
+    authorization: req.headers.get('Authorization'),
+    apbNumber: req.headers.get('X-APB-Number'),
+    ifMatch: req.headers.get('If-Match')
+  })).pipe(
+    delay(MIN_LATENCY_MS + Math.random() * (MAX_LATENCY_MS - MIN_LATENCY_MS)),
+    mergeMap(response => {
+      if (!response) {
+        console.warn('[MockBackend] No mock for', req.method, path);
+        return throwError(() => new HttpErrorResponse({ status: 404, statusText: 'Not Found', url: req.url, error: { error: 'Not mocked' } }));
+      }
+      if (response.status >= 400) {
+        return throwError(() => new HttpErrorResponse({ status: response.status, url: req.url, error: response.body }));
+      }
+      return of(new HttpResponse({ status: response.status, url: req.url, body: response.body }));
+    })
+  );
+};
@@ -0,0 +1,66 @@
+import { inject } from '@angular/core';
+import { HttpErrorResponse, HttpEvent, HttpInterceptorFn, HttpRequest, HttpResponse } from '@angular/common/http';
+import { Observable, catchError, defer, from, mergeMap, of, throwError } from 'rxjs';
+import { OFFLINE_REPLAY, OfflineQueueService } from '../services/offline-queue.service';
+
+const isNetworkError = (error: unknown) => error instanceof HttpErrorResponse && error.status === 0;
+
+/**
+ * Keep the review editable without connectivity: review GETs fall back to the last cached
+ * response, edits are queued in the outbox and answered optimistically until they are synced.
+ * Registered inside the error interceptor, so requests answered from the queue raise no error toasts.
+ */
+export const offlineInterceptor: HttpInterceptorFn = (req, next) => {
+  const offlineQueue = inject(OfflineQueueService);
+
+  if (req.context.get(OFFLINE_REPLAY)) {
+    return next(req);
+  }
+
+  if (offlineQueue.isCacheable(req)) {
+    return handleRead(req, next(req), offlineQueue);
+  }
+
+  if (offlineQueue.isQueueable(req)) {
+    // Once something is queued, later edits wait behind it to keep their order
+    if (!offlineQueue.isOnline || offlineQueue.hasPending) {
+      return enqueue(req, offlineQueue);
+    }
+    return next(req).pipe(
+      catchError(error => isNetworkError(error) ? enqueue(req, offlineQueue) : throwError(() => error))
+    );
+  }
+
+  return next(req);
+};
+
+function handleRead(req: HttpRequest<unknown>, request$: Observable<HttpEvent<unknown>>, offlineQueue: OfflineQueueService): Observable<HttpEvent<unknown>> {
+  const fromCache = (error: unknown) => from(offlineQueue.cachedResponse(req)).pipe(
+    mergeMap(body => body === undefined
+      ? throwError(() => error)
+      : of(new HttpResponse({ status: 200, url: req.url, body })))
+  );
+
+  if (!offlineQueue.isOnline) {
+    return fromCache(new HttpErrorResponse({ status: 0, statusText: 'Offline', url: req.url }));
+  }
+
+  return request$.pipe(
+    mergeMap(event => {
+      if (!(event instanceof HttpResponse)) {
+        return of(event);
+      }
+      offlineQueue.cacheResponse(req, event.body);
+      return from(offlineQueue.applyPending(req, event.body)).pipe(
+        mergeMap(body => of(event.clone({ body })))
+      );
+    }),
+    catchError(error => isNetworkError(error) ? fromCache(error) : throwError(() => error))
+  );
+}
+
+function enqueue(req: HttpRequest<unknown>, offlineQueue: OfflineQueueService): Observable<HttpEvent<unknown>> {
+  return defer(() => offlineQueue.enqueue(req)).pipe(
+    mergeMap(body => of(new HttpResponse({ status: 202, statusText: 'Queued', url: req.url, body })))
+  );
+}
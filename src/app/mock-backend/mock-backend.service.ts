@@ -0,0 +1,955 @@
+import { Injectable } from '@angular/core';
+import {
+  MOCK_ANTICHOLINERGICS,
+  MOCK_CONDITIONS,
+  MOCK_FALL_RISK,
+  MOCK_FOOD_INTERACTIONS,
+  MOCK_GHEOPS,
+  MOCK_INTERACTIONS,
+  MOCK_MEDICATIONS_TO_AVOID,
+  MOCK_PATIENTS,
+  MOCK_PRODUCT_CONTRAINDICATIONS,
+  MOCK_PRODUCTS,
+  MOCK_REVIEWS,
+  MockInteraction,
+  MockProduct
+} from './mock-fixtures';
+
+export interface MockRequest {
+  method: string;
+  endpoint: string;                       // Path below the API base URL, e.g. "manage_medications"
+  params: URLSearchParams;
+  body: unknown;                          // Parsed JSON body or FormData
+  authorization: string | null;
+  apbNumber?: string | null;              // Pharmacy the request is made for
+  ifMatch?: string | null;                // eTag the change was based on
+}
+
+export interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+type Row = Record<string, any>;
+type Handler = (request: MockRequest) => MockResponse | Promise<MockResponse>;
+
+const ACCESS_TOKEN_LIFETIME_S = 900;
+const PUBLIC_ENDPOINTS = ['login', 'refresh_token'];
+
+/**
+ * In-browser stand-in for the Azure Functions backend and the APB services.
+ * Holds all data in memory (reset on reload) and answers every endpoint ApiService calls,
+ * so the full review workflow can be demonstrated, trained and tested without a backend.
+ * Enabled through `environment.mockBackend` (see environment.mock.ts / `npm run start:mock`).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class MockBackendService {
+  private patients = new Map<string, Row>();
+  private reviews = new Map<string, Row>();
+  private medications = new Map<string, Row[]>();
+  private labValues = new Map<string, Row[]>();
+  private contraindications = new Map<string, Row[]>();
+  private dispensingMoments = new Map<string, Row[]>();
+  private reviewNotes = new Map<string, Row[]>();
+  private questionAnswers = new Map<string, Row[]>();
+  private deprescribingPlans = new Map<string, Row[]>();
+  private auditLog = new Map<string, Row[]>();
+  private accessTokens = new Set<string>();
+  private refreshTokens = new Set<string>();
+  private idCounter = 0;
+  private versionCounter = 0;
+
+  private readonly routes: Record<string, Handler> = {
+    'POST login': req => this.login(req),
+    'POST refresh_token': req => this.refreshToken(req),
+    'POST logout': () => this.ok({ message: 'Logged out' }),
+
+    'GET manage_medication_reviews': req => this.getMedicationReviews(req),
+    'POST manage_medication_reviews': req => this.createFollowUpOrReview(req),
+    'PUT update_patient': req => this.updatePatient(req),
+    'PUT update_medication_review': req => this.updateMedicationReview(req),
+
+    'POST get_apb_contraindications': req => this.ok({ language: this.body(req)['language'] ?? 'NL', result: this.conditionLists() }),
+    'GET manage_contraindications': req => this.ok(this.rows(this.contraindications, req)),
+    'POST manage_contraindications': req => this.addRow(this.contraindications, req, 'contraindicationId'),
+    'PUT manage_contraindications': req => this.updateRow(this.contraindications, req, 'contraindicationId'),
+    'DELETE manage_contraindications': req => this.deleteRow(this.contraindications, req, 'contraindicationId'),
+
+    'POST search_medications': req => this.searchMedications(req),
+    'GET manage_medications': req => this.ok(this.rows(this.medications, req)),
+    'POST manage_medications': req => this.addRow(this.medications, req, 'medicationId'),
+    'PUT manage_medications': req => this.updateRow(this.medications, req, 'medicationId'),
+    'DELETE manage_medications': req => this.deleteRow(this.medications, req, 'medicationId'),
+    'POST import_medications_from_csv': req => this.importMedicationsLegacy(req),
+
+    'GET manage_lab_values': req => this.ok(this.rows(this.labValues, req)),
+    'POST manage_lab_values': req => this.addRow(this.labValues, req, 'labValueId'),
+    'PUT manage_lab_values': req => this.updateRow(this.labValues, req, 'labValueId'),
+    'DELETE manage_lab_values': req => this.deleteRow(this.labValues, req, 'labValueId'),
+
+    'POST upload_dispensing_history': req => this.uploadDispensingHistory(req),
+    'GET query_dispensing_history': req => this.queryDispensingHistory(req),
+    'POST add_manual_dispensing_moment': req => this.addManualDispensingMoment(req),
+    'DELETE delete_manual_dispensing_moment': req => this.deleteRow(this.dispensingMoments, req, 'id', 'id'),
+
+    'POST get_interactions': req => this.getInteractions(req),
+    'POST get_interaction_details': req => this.getInteractionDetails(req),
+    'POST get_contraindication_matches': req => this.getContraindicationMatches(req),
+    'POST get_product_contraindications': req => this.getProductContraindications(req),
+    'POST get_product_dosage': req => this.getProductDosage(req),
+    'POST get_product_renadaptor': req => this.getProductRenadaptor(req),
+    'GET get_reference_document': req => this.ok(this.referenceDocument(req.params.get('type') ?? '')),
+
+    'GET manage_review_notes': req => this.ok(this.rows(this.reviewNotes, req)),
+    'POST manage_review_notes': req => this.addReviewNote(req),
+    'PUT manage_review_notes': req => this.updateRow(this.reviewNotes, req, 'reviewNoteId'),
+    'DELETE manage_review_notes': req => this.deleteRow(this.reviewNotes, req, 'reviewNoteId'),
+
+    'GET manage_question_answers': req => this.getQuestionAnswers(req),
+    'POST manage_question_answers': req => this.saveQuestionAnswer(req),
+    'PUT manage_question_answers': req => this.saveQuestionAnswer(req),
+    'DELETE manage_question_answers': req => this.deleteRow(this.questionAnswers, req, 'questionName', 'questionName'),
+
+    'GET manage_deprescribing_plans': req => this.ok(this.rows(this.deprescribingPlans, req)),
+    'POST manage_deprescribing_plans': req => this.addRow(this.deprescribingPlans, req, 'planId'),
+    'PUT manage_deprescribing_plans': req => this.updateRow(this.deprescribingPlans, req, 'planId'),
+    'DELETE manage_deprescribing_plans': req => this.deleteRow(this.deprescribingPlans, req, 'planId'),
+
+    // Append-only: entries are never changed or removed
+    'GET manage_audit_log': req => this.ok(this.rows(this.auditLog, req)),
+    'POST manage_audit_log': req => this.addRow(this.auditLog, req, 'auditId'),
+
+    'POST submit_feedback': req => this.ok({ ...this.body(req), feedbackId: this.nextId('feedback'), submittedAt: new Date().toISOString(), message: 'Feedback received' }),
+    'POST get_vmp_from_cnk': req => this.getVmpFromCnk(req),
+
+    'POST query_gheops_tool': req => this.perCnk(req, product => ({
+      entries: MOCK_GHEOPS[product?.activeIngredient ?? ''] ?? [],
+      matchCount: (MOCK_GHEOPS[product?.activeIngredient ?? ''] ?? []).length
+    })),
+    'POST query_anticholinergics': req => this.perCnk(req, product => ({
+      strength: MOCK_ANTICHOLINERGICS[product?.activeIngredient ?? ''] ?? null,
+      isAnticholinergic: !!MOCK_ANTICHOLINERGICS[product?.activeIngredient ?? '']
+    })),
+    'POST get_medication_to_avoid': req => this.perCnk(req, product => ({
+      shouldAvoid: MOCK_MEDICATIONS_TO_AVOID.includes(product?.activeIngredient ?? '')
+    })),
+    'POST get_fall_risk_medications': req => this.perCnk(req, product => ({
+      increasesRiskOfFalling: MOCK_FALL_RISK.includes(product?.activeIngredient ?? '')
+    }))
+  };
+
+  constructor() {
+    this.seed();
+  }
+
+  /**
+   * Answer a request, or null when the endpoint is not part of the mock
+   */
+  async handle(request: MockRequest): Promise<MockResponse | null> {
+    const handler = this.routes[`${request.method} ${request.endpoint}`];
+    if (!handler) {
+      return null;
+    }
+
+    if (!PUBLIC_ENDPOINTS.includes(request.endpoint) && !this.isAuthorized(request.authorization)) {
+      return { status: 401, body: { error: 'Invalid or expired access token' } };
+    }
+
+    try {
+      return await handler(request);
+    } catch (error) {
+      console.error('[MockBackend] Handler failed:', request.method, request.endpoint, error);
+      return { status: 500, body: { error: 'Mock backend error' } };
+    }
+  }
+
+  /**
+   * fetch() replacement for the streaming CSV import, answering with a real SSE stream
+   */
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const [path, query] = url.split('?');
+    const endpoint = path.substring(path.lastIndexOf('/') + 1);
+    const params = new URLSearchParams(query ?? '');
+    const authorization = new Headers(init.headers).get('Authorization');
+    const apbNumber = new Headers(init.headers).get('X-APB-Number');
+    const ifMatch = new Headers(init.headers).get('If-Match');
+
+    if (endpoint !== 'import_medications_from_csv') {
+      const response = await this.handle({ method: init.method ?? 'GET', endpoint, params, body: init.body ?? null, authorization, apbNumber, ifMatch });
+      return new Response(JSON.stringify(response?.body ?? { error: 'Not found' }), {
+        status: response?.status ?? 404,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    if (!this.isAuthorized(authorization)) {
+      return new Response(JSON.stringify({ error: 'Invalid or expired access token' }), { status: 401 });
+    }
+
+    const rows = await this.readCsv(init.body);
+    if (!rows) {
+      return new Response(JSON.stringify({ error: 'The file does not contain any medications' }), { status: 400 });
+    }
+
+    const reviewId = params.get('medicationReviewId') ?? '';
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      start: async controller => {
+        const send = (event: unknown) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        const imported = [];
+
+        for (let i = 0; i < rows.length; i++) {
+          await new Promise(resolve => setTimeout(resolve, 250));
+          const medication = this.importRow(reviewId, rows[i]);
+          imported.push(medication);
+          send({
+            type: 'progress',
+            current: i + 1,
+            total: rows.length,
+            percentage: Math.round(((i + 1) / rows.length) * 100),
+            message: `Processed ${medication.medicationName}`,
+            medication
+          });
+        }
+
+        send({ type: 'complete', ...this.importSummary(imported) });
+        controller.close();
+      }
+    });
+
+    return new Response(stream, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+  }
+
+  // Auth
+
+  private login(req: MockRequest): MockResponse {
+    const body = this.body(req);
+    if (!body['apbNumber'] || body['password'] !== 'demo') {
+      return { status: 401, body: { error: 'Invalid APB number or password' } };
+    }
+
+    let context = this.reviewContext(null, false);
+    if (body['medicationReviewId']) {
+      const review = this.reviews.get(body['medicationReviewId']);
+      if (!review) {
+        return { status: 404, body: { error: 'Medication review not found' } };
+      }
+      context = this.reviewContext(review, false);
+    } else if (body['createReview'] !== false) {
+      context = this.reviewContext(this.createReview(), true);
+    }
+
+    return this.ok({ ...context, ...this.issueTokens() });
+  }
+
+  private refreshToken(req: MockRequest): MockResponse {
+    const refreshToken = this.body(req)['refreshToken'];
+    if (!this.refreshTokens.has(refreshToken)) {
+      return { status: 401, body: { error: 'Invalid refresh token' } };
+    }
+    this.refreshTokens.delete(refreshToken);
+    return this.ok(this.issueTokens());
+  }
+
+  private issueTokens() {
+    const accessToken = this.nextId('access');
+    const refreshToken = this.nextId('refresh');
+    this.accessTokens.add(accessToken);
+    this.refreshTokens.add(refreshToken);
+    // Access tokens expire like the real ones, so the refresh flow gets exercised too
+    setTimeout(() => this.accessTokens.delete(accessToken), ACCESS_TOKEN_LIFETIME_S * 1000);
+    return { accessToken, refreshToken, expiresIn: ACCESS_TOKEN_LIFETIME_S };
+  }
+
+  private isAuthorized(authorization: string | null): boolean {
+    const token = authorization?.replace(/^Bearer\s+/i, '');
+    return !!token && this.accessTokens.has(token);
+  }
+
+  // Patients & reviews
+
+  private getMedicationReviews(req: MockRequest): MockResponse {
+    const reviewId = req.params.get('medicationReviewId');
+    if (reviewId) {
+      const review = this.reviews.get(reviewId);
+      return review ? this.ok(this.reviewContext(review, false)) : { status: 404, body: { error: 'Medication review not found' } };
+    }
+
+    return this.ok([...this.reviews.values()].map(review => ({ ...review, rowKey: review['medicationReviewId'] })));
+  }
+
+  private createFollowUpOrReview(req: MockRequest): MockResponse {
+    const body = this.body(req);
+    if (body['patientId'] && !this.patients.has(body['patientId'])) {
+      return { status: 404, body: { error: 'Patient not found' } };
+    }
+    const review = this.createReview(body['patientId'], body['previousMedicationReviewId']);
+    return this.ok(this.reviewContext(review, !body['patientId']));
+  }
+
+  private createReview(patientId?: string, previousMedicationReviewId?: string): Row {
+    let patient = patientId ? this.patients.get(patientId) : undefined;
+    if (!patient) {
+      patient = { patientId: this.nextId('patient'), dateOfBirth: null, sex: null };
+      this.patients.set(patient['patientId'], patient);
+    }
+
+    const review: Row = {
+      medicationReviewId: this.nextId('review'),
+      patientId: patient['patientId'],
+      firstNameAtTimeOfReview: null,
+      lastNameAtTimeOfReview: null,
+      reviewDate: new Date().toISOString().substring(0, 10),
+      renalFunction: null,
+      previousMedicationReviewId: previousMedicationReviewId ?? null,
+      status: 'draft',
+      lastModified: new Date().toISOString()
+    };
+    this.reviews.set(review['medicationReviewId'], review);
+    return review;
+  }
+
+  private reviewContext(review: Row | null, created: boolean) {
+    const patient = review ? this.patients.get(review['patientId']) : null;
+    return {
+      patientCreated: created,
+      reviewCreated: created,
+      patientId: patient?.['patientId'] ?? '',
+      medicationReviewId: review?.['medicationReviewId'] ?? '',
+      patient: { dateOfBirth: patient?.['dateOfBirth'] ?? null, sex: patient?.['sex'] ?? null },
+      review: {
+        reviewDate: review?.['reviewDate'] ?? null,
+        firstNameAtTimeOfReview: review?.['firstNameAtTimeOfReview'] ?? null,
+        lastNameAtTimeOfReview: review?.['lastNameAtTimeOfReview'] ?? null,
+        renalFunction: review?.['renalFunction'] ?? null,
+        previousMedicationReviewId: review?.['previousMedicationReviewId'] ?? null
+      }
+    };
+  }
+
+  private updatePatient(req: MockRequest): MockResponse {
+    const body = this.body(req);
+    const patient = this.patients.get(body['patientId']);
+    if (!patient) {
+      return { status: 404, body: { error: 'Patient not found' } };
+    }
+    Object.assign(patient, this.pick(body, ['dateOfBirth', 'sex']));
+    return this.ok({ ...patient, updated: true });
+  }
+
+  private updateMedicationReview(req: MockRequest): MockResponse {
+    const body = this.body(req);
+    const review = this.reviews.get(body['medicationReviewId']);
+    if (!review) {
+      return { status: 404, body: { error: 'Medication review not found' } };
+    }
+    Object.assign(review, this.pick(body, ['firstNameAtTimeOfReview', 'lastNameAtTimeOfReview', 'reviewDate', 'renalFunction']));
+    this.touch(review['medicationReviewId']);
+    return this.ok({ ...review, updated: true });
+  }
+
+  // Generic review-scoped CRUD (entities are keyed by "rowKey" like in Azure Table Storage)
+
+  private rows(store: Map<string, Row[]>, req: MockRequest): Row[] {
+    return store.get(req.params.get('medicationReviewId') ?? '') ?? [];
+  }
+
+  private addRow(store: Map<string, Row[]>, req: MockRequest, idField: string): MockResponse {
+    const body = this.body(req);
+    const reviewId = body['medicationReviewId'];
+    if (!this.reviews.has(reviewId)) {
+      return { status: 404, body: { error: 'Medication review not found' } };
+    }
+
+    const row = this.pick(body, Object.keys(body).filter(key => !['apbNumber', 'medicationReviewId', idField].includes(key)));
+    row['rowKey'] = body[idField] || this.nextId(idField.replace(/Id$/, ''));
+    row['timestamp'] = new Date().toISOString();
+    row['eTag'] = this.eTag();
+    store.set(reviewId, [...(store.get(reviewId) ?? []), row]);
+    this.touch(reviewId);
+    return { status: 201, body: row };
+  }
+
+  private updateRow(store: Map<string, Row[]>, req: MockRequest, idField: string): MockResponse {
+    const body = this.body(req);
+    const row = (store.get(body['medicationReviewId']) ?? []).find(item => item['rowKey'] === body[idField]);
+    if (!row) {
+      return { status: 404, body: { error: 'Not found' } };
+    }
+    if (this.isStale(req, row)) {
+      return this.preconditionFailed(row);
+    }
+
+    Object.assign(row, this.pick(body, Object.keys(body).filter(key => !['apbNumber', 'medicationReviewId', idField, 'eTag'].includes(key))));
+    row['timestamp'] = new Date().toISOString();
+    row['eTag'] = this.eTag();
+    this.touch(body['medicationReviewId']);
+    return this.ok(row);
+  }
+
+  private deleteRow(store: Map<string, Row[]>, req: MockRequest, idParam: string, rowField = 'rowKey'): MockResponse {
+    const reviewId = req.params.get('medicationReviewId') ?? '';
+    const id = req.params.get(idParam);
+    const rows = store.get(reviewId) ?? [];
+    const existing = rows.find(row => row[rowField] === id);
+    if (!existing) {
+      return { status: 404, body: { error: 'Not found' } };
+    }
+    if (this.isStale(req, existing)) {
+      return this.preconditionFailed(existing);
+    }
+
+    store.set(reviewId, rows.filter(row => row[rowField] !== id));
+    this.touch(reviewId);
+    return this.ok({ message: 'Deleted' });
+  }
+
+  // Medications
+
+  private searchMedications(req: MockRequest): MockResponse {
+    const body = this.body(req);
+    const term = String(body['searchTerm'] ?? '').toLowerCase().trim();
+    const results = MOCK_PRODUCTS
+      .filter(product => product.name.toLowerCase().includes(term) || String(product.cnk).includes(term) || product.activeIngredient.includes(term))
+      .slice(0, body['maxResults'] ?? 20)
+      .map(product => ({ benaming: product.name, cnk: String(product.cnk).padStart(7, '0'), verpakking: product.packageSize, vmp: String(product.vmp) }));
+
+    return this.ok({ searchTerm: body['searchTerm'], count: results.length, results });
+  }
+
+  private async importMedicationsLegacy(req: MockRequest): Promise<MockResponse> {
+    const rows = await this.readCsv(req.body);
+    if (!rows) {
+      return { status: 400, body: { error: 'The file does not contain any medications' } };
+    }
+    const reviewId = req.params.get('medicationReviewId') ?? '';
+    return this.ok(this.importSummary(rows.map(row => this.importRow(reviewId, row))));
+  }
+
+  private importRow(reviewId: string, row: Row) {
+    const name = this.column(row, ['name', 'naam', 'medication', 'medicatie', 'geneesmiddel', 'product']) ?? '';
+    const cnk = this.column(row, ['cnk']);
+    const product = cnk
+      ? this.findProduct(cnk)
+      : MOCK_PRODUCTS.find(item => name && item.name.toLowerCase().includes(name.toLowerCase().split(' ')[0]));
+
+    // Mapped files use the medication fields as headers, other files the usual column names
+    const units = (names: string[]) => Number(this.column(row, names)?.replace(',', '.') ?? 0) || 0;
+    const intakeMoments = {
+      unitsBeforeBreakfast: units(['unitsbeforebreakfast']),
+      unitsDuringBreakfast: units(['unitsduringbreakfast', 'morning', 'ochtend', 'matin']),
+      unitsBeforeLunch: units(['unitsbeforelunch']),
+      unitsDuringLunch: units(['unitsduringlunch', 'noon', 'middag', 'midi']),
+      unitsBeforeDinner: units(['unitsbeforedinner']),
+      unitsDuringDinner: units(['unitsduringdinner', 'evening', 'avond', 'soir']),
+      unitsAtBedtime: units(['unitsatbedtime', 'night', 'nacht', 'nuit', 'bedtime']),
+      asNeeded: this.column(row, ['asneeded']) === 'true'
+    };
+    const hasIntake = Object.values(intakeMoments).some(value => value);
+    const indication = this.column(row, ['indication', 'indicatie']) ?? null;
+
+    if (!name && !product) {
+      return { medicationName: '', success: false, medicationId: null, missingInformation: [], errorMessage: 'Medication name is missing' };
+    }
+
+    const medication: Row = {
+      rowKey: this.nextId('medication'),
+      name: product?.name ?? name,
+      cnk: product?.cnk ?? null,
+      vmp: product?.vmp ?? null,
+      packageSize: product?.packageSize ?? null,
+      activeIngredient: product?.activeIngredient ?? null,
+      indication,
+      ...intakeMoments,
+      timestamp: new Date().toISOString()
+    };
+    this.medications.set(reviewId, [...(this.medications.get(reviewId) ?? []), medication]);
+
+    const missingInformation = [
+      ...(product ? [] : ['CNK', 'ActiveIngredient']),
+      ...(indication ? [] : ['Indication']),
+      ...(hasIntake ? [] : ['IntakeMoments'])
+    ];
+
+    return {
+      medicationName: name || product!.name,
+      success: true,
+      medicationId: medication['rowKey'],
+      cnk: product?.cnk ?? null,
+      foundMedicationName: product?.name ?? null,
+      vmp: product?.vmp ?? null,
+      packageSize: product?.packageSize ?? null,
+      activeIngredient: product?.activeIngredient ?? null,
+      intakeMoments,
+      indication,
+      missingInformation,
+      errorMessage: null
+    };
+  }
+
+  private importSummary(medications: Row[]) {
+    return {
+      totalProcessed: medications.length,
+      successful: medications.filter(medication => medication['success']).length,
+      failed: medications.filter(medication => !medication['success']).length,
+      withMissingInformation: medications.filter(medication => medication['missingInformation']?.length).length,
+      processingTimeMs: medications.length * 250,
+      medications
+    };
+  }
+
+  // Dispensing history
+
+  private async uploadDispensingHistory(req: MockRequest): Promise<MockResponse> {
+    const rows = await this.readCsv(req.body);
+    const reviewId = req.params.get('medicationReviewId') ?? '';
+    const moments = (rows ?? [])
+      .map(row => ({
+        cnk: this.column(row, ['cnk']),
+        description: this.column(row, ['description', 'omschrijving', 'name', 'naam']) ?? '',
+        date: this.column(row, ['date', 'datum']),
+        amount: Number(this.column(row, ['amount', 'aantal', 'quantity'])) || 1
+      }))
+      .filter(moment => moment.cnk && moment.date);
+
+    if (moments.length === 0) {
+      return { status: 400, body: { error: 'No dispensing moments found. Expected the columns CNK, Date and Amount.' } };
+    }
+
+    const manual = (this.dispensingMoments.get(reviewId) ?? []).filter(moment => moment['source'] === 'manual');
+    this.dispensingMoments.set(reviewId, [
+      ...manual,
+      ...moments.map(moment => ({ ...moment, cnk: moment.cnk!.padStart(7, '0'), source: 'csv', id: this.nextId('moment') }))
+    ]);
+
+    return this.ok({
+      message: 'Dispensing history uploaded',
+      blobUri: `mock://dispensing/${reviewId}.csv`,
+      totalCnkCodes: new Set(moments.map(moment => moment.cnk)).size,
+      totalDispensingMoments: moments.length
+    });
+  }
+
+  private queryDispensingHistory(req: MockRequest): MockResponse {
+    const reviewId = req.params.get('medicationReviewId') ?? '';
+    const moments = this.dispensingMoments.get(reviewId) ?? [];
+    if (moments.length === 0) {
+      return { status: 404, body: { error: 'No dispensing history found' } };
+    }
+
+    const groups = new Map<string, Row>();
+    moments.forEach(moment => {
+      const group = groups.get(moment['cnk']) ?? {
+        cnk: moment['cnk'],
+        vmp: this.findProduct(moment['cnk'])?.vmp ?? null,
+        description: moment['description'],
+        dispensingMoments: []
+      };
+      group['dispensingMoments'].push({ date: moment['date'], amount: moment['amount'], source: moment['source'], id: moment['id'] });
+      groups.set(moment['cnk'], group);
+    });
+
+    return this.ok({
+      medicationReviewId: reviewId,
+      blobUri: `mock://dispensing/${reviewId}.csv`,
+      totalCnkCodes: groups.size,
+      totalDispensingMoments: moments.length,
+      csvMoments: moments.filter(moment => moment['source'] === 'csv').length,
+      manualMoments: moments.filter(moment => moment['source'] === 'manual').length,
+      dispensingData: [...groups.values()]
+    });
+  }
+
+  private addManualDispensingMoment(req: MockRequest): MockResponse {
+    const body = this.body(req);
+    const reviewId = req.params.get('medicationReviewId') ?? '';
+    // The endpoint takes ISO dates but reports DD/MM/YYYY like the CSV moments
+    const [year, month, day] = String(body['date']).split('-');
+    const moment = {
+      id: this.nextId('moment'),
+      cnk: String(body['cnk']).padStart(7, '0'),
+      description: body['description'] ?? '',
+      date: `${day}/${month}/${year}`,
+      amount: Number(body['amount']),
+      source: 'manual'
+    };
+    this.dispensingMoments.set(reviewId, [...(this.dispensingMoments.get(reviewId) ?? []), moment]);
+
+    return { status: 201, body: { ...moment, apbNumber: req.apbNumber ?? null, medicationReviewId: reviewId, message: 'Dispensing moment added' } };
+  }
+
+  // APB services
+
+  private getInteractions(req: MockRequest): MockResponse {
+    const body = this.body(req);
+    const participants = (body['cnks'] ?? []).map((item: Row) => ({ id: String(item['cnk']).padStart(7, '0'), type: 'produ' }));
+    const products = participants
+      .map((participant: Row) => ({ participant, product: this.findProduct(participant['id']) }))
+      .filter((item: Row) => item['product']);
+
+    const codeOf = (text: string) => text.substring(0, 3).toUpperCase();
+    const substance = (description: string) => ({ code: codeOf(description), description });
+
+    const matches = new Map<string, Row>();
+    MOCK_INTERACTIONS.forEach(interaction => {
+      const left = products.find((item: Row) => item['product'].activeIngredient === interaction.left);
+      const right = products.find((item: Row) => item['product'].activeIngredient === interaction.right);
+      if (!left || !right) {
+        return;
+      }
+
+      const match = matches.get(interaction.severityCode) ?? {
+        clinicalRelevance: { code: interaction.severityCode, description: interaction.severity },
+        interactions: []
+      };
+      match['interactions'].push({
+        interactionNumber: interaction.interactionNumber,
+        isFoodDrugInteraction: false,
+        leftSubstance: substance(interaction.left),
+        rightSubstance: substance(interaction.right),
+        direction: { code: 'D', description: interaction.direction },
+        sourceAssessment: null,
+        leftParticipant: left['participant'],
+        rightParticipant: right['participant']
+      });
+      matches.set(interaction.severityCode, match);
+    });
+
+    const drugFoodInteractions = products
+      .map((item: Row) => ({
+        participant: item['participant'],
+        interactionGroups: MOCK_FOOD_INTERACTIONS
+          .filter(interaction => interaction.left === item['product'].activeIngredient)
+          .map(interaction => ({
+            clinicalRelevance: { code: interaction.severityCode, description: interaction.severity },
+            interactions: [{
+              side: 'left',
+              interactionInformation: {
+                interactionNumber: interaction.interactionNumber,
+                leftSubstance: substance(interaction.left),
+                rightSubstance: substance(interaction.right),
+                direction: { code: 'D', description: interaction.direction },
+                sourceAssessment: null
+              }
+            }]
+          }))
+      }))
+      .filter((item: Row) => item['interactionGroups'].length > 0);
+
+    return this.ok({
+      language: body['language'] ?? 'NL',
+      participants,
+      result: { interactionMatches: [...matches.values()], drugFoodInteractions }
+    });
+  }
+
+  private getInteractionDetails(req: MockRequest): MockResponse {
+    const number = this.body(req)['interactionNumber'];
+    const interaction = [...MOCK_INTERACTIONS, ...MOCK_FOOD_INTERACTIONS].find(item => item.interactionNumber === number);
+    if (!interaction) {
+      return { status: 404, body: { error: 'Interaction not found' } };
+    }
+
+    return this.ok({ result: this.interactionDetails(interaction) });
+  }
+
+  private interactionDetails(interaction: MockInteraction) {
+    return {
+      textGroups: [{
+        groupTitle: 'Advice',
+        texts: [{ title: { code: 'ADV', description: 'Clinical advice' }, text: interaction.text }]
+      }],
+      details: {
+        direction: { code: 'D', description: interaction.direction },
+        plausibility: { code: 'P', description: 'Established' },
+        frequency: { code: 'F', description: 'Common' },
+        sourceAssessment: { code: 'S', description: 'Demo data' }
+      }
+    };
+  }
+
+  private getContraindicationMatches(req: MockRequest): MockResponse {
+    const body = this.body(req);
+    const conditionCodes: string[] = body['participatingPhysioPathologicalConditionCodes'] ?? [];
+    const result = (body['participatingProductCodes'] ?? [])
+      .flatMap((cnk: string) => this.contraindicationsFor(cnk))
+      .filter((match: Row) => conditionCodes.includes(match['physioPathologicalCondition'].code));
+
+    return this.ok({ result });
+  }
+
+  private getProductContraindications(req: MockRequest): MockResponse {
+    const cnk = String(this.body(req)['cnk']);
+    return this.ok({ cnk, result: this.contraindicationsFor(cnk) });
+  }
+
+  private contraindicationsFor(cnk: string): Row[] {
+    const product = this.findProduct(cnk);
+    const conditions = Object.values(MOCK_CONDITIONS).flat();
+
+    return (MOCK_PRODUCT_CONTRAINDICATIONS[product?.activeIngredient ?? ''] ?? []).map(item => {
+      const condition = conditions.find(entry => entry.code === item.conditionCode)!;
+      return {
+        appreciation: item.appreciation,
+        product: { code: String(cnk).padStart(7, '0'), description: product?.name ?? '' },
+        physioPathologicalCondition: condition,
+        contraIndications: [{ code: `${condition.code}-CI`, description: `${product?.activeIngredient} in patients with: ${condition.description.toLowerCase()}` }]
+      };
+    });
+  }
+
+  private getProductDosage(req: MockRequest): MockResponse {
+    const cnk = String(this.body(req)['cnk']);
+    const product = this.findProduct(cnk);
+    if (!product) {
+      return { status: 404, body: { error: 'Product not found' } };
+    }
+
+    return this.ok({
+      cnk,
+      result: {
+        dosage: {
+          textBlocks: [{
+            title: 'Usual dosage',
+            lines: [
+              { content: `Adults: ${product.dosageMg} mg once or twice daily, depending on the indication.`, keywords: [] },
+              { content: 'Older adults: start with the lowest effective dose.', keywords: [] }
+            ]
+          }]
+        },
+        maximumDosage: {
+          adults: { title: 'Adults', lines: [`Maximum ${product.dosageMg * 3} mg per day`] },
+          remarks: { title: 'Remarks', lines: ['Demo data, not for clinical use.'] }
+        }
+      }
+    });
+  }
+
+  private getProductRenadaptor(req: MockRequest): MockResponse {
+    const product = this.findProduct(String(this.body(req)['cnk']));
+    const html = `<html><body style="font-family: sans-serif; padding: 24px">
+      <h2>Renadaptor (demo)</h2>
+      <p>${product?.name ?? 'Unknown product'}: renal dose adjustment is not available in demo mode.</p>
+    </body></html>`;
+    return this.ok({ url: `data:text/html;charset=utf-8,${encodeURIComponent(html)}` });
+  }
+
+  private referenceDocument(type: string): Blob {
+    return new Blob([this.minimalPdf(`Reference document "${type}" is not available in demo mode.`)], { type: 'application/pdf' });
+  }
+
+  private getVmpFromCnk(req: MockRequest): MockResponse {
+    const body = this.body(req);
+    const lookup = (cnk: number | string) => {
+      const product = this.findProduct(String(cnk));
+      return { cnk: Number(cnk), vmp: product?.vmp ?? null, found: !!product, medicationName: product?.name ?? null };
+    };
+
+    return this.ok(body['cnkCodes'] ? { results: body['cnkCodes'].map(lookup) } : lookup(body['cnk']));
+  }
+
+  private perCnk(req: MockRequest, result: (product: MockProduct | undefined) => Row): MockResponse {
+    return this.ok((this.body(req)['cnkCodes'] ?? []).map((cnk: string) => {
+      const product = this.findProduct(cnk);
+      return { cnk, atcCode: product?.atcCode ?? null, ...result(product) };
+    }));
+  }
+
+  // Review notes & question answers
+
+  private addReviewNote(req: MockRequest): MockResponse {
+    const response = this.addRow(this.reviewNotes, req, 'reviewNoteId');
+    if (response.status === 201) {
+      (response.body as Row)['partitionKey'] = this.body(req)['medicationReviewId'];
+    }
+    return response;
+  }
+
+  private getQuestionAnswers(req: MockRequest): MockResponse {
+    const answers = this.rows(this.questionAnswers, req);
+    const questionName = req.params.get('questionName');
+    if (!questionName) {
+      return this.ok(answers);
+    }
+
+    const answer = answers.find(item => item['questionName'] === questionName);
+    return answer ? this.ok(answer) : { status: 404, body: { error: 'Question answer not found' } };
+  }
+
+  private saveQuestionAnswer(req: MockRequest): MockResponse {
+    const body = this.body(req);
+    const reviewId = body['medicationReviewId'];
+    const existing = (this.questionAnswers.get(reviewId) ?? []).find(item => item['questionName'] === body['questionName']);
+    if (existing && this.isStale(req, existing)) {
+      return this.preconditionFailed(existing);
+    }
+
+    const answers = (this.questionAnswers.get(reviewId) ?? []).filter(item => item !== existing);
+    const answer = { ...existing, ...this.pick(body, ['medicationReviewId', 'questionName', 'value', 'shareWithPatient', 'shareWithDoctor']), eTag: this.eTag() };
+    this.questionAnswers.set(reviewId, [...answers, answer]);
+    this.touch(reviewId);
+    return this.ok(answer);
+  }
+
+  // Helpers
+
+  private seed(): void {
+    MOCK_PATIENTS.forEach(patient => this.patients.set(patient.patientId, { ...patient }));
+
+    MOCK_REVIEWS.forEach(({ medications, labValues, contraindications, ...review }) => {
+      const reviewId = review.medicationReviewId;
+      this.reviews.set(reviewId, { ...review, lastModified: new Date(review.reviewDate).toISOString() });
+
+      this.medications.set(reviewId, medications.map((cnk, index) => {
+        const product = this.findProduct(String(cnk))!;
+        return {
+          rowKey: this.nextId('medication'),
+          name: product.name,
+          cnk: product.cnk,
+          vmp: product.vmp,
+          packageSize: product.packageSize,
+          activeIngredient: product.activeIngredient,
+          dosageMg: product.dosageMg,
+          routeOfAdministration: product.routeOfAdministration,
+          indication: null,
+          unitsDuringBreakfast: 1,
+          unitsAtBedtime: product.activeIngredient === 'lormetazepam' ? 1 : 0,
+          asNeeded: product.activeIngredient === 'ibuprofen',
+          timestamp: new Date(Date.parse(review.reviewDate) + index * 1000).toISOString(),
+          eTag: this.eTag()
+        };
+      }));
+
+      this.labValues.set(reviewId, labValues.map(labValue => ({ ...labValue, rowKey: this.nextId('labValue') })));
+
+      const conditions = Object.values(MOCK_CONDITIONS).flat();
+      this.contraindications.set(reviewId, contraindications.map(code => ({
+        rowKey: this.nextId('contraindication'),
+        name: conditions.find(condition => condition.code === code)?.description ?? null,
+        contraindicationCode: code
+      })));
+
+      // Monthly pick-ups over the last six months, with a gap to show poor adherence
+      this.dispensingMoments.set(reviewId, medications.flatMap(cnk => {
+        const product = this.findProduct(String(cnk))!;
+        return [6, 5, 4, 2, 1]
+          .map(monthsAgo => {
+            const date = new Date(review.reviewDate);
+            date.setMonth(date.getMonth() - monthsAgo);
+            return {
+              id: this.nextId('moment'),
+              cnk: String(cnk).padStart(7, '0'),
+              description: product.name,
+              date: `${String(date.getDate()).padStart(2, '0')}/${String(date.getMonth() + 1).padStart(2, '0')}/${date.getFullYear()}`,
+              amount: 1,
+              source: 'csv'
+            };
+          });
+      }));
+
+      this.reviewNotes.set(reviewId, []);
+      this.questionAnswers.set(reviewId, []);
+    });
+  }
+
+  private findProduct(cnk: string | number): MockProduct | undefined {
+    return MOCK_PRODUCTS.find(product => product.cnk === Number(cnk));
+  }
+
+  private conditionLists() {
+    return {
+      hypersensitivities: { list: MOCK_CONDITIONS.hypersensitivities },
+      pathologies: { list: MOCK_CONDITIONS.pathologies },
+      physiologicalConditions: { list: MOCK_CONDITIONS.physiologicalConditions }
+    };
+  }
+
+  private async readCsv(body: unknown): Promise<Row[] | null> {
+    const file = body instanceof FormData ? body.get('file') : null;
+    if (!(file instanceof Blob)) {
+      return null;
+    }
+
+    const lines = (await file.text()).split(/\r?\n/).filter(line => line.trim());
+    if (lines.length < 2) {
+      return null;
+    }
+
+    const delimiter = lines[0].includes(';') ? ';' : ',';
+    const headers = lines[0].split(delimiter).map(header => header.trim().replace(/^"|"$/g, '').toLowerCase());
+    return lines.slice(1).map(line => {
+      const cells = line.split(delimiter).map(cell => cell.trim().replace(/^"|"$/g, ''));
+      return Object.fromEntries(headers.map((header, index) => [header, cells[index] ?? '']));
+    });
+  }
+
+  // First non-empty cell whose header contains one of the given names
+  private column(row: Row, names: string[]): string | undefined {
+    const key = Object.keys(row).find(header => names.some(name => header.includes(name)) && row[header]);
+    return key ? row[key] : undefined;
+  }
+
+  private body(req: MockRequest): Row {
+    return (req.body && typeof req.body === 'object' && !(req.body instanceof FormData) ? req.body : {}) as Row;
+  }
+
+  private pick(source: Row, keys: string[]): Row {
+    return Object.fromEntries(keys.filter(key => key in source).map(key => [key, source[key]]));
+  }
+
+  private touch(reviewId: string): void {
+    const review = this.reviews.get(reviewId);
+    if (review) {
+      review['lastModified'] = new Date().toISOString();
+    }
+  }
+
+  private nextId(prefix: string): string {
+    return `mock-${prefix}-${++this.idCounter}`;
+  }
+
+  private eTag(): string {
+    // Counter suffix keeps eTags unique within the same millisecond
+    return `W/"datetime'${encodeURIComponent(new Date().toISOString())}'-${++this.versionCounter}"`;
+  }
+
+  // If-Match is optional, like in Table Storage; "*" matches any version
+  private isStale(req: MockRequest, row: Row): boolean {
+    return !!req.ifMatch && req.ifMatch !== '*' && req.ifMatch !== row['eTag'];
+  }
+
+  private preconditionFailed(current: Row): MockResponse {
+    return { status: 412, body: { error: 'The entity was changed by someone else', current } };
+  }
+
+  private ok(body: unknown): MockResponse {
+    return { status: 200, body };
+  }
+
+  // Single page PDF showing one line of text
+  private minimalPdf(text: string): string {
+    const escaped = text.replace(/[()\\]/g, match => `\\${match}`);
+    const content = `BT /F1 14 Tf 72 760 Td (${escaped}) Tj ET`;
+    const objects = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+      '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'
+    ];
+
+    let pdf = '%PDF-1.4\n';
+    const offsets = objects.map((object, index) => {
+      const offset = pdf.length;
+      pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+      return offset;
+    });
+    const xref = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+    return pdf;
+  }
+}
@@ -0,0 +1,217 @@
+// Seed data for the in-browser mock backend.
+// All codes (CNK, VMP, interaction numbers) are fictitious and only meant for demos and training.
+
+export interface MockProduct {
+  cnk: number;
+  vmp: number;
+  name: string;
+  activeIngredient: string;
+  atcCode: string;
+  packageSize: number;
+  dosageMg: number;
+  routeOfAdministration: string;
+}
+
+export const MOCK_PRODUCTS: MockProduct[] = [
+  { cnk: 1416536, vmp: 21031, name: 'Pantoprazole Demo 40 mg', activeIngredient: 'pantoprazole', atcCode: 'A02BC02', packageSize: 56, dosageMg: 40, routeOfAdministration: 'oral' },
+  { cnk: 1416544, vmp: 21031, name: 'Pantoprazole Generic Demo 40 mg', activeIngredient: 'pantoprazole', atcCode: 'A02BC02', packageSize: 28, dosageMg: 40, routeOfAdministration: 'oral' },
+  { cnk: 2208352, vmp: 13364, name: 'Paracetamol Demo 1 g', activeIngredient: 'paracetamol', atcCode: 'N02BE01', packageSize: 40, dosageMg: 1000, routeOfAdministration: 'oral' },
+  { cnk: 1585394, vmp: 10872, name: 'Warfarin Demo 5 mg', activeIngredient: 'warfarin', atcCode: 'B01AA03', packageSize: 100, dosageMg: 5, routeOfAdministration: 'oral' },
+  { cnk: 1720929, vmp: 22154, name: 'Acetylsalicylic acid Demo 80 mg', activeIngredient: 'acetylsalicylic acid', atcCode: 'B01AC06', packageSize: 168, dosageMg: 80, routeOfAdministration: 'oral' },
+  { cnk: 2372588, vmp: 15587, name: 'Ibuprofen Demo 400 mg', activeIngredient: 'ibuprofen', atcCode: 'M01AE01', packageSize: 30, dosageMg: 400, routeOfAdministration: 'oral' },
+  { cnk: 1535228, vmp: 11930, name: 'Lormetazepam Demo 2 mg', activeIngredient: 'lormetazepam', atcCode: 'N05CD06', packageSize: 30, dosageMg: 2, routeOfAdministration: 'oral' },
+  { cnk: 1045658, vmp: 10455, name: 'Amitriptyline Demo 25 mg', activeIngredient: 'amitriptyline', atcCode: 'N06AA09', packageSize: 50, dosageMg: 25, routeOfAdministration: 'oral' },
+  { cnk: 2235736, vmp: 17802, name: 'Simvastatin Demo 40 mg', activeIngredient: 'simvastatin', atcCode: 'C10AA01', packageSize: 98, dosageMg: 40, routeOfAdministration: 'oral' },
+  { cnk: 2380722, vmp: 16313, name: 'Bisoprolol Demo 5 mg', activeIngredient: 'bisoprolol', atcCode: 'C07AB07', packageSize: 100, dosageMg: 5, routeOfAdministration: 'oral' },
+  { cnk: 2224433, vmp: 12978, name: 'Metformin Demo 850 mg', activeIngredient: 'metformin', atcCode: 'A10BA02', packageSize: 120, dosageMg: 850, routeOfAdministration: 'oral' }
+];
+
+export const MOCK_CONDITIONS = {
+  hypersensitivities: [
+    { code: 'H001', description: 'Hypersensitivity to NSAIDs' },
+    { code: 'H002', description: 'Hypersensitivity to penicillins' }
+  ],
+  pathologies: [
+    { code: 'P001', description: 'Peptic ulcer' },
+    { code: 'P002', description: 'Renal insufficiency' },
+    { code: 'P003', description: 'Heart failure' },
+    { code: 'P004', description: 'Glaucoma' }
+  ],
+  physiologicalConditions: [
+    { code: 'F001', description: 'Elderly patient' },
+    { code: 'F002', description: 'Breastfeeding' }
+  ]
+};
+
+// Product (by active ingredient) -> conditions it is contraindicated or cautioned for
+export const MOCK_PRODUCT_CONTRAINDICATIONS: Record<string, Array<{ conditionCode: string; appreciation: string }>> = {
+  'ibuprofen': [
+    { conditionCode: 'H001', appreciation: '0' },
+    { conditionCode: 'P001', appreciation: '0' },
+    { conditionCode: 'P002', appreciation: '2' },
+    { conditionCode: 'P003', appreciation: '2' }
+  ],
+  'acetylsalicylic acid': [
+    { conditionCode: 'H001', appreciation: '0' },
+    { conditionCode: 'P001', appreciation: '2' }
+  ],
+  'metformin': [
+    { conditionCode: 'P002', appreciation: '0' }
+  ],
+  'amitriptyline': [
+    { conditionCode: 'P004', appreciation: '0' },
+    { conditionCode: 'F001', appreciation: '3' }
+  ],
+  'lormetazepam': [
+    { conditionCode: 'F001', appreciation: '3' },
+    { conditionCode: 'F002', appreciation: '2' }
+  ]
+};
+
+export interface MockInteraction {
+  interactionNumber: string;
+  left: string;                // Active ingredient
+  right: string;               // Active ingredient
+  severityCode: string;        // '50' severe ... '10' minor
+  severity: string;
+  direction: string;
+  text: string;
+}
+
+export const MOCK_INTERACTIONS: MockInteraction[] = [
+  {
+    interactionNumber: '900001',
+    left: 'warfarin',
+    right: 'acetylsalicylic acid',
+    severityCode: '50',
+    severity: 'Severe',
+    direction: 'Increased risk of bleeding',
+    text: 'Combining a vitamin K antagonist with an antiplatelet agent increases the risk of (gastro-intestinal) bleeding. Monitor INR and signs of bleeding.'
+  },
+  {
+    interactionNumber: '900002',
+    left: 'warfarin',
+    right: 'ibuprofen',
+    severityCode: '50',
+    severity: 'Severe',
+    direction: 'Increased risk of bleeding',
+    text: 'NSAIDs increase the bleeding risk of vitamin K antagonists. Prefer paracetamol for analgesia.'
+  },
+  {
+    interactionNumber: '900003',
+    left: 'ibuprofen',
+    right: 'acetylsalicylic acid',
+    severityCode: '40',
+    severity: 'Moderate',
+    direction: 'Reduced antiplatelet effect of acetylsalicylic acid',
+    text: 'Ibuprofen may block the irreversible platelet inhibition of low-dose acetylsalicylic acid. Take acetylsalicylic acid at least 30 minutes before ibuprofen.'
+  },
+  {
+    interactionNumber: '900004',
+    left: 'lormetazepam',
+    right: 'amitriptyline',
+    severityCode: '30',
+    severity: 'Minor',
+    direction: 'Increased sedation',
+    text: 'Additive central nervous system depression. Warn the patient about drowsiness and fall risk.'
+  }
+];
+
+export const MOCK_FOOD_INTERACTIONS: MockInteraction[] = [
+  {
+    interactionNumber: '910001',
+    left: 'warfarin',
+    right: 'Food rich in vitamin K',
+    severityCode: '40',
+    severity: 'Moderate',
+    direction: 'Reduced anticoagulant effect',
+    text: 'Large changes in vitamin K intake (green vegetables) influence the INR. Advise a stable diet.'
+  },
+  {
+    interactionNumber: '910002',
+    left: 'lormetazepam',
+    right: 'Alcohol',
+    severityCode: '40',
+    severity: 'Moderate',
+    direction: 'Increased sedation',
+    text: 'Alcohol increases the sedative effect of benzodiazepines.'
+  }
+];
+
+export const MOCK_GHEOPS: Record<string, Array<{ type: string; criteria: string; rationale: string; alternative: string }>> = {
+  'lormetazepam': [
+    { type: 'lijst_1', criteria: 'Benzodiazepines for insomnia', rationale: 'Increased risk of falls, fractures and cognitive decline in older adults.', alternative: 'Sleep hygiene, gradual tapering' }
+  ],
+  'amitriptyline': [
+    { type: 'lijst_1', criteria: 'Tricyclic antidepressants', rationale: 'Strong anticholinergic effects, orthostatic hypotension.', alternative: 'SSRI such as sertraline' }
+  ],
+  'ibuprofen': [
+    { type: 'lijst_2', criteria: 'Chronic NSAID use', rationale: 'Risk of gastro-intestinal bleeding, renal failure and heart failure.', alternative: 'Paracetamol' }
+  ],
+  'pantoprazole': [
+    { type: 'lijst_3', criteria: 'PPI for more than 8 weeks without clear indication', rationale: 'Risk of C. difficile infection, fractures and hypomagnesemia.', alternative: 'Reassess indication, step down' }
+  ]
+};
+
+export const MOCK_ANTICHOLINERGICS: Record<string, 'H' | 'L' | 'A'> = {
+  'amitriptyline': 'H',
+  'lormetazepam': 'L'
+};
+
+export const MOCK_MEDICATIONS_TO_AVOID = ['amitriptyline'];
+
+export const MOCK_FALL_RISK = ['lormetazepam', 'amitriptyline', 'bisoprolol'];
+
+export const MOCK_PATIENTS = [
+  { patientId: 'mock-patient-1', dateOfBirth: '1942-03-14', sex: 'F' },
+  { patientId: 'mock-patient-2', dateOfBirth: '1938-11-02', sex: 'M' }
+];
+
+export const MOCK_REVIEWS = [
+  {
+    medicationReviewId: 'mock-review-1',
+    patientId: 'mock-patient-1',
+    firstNameAtTimeOfReview: 'Maria',
+    lastNameAtTimeOfReview: 'Peeters',
+    reviewDate: '2026-09-28',
+    renalFunction: '52',
+    status: 'in_progress',
+    medications: [1585394, 1720929, 2372588, 1535228, 1416536],
+    labValues: [
+      { name: 'eGFR', value: 52, unit: 'mL/min/1.73m²' },
+      { name: 'INR', value: 2.8, unit: '' }
+    ],
+    contraindications: ['P001', 'F001']
+  },
+  {
+    medicationReviewId: 'mock-review-2',
+    patientId: 'mock-patient-2',
+    firstNameAtTimeOfReview: 'Jozef',
+    lastNameAtTimeOfReview: 'Claes',
+    reviewDate: '2026-06-11',
+    renalFunction: '38',
+    status: 'completed',
+    medications: [2224433, 2235736, 2380722, 1045658, 2208352],
+    labValues: [
+      { name: 'eGFR', value: 38, unit: 'mL/min/1.73m²' },
+      { name: 'HbA1c', value: 7.1, unit: '%' }
+    ],
+    contraindications: ['P002', 'P004']
+  },
+  {
+    // Earlier review of the first patient, to compare against
+    medicationReviewId: 'mock-review-3',
+    patientId: 'mock-patient-1',
+    firstNameAtTimeOfReview: 'Maria',
+    lastNameAtTimeOfReview: 'Peeters',
+    reviewDate: '2026-03-17',
+    renalFunction: '58',
+    status: 'completed',
+    medications: [1585394, 1720929, 1416544, 2380722],
+    labValues: [
+      { name: 'eGFR', value: 58, unit: 'mL/min/1.73m²' },
+      { name: 'INR', value: 2.8, unit: '' }
+    ],
+    contraindications: ['P001']
+  }
+];
@@ -8,6 +8,7 @@ export interface MedicationReview {
   firstNameAtTimeOfReview: string | null;
   lastNameAtTimeOfReview: string | null;
   renalFunction?: string | null;
+  previousMedicationReviewId?: string | null;  // The review this one is a follow-up of
 }
 
 // Medication Search
@@ -33,9 +34,11 @@ export interface LoginRequest {
   apbNumber: string;
   password: string;
   medicationReviewId?: string;
+  createReview?: boolean;  // false = only authenticate, the review is picked afterwards
 }
 
-export interface LoginResponse {
+// Patient and review the session is working on
+export interface ReviewContext {
   patientCreated: boolean;
   reviewCreated: boolean;
   patientId: string;
@@ -44,8 +47,48 @@ export interface LoginResponse {
   review: MedicationReview;
 }
 
+export interface LoginResponse extends ReviewContext {
+  accessToken: string;              // Short-lived bearer token for all subsequent API calls
+  refreshToken: string | null;      // Used to obtain a new access token when it expires
+  accessTokenExpiresAt: string | null; // ISO timestamp
+}
+
+// Token fields as sent by the backend (login and refresh_token)
+export interface TokenGrant {
+  accessToken: string;
+  refreshToken: string | null;
+  expiresIn: number | null;         // Seconds until the access token expires
+}
+
+export interface RefreshTokenRequest {
+  refreshToken: string;
+}
+
+export interface RefreshTokenResponse {
+  accessToken: string;
+  refreshToken: string | null;
+  accessTokenExpiresAt: string | null;
+}
+
 export interface SessionData extends LoginResponse {
   apbNumber: string; // Store the APB number from login request
+  userName: string;  // Pharmacist working under the APB login, recorded as the actor of audit entries
+}
+
+// Review Picker
+export type MedicationReviewStatus = 'draft' | 'in_progress' | 'completed';
+
+export interface MedicationReviewSummary extends MedicationReview {
+  medicationReviewId: string;
+  patientId: string;
+  status: MedicationReviewStatus | null;
+  lastModified: string | null;
+}
+
+// Links a new review to the patient and review it follows up on
+export interface FollowUpReviewRequest {
+  patientId: string;
+  previousMedicationReviewId: string;
 }
 
 export interface UpdatePatientRequest {
@@ -106,22 +149,6 @@ export interface APBContraindicationsResponse {
   };
 }
 
-// Backend uses PascalCase, so add aliases
-export interface APBContraindicationsResponseBackend {
-  Language: string;
-  Result: {
-    Hypersensitivities: {
-      List: APBContraindicationItem[];
-    };
-    Pathologies: {
-      List: APBContraindicationItem[];
-    };
-    PhysiologicalConditions: {
-      List: APBContraindicationItem[];
-    };
-  };
-}
-
 // Contraindication Management
 export interface Contraindication {
   contraindicationId: string;
@@ -149,6 +176,39 @@ export interface ContraindicationResponse {
 }
 
 // Medication Management
+
+/**
+ * How often the intake moments of a medication apply:
+ * - daily: every day
+ * - every_n_days: every N days from the start date (2 = alternate days)
+ * - weekdays: on the selected days of the week
+ * - interval: one intake every N hours, independent of meals
+ * - cycle: the first days of a repeating cycle, e.g. day 1-21 of 28
+ */
+export type DosagePeriodicity = 'daily' | 'every_n_days' | 'weekdays' | 'interval' | 'cycle';
+
+export interface TaperingStep {
+  days: number;                     // How long the step lasts
+  units: number;                    // Units per intake day during the step
+}
+
+// Structured posology on top of the seven intake slots (unitsBeforeBreakfast … unitsAtBedtime)
+export interface DosageRegimen {
+  periodicity: DosagePeriodicity;
+  everyNDays?: number | null;       // every_n_days
+  weekdays?: number[] | null;       // weekdays: 1 = Monday … 7 = Sunday
+  intervalHours?: number | null;    // interval
+  unitsPerIntake?: number | null;   // interval
+  cycleDaysOn?: number | null;      // cycle: intake on day 1 … cycleDaysOn
+  cycleLength?: number | null;      // cycle: total days before it repeats
+  taperingSteps?: TaperingStep[] | null;  // Consecutive steps from the start date, replace the slot total
+  startDate?: string | null;        // yyyy-mm-dd, anchor for every_n_days, cycle and tapering
+  endDate?: string | null;          // yyyy-mm-dd, last intake day
+}
+
+// Whether a medication is currently taken; stopped medications stay in the review for documentation
+export type MedicationStatus = 'active' | 'paused' | 'stopped';
+
 export interface Medication {
   medicationId: string;
   name?: string | null;
@@ -162,6 +222,12 @@ export interface Medication {
   asNeeded?: boolean | null;
   specialFrequency?: number | null;
   specialDescription?: string | null;
+  dosageRegimen?: DosageRegimen | null;
+  status?: MedicationStatus | null;
+  startDate?: string | null;             // yyyy-mm-dd
+  stopDate?: string | null;              // yyyy-mm-dd
+  changeReason?: string | null;          // Why it was started, paused, stopped or changed
+  instructions?: string | null;          // For the patient, e.g. "swallow whole with water"
   unitsBeforeBreakfast?: number | null;
   unitsDuringBreakfast?: number | null;
   unitsBeforeLunch?: number | null;
@@ -170,6 +236,7 @@ export interface Medication {
   unitsDuringDinner?: number | null;
   unitsAtBedtime?: number | null;
   timestamp?: string | null;
+  eTag?: string;              // Version for optimistic concurrency (sent back as If-Match)
 }
 
 export interface AddMedicationRequest {
@@ -186,6 +253,12 @@ export interface AddMedicationRequest {
   asNeeded?: boolean;
   specialFrequency?: number;
   specialDescription?: string;
+  dosageRegimen?: DosageRegimen;
+  status?: MedicationStatus;
+  startDate?: string;
+  stopDate?: string;
+  changeReason?: string;
+  instructions?: string;
   unitsBeforeBreakfast?: number;
   unitsDuringBreakfast?: number;
   unitsBeforeLunch?: number;
@@ -209,6 +282,12 @@ export interface UpdateMedicationRequest {
   asNeeded?: boolean | null;
   specialFrequency?: number | null;
   specialDescription?: string | null;
+  dosageRegimen?: DosageRegimen | null;
+  status?: MedicationStatus | null;
+  startDate?: string | null;
+  stopDate?: string | null;
+  changeReason?: string | null;
+  instructions?: string | null;
   unitsBeforeBreakfast?: number | null;
   unitsDuringBreakfast?: number | null;
   unitsBeforeLunch?: number | null;
@@ -231,6 +310,12 @@ export interface MedicationResponse {
   asNeeded?: boolean | null;
   specialFrequency?: number | null;
   specialDescription?: string | null;
+  dosageRegimen?: DosageRegimen | null;
+  status?: MedicationStatus | null;
+  startDate?: string | null;
+  stopDate?: string | null;
+  changeReason?: string | null;
+  instructions?: string | null;
   unitsBeforeBreakfast?: number | null;
   unitsDuringBreakfast?: number | null;
   unitsBeforeLunch?: number | null;
@@ -238,6 +323,7 @@ export interface MedicationResponse {
   unitsBeforeDinner?: number | null;
   unitsDuringDinner?: number | null;
   unitsAtBedtime?: number | null;
+  eTag?: string;
 }
 
 // Lab Value Management
@@ -296,6 +382,13 @@ export interface DispensingHistoryResponse {
   dispensingData: CnkDispensingData[];
 }
 
+export interface UploadDispensingHistoryResponse {
+  message?: string;
+  blobUri?: string;
+  totalCnkCodes?: number;
+  totalDispensingMoments?: number;
+}
+
 // Manual Dispensing Moment
 export interface AddManualDispensingMomentRequest {
   cnk: string;           // CNK medication code (7-digit)
@@ -315,6 +408,11 @@ export interface AddManualDispensingMomentResponse {
   message: string;
 }
 
+// Generic response of the delete endpoints
+export interface DeleteResponse {
+  message?: string;
+}
+
 // Question Answer Management
 export interface QuestionAnswer {
   medicationReviewId: string;
@@ -322,6 +420,7 @@ export interface QuestionAnswer {
   value?: string | null;
   shareWithPatient?: boolean;
   shareWithDoctor?: boolean;
+  eTag?: string;
 }
 
 export interface AddQuestionAnswerRequest {
@@ -346,6 +445,7 @@ export interface QuestionAnswerResponse {
   value?: string | null;
   shareWithPatient?: boolean;
   shareWithDoctor?: boolean;
+  eTag?: string;
 }
 
 // CSV Import
@@ -439,3 +539,239 @@ export interface BulkVmpLookupRequest {
 export interface BulkVmpLookupResponse {
   results: VmpLookupResponse[];
 }
+
+
+// APB Interactions
+export interface CodeDescription {
+  code: string;
+  description: string;
+}
+
+export interface InteractionParticipant {
+  id: string;
+  type: 'produ';
+  routeOfAdministrationCode?: string;
+}
+
+export interface Substance {
+  code: string;
+  description: string;
+  routeOfAdministrations?: CodeDescription[];
+}
+
+export interface DrugDrugInteraction {
+  interactionNumber: string;
+  isFoodDrugInteraction: boolean;
+  leftSubstance: Substance;
+  rightSubstance: Substance;
+  direction: CodeDescription;
+  sourceAssessment: CodeDescription | null;
+  leftParticipant: InteractionParticipant;
+  rightParticipant: InteractionParticipant;
+}
+
+export interface InteractionMatch {
+  clinicalRelevance: CodeDescription;
+  interactions: DrugDrugInteraction[];
+}
+
+export interface DrugFoodInteractionInfo {
+  interactionNumber: string;
+  leftSubstance: Substance;
+  rightSubstance: Substance;
+  direction: CodeDescription;
+  sourceAssessment: CodeDescription | null;
+}
+
+export interface DrugFoodInteractionItem {
+  side: string;
+  interactionInformation: DrugFoodInteractionInfo;
+}
+
+export interface DrugFoodInteractionGroup {
+  clinicalRelevance: CodeDescription;
+  interactions: DrugFoodInteractionItem[];
+}
+
+export interface DrugFoodInteraction {
+  participant: InteractionParticipant;
+  interactionGroups: DrugFoodInteractionGroup[];
+}
+
+export interface InteractionsRequest {
+  language: string;
+  cnks: Array<{
+    cnk: string;
+    routeOfAdministrationCode: string;
+  }>;
+}
+
+export interface InteractionsResponse {
+  language: string;
+  participants: InteractionParticipant[];
+  result: {
+    interactionMatches: InteractionMatch[];
+    drugFoodInteractions: DrugFoodInteraction[];
+  };
+}
+
+export interface InteractionDetailsRequest {
+  language: string;
+  interactionNumber: string;
+}
+
+export interface InteractionTextGroup {
+  groupTitle: string;
+  texts: Array<{
+    title: CodeDescription;
+    text: string;
+  }>;
+}
+
+export interface InteractionDetails {
+  textGroups: InteractionTextGroup[];
+  details: {
+    direction?: CodeDescription | null;
+    plausibility?: CodeDescription | null;
+    frequency?: CodeDescription | null;
+    sourceAssessment?: CodeDescription | null;
+  } | null;
+}
+
+export interface InteractionDetailsResponse {
+  result: InteractionDetails | null;
+}
+
+// APB Contraindication Matching
+export interface ContraindicationMatchesRequest {
+  language: string;
+  participatingProductCodes: string[];
+  participatingPhysioPathologicalConditionCodes: string[];
+}
+
+export interface ContraindicationMatch {
+  appreciation: string;              // '0' = absolute CI, '2'/'3' = precautions
+  product: CodeDescription | null;
+  physioPathologicalCondition: CodeDescription | null;
+  contraIndications: CodeDescription[];
+}
+
+export interface ContraindicationMatchesResponse {
+  result: ContraindicationMatch[];
+}
+
+export interface ProductContraindicationsResponse {
+  cnk: string;
+  result: ContraindicationMatch[];
+}
+
+// APB Product Dosage (Posology)
+export interface DosageLine {
+  content: string;
+  keywords: Array<{
+    externalFileName: string;
+    description: string;
+  }>;
+}
+
+export interface DosageTextBlock {
+  title: string;
+  lines: DosageLine[];
+}
+
+export interface MaximumDosageSection {
+  title: string;
+  lines: string[];
+}
+
+export interface ProductDosageResponse {
+  cnk: string;
+  result?: {
+    dosage?: {
+      textBlocks?: DosageTextBlock[];
+    };
+    maximumDosage?: {
+      adults?: MaximumDosageSection;
+      children?: MaximumDosageSection;
+      remarks?: MaximumDosageSection;
+    };
+  };
+}
+
+// APB Renadaptor
+export interface ProductRenadaptorResponse {
+  url: string;
+}
+
+// Review Notes
+export interface ReviewNote {
+  partitionKey: string;       // Medication Review ID
+  rowKey: string;             // Review Note ID
+  text?: string;
+  discussWithPatient: boolean;
+  communicateToDoctor: boolean;
+  category?: string;          // Category for organizing notes (e.g., "Posology", "Interactions", "GheOPS")
+  linkedCnk?: string;         // CNK code to link note to specific medication
+  medicationName?: string;    // Medication name stored separately from CNK
+  timestamp?: string;
+  eTag?: string;              // Version for optimistic concurrency (sent back as If-Match)
+}
+// Audit log
+export type AuditEntity = 'patient' | 'review' | 'medication' | 'contraindication' | 'lab_value' | 'dispensing_history' | 'review_note' | 'question_answer' | 'deprescribing_plan';
+export type AuditAction = 'created' | 'updated' | 'deleted' | 'imported';
+
+export interface AuditChange {
+  field: string;
+  from: unknown;              // null when the field had no value (or the entity was created)
+  to: unknown;                // null when the field was cleared (or the entity was deleted)
+}
+
+export interface AuditEntry {
+  auditId: string;
+  medicationReviewId: string;
+  entity: AuditEntity;
+  entityId: string | null;
+  label: string | null;       // Human-readable name of the entity, e.g. the medication name
+  action: AuditAction;
+  changes: AuditChange[];
+  actor: string;              // Name of the pharmacist who made the change
+  occurredAt: string;         // ISO timestamp of the change in the browser (edits may be synced later)
+  pending: boolean;           // Edit still in the offline outbox, not applied by the backend yet
+}
+
+// Deprescribing plans
+export type DeprescribingPlanStatus = 'active' | 'paused' | 'completed' | 'abandoned';
+export type DeprescribingOutcome = 'as_planned' | 'withdrawal_symptoms' | 'step_postponed' | 'relapse' | 'stopped';
+
+export interface DeprescribingStep {
+  startDate: string;                // yyyy-mm-dd, the step lasts until the next one starts
+  unitsPerDay: number;              // 0 for the step that stops the medication
+  instructions?: string | null;     // e.g. "½ tablet at bedtime"
+}
+
+export interface DeprescribingMonitoringPoint {
+  date: string;                     // yyyy-mm-dd
+  description: string;              // What to check, e.g. sleep quality or rebound reflux
+  done: boolean;
+}
+
+export interface DeprescribingProgress {
+  date: string;                     // yyyy-mm-dd
+  outcome: DeprescribingOutcome;
+  remark?: string | null;
+}
+
+export interface DeprescribingPlan {
+  planId: string;
+  medicationId: string | null;      // Medication of this review that is tapered
+  medicationName: string;
+  cnk?: string | null;
+  reason?: string | null;
+  linkedNoteId?: string | null;     // Review note (GheOPS, START-STOP-NL) that recommended the plan
+  status: DeprescribingPlanStatus;
+  steps: DeprescribingStep[];       // Ordered by start date
+  monitoring: DeprescribingMonitoringPoint[];
+  progress: DeprescribingProgress[];
+  timestamp?: string;
+  eTag?: string;                    // Version for optimistic concurrency (sent back as If-Match)
+}
@@ -0,0 +1,471 @@
+// Runtime response schemas for the backend API.
+// The backend mixes camelCase, PascalCase and UPPERCASE keys (and Azure Table "rowKey"
+// identifiers), so field lookups are case-insensitive and may list aliases.
+// Responses are normalized against these schemas by ApiContractService.
+
+export type FieldSchema =
+  | ScalarSchema
+  | ArraySchema
+  | ObjectSchema;
+
+interface BaseSchema {
+  optional?: boolean;        // Missing is fine (no contract violation)
+  nullable?: boolean;        // null is an accepted value
+  default?: unknown;         // Value used when missing (or null and not nullable)
+  aliases?: string[];        // Alternative backend key names, e.g. 'rowKey'
+}
+
+export interface ScalarSchema extends BaseSchema {
+  kind: 'string' | 'number' | 'boolean' | 'unknown';
+}
+
+export interface ArraySchema extends BaseSchema {
+  kind: 'array';
+  items: FieldSchema;
+}
+
+export interface ObjectSchema extends BaseSchema {
+  kind: 'object';
+  fields: Record<string, FieldSchema>;
+  passthrough?: boolean;     // Keep undeclared keys (camelCased) for large third-party payloads
+}
+
+type Options = BaseSchema;
+
+export const str = (options: Options = {}): ScalarSchema => ({ kind: 'string', ...options });
+export const num = (options: Options = {}): ScalarSchema => ({ kind: 'number', ...options });
+export const bool = (options: Options = {}): ScalarSchema => ({ kind: 'boolean', ...options });
+export const raw = (options: Options = {}): ScalarSchema => ({ kind: 'unknown', optional: true, ...options });
+export const arr = (items: FieldSchema, options: Options = {}): ArraySchema => ({ kind: 'array', items, ...options });
+export const obj = (fields: Record<string, FieldSchema>, options: Options & { passthrough?: boolean } = {}): ObjectSchema =>
+  ({ kind: 'object', fields, ...options });
+
+// Shorthands for the most common field shapes
+const optStr = (aliases?: string[]) => str({ optional: true, nullable: true, default: null, aliases });
+const optNum = (aliases?: string[]) => num({ optional: true, nullable: true, default: null, aliases });
+
+// Auth & reviews
+
+export const reviewContextSchema = obj({
+  patientCreated: bool({ optional: true, default: false }),
+  reviewCreated: bool({ optional: true, default: false }),
+  patientId: str({ default: '' }),
+  medicationReviewId: str({ default: '' }),
+  patient: obj({
+    dateOfBirth: optStr(),
+    sex: optStr()
+  }, { optional: true, default: {} }),
+  review: obj({
+    reviewDate: optStr(),
+    firstNameAtTimeOfReview: optStr(),
+    lastNameAtTimeOfReview: optStr(),
+    renalFunction: optStr(),
+    previousMedicationReviewId: optStr()
+  }, { optional: true, default: {} })
+});
+
+export const loginSchema = obj({
+  ...reviewContextSchema.fields,
+  accessToken: str({ default: '' }),
+  refreshToken: optStr(),
+  expiresIn: optNum()
+});
+
+export const refreshTokenSchema = obj({
+  accessToken: str({ default: '' }),
+  refreshToken: optStr(),
+  expiresIn: optNum()
+});
+
+export const medicationReviewSummarySchema = obj({
+  medicationReviewId: str({ aliases: ['rowKey'] }),
+  patientId: str({ optional: true, default: '' }),
+  firstNameAtTimeOfReview: optStr(),
+  lastNameAtTimeOfReview: optStr(),
+  reviewDate: optStr(),
+  renalFunction: optStr(),
+  previousMedicationReviewId: optStr(),
+  status: optStr(),
+  lastModified: optStr(['timestamp'])
+});
+
+export const updatePatientResponseSchema = obj({
+  patientId: str(),
+  dateOfBirth: optStr(),
+  sex: optStr(),
+  updated: bool({ optional: true, default: false })
+});
+
+export const updateMedicationReviewResponseSchema = obj({
+  medicationReviewId: str(),
+  firstNameAtTimeOfReview: optStr(),
+  lastNameAtTimeOfReview: optStr(),
+  reviewDate: optStr(),
+  renalFunction: optStr(),
+  updated: bool({ optional: true, default: false })
+});
+
+// Contraindications
+
+const codeDescriptionSchema = obj({
+  code: str({ default: '' }),
+  description: str({ default: '' })
+});
+
+export const apbContraindicationsSchema = obj({
+  language: str({ optional: true, default: '' }),
+  result: obj({
+    hypersensitivities: obj({ list: arr(codeDescriptionSchema, { default: [] }) }),
+    pathologies: obj({ list: arr(codeDescriptionSchema, { default: [] }) }),
+    physiologicalConditions: obj({ list: arr(codeDescriptionSchema, { default: [] }) })
+  })
+});
+
+export const contraindicationSchema = obj({
+  contraindicationId: str({ aliases: ['rowKey'] }),
+  name: optStr(),
+  contraindicationCode: str({ default: '' })
+});
+
+// Medications
+
+export const medicationSearchSchema = obj({
+  searchTerm: str({ optional: true, default: '' }),
+  count: num({ optional: true, default: 0 }),
+  results: arr(obj({
+    benaming: str({ default: '' }),
+    cnk: str({ default: '' }),
+    verpakking: num({ optional: true, nullable: true, default: null }),
+    vmp: optStr()
+  }), { optional: true, default: [] })
+});
+
+const dosageRegimenSchema = obj({
+  periodicity: str({ default: 'daily' }),
+  everyNDays: optNum(),
+  weekdays: arr(num(), { optional: true, nullable: true, default: null }),
+  intervalHours: optNum(),
+  unitsPerIntake: optNum(),
+  cycleDaysOn: optNum(),
+  cycleLength: optNum(),
+  taperingSteps: arr(obj({
+    days: num({ default: 0 }),
+    units: num({ default: 0 })
+  }), { optional: true, nullable: true, default: null }),
+  startDate: optStr(),
+  endDate: optStr()
+}, { optional: true, nullable: true, default: null });
+
+const medicationFields = {
+  medicationId: str({ aliases: ['rowKey'] }),
+  name: optStr(),
+  cnk: optNum(),
+  vmp: optNum(),
+  packageSize: optNum(),
+  activeIngredient: optStr(),
+  dosageMg: optNum(),
+  routeOfAdministration: optStr(),
+  indication: optStr(),
+  asNeeded: bool({ optional: true, default: false }),
+  specialFrequency: optNum(),
+  specialDescription: optStr(),
+  dosageRegimen: dosageRegimenSchema,
+  status: optStr(),
+  startDate: optStr(),
+  stopDate: optStr(),
+  changeReason: optStr(),
+  instructions: optStr(),
+  unitsBeforeBreakfast: optNum(),
+  unitsDuringBreakfast: optNum(),
+  unitsBeforeLunch: optNum(),
+  unitsDuringLunch: optNum(),
+  unitsBeforeDinner: optNum(),
+  unitsDuringDinner: optNum(),
+  unitsAtBedtime: optNum(),
+  eTag: str({ optional: true, aliases: ['odata.etag'] })
+};
+
+export const medicationSchema = obj({
+  ...medicationFields,
+  timestamp: optStr()
+});
+
+export const medicationResponseSchema = obj(medicationFields);
+
+// CSV import
+
+const intakeMomentSchema = num({ optional: true, default: 0 });
+
+export const intakeMomentsSchema = obj({
+  unitsBeforeBreakfast: intakeMomentSchema,
+  unitsDuringBreakfast: intakeMomentSchema,
+  unitsBeforeLunch: intakeMomentSchema,
+  unitsDuringLunch: intakeMomentSchema,
+  unitsBeforeDinner: intakeMomentSchema,
+  unitsDuringDinner: intakeMomentSchema,
+  unitsAtBedtime: intakeMomentSchema,
+  asNeeded: bool({ optional: true, default: false })
+}, { optional: true, nullable: true, default: null });
+
+export const importedMedicationSchema = obj({
+  medicationName: str({ aliases: ['name'], default: '' }),
+  success: bool({ optional: true, default: true }),
+  medicationId: str({ optional: true, nullable: true, default: null, aliases: ['rowKey'] }),
+  cnk: optNum(),
+  foundMedicationName: optStr(),
+  vmp: optNum(),
+  packageSize: optNum(),
+  activeIngredient: optStr(),
+  intakeMoments: intakeMomentsSchema,
+  indication: optStr(),
+  missingInformation: arr(str(), { optional: true, default: [] }),
+  errorMessage: optStr()
+});
+
+export const importProgressEventSchema = obj({
+  type: str(),
+  current: num({ default: 0 }),
+  total: num({ default: 0 }),
+  percentage: num({ optional: true, default: 0 }),
+  message: str({ optional: true, default: '' }),
+  medication: { ...importedMedicationSchema, optional: true, nullable: true, default: null }
+});
+
+export const importCompleteSchema = obj({
+  totalProcessed: num({ default: 0 }),
+  successful: num({ default: 0 }),
+  failed: num({ default: 0 }),
+  withMissingInformation: num({ optional: true, default: 0 }),
+  processingTimeMs: num({ optional: true, default: 0 }),
+  medications: arr(importedMedicationSchema, { default: [] })
+});
+
+// Lab values
+
+export const labValueSchema = obj({
+  labValueId: str({ aliases: ['rowKey'] }),
+  name: optStr(),
+  value: num({ default: 0 }),
+  unit: optStr()
+});
+
+// Dispensing history
+
+export const dispensingHistorySchema = obj({
+  medicationReviewId: str({ optional: true, default: '' }),
+  blobUri: str({ optional: true, default: '' }),
+  totalCnkCodes: num({ optional: true, default: 0 }),
+  totalDispensingMoments: num({ optional: true, default: 0 }),
+  csvMoments: num({ optional: true }),
+  manualMoments: num({ optional: true }),
+  dispensingData: arr(obj({
+    cnk: str(),
+    vmp: optNum(),
+    description: str({ optional: true, default: '' }),
+    dispensingMoments: arr(obj({
+      date: str(),
+      amount: num({ default: 0 }),
+      source: str({ optional: true }),
+      id: str({ optional: true, aliases: ['rowKey'] })
+    }), { optional: true, default: [] })
+  }), { optional: true, default: [] })
+});
+
+export const uploadDispensingHistorySchema = obj({
+  message: str({ optional: true }),
+  blobUri: str({ optional: true }),
+  totalCnkCodes: num({ optional: true }),
+  totalDispensingMoments: num({ optional: true })
+}, { passthrough: true });
+
+export const manualDispensingMomentSchema = obj({
+  id: str({ aliases: ['rowKey'] }),
+  apbNumber: str({ optional: true, default: '' }),
+  medicationReviewId: str({ optional: true, default: '' }),
+  cnk: str(),
+  description: str({ optional: true, default: '' }),
+  date: str(),
+  amount: num(),
+  message: str({ optional: true, default: '' })
+});
+
+export const deleteResultSchema = obj({
+  message: str({ optional: true })
+}, { optional: true, nullable: true, default: null, passthrough: true });
+
+// APB passthrough payloads (interactions, contraindication matching, product information)
+
+export const interactionsSchema = obj({
+  language: str({ optional: true, default: '' }),
+  participants: arr(raw(), { optional: true, default: [] }),
+  result: obj({
+    interactionMatches: arr(raw(), { optional: true, default: [] }),
+    drugFoodInteractions: arr(raw(), { optional: true, default: [] })
+  }, { passthrough: true })
+}, { passthrough: true });
+
+export const interactionDetailsSchema = obj({
+  result: obj({
+    textGroups: arr(obj({
+      groupTitle: str({ default: '' }),
+      texts: arr(obj({
+        title: codeDescriptionSchema,
+        text: str({ default: '' })
+      }), { optional: true, default: [] })
+    }), { optional: true, default: [] }),
+    details: obj({}, { optional: true, nullable: true, default: null, passthrough: true })
+  }, { nullable: true, default: null, passthrough: true })
+}, { passthrough: true });
+
+const contraindicationMatchSchema = obj({
+  appreciation: str({ optional: true, default: '' }),
+  product: { ...codeDescriptionSchema, optional: true, nullable: true, default: null },
+  physioPathologicalCondition: { ...codeDescriptionSchema, optional: true, nullable: true, default: null },
+  contraIndications: arr(codeDescriptionSchema, { optional: true, default: [] })
+}, { passthrough: true });
+
+export const contraindicationMatchesSchema = obj({
+  result: arr(contraindicationMatchSchema, { optional: true, default: [] })
+}, { passthrough: true });
+
+export const productContraindicationsSchema = obj({
+  cnk: str({ optional: true, default: '' }),
+  result: arr(contraindicationMatchSchema, { optional: true, default: [] })
+}, { passthrough: true });
+
+export const productDosageSchema = obj({
+  cnk: str({ optional: true, default: '' }),
+  result: obj({}, { optional: true, passthrough: true })
+}, { passthrough: true });
+
+export const productRenadaptorSchema = obj({
+  url: str()
+}, { passthrough: true });
+
+// Review notes & question answers
+
+export const reviewNoteSchema = obj({
+  partitionKey: str({ optional: true, default: '' }),
+  rowKey: str({ aliases: ['reviewNoteId'] }),
+  text: str({ optional: true }),
+  discussWithPatient: bool({ optional: true, default: false }),
+  communicateToDoctor: bool({ optional: true, default: false }),
+  category: str({ optional: true }),
+  linkedCnk: str({ optional: true }),
+  medicationName: str({ optional: true }),
+  timestamp: str({ optional: true }),
+  eTag: str({ optional: true, aliases: ['odata.etag'] })
+});
+
+export const questionAnswerSchema = obj({
+  medicationReviewId: str({ optional: true, default: '' }),
+  questionName: str({ aliases: ['rowKey'] }),
+  value: optStr(),
+  shareWithPatient: bool({ optional: true }),
+  shareWithDoctor: bool({ optional: true }),
+  eTag: str({ optional: true, aliases: ['odata.etag'] })
+});
+
+// Misc
+
+export const feedbackResponseSchema = obj({
+  feedbackId: str({ optional: true, aliases: ['rowKey'] }),
+  apbNumber: str({ optional: true, default: '' }),
+  feedbackText: str({ optional: true, default: '' }),
+  medicationReviewId: str({ optional: true }),
+  pageContext: str({ optional: true }),
+  submittedAt: str({ optional: true }),
+  message: str({ optional: true })
+});
+
+export const vmpLookupSchema = obj({
+  cnk: num({ default: 0 }),
+  vmp: optNum(),
+  found: bool({ optional: true, default: false }),
+  medicationName: optStr()
+});
+
+export const bulkVmpLookupSchema = obj({
+  results: arr(vmpLookupSchema, { optional: true, default: [] })
+});
+
+const atcCodeSchema = str({ optional: true, nullable: true, default: null, aliases: ['atc'] });
+
+export const gheopsResultSchema = obj({
+  cnk: str({ default: '' }),
+  atcCode: atcCodeSchema,
+  entries: arr(obj({
+    type: str({ optional: true, default: '' }),
+    criteria: str({ optional: true, default: '' }),
+    rationale: str({ optional: true, default: '' }),
+    alternative: str({ optional: true, default: '' })
+  }), { optional: true, default: [] }),
+  matchCount: num({ optional: true, default: 0 })
+});
+
+export const anticholinergicResultSchema = obj({
+  cnk: str({ default: '' }),
+  atcCode: atcCodeSchema,
+  strength: optStr(),
+  isAnticholinergic: bool({ optional: true, default: false })
+});
+
+export const medicationToAvoidResultSchema = obj({
+  cnk: str({ default: '' }),
+  atcCode: atcCodeSchema,
+  shouldAvoid: bool({ optional: true, default: false })
+});
+
+export const fallRiskResultSchema = obj({
+  cnk: str({ default: '' }),
+  atcCode: atcCodeSchema,
+  increasesRiskOfFalling: bool({ optional: true, default: false })
+});
+
+// Audit log
+
+export const auditEntrySchema = obj({
+  auditId: str({ aliases: ['rowKey'] }),
+  medicationReviewId: str({ optional: true, default: '' }),
+  entity: str({ default: '' }),
+  entityId: optStr(),
+  label: optStr(),
+  action: str({ default: '' }),
+  changes: arr(obj({
+    field: str({ default: '' }),
+    from: raw({ nullable: true, default: null }),
+    to: raw({ nullable: true, default: null })
+  }), { optional: true, default: [] }),
+  actor: str({ optional: true, default: '' }),
+  occurredAt: str({ aliases: ['timestamp'] }),
+  pending: bool({ optional: true, default: false })
+});
+
+// Deprescribing plans
+
+export const deprescribingPlanSchema = obj({
+  planId: str({ aliases: ['rowKey'] }),
+  medicationId: optStr(),
+  medicationName: str({ optional: true, default: '' }),
+  cnk: optStr(),
+  reason: optStr(),
+  linkedNoteId: optStr(),
+  status: str({ optional: true, default: 'active' }),
+  steps: arr(obj({
+    startDate: str({ default: '' }),
+    unitsPerDay: num({ default: 0 }),
+    instructions: optStr()
+  }), { optional: true, default: [] }),
+  monitoring: arr(obj({
+    date: str({ default: '' }),
+    description: str({ optional: true, default: '' }),
+    done: bool({ optional: true, default: false })
+  }), { optional: true, default: [] }),
+  progress: arr(obj({
+    date: str({ default: '' }),
+    outcome: str({ default: 'as_planned' }),
+    remark: optStr()
+  }), { optional: true, default: [] }),
+  timestamp: str({ optional: true }),
+  eTag: str({ optional: true, aliases: ['odata.etag'] })
+});
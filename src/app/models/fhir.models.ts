@@ -0,0 +1,134 @@
+// FHIR R4 resources exchanged with other systems, limited to the elements a medication review
+// reads and writes. See https://hl7.org/fhir/R4/ for the full resource definitions.
+
+export interface FhirReference {
+  reference: string;                // "urn:uuid:…" of an entry in the same bundle
+  display?: string;
+}
+
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirQuantity {
+  value: number;
+  unit?: string;
+}
+
+export interface FhirPeriod {
+  start?: string;
+  end?: string;
+}
+
+export interface FhirExtension {
+  url: string;
+  valueString?: string;
+}
+
+export type FhirEventTiming = 'ACM' | 'CM' | 'ACD' | 'CD' | 'ACV' | 'CV' | 'HS';
+
+export interface FhirTimingRepeat {
+  boundsPeriod?: FhirPeriod;
+  frequency?: number;
+  period?: number;
+  periodUnit?: 'h' | 'd' | 'wk';
+  dayOfWeek?: ('mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun')[];
+  when?: FhirEventTiming[];
+}
+
+export interface FhirDosage {
+  sequence?: number;
+  text?: string;
+  patientInstruction?: string;
+  timing?: { repeat?: FhirTimingRepeat };
+  asNeededBoolean?: boolean;
+  doseAndRate?: { doseQuantity?: FhirQuantity }[];
+}
+
+export interface FhirPatient {
+  resourceType: 'Patient';
+  id?: string;
+  name?: { family?: string; given?: string[] }[];
+  gender?: 'male' | 'female' | 'other' | 'unknown';
+  birthDate?: string;
+}
+
+export type FhirMedicationStatementStatus = 'active' | 'completed' | 'entered-in-error' | 'intended' | 'stopped' | 'on-hold' | 'unknown' | 'not-taken';
+
+export interface FhirMedicationStatement {
+  resourceType: 'MedicationStatement';
+  id?: string;
+  extension?: FhirExtension[];
+  status: FhirMedicationStatementStatus;
+  statusReason?: FhirCodeableConcept[];
+  medicationCodeableConcept: FhirCodeableConcept;
+  subject: FhirReference;
+  effectivePeriod?: FhirPeriod;
+  dateAsserted?: string;
+  reasonCode?: FhirCodeableConcept[];
+  dosage?: FhirDosage[];
+}
+
+export interface FhirCondition {
+  resourceType: 'Condition';
+  id?: string;
+  code: FhirCodeableConcept;
+  subject: FhirReference;
+}
+
+export interface FhirObservation {
+  resourceType: 'Observation';
+  id?: string;
+  status: string;
+  code: FhirCodeableConcept;
+  subject: FhirReference;
+  valueQuantity?: FhirQuantity;
+}
+
+export interface FhirDetectedIssue {
+  resourceType: 'DetectedIssue';
+  id?: string;
+  status: string;
+  code?: FhirCodeableConcept;
+  patient?: FhirReference;
+  implicated?: FhirReference[];
+  detail?: string;
+}
+
+export interface FhirCommunication {
+  resourceType: 'Communication';
+  id?: string;
+  status: string;
+  basedOn?: FhirReference[];         // The DetectedIssue the communication is about
+  category?: FhirCodeableConcept[];
+  subject?: FhirReference;
+  about?: FhirReference[];
+  payload?: { contentString?: string }[];
+}
+
+export type FhirResource =
+  | FhirPatient
+  | FhirMedicationStatement
+  | FhirCondition
+  | FhirObservation
+  | FhirDetectedIssue
+  | FhirCommunication;
+
+export interface FhirBundleEntry {
+  fullUrl?: string;
+  resource: FhirResource;
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  type: 'collection';
+  timestamp?: string;
+  entry: FhirBundleEntry[];
+}
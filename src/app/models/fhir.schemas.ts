@@ -0,0 +1,133 @@
+// Structure of the FHIR R4 resources a medication review imports, in the schema notation of
+// api.schemas. Unlike backend responses these are checked strictly by FhirService: exact key
+// names, no coercion, and the coded elements below must hold one of their R4 codes.
+
+import { ObjectSchema, arr, bool, num, obj, raw, str } from './api.schemas';
+
+const optStr = () => str({ optional: true });
+const optNum = () => num({ optional: true });
+
+const reference = obj({
+  reference: str(),
+  display: optStr()
+});
+
+const coding = obj({
+  system: optStr(),
+  code: optStr(),
+  display: optStr()
+});
+
+const concept = obj({
+  coding: arr(coding, { optional: true }),
+  text: optStr()
+});
+
+const concepts = arr(concept, { optional: true });
+
+const quantity = obj({
+  value: num(),
+  unit: optStr()
+});
+
+const period = obj({
+  start: optStr(),
+  end: optStr()
+}, { optional: true });
+
+const dosage = obj({
+  sequence: optNum(),
+  text: optStr(),
+  patientInstruction: optStr(),
+  timing: obj({
+    repeat: obj({
+      boundsPeriod: period,
+      frequency: optNum(),
+      period: optNum(),
+      periodUnit: optStr(),
+      dayOfWeek: arr(str(), { optional: true }),
+      when: arr(str(), { optional: true })
+    }, { optional: true })
+  }, { optional: true }),
+  asNeededBoolean: bool({ optional: true }),
+  doseAndRate: arr(obj({ doseQuantity: obj(quantity.fields, { optional: true }) }), { optional: true })
+});
+
+export const fhirBundleSchema = obj({
+  resourceType: str(),
+  type: str(),
+  timestamp: optStr(),
+  entry: arr(obj({
+    fullUrl: optStr(),
+    resource: raw({ optional: false })
+  }), { optional: true, default: [] })
+});
+
+export const fhirResourceSchemas: Record<string, ObjectSchema> = {
+  Patient: obj({
+    id: optStr(),
+    name: arr(obj({ family: optStr(), given: arr(str(), { optional: true }) }), { optional: true }),
+    gender: optStr(),
+    birthDate: optStr()
+  }),
+  MedicationStatement: obj({
+    id: optStr(),
+    extension: arr(obj({ url: str(), valueString: optStr() }), { optional: true }),
+    status: str(),
+    statusReason: concepts,
+    medicationCodeableConcept: concept,
+    subject: reference,
+    effectivePeriod: period,
+    dateAsserted: optStr(),
+    reasonCode: concepts,
+    dosage: arr(dosage, { optional: true })
+  }),
+  Condition: obj({
+    id: optStr(),
+    code: concept,
+    subject: reference
+  }),
+  Observation: obj({
+    id: optStr(),
+    status: str(),
+    code: concept,
+    subject: reference,
+    valueQuantity: obj(quantity.fields, { optional: true })
+  }),
+  DetectedIssue: obj({
+    id: optStr(),
+    status: str(),
+    code: obj(concept.fields, { optional: true }),
+    patient: obj(reference.fields, { optional: true }),
+    implicated: arr(reference, { optional: true }),
+    detail: optStr()
+  }),
+  Communication: obj({
+    id: optStr(),
+    status: str(),
+    basedOn: arr(reference, { optional: true }),
+    category: concepts,
+    subject: obj(reference.fields, { optional: true }),
+    about: arr(reference, { optional: true }),
+    payload: arr(obj({ contentString: optStr() }), { optional: true })
+  })
+};
+
+// Value sets of the coded elements, by element name
+const OBSERVATION_STATUS = ['registered', 'preliminary', 'final', 'amended', 'corrected', 'cancelled', 'entered-in-error', 'unknown'];
+
+export const fhirCodes: Record<string, string[]> = {
+  'Bundle.type': ['document', 'message', 'transaction', 'transaction-response', 'batch', 'batch-response', 'history', 'searchset', 'collection'],
+  'Patient.gender': ['male', 'female', 'other', 'unknown'],
+  'MedicationStatement.status': ['active', 'completed', 'entered-in-error', 'intended', 'stopped', 'on-hold', 'unknown', 'not-taken'],
+  'Observation.status': OBSERVATION_STATUS,
+  'DetectedIssue.status': OBSERVATION_STATUS,
+  'Communication.status': ['preparation', 'in-progress', 'not-done', 'on-hold', 'stopped', 'completed', 'entered-in-error', 'unknown'],
+  'periodUnit': ['s', 'min', 'h', 'd', 'wk', 'mo', 'a'],
+  'dayOfWeek': ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'],
+  'when': ['MORN', 'MORN.early', 'MORN.late', 'NOON', 'AFT', 'AFT.early', 'AFT.late', 'EVE', 'EVE.early', 'EVE.late',
+    'NIGHT', 'PHS', 'HS', 'WAKE', 'C', 'CM', 'CD', 'CV', 'AC', 'ACM', 'ACD', 'ACV', 'PC', 'PCM', 'PCD', 'PCV']
+};
+
+// Elements holding a FHIR date or dateTime
+export const fhirDateFields = ['birthDate', 'start', 'end', 'timestamp', 'dateAsserted'];
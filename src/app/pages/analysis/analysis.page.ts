@@ -6,7 +6,8 @@ import { Router } from '@angular/router';
 import { Medication } from '../../components/medication-item/medication-item.component';
 import { AnalysisMedicationItemComponent } from '../../components/analysis-medication-item/analysis-medication-item.component';
 import { AnalysisToolbarComponent, ToolType } from '../../components/analysis-toolbar/analysis-toolbar.component';
-import { MedicationSearchModalComponent } from '../../components/medication-search-modal/medication-search-modal.component';
+import { MedicationSearchModalComponent, SelectedMedication } from '../../components/medication-search-modal/medication-search-modal.component';
+import { PosologyParserService } from '../../services/posology-parser.service';
 import { MedicationNotesModalComponent } from '../../components/medication-notes-modal/medication-notes-modal.component';
 import { InteractionNotesModalComponent } from '../../components/interaction-notes-modal/interaction-notes-modal.component';
 import { NoteOverviewModalComponent } from '../../components/note-overview-modal/note-overview-modal.component';
@@ -16,19 +17,31 @@ import { ContraindicationsComponent } from '../../components/contraindications/c
 import { PosologyComponent } from '../../components/posology/posology.component';
 import { RenadaptorComponent } from '../../components/renadaptor/renadaptor.component';
 import { GheopsComponent } from '../../components/gheops/gheops.component';
+import { DuplicationCheckComponent } from '../../components/duplication-check/duplication-check.component';
 import { StartStopComponent } from '../../components/start-stop/start-stop.component';
+import { DeprescribingComponent } from '../../components/deprescribing/deprescribing.component';
 import { QuestionnaireComponent } from '../../components/questionnaire/questionnaire.component';
+import { UndoRedoControlsComponent } from '../../components/undo-redo-controls/undo-redo-controls.component';
+import { MedicationHistoryModalComponent } from '../../components/medication-history-modal/medication-history-modal.component';
 import { MedicationSearchResult, Medication as ApiMedication } from '../../models/api.models';
 import { ApiService } from '../../services/api.service';
 import { StateService } from '../../services/state.service';
 import { InteractionsCacheService } from '../../services/interactions-cache.service';
 import { ContraindicationsCacheService } from '../../services/contraindications-cache.service';
 import { Subject, forkJoin, of } from 'rxjs';
-import { debounceTime, takeUntil, catchError } from 'rxjs/operators';
+import { debounceTime, takeUntil, catchError, switchMap } from 'rxjs/operators';
+import { NotificationService } from '../../services/notification.service';
+import { ReviewSyncService } from '../../services/review-sync.service';
+import { MedicationUndoService } from '../../services/medication-undo.service';
+import { DosageRegimenService } from '../../services/dosage-regimen.service';
+import { MedicationStatusService } from '../../services/medication-status.service';
+import { DuplicationCheckService, DuplicationFinding } from '../../services/duplication-check.service';
+import { ComplexityTrend, RegimenComplexity, RegimenComplexityService } from '../../services/regimen-complexity.service';
+import { DeprescribingService } from '../../services/deprescribing.service';
 
 @Component({
   selector: 'app-analysis',
-  imports: [CommonModule, FormsModule, TranslocoModule, AnalysisMedicationItemComponent, AnalysisToolbarComponent, MedicationSearchModalComponent, MedicationNotesModalComponent, InteractionNotesModalComponent, NoteOverviewModalComponent, TherapyAdherenceComponent, InteractionsComponent, ContraindicationsComponent, PosologyComponent, RenadaptorComponent, GheopsComponent, StartStopComponent, QuestionnaireComponent],
+  imports: [CommonModule, FormsModule, TranslocoModule, AnalysisMedicationItemComponent, AnalysisToolbarComponent, MedicationSearchModalComponent, MedicationNotesModalComponent, InteractionNotesModalComponent, NoteOverviewModalComponent, TherapyAdherenceComponent, InteractionsComponent, ContraindicationsComponent, PosologyComponent, RenadaptorComponent, GheopsComponent, DuplicationCheckComponent, StartStopComponent, DeprescribingComponent, QuestionnaireComponent, UndoRedoControlsComponent, MedicationHistoryModalComponent],
   templateUrl: './analysis.page.html',
   styleUrls: ['./analysis.page.scss']
 })
@@ -46,9 +59,13 @@ export class AnalysisPage implements OnInit, OnDestroy {
   selectedInteraction: any = null;
   selectedInteractionType: 'drug-drug' | 'drug-food' = 'drug-drug';
   showNoteOverviewModal = false;
+  historyMedication: Medication | null = null;
   interactionCount = 0;
   contraindicationCount = 0;
   gheopsWarningCount = 0;
+  duplicationCount = 0;
+  deprescribingCount = 0;
+  complexityTrend: ComplexityTrend | null = null;
 
   @ViewChild(TherapyAdherenceComponent) therapyAdherenceComponent?: TherapyAdherenceComponent;
   @ViewChild(InteractionsComponent) interactionsComponent?: InteractionsComponent;
@@ -65,10 +82,12 @@ export class AnalysisPage implements OnInit, OnDestroy {
     'therapy-adherence': 'tools.therapy_adherence',
     'interactions': 'tools.interactions',
     'contra-indications': 'tools.contraindications',
+    'duplication': 'tools.duplication',
     'posology': 'tools.posology',
     'renadapter': 'tools.renadaptor',
   'gheops': 'tools.gheops',
     'start-stop-nl': 'tools.start_stop',
+    'deprescribing': 'tools.deprescribing',
     'questionnaire': 'Questionnaire'
   };
 
@@ -78,7 +97,16 @@ export class AnalysisPage implements OnInit, OnDestroy {
     private router: Router,
     private transloco: TranslocoService,
     private interactionsCache: InteractionsCacheService,
-    private contraindicationsCache: ContraindicationsCacheService
+    private contraindicationsCache: ContraindicationsCacheService,
+    private notificationService: NotificationService,
+    private reviewSync: ReviewSyncService,
+    private medicationUndo: MedicationUndoService,
+    public dosageRegimen: DosageRegimenService,
+    public medicationStatus: MedicationStatusService,
+    private duplicationCheck: DuplicationCheckService,
+    private regimenComplexity: RegimenComplexityService,
+    private posologyParser: PosologyParserService,
+    private deprescribing: DeprescribingService
   ) {}
 
   ngOnInit() {
@@ -98,6 +126,24 @@ export class AnalysisPage implements OnInit, OnDestroy {
         this.saveSchemaChanges(medication);
       });
 
+    // Reload when the medications are changed in another tab
+    this.reviewSync.remoteChange$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(topic => {
+        if (topic === 'medications') {
+          this.loadMedications();
+          setTimeout(() => this.refreshChildComponents(), 100);
+        }
+      });
+
+    // Reload after an undo or redo
+    this.medicationUndo.applied$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => {
+        this.loadMedications();
+        setTimeout(() => this.refreshChildComponents(), 100);
+      });
+
     // Listen for note overview modal requests
     this.stateService.noteOverviewModal$
       .pipe(takeUntil(this.destroy$))
@@ -150,6 +196,8 @@ export class AnalysisPage implements OnInit, OnDestroy {
 
     // Load GheOPS warning count on page init
     this.loadGheopsWarningCount();
+    this.loadDuplicationCount();
+    this.loadDeprescribingCount();
   }
 
   ngOnDestroy() {
@@ -198,6 +246,12 @@ export class AnalysisPage implements OnInit, OnDestroy {
       asNeeded: medication.asNeeded ?? false,
       specialFrequency: parseNumber(medication.specialFrequency),
       specialDescription: medication.specialDescription || null,
+      dosageRegimen: medication.dosageRegimen ?? null,
+      status: medication.status || null,
+      startDate: medication.startDate || null,
+      stopDate: medication.stopDate || null,
+      changeReason: medication.changeReason || null,
+      instructions: medication.instructions || null,
       unitsBeforeBreakfast: parseNumber(medication.unitsBeforeBreakfast),
       unitsDuringBreakfast: parseNumber(medication.unitsDuringBreakfast),
       unitsBeforeLunch: parseNumber(medication.unitsBeforeLunch),
@@ -208,13 +262,14 @@ export class AnalysisPage implements OnInit, OnDestroy {
     };
 
     const apbNumber = this.stateService.apbNumber;
-    this.apiService.updateMedication(
+    this.medicationUndo.updateMedication(
       apbNumber,
       medicationReviewId,
       medication.medicationId,
       updateData
     ).subscribe({
       next: (response) => {
+        this.stateService.notifyMedicationsChanged();
         // Refresh therapy adherence if it's the active tool (intake changes affect daily usage)
         if (this.activeTool === 'therapy-adherence' && this.therapyAdherenceComponent) {
           this.therapyAdherenceComponent.refreshData();
@@ -230,7 +285,7 @@ export class AnalysisPage implements OnInit, OnDestroy {
     if (!medication) {
       this.noteCategory = 'TherapyAdherence';
       this.noteInitialText = '';
-      this.selectedMedicationForNotes = null as any;
+      this.selectedMedicationForNotes = null;
       this.showNotesModal = true;
       return;
     }
@@ -271,7 +326,7 @@ export class AnalysisPage implements OnInit, OnDestroy {
   openGeneralNotesModal(toolType: string) {
     this.noteCategory = this.getCategoryForTool(toolType as ToolType);
     this.noteInitialText = '';
-    this.selectedMedicationForNotes = null as any; // General note, no specific medication
+    this.selectedMedicationForNotes = null; // General note, no specific medication
     this.showNotesModal = true;
   }
 
@@ -279,7 +334,7 @@ export class AnalysisPage implements OnInit, OnDestroy {
     // Handle general notes separately
     if (data.type === 'general') {
       this.noteCategory = 'Interactions';
-      this.selectedMedicationForNotes = null as any; // General note, no specific medication
+      this.selectedMedicationForNotes = null; // General note, no specific medication
       this.showNotesModal = true;
       return;
     }
@@ -360,6 +415,34 @@ export class AnalysisPage implements OnInit, OnDestroy {
     this.showNotesModal = true;
   }
 
+  openDuplicationNotesModal(event: { finding: DuplicationFinding } | void) {
+    this.noteCategory = 'Duplication';
+
+    // Link the note to the first medication of the finding and name the others in the text
+    const finding = event?.finding;
+    const first: DuplicationFinding['medications'][number] | undefined = finding?.medications[0];
+    if (!finding || !first) {
+      this.noteInitialText = '';
+      this.selectedMedicationForNotes = null;
+      this.showNotesModal = true;
+      return;
+    }
+
+    const levelLabel = this.transloco.translate(`duplication.levels.${finding.level}`);
+    const names = finding.medications.map(medication => medication.name || '').join(', ');
+    this.noteInitialText = `[${this.transloco.translate('tools.duplication')} - ${levelLabel} (${finding.key})]\n${names}`;
+    this.selectedMedicationForNotes = {
+      medicationId: first.medicationId,
+      name: first.name || '',
+      dosage: first.dosageMg ? `${first.dosageMg}mg` : '',
+      route: first.routeOfAdministration || '',
+      cnk: first.cnk || null,
+      vmp: first.vmp || null,
+      indication: levelLabel
+    };
+    this.showNotesModal = true;
+  }
+
   private getGheopsCategoryLabel(categoryKey: string): string {
     const categoryLabels: Record<string, string> = {
       'lijst_1': this.transloco.translate('tools.gheops_lijst_1'),
@@ -387,7 +470,7 @@ export class AnalysisPage implements OnInit, OnDestroy {
     // Set category to map to Part 1 general questions in the actions page
     this.noteCategory = 'General';
     this.noteInitialText = '';
-    this.selectedMedicationForNotes = null as any; // General note, no specific medication
+    this.selectedMedicationForNotes = null; // General note, no specific medication
     this.showNotesModal = true;
   }
 
@@ -396,7 +479,7 @@ export class AnalysisPage implements OnInit, OnDestroy {
     if (data.type === 'general' || !data.contraindication) {
       this.noteCategory = 'Contraindications';
       this.noteInitialText = '';
-      this.selectedMedicationForNotes = null as any; // General note, no specific medication
+      this.selectedMedicationForNotes = null; // General note, no specific medication
       this.showNotesModal = true;
       return;
     }
@@ -443,6 +526,12 @@ export class AnalysisPage implements OnInit, OnDestroy {
           asNeeded: med.asNeeded ?? false,
           specialFrequency: med.specialFrequency ?? null,
           specialDescription: med.specialDescription ?? null,
+          dosageRegimen: med.dosageRegimen ?? null,
+          status: med.status ?? null,
+          startDate: med.startDate ?? null,
+          stopDate: med.stopDate ?? null,
+          changeReason: med.changeReason ?? null,
+          instructions: med.instructions ?? null,
           unitsBeforeBreakfast: med.unitsBeforeBreakfast ?? null,
           unitsDuringBreakfast: med.unitsDuringBreakfast ?? null,
           unitsBeforeLunch: med.unitsBeforeLunch ?? null,
@@ -453,6 +542,7 @@ export class AnalysisPage implements OnInit, OnDestroy {
         }));
         
         this.isLoading = false;
+        this.loadComplexityTrend();
       },
       error: (error) => {
         this.medications = [];
@@ -478,6 +568,14 @@ export class AnalysisPage implements OnInit, OnDestroy {
     return this.activeTool ? this.transloco.translate(this.toolTitles[this.activeTool]) : '';
   }
 
+  openHistory(medication: Medication) {
+    this.historyMedication = medication;
+  }
+
+  closeHistory() {
+    this.historyMedication = null;
+  }
+
   getLocalizedPeriod(specialDescription: string): string {
     if (!specialDescription) return '';
     const key = `medication.period_${specialDescription}`;
@@ -513,6 +611,36 @@ export class AnalysisPage implements OnInit, OnDestroy {
     return this.renadaptorComponent?.isMedicationSelected(medicationId) ?? false;
   }
 
+  /**
+   * Several medications at once, from the rapid-scan mode of the search modal
+   */
+  onMedicationsSelected(medications: MedicationSearchResult[]) {
+    const apbNumber = this.stateService.apbNumber;
+    const medicationReviewId = this.stateService.medicationReviewId;
+    if (!medicationReviewId) {
+      return;
+    }
+
+    const values = medications.map(medication => ({
+      name: medication.benaming,
+      cnk: parseInt(medication.cnk) || undefined,
+      vmp: medication.vmp ? parseInt(medication.vmp) : undefined,
+      packageSize: medication.verpakking ?? undefined
+    }));
+
+    this.medicationUndo.addMedications(apbNumber, medicationReviewId, values).subscribe(addedCount => {
+      this.showSearchModal = false;
+      this.loadMedications();
+      this.stateService.notifyMedicationsChanged();
+      setTimeout(() => this.refreshChildComponents(), 100);
+      if (addedCount < medications.length) {
+        this.notificationService.warning('barcode.add_partial', { count: addedCount, failed: medications.length - addedCount });
+      } else {
+        this.notificationService.success('barcode.add_done', { count: addedCount });
+      }
+    });
+  }
+
   onMedicationDeleted(medicationId: string) {
     this.medications = this.medications.filter(med => med.medicationId !== medicationId);
     
@@ -535,7 +663,7 @@ export class AnalysisPage implements OnInit, OnDestroy {
     this.editingMedication = null;
   }
 
-  onMedicationSelected(medication: MedicationSearchResult) {
+  onMedicationSelected(medication: SelectedMedication) {
     const apbNumber = this.stateService.apbNumber;
     const medicationReviewId = this.stateService.medicationReviewId;
     if (!medicationReviewId) {
@@ -545,7 +673,7 @@ export class AnalysisPage implements OnInit, OnDestroy {
     // Check if we're editing an existing medication
     if (this.editingMedication) {
       // Update the existing medication while preserving intake and indication
-      this.apiService.updateMedication(
+      this.medicationUndo.updateMedication(
         apbNumber,
         medicationReviewId,
         this.editingMedication.medicationId,
@@ -568,34 +696,37 @@ export class AnalysisPage implements OnInit, OnDestroy {
           this.showSearchModal = false;
           this.editingMedication = null;
           this.loadMedications();
+          this.stateService.notifyMedicationsChanged();
           
           // Refresh child components after medication list updates
           setTimeout(() => this.refreshChildComponents(), 100);
         },
         error: (error) => {
-          alert('Failed to update medication. Please try again.');
+          this.notificationService.error('errors.failed_to_update_medication', error);
         }
       });
     } else {
       // Adding new medication
-      this.apiService.addMedication(
+      this.medicationUndo.addMedication(
         apbNumber,
         medicationReviewId,
         {
           name: medication.benaming,
           cnk: parseInt(medication.cnk) || undefined,
-          vmp: medication.vmp ? parseInt(medication.vmp) : undefined
+          vmp: medication.vmp ? parseInt(medication.vmp) : undefined,
+          ...this.posologyParser.intakeFields(medication.posology)
         }
       ).subscribe({
         next: (response) => {
           this.showSearchModal = false;
           this.loadMedications();
+          this.stateService.notifyMedicationsChanged();
           
           // Refresh child components after medication list updates
           setTimeout(() => this.refreshChildComponents(), 100);
         },
         error: (error) => {
-          alert('Failed to add medication. Please try again.');
+          this.notificationService.error('errors.failed_to_add_medication', error);
         }
       });
     }
@@ -631,7 +762,7 @@ export class AnalysisPage implements OnInit, OnDestroy {
     // Get medications and then call GheOPS API to get warning count
     this.apiService.getMedications(apbNumber, reviewId).subscribe({
       next: (medications) => {
-        const cnkCodes = medications
+        const cnkCodes = this.medicationStatus.forChecks(medications)
           .filter(m => m.cnk != null)
           .map(m => String(m.cnk).padStart(7, '0'));
 
@@ -696,6 +827,46 @@ export class AnalysisPage implements OnInit, OnDestroy {
     this.gheopsWarningCount = count;
   }
 
+  private loadDuplicationCount() {
+    const reviewId = this.stateService.medicationReviewId;
+    if (!reviewId) {
+      this.duplicationCount = 0;
+      return;
+    }
+
+    this.apiService.getMedications(this.stateService.apbNumber, reviewId)
+      .pipe(switchMap(medications => this.duplicationCheck.check(medications)))
+      .subscribe({
+        next: findings => this.duplicationCount = findings.length,
+        error: () => this.duplicationCount = 0
+      });
+  }
+
+  private loadDeprescribingCount() {
+    this.deprescribing.getPlans().subscribe({
+      next: plans => this.deprescribingCount = plans.filter(plan => plan.status === 'active').length,
+      error: () => this.deprescribingCount = 0
+    });
+  }
+
+  /**
+   * Follows the schema while it is being edited
+   */
+  get complexity(): RegimenComplexity {
+    return this.regimenComplexity.score(this.complexitySources());
+  }
+
+  private loadComplexityTrend() {
+    this.regimenComplexity.trend(this.complexitySources()).subscribe({
+      next: trend => this.complexityTrend = trend,
+      error: () => this.complexityTrend = null
+    });
+  }
+
+  private complexitySources() {
+    return this.medications.map(medication => ({ ...medication, routeOfAdministration: medication.route }));
+  }
+
   onCreatePatientConversation() {
     this.showNoteOverviewModal = false;
     this.router.navigate(['/anamnesis']);
@@ -707,10 +878,12 @@ export class AnalysisPage implements OnInit, OnDestroy {
       'therapy-adherence': 'TherapyAdherence',
       'interactions': 'Interactions',
       'contra-indications': 'Contraindications',
+      'duplication': 'Duplication',
       'posology': 'Posology',
       'renadapter': 'Renadapter',
       'gheops': 'GheOPS',
       'start-stop-nl': 'START-STOP-NL',
+      'deprescribing': 'Deprescribing',
       'questionnaire': 'Questionnaire'
     };
     return tool ? categoryMap[tool] : 'General';
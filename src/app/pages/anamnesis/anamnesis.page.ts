@@ -10,6 +10,8 @@ import { StateService } from '../../services/state.service';
 import { ApiService } from '../../services/api.service';
 import { QuestionAnswer } from '../../models/api.models';
 import { AnamnesisePdfService } from '../../services/anamnesis-pdf.service';
+import { NotificationService } from '../../services/notification.service';
+import { ReviewSyncService } from '../../services/review-sync.service';
 
 interface Question {
   name: string;
@@ -60,7 +62,9 @@ export class AnamnesisPage implements OnInit, OnDestroy {
     private stateService: StateService,
     private router: Router,
     private apiService: ApiService,
-    private anamnesisePdfService: AnamnesisePdfService
+    private anamnesisePdfService: AnamnesisePdfService,
+    private notificationService: NotificationService,
+    private reviewSync: ReviewSyncService
   ) {}
 
   goToDocumentation() {
@@ -84,6 +88,17 @@ export class AnamnesisPage implements OnInit, OnDestroy {
     this.loadNotes();
     this.loadQuestionAnswers();
     this.setupAutoSave();
+
+    // Pick up answers and medications changed in another tab (notes arrive through notes$)
+    this.reviewSync.remoteChange$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(topic => {
+        if (topic === 'questionAnswers') {
+          this.loadQuestionAnswers();
+        } else if (topic === 'medications') {
+          this.loadMedications();
+        }
+      });
   }
 
   ngOnDestroy() {
@@ -497,6 +512,7 @@ export class AnamnesisPage implements OnInit, OnDestroy {
       }).pipe(takeUntil(this.destroy$)).subscribe({
         next: (response) => {
           this.questionAnswers.set(questionName, response);
+          this.stateService.notifyQuestionAnswersChanged();
         },
         error: (err) => {
         }
@@ -513,6 +529,7 @@ export class AnamnesisPage implements OnInit, OnDestroy {
       }).pipe(takeUntil(this.destroy$)).subscribe({
         next: (response) => {
           this.questionAnswers.set(questionName, response);
+          this.stateService.notifyQuestionAnswersChanged();
         },
         error: (err) => {
         }
@@ -1168,6 +1185,7 @@ export class AnamnesisPage implements OnInit, OnDestroy {
       next: () => {
         // Clear local state
         this.questionAnswers.clear();
+        this.stateService.notifyQuestionAnswersChanged();
         
         // Reset all question values
         ['part1', 'part2', 'part3'].forEach((part) => {
@@ -1195,7 +1213,7 @@ export class AnamnesisPage implements OnInit, OnDestroy {
       },
       error: (err: any) => {
         console.error('Error clearing anamnesis answers:', err);
-        alert('Failed to clear all answers. Please try again.');
+        this.notificationService.error('errors.failed_to_clear_answers', err);
       }
     });
   }
@@ -1,5 +1,5 @@
 import { Component } from '@angular/core';
-import { Router } from '@angular/router';
+import { ActivatedRoute, Router } from '@angular/router';
 import { CommonModule } from '@angular/common';
 import { TranslocoModule } from '@jsverse/transloco';
 
@@ -11,9 +11,15 @@ import { TranslocoModule } from '@jsverse/transloco';
   styleUrls: ['./disclaimer.page.scss']
 })
 export class DisclaimerPage {
-  constructor(private router: Router) {}
+  constructor(private router: Router, private route: ActivatedRoute) {}
 
   onAccept() {
+    // Return to the page the user was on before their session expired, if any
+    const returnUrl = this.route.snapshot.queryParamMap.get('returnUrl');
+    if (returnUrl && returnUrl.startsWith('/') && !returnUrl.startsWith('/login')) {
+      this.router.navigateByUrl(returnUrl);
+      return;
+    }
     this.router.navigate(['/input']);
   }
 
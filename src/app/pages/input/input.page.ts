@@ -1,8 +1,9 @@
-import { Component } from '@angular/core';
+import { Component, ViewChild } from '@angular/core';
 import { Router } from '@angular/router';
 import { PatientDetailsComponent } from '../../components/patient-details/patient-details.component';
 import { ContraIndicationsComponent } from '../../components/contra-indications/contra-indications.component';
 import { MedicationListComponent } from '../../components/medication-list/medication-list.component';
+import { ReviewComparisonModalComponent } from '../../components/review-comparison-modal/review-comparison-modal.component';
 import { TranslocoModule } from '@jsverse/transloco';
 
 @Component({
@@ -11,15 +12,27 @@ import { TranslocoModule } from '@jsverse/transloco';
     PatientDetailsComponent,
     ContraIndicationsComponent,
     MedicationListComponent,
+    ReviewComparisonModalComponent,
     TranslocoModule
   ],
   templateUrl: './input.page.html',
   styleUrls: ['./input.page.scss']
 })
 export class InputPage {
+  @ViewChild(MedicationListComponent) medicationList?: MedicationListComponent;
+  @ViewChild(ContraIndicationsComponent) contraIndications?: ContraIndicationsComponent;
+
+  showComparison = false;
+
   constructor(private router: Router) {}
 
   startPreparation() {
     this.router.navigate(['/analysis']);
   }
+
+  onCarriedOver() {
+    // The lists only reload by themselves for changes made in another tab
+    this.medicationList?.loadMedications();
+    this.contraIndications?.loadContraindications();
+  }
 }
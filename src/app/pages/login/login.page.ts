@@ -1,5 +1,5 @@
-import { Component, inject } from '@angular/core';
-import { Router } from '@angular/router';
+import { Component, OnInit, inject } from '@angular/core';
+import { ActivatedRoute, Router } from '@angular/router';
 import { FormsModule } from '@angular/forms';
 import { CommonModule } from '@angular/common';
 import { TranslocoModule, TranslocoService } from '@jsverse/transloco';
@@ -14,12 +14,15 @@ import { LoginRequest } from '../../models/api.models';
   templateUrl: './login.page.html',
   styleUrls: ['./login.page.scss']
 })
-export class LoginPage {
+export class LoginPage implements OnInit {
   apbNumber: string = '';
   password: string = '';
+  userName: string = '';             // Several pharmacists share the APB login; the audit trail needs who it is
   medicationReviewId: string = '';
   isLoading: boolean = false;
   errorMessage: string = '';
+  sessionExpired: boolean = false;
+  private returnUrl: string | null = null;
 
   availableLanguages = [
     { code: 'en', name: 'English' },
@@ -34,16 +37,28 @@ export class LoginPage {
   private transloco = inject(TranslocoService);
   constructor(
     private router: Router,
+    private route: ActivatedRoute,
     private apiService: ApiService,
     private stateService: StateService
   ) {}
 
+  ngOnInit() {
+    // Redirected here by the session guard: offer to resume where the user left off
+    const params = this.route.snapshot.queryParamMap;
+    this.returnUrl = params.get('returnUrl');
+    this.sessionExpired = !!this.returnUrl;
+    const reviewId = params.get('reviewId');
+    if (reviewId) {
+      this.medicationReviewId = reviewId;
+    }
+  }
+
   changeLanguage(lang: string) {
     this.transloco.setActiveLang(lang);
   }
 
   get isFormValid(): boolean {
-    return this.apbNumber.trim() !== '' && this.password.trim() !== '';
+    return this.apbNumber.trim() !== '' && this.password.trim() !== '' && this.userName.trim() !== '';
   }
 
   onSubmit() {
@@ -59,9 +74,11 @@ export class LoginPage {
       password: this.password
     };
 
-    // Add optional medication review ID if provided
+    // Resume the review of an expired session, otherwise let the user pick one afterwards
     if (this.medicationReviewId.trim()) {
       request.medicationReviewId = this.medicationReviewId.trim();
+    } else {
+      request.createReview = false;
     }
 
     this.apiService.login(request).subscribe({
@@ -70,7 +87,8 @@ export class LoginPage {
         const existingSession = this.stateService.getSessionData();
         const newSession = {
           ...response,
-          apbNumber: request.apbNumber
+          apbNumber: request.apbNumber,
+          userName: this.userName.trim()
         };
         
         // Preserve renalFunction from existing session if backend returned null
@@ -80,7 +98,13 @@ export class LoginPage {
         }
         
         this.stateService.setSessionData(newSession);
-        this.router.navigate(['/disclaimer']);
+        if (!newSession.medicationReviewId) {
+          this.router.navigate(['/reviews']);
+          return;
+        }
+        this.router.navigate(['/disclaimer'], {
+          queryParams: this.returnUrl ? { returnUrl: this.returnUrl } : {}
+        });
       },
       error: (error) => {
         this.isLoading = false;
@@ -7,6 +7,7 @@ import { TranslocoModule } from '@jsverse/transloco';
 import { ReviewNotesService, ReviewNote } from '../../services/review-notes.service';
 import { StateService } from '../../services/state.service';
 import { ConfirmationModalComponent } from '../../components/confirmation-modal/confirmation-modal.component';
+import { NotificationService } from '../../services/notification.service';
 
 @Component({
   selector: 'app-note-overview',
@@ -27,7 +28,8 @@ export class NoteOverviewPage implements OnInit, OnDestroy {
   constructor(
     private reviewNotesService: ReviewNotesService,
     private stateService: StateService,
-    private router: Router
+    private router: Router,
+    private notificationService: NotificationService
   ) {}
 
   ngOnInit() {
@@ -86,7 +88,7 @@ export class NoteOverviewPage implements OnInit, OnDestroy {
         this.selectedNoteToDelete = null;
       },
       error: (error) => {
-        alert('Failed to delete note. Please try again.');
+        this.notificationService.error('errors.failed_to_delete_note', error);
         this.showDeleteConfirmation = false;
         this.selectedNoteToDelete = null;
       }
@@ -107,7 +109,7 @@ export class NoteOverviewPage implements OnInit, OnDestroy {
       discussWithPatient: !note.discussWithPatient
     }).subscribe({
       error: (error) => {
-        alert('Failed to update note. Please try again.');
+        this.notificationService.error('errors.failed_to_update_note', error);
       }
     });
   }
@@ -121,7 +123,7 @@ export class NoteOverviewPage implements OnInit, OnDestroy {
       communicateToDoctor: !note.communicateToDoctor
     }).subscribe({
       error: (error) => {
-        alert('Failed to update note. Please try again.');
+        this.notificationService.error('errors.failed_to_update_note', error);
       }
     });
   }
@@ -1,4 +1,4 @@
-import { Component, inject, OnInit, ChangeDetectionStrategy, ChangeDetectorRef } from '@angular/core';
+import { Component, inject, OnInit, OnDestroy, ChangeDetectionStrategy, ChangeDetectorRef } from '@angular/core';
 import { Router } from '@angular/router';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
@@ -7,9 +7,17 @@ import { StateService } from '../../services/state.service';
 import { ApiService } from '../../services/api.service';
 import { PdfGenerationService } from '../../services/pdf-generation.service';
 import { ReviewNotesService, ReviewNote } from '../../services/review-notes.service';
-import { Patient, MedicationReview, Medication, QuestionAnswer, Contraindication, LabValue } from '../../models/api.models';
-import { forkJoin, of } from 'rxjs';
-import { catchError } from 'rxjs/operators';
+import { Patient, MedicationReview, Medication, QuestionAnswer, Contraindication, LabValue, DeprescribingPlan } from '../../models/api.models';
+import { Subject, forkJoin, of } from 'rxjs';
+import { catchError, debounceTime, takeUntil } from 'rxjs/operators';
+import { ReviewSyncService } from '../../services/review-sync.service';
+import { NotificationService } from '../../services/notification.service';
+import { DosageRegimenService } from '../../services/dosage-regimen.service';
+import { MedicationStatusService } from '../../services/medication-status.service';
+import { ReviewComparison, ReviewComparisonService } from '../../services/review-comparison.service';
+import { RegimenComplexity, RegimenComplexityService } from '../../services/regimen-complexity.service';
+import { DeprescribingService } from '../../services/deprescribing.service';
+import { FhirService } from '../../services/fhir.service';
 import pdfMake from 'pdfmake/build/pdfmake';
 import { TDocumentDefinitions } from 'pdfmake/interfaces';
 
@@ -38,6 +46,8 @@ interface DoctorSummaryContent {
   documentTitle: string;
   salutation: string;
   introText: string;
+  changesHeading: string;
+  changes: EditableRecommendation[];     // Changes since the previous review, the kind of change as context
   observationsHeading: string;
   observations: EditableRecommendation[];
   closingText: string;
@@ -61,13 +71,22 @@ interface PharmacySummaryContent {
   styleUrls: ['./report-generation.page.scss'],
   changeDetection: ChangeDetectionStrategy.OnPush
 })
-export class ReportGenerationPage implements OnInit {
+export class ReportGenerationPage implements OnInit, OnDestroy {
   private router = inject(Router);
   private stateService = inject(StateService);
   private apiService = inject(ApiService);
   private transloco = inject(TranslocoService);
   private pdfService = inject(PdfGenerationService);
   private cdr = inject(ChangeDetectorRef);
+  private reviewSync = inject(ReviewSyncService);
+  private notificationService = inject(NotificationService);
+  private dosageRegimen = inject(DosageRegimenService);
+  private medicationStatus = inject(MedicationStatusService);
+  private reviewComparison = inject(ReviewComparisonService);
+  private regimenComplexity = inject(RegimenComplexityService);
+  private deprescribing = inject(DeprescribingService);
+  private fhir = inject(FhirService);
+  private destroy$ = new Subject<void>();
 
   activeTool: ReportTool = null;
   isGenerating = false;
@@ -81,6 +100,8 @@ export class ReportGenerationPage implements OnInit {
   contraindications: Contraindication[] = [];
   labValues: LabValue[] = [];
   reviewNotes: ReviewNote[] = [];
+  comparison: ReviewComparison | null = null;  // Against the patient's previous review, null when there is none
+  deprescribingPlans: DeprescribingPlan[] = [];
   
   // Editable content
   patientContent: PatientSummaryContent | null = null;
@@ -91,6 +112,21 @@ export class ReportGenerationPage implements OnInit {
     this.loadReportData();
     // Auto-select first tool on load
     this.selectTool('patient-summary');
+
+    // Reloading would overwrite the texts being edited, so offer it instead of doing it
+    this.reviewSync.remoteChange$
+      .pipe(debounceTime(1000), takeUntil(this.destroy$))
+      .subscribe(() => {
+        this.notificationService.show('info', 'review_sync.report_outdated', undefined, {
+          labelKey: 'review_sync.reload',
+          run: () => this.loadReportData()
+        });
+      });
+  }
+
+  ngOnDestroy() {
+    this.destroy$.next();
+    this.destroy$.complete();
   }
 
   goBack() {
@@ -127,13 +163,17 @@ export class ReportGenerationPage implements OnInit {
       questionAnswers: this.apiService.getQuestionAnswers(apbNumber, reviewId).pipe(catchError(() => of([]))),
       contraindications: this.apiService.getContraindications(apbNumber, reviewId).pipe(catchError(() => of([]))),
       labValues: this.apiService.getLabValues(apbNumber, reviewId).pipe(catchError(() => of([]))),
-      reviewNotes: this.apiService.getReviewNotes(apbNumber, reviewId).pipe(catchError(() => of([])))
+      reviewNotes: this.apiService.getReviewNotes(apbNumber, reviewId).pipe(catchError(() => of([]))),
+      comparison: this.reviewComparison.compareWithPrevious().pipe(catchError(() => of(null))),
+      deprescribingPlans: this.deprescribing.getPlans().pipe(catchError(() => of([])))
     }).subscribe(data => {
       this.medications = data.medications;
       this.questionAnswers = data.questionAnswers;
       this.contraindications = data.contraindications;
       this.labValues = data.labValues;
       this.reviewNotes = data.reviewNotes;
+      this.comparison = data.comparison;
+      this.deprescribingPlans = data.deprescribingPlans;
       this.isLoadingData = false;
       
       // Re-initialize content if tool is already selected
@@ -348,6 +388,8 @@ export class ReportGenerationPage implements OnInit {
       documentTitle: this.transloco.translate('reports.doctor_summary'),
       salutation,
       introText,
+      changesHeading: this.transloco.translate('review_comparison.report_heading'),
+      changes: this.getChangesSinceLastReview(),
       observationsHeading: this.transloco.translate('pdf.observations') || 'Observations:',
       observations,
       closingText,
@@ -356,6 +398,68 @@ export class ReportGenerationPage implements OnInit {
     };
   }
 
+  /**
+   * One item per difference with the previous review: medications first, then contraindications and lab values
+   */
+  private getChangesSinceLastReview(): EditableRecommendation[] {
+    if (!this.comparison) {
+      return [];
+    }
+
+    const t = (key: string, params?: Record<string, unknown>) => this.transloco.translate(`review_comparison.${key}`, params);
+    const dosage = (medication: Medication | null) => this.reviewComparison.describeDosage(medication);
+    const changes: EditableRecommendation[] = [];
+
+    this.comparison.medications.forEach(item => {
+      let text: string;
+      switch (item.change) {
+        case 'unchanged':
+          return;
+        case 'added':
+          text = [item.name, dosage(item.current)].filter(Boolean).join(': ');
+          break;
+        case 'stopped':
+          text = `${item.name}: ${this.medicationStatus.describe(item.current!)}`;
+          break;
+        case 'dose_changed':
+          text = `${item.name}: ${dosage(item.previous) || '—'} → ${dosage(item.current) || '—'}`;
+          break;
+        case 'switched':
+          text = `${item.previous!.name || '—'} → ${item.name}`;
+          break;
+        case 'previous_only':
+          text = item.name;
+          break;
+      }
+      changes.push({ text, context: t(`changes.${item.change}`), originalIndex: changes.length });
+    });
+
+    this.comparison.contraindications
+      .filter(item => item.change !== 'unchanged')
+      .forEach(item => changes.push({
+        text: item.name,
+        context: `${t('contraindication')} · ${t(`item_changes.${item.change}`)}`,
+        originalIndex: changes.length
+      }));
+
+    this.comparison.labValues
+      .filter(item => item.change !== 'unchanged')
+      .forEach(item => {
+        const value = (labValue: LabValue | null) => labValue ? `${labValue.value} ${labValue.unit || ''}`.trim() : '—';
+        changes.push({
+          text: `${item.name}: ${value(item.previous)} → ${value(item.current)}`,
+          context: `${t('lab_value')} · ${t(`item_changes.${item.change}`)}`,
+          originalIndex: changes.length
+        });
+      });
+
+    return changes;
+  }
+
+  removeChange(index: number) {
+    this.doctorContent?.changes.splice(index, 1);
+  }
+
   private initializePharmacyContent() {
     const lang = this.transloco.getActiveLang();
     
@@ -548,6 +652,50 @@ export class ReportGenerationPage implements OnInit {
     }
   }
 
+  downloadWeeklyPlanner() {
+    this.isGenerating = true;
+    this.cdr.markForCheck();
+
+    this.pdfService.generateWeeklyPlanner()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (blob) => {
+          const link = document.createElement('a');
+          link.href = URL.createObjectURL(blob);
+          link.download = `weekly-planner-${Date.now()}.pdf`;
+          link.click();
+          this.isGenerating = false;
+          this.cdr.markForCheck();
+        },
+        error: (error) => {
+          this.isGenerating = false;
+          this.notificationService.error('weekly_planner.error', error);
+          this.cdr.markForCheck();
+        }
+      });
+  }
+
+  /**
+   * The review as a FHIR R4 Bundle, for exchange with other systems
+   */
+  exportFhir() {
+    const bundle = this.fhir.createBundle({
+      patient: this.patient,
+      review: this.review,
+      medications: this.medications,
+      contraindications: this.contraindications,
+      labValues: this.labValues,
+      notes: this.reviewNotes
+    });
+
+    const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/fhir+json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `medication-review-${this.review?.reviewDate?.substring(0, 10) || Date.now()}.fhir.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }
+
   private generatePatientPDF(): TDocumentDefinitions {
     if (!this.patientContent) {
       throw new Error('Patient content not initialized');
@@ -615,6 +763,9 @@ export class ReportGenerationPage implements OnInit {
       recommendationContent.forEach(section => content.push(section));
     }
 
+    // Tapering schedules the patient follows at home
+    content.push(...this.createDeprescribingSection(lang, 'patient'));
+
     // Closing
     content.push({
       text: this.patientContent.closingText,
@@ -709,6 +860,42 @@ export class ReportGenerationPage implements OnInit {
       margin: [0, 0, 0, 24]
     });
 
+    // Changes since the previous review
+    if (this.doctorContent.changes.length > 0) {
+      const previousDate = this.comparison?.previousReview.reviewDate;
+      content.push({
+        text: this.doctorContent.changesHeading,
+        style: 'sectionTitle',
+        margin: [0, 0, 0, previousDate ? 4 : 16]
+      });
+      if (previousDate) {
+        content.push({
+          text: this.transloco.translate('review_comparison.previous_review', { date: this.medicationStatus.formatDate(previousDate, lang) }),
+          style: 'fieldLabel',
+          margin: [0, 0, 0, 12]
+        });
+      }
+      content.push({
+        table: {
+          widths: [140, '*'],
+          body: this.doctorContent.changes.map(change => [
+            { text: change.context || '', style: 'fieldLabel' },
+            { text: change.text, style: 'fieldValue' }
+          ])
+        },
+        layout: {
+          hLineWidth: (i: number, node: any) => i === 0 || i === node.table.body.length ? 0 : 0.5,
+          vLineWidth: () => 0,
+          hLineColor: () => '#E2E8F0',
+          paddingLeft: () => 12,
+          paddingRight: () => 12,
+          paddingTop: () => 4,
+          paddingBottom: () => 4
+        },
+        margin: [0, 0, 0, 24]
+      });
+    }
+
     // Observations section
     if (this.doctorContent.observations.length > 0) {
       content.push({
@@ -727,6 +914,8 @@ export class ReportGenerationPage implements OnInit {
       });
     }
 
+    content.push(...this.createDeprescribingSection(lang, 'doctor'));
+
     // Closing
     content.push({
       text: this.doctorContent.closingText,
@@ -823,6 +1012,12 @@ export class ReportGenerationPage implements OnInit {
       content.push(statsContent);
     }
 
+    // Regimen complexity, next to the previous review
+    const complexityContent = this.createComplexitySection(lang);
+    if (complexityContent) {
+      content.push(...complexityContent);
+    }
+
     // Medications Table
     if (this.medications.length > 0) {
       content.push({
@@ -1077,6 +1272,152 @@ export class ReportGenerationPage implements OnInit {
     };
   }
 
+  private createComplexitySection(lang: string): any[] | null {
+    if (this.medications.length === 0) {
+      return null;
+    }
+
+    const current = this.regimenComplexity.score(this.medications);
+    const previousMedications = this.comparison?.medications
+      .map(item => item.previous)
+      .filter((medication): medication is Medication => !!medication) ?? [];
+    const previous = this.comparison ? this.regimenComplexity.score(previousMedications) : null;
+
+    const t = (key: string, params?: Record<string, unknown>) => this.transloco.translate(`regimen_complexity.${key}`, params, lang);
+    const format = (value: number) => value.toLocaleString(lang, { maximumFractionDigits: 1 });
+    const rows: [string, (score: RegimenComplexity) => string][] = [
+      [t('mrci'), score => format(score.total)],
+      [t('section_a'), score => format(score.dosageForm)],
+      [t('section_b'), score => format(score.frequency)],
+      [t('section_c'), score => format(score.directions)],
+      [t('daily_pills'), score => format(score.dailyPills)],
+      [t('intake_moments'), score => String(score.intakeMoments)]
+    ];
+
+    const header = [
+      { text: '', style: 'tableHeaderCell' },
+      { text: t('current'), style: 'tableHeaderCell', alignment: 'center' },
+      ...(previous ? [{
+        text: this.comparison!.previousReview.reviewDate
+          ? t('previous_on', { date: this.medicationStatus.formatDate(this.comparison!.previousReview.reviewDate, lang) })
+          : t('previous'),
+        style: 'tableHeaderCell',
+        alignment: 'center'
+      }] : [])
+    ];
+    const body = rows.map(([label, value], index) => [
+      { text: label, style: index === 0 ? 'tableCellBold' : 'tableCell' },
+      { text: value(current), style: index === 0 ? 'tableCellBold' : 'tableCell', alignment: 'center' },
+      ...(previous ? [{ text: value(previous), style: 'tableCell', alignment: 'center' }] : [])
+    ]);
+
+    return [
+      { text: t('report_heading'), style: 'sectionTitle', margin: [0, 0, 0, 4] },
+      { text: t('description'), style: 'fieldLabel', margin: [0, 0, 0, 12] },
+      {
+        table: {
+          headerRows: 1,
+          widths: previous ? ['*', 100, 100] : ['*', 100],
+          body: [header, ...body]
+        },
+        layout: {
+          hLineWidth: (i: number, node: any) => i === 0 || i === node.table.body.length ? 0 : 0.5,
+          vLineWidth: () => 0,
+          hLineColor: () => '#E2E8F0',
+          paddingLeft: () => 12,
+          paddingRight: () => 12,
+          paddingTop: () => 4,
+          paddingBottom: () => 4,
+          fillColor: (i: number) => i === 0 ? '#454B60' : null
+        },
+        margin: [0, 0, 0, 24]
+      }
+    ];
+  }
+
+  /**
+   * Tapering schedule and follow-up moments of every plan that is not abandoned. The doctor
+   * also gets the reason, the note that recommended it and the progress so far.
+   */
+  private createDeprescribingSection(lang: string, audience: 'patient' | 'doctor'): any[] {
+    const plans = this.deprescribingPlans.filter(plan => plan.status !== 'abandoned' && plan.steps.length > 0);
+    if (plans.length === 0) {
+      return [];
+    }
+
+    const t = (key: string, params?: Record<string, unknown>) => this.transloco.translate(`deprescribing.${key}`, params, lang);
+    const formatDate = (day: string) => this.medicationStatus.formatDate(day, lang);
+    const content: any[] = [
+      { text: t(audience === 'patient' ? 'report_heading_patient' : 'report_heading_doctor'), style: 'sectionTitle', margin: [0, 8, 0, 4] },
+      { text: t(audience === 'patient' ? 'report_intro_patient' : 'report_intro_doctor'), style: 'fieldLabel', margin: [0, 0, 0, 12] }
+    ];
+
+    plans.forEach(plan => {
+      const title = audience === 'doctor' ? `${plan.medicationName} (${t(`statuses.${plan.status}`)})` : plan.medicationName;
+      content.push({ text: title, style: 'subsectionTitle', margin: [0, 0, 0, 6] });
+
+      if (audience === 'doctor') {
+        const note = plan.linkedNoteId ? this.reviewNotes.find(item => item.rowKey === plan.linkedNoteId) : null;
+        const details: [string, string][] = [
+          [t('reason'), plan.reason || ''],
+          [t('linked_note'), note ? `${note.category}: ${note.text || ''}` : '']
+        ];
+        details.filter(([, value]) => value).forEach(([label, value]) => content.push({
+          text: [{ text: `${label}: `, style: 'fieldLabel' }, { text: value, style: 'fieldValue' }],
+          margin: [0, 0, 0, 4]
+        }));
+      }
+
+      const current = this.deprescribing.currentStep(plan);
+      content.push({
+        table: {
+          headerRows: 1,
+          widths: [110, '*'],
+          body: [
+            [{ text: t('from'), style: 'tableHeaderCell' }, { text: t('dose'), style: 'tableHeaderCell' }],
+            ...plan.steps.map(step => [
+              { text: formatDate(step.startDate), style: step === current ? 'tableCellBold' : 'tableCell' },
+              { text: this.deprescribing.describeStep(step, lang), style: step === current ? 'tableCellBold' : 'tableCell' }
+            ])
+          ]
+        },
+        layout: {
+          hLineWidth: (i: number) => i === 1 ? 1 : 0.5,
+          vLineWidth: () => 0,
+          hLineColor: (i: number) => i === 1 ? '#454B60' : '#E2E8F0',
+          paddingLeft: () => 12,
+          paddingRight: () => 12,
+          paddingTop: () => 4,
+          paddingBottom: () => 4,
+          fillColor: (i: number) => i === 0 ? '#454B60' : null
+        },
+        margin: [0, 4, 0, 8]
+      });
+
+      const monitoring = plan.monitoring.filter(point => audience === 'doctor' || !point.done);
+      if (monitoring.length > 0) {
+        content.push({ text: t(audience === 'patient' ? 'report_monitoring_patient' : 'monitoring'), style: 'fieldLabel', margin: [0, 0, 0, 2] });
+        content.push({
+          ul: monitoring.map(point => `${formatDate(point.date)} – ${point.description}${point.done ? ` (${t('done')})` : ''}`),
+          style: 'bulletList',
+          margin: [0, 0, 0, 8]
+        });
+      }
+
+      if (audience === 'doctor' && plan.progress.length > 0) {
+        content.push({ text: t('progress'), style: 'fieldLabel', margin: [0, 0, 0, 2] });
+        content.push({
+          ul: plan.progress.map(entry => [formatDate(entry.date), t(`outcomes.${entry.outcome}`), entry.remark].filter(Boolean).join(' – ')),
+          style: 'bulletList',
+          margin: [0, 0, 0, 8]
+        });
+      }
+    });
+
+    content.push({ text: '', margin: [0, 0, 0, 12] });
+    return content;
+  }
+
   private createProfessionalMedicationTable(): any {
     const tableBody: any[] = [
       [
@@ -1089,6 +1430,32 @@ export class ReportGenerationPage implements OnInit {
     ];
 
     this.medications.forEach((med, index) => {
+      const regimen = this.dosageRegimen.describe(med.dosageRegimen);
+      const note = [this.medicationStatus.describe(med), regimen].filter(Boolean).join(' · ');
+      const name = note
+        ? { stack: [med.name || 'Unknown', { text: note, style: 'tableCellNote' }], style: 'tableCellBold' }
+        : { text: med.name || 'Unknown', style: 'tableCellBold' };
+
+      // Stopped medications are listed for documentation, without intake
+      if (this.medicationStatus.isStopped(med)) {
+        tableBody.push([
+          { text: med.name || 'Unknown', style: 'tableCellBold', decoration: 'lineThrough' },
+          { text: this.medicationStatus.describe(med), style: 'tableCell', alignment: 'center', colSpan: 4 },
+          {}, {}, {}
+        ]);
+        return;
+      }
+
+      // Interval dosing or tapering: the regimen itself is the schedule
+      if (!this.dosageRegimen.usesIntakeSlots(med.dosageRegimen)) {
+        tableBody.push([
+          { text: med.name || 'Unknown', style: 'tableCellBold' },
+          { text: regimen, style: 'tableCell', alignment: 'center', colSpan: 4 },
+          {}, {}, {}
+        ]);
+        return;
+      }
+
       const morning = [med.unitsBeforeBreakfast, med.unitsDuringBreakfast]
         .filter(u => u && u > 0)
         .map(u => String(u))
@@ -1111,7 +1478,7 @@ export class ReportGenerationPage implements OnInit {
       const rowStyle = index % 2 === 0 ? 'tableRowEven' : 'tableRowOdd';
 
       tableBody.push([
-        { text: med.name || 'Unknown', style: 'tableCellBold' },
+        name,
         { text: morning, style: 'tableCell', alignment: 'center' },
         { text: noon, style: 'tableCell', alignment: 'center' },
         { text: evening, style: 'tableCell', alignment: 'center' },
@@ -1226,6 +1593,11 @@ export class ReportGenerationPage implements OnInit {
         color: '#2D3748',
         bold: true
       },
+      tableCellNote: {
+        fontSize: 8,
+        color: '#718096',
+        bold: false
+      },
       statNumber: {
         fontSize: 24,
         bold: true,
@@ -0,0 +1,224 @@
+import { Component, OnInit } from '@angular/core';
+import { Router } from '@angular/router';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { TranslocoModule, TranslocoService } from '@jsverse/transloco';
+import { ApiService } from '../../services/api.service';
+import { StateService } from '../../services/state.service';
+import { ReviewCloneService } from '../../services/review-clone.service';
+import { FhirIssue, FhirService } from '../../services/fhir.service';
+import { NotificationService } from '../../services/notification.service';
+import { ConfirmationModalComponent } from '../../components/confirmation-modal/confirmation-modal.component';
+import { MedicationReviewSummary, ReviewContext } from '../../models/api.models';
+
+type SortField = 'patient' | 'reviewDate' | 'status' | 'lastModified';
+
+@Component({
+  selector: 'app-review-picker',
+  standalone: true,
+  imports: [CommonModule, FormsModule, TranslocoModule, ConfirmationModalComponent],
+  templateUrl: './review-picker.page.html',
+  styleUrls: ['./review-picker.page.scss']
+})
+export class ReviewPickerPage implements OnInit {
+  reviews: MedicationReviewSummary[] = [];
+  searchTerm: string = '';
+  sortField: SortField = 'lastModified';
+  sortAscending: boolean = false;
+  isLoading: boolean = false;
+  openingReviewId: string | null = null;
+  errorMessage: string = '';
+  // Review a follow-up is about to be started for, while the confirmation is shown
+  followUpSource: MedicationReviewSummary | null = null;
+  includeOpenNotes: boolean = true;
+  // Structure problems of the last FHIR file that was picked
+  fhirIssues: FhirIssue[] = [];
+
+  constructor(
+    private router: Router,
+    private apiService: ApiService,
+    private stateService: StateService,
+    private reviewClone: ReviewCloneService,
+    private fhir: FhirService,
+    private notificationService: NotificationService,
+    private transloco: TranslocoService
+  ) {}
+
+  ngOnInit() {
+    this.loadReviews();
+  }
+
+  loadReviews() {
+    this.isLoading = true;
+    this.errorMessage = '';
+
+    this.apiService.listMedicationReviews(this.stateService.apbNumber).subscribe({
+      next: (reviews) => {
+        this.reviews = reviews;
+        this.isLoading = false;
+      },
+      error: () => {
+        this.reviews = [];
+        this.errorMessage = this.transloco.translate('review_picker.load_failed');
+        this.isLoading = false;
+      }
+    });
+  }
+
+  get filteredReviews(): MedicationReviewSummary[] {
+    const term = this.searchTerm.trim().toLowerCase();
+    const filtered = term
+      ? this.reviews.filter(review =>
+          this.getPatientName(review).toLowerCase().includes(term) ||
+          (review.reviewDate || '').includes(term) ||
+          this.getStatusLabel(review).toLowerCase().includes(term))
+      : [...this.reviews];
+
+    const direction = this.sortAscending ? 1 : -1;
+    return filtered.sort((a, b) => this.compare(a, b) * direction);
+  }
+
+  sortBy(field: SortField) {
+    if (this.sortField === field) {
+      this.sortAscending = !this.sortAscending;
+    } else {
+      this.sortField = field;
+      // Names read naturally A-Z, dates newest first
+      this.sortAscending = field === 'patient' || field === 'status';
+    }
+  }
+
+  getPatientName(review: MedicationReviewSummary): string {
+    return [review.firstNameAtTimeOfReview, review.lastNameAtTimeOfReview]
+      .filter(part => !!part)
+      .join(' ');
+  }
+
+  getStatusLabel(review: MedicationReviewSummary): string {
+    return this.transloco.translate(`review_picker.status_${review.status || 'draft'}`);
+  }
+
+  openReview(review: MedicationReviewSummary) {
+    if (this.openingReviewId) return;
+    this.openingReviewId = review.medicationReviewId;
+
+    this.apiService.openMedicationReview(this.stateService.apbNumber, review.medicationReviewId).subscribe({
+      next: (context) => this.startReview(context),
+      error: () => {
+        this.openingReviewId = null;
+        this.errorMessage = this.transloco.translate('review_picker.open_failed');
+      }
+    });
+  }
+
+  createReview() {
+    if (this.openingReviewId) return;
+    this.openingReviewId = 'new';
+
+    this.apiService.createMedicationReview(this.stateService.apbNumber).subscribe({
+      next: (context) => this.startReview(context),
+      error: () => {
+        this.openingReviewId = null;
+        this.errorMessage = this.transloco.translate('review_picker.create_failed');
+      }
+    });
+  }
+
+  askFollowUp(review: MedicationReviewSummary, event: MouseEvent) {
+    event.stopPropagation();
+    if (this.openingReviewId) return;
+    this.followUpSource = review;
+    this.includeOpenNotes = true;
+  }
+
+  createFollowUp() {
+    const source = this.followUpSource;
+    this.followUpSource = null;
+    if (!source || this.openingReviewId) return;
+    this.openingReviewId = source.medicationReviewId;
+
+    this.reviewClone.createFollowUp(this.stateService.apbNumber, source, { includeOpenNotes: this.includeOpenNotes }).subscribe({
+      next: (result) => {
+        if (result.failed > 0) {
+          this.notificationService.warning('review_picker.follow_up_partial', { failed: result.failed });
+        }
+        this.startReview(result.context);
+      },
+      error: () => {
+        this.openingReviewId = null;
+        this.errorMessage = this.transloco.translate('review_picker.follow_up_failed');
+      }
+    });
+  }
+
+  async onFhirFileSelected(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file || this.openingReviewId) return;
+
+    this.errorMessage = '';
+    this.fhirIssues = [];
+    let json: unknown;
+    try {
+      json = JSON.parse(await file.text());
+    } catch {
+      this.errorMessage = this.transloco.translate('fhir.invalid_json');
+      return;
+    }
+
+    const validation = this.fhir.validate(json);
+    if (!validation.bundle) {
+      this.fhirIssues = validation.issues;
+      this.errorMessage = this.transloco.translate('fhir.invalid_bundle', { count: validation.issues.length });
+      return;
+    }
+
+    this.openingReviewId = 'new';
+    this.fhir.importBundle(this.stateService.apbNumber, validation.bundle).subscribe({
+      next: (result) => {
+        if (result.failed > 0) {
+          this.notificationService.warning('fhir.import_partial', { imported: result.imported, failed: result.failed });
+        } else {
+          this.notificationService.success('fhir.imported', { imported: result.imported });
+        }
+        if (validation.ignored.length > 0) {
+          this.notificationService.warning('fhir.ignored_resources', { types: validation.ignored.join(', ') });
+        }
+        this.startReview(result.context);
+      },
+      error: () => {
+        this.openingReviewId = null;
+        this.errorMessage = this.transloco.translate('fhir.import_failed');
+      }
+    });
+  }
+
+  private startReview(context: ReviewContext) {
+    const session = this.stateService.getSessionData();
+    if (!session) {
+      this.router.navigate(['/login']);
+      return;
+    }
+
+    this.stateService.setSessionData({ ...session, ...context });
+    this.router.navigate(['/disclaimer']);
+  }
+
+  private compare(a: MedicationReviewSummary, b: MedicationReviewSummary): number {
+    switch (this.sortField) {
+      case 'patient':
+        return this.getPatientName(a).localeCompare(this.getPatientName(b));
+      case 'status':
+        return this.getStatusLabel(a).localeCompare(this.getStatusLabel(b));
+      case 'reviewDate':
+        return this.toTime(a.reviewDate) - this.toTime(b.reviewDate);
+      case 'lastModified':
+        return this.toTime(a.lastModified) - this.toTime(b.lastModified);
+    }
+  }
+
+  private toTime(value: string | null): number {
+    return value ? new Date(value).getTime() || 0 : 0;
+  }
+}
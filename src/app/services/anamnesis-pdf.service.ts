@@ -2,12 +2,19 @@ import { Injectable } from '@angular/core';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { ReviewNote } from './review-notes.service';
+import { DosageRegimenService } from './dosage-regimen.service';
+import { MedicationStatusService } from './medication-status.service';
 
 @Injectable({
   providedIn: 'root'
 })
 export class AnamnesisePdfService {
 
+  constructor(
+    private dosageRegimen: DosageRegimenService,
+    private medicationStatus: MedicationStatusService
+  ) {}
+
   private sanitizeForPdf(input: string | undefined | null): string {
     if (input == null) return '';
     let s = String(input);
@@ -169,6 +176,19 @@ export class AnamnesisePdfService {
     // Add medication scheme table
     if (medications.length > 0) {
       const tableData = medications.map(med => {
+        // Stopped medications are listed without intake moments
+        if (this.medicationStatus.isStopped(med)) {
+          return [
+            this.sanitizeForPdf(med.name || 'Unnamed'),
+            '',
+            '',
+            '',
+            '',
+            '',
+            '',
+            this.sanitizeForPdf(this.medicationStatus.describe(med))
+          ];
+        }
         // Check for special frequency first
         if (med.specialFrequency && med.specialDescription) {
           const freqText = this.formatSpecialFrequency(med.specialFrequency);
@@ -194,10 +214,23 @@ export class AnamnesisePdfService {
             '',
             this.sanitizeForPdf('As needed')
           ];
-        } else {
-          // Standard daily schedule with intake moments
+        } else if (!this.dosageRegimen.usesIntakeSlots(med.dosageRegimen)) {
+          // Interval dosing or tapering, not expressed in the intake moments
           return [
             this.sanitizeForPdf(med.name || 'Unnamed'),
+            '',
+            '',
+            '',
+            '',
+            '',
+            '',
+            this.sanitizeForPdf(this.dosageRegimen.describe(med.dosageRegimen))
+          ];
+        } else {
+          // Standard schedule with intake moments, on the days of the regimen if it has one
+          const regimen = this.dosageRegimen.describe(med.dosageRegimen);
+          return [
+            this.sanitizeForPdf(regimen ? `${med.name || 'Unnamed'} (${regimen})` : med.name || 'Unnamed'),
             this.sanitizeForPdf(med.unitsBeforeBreakfast || ''),
             this.sanitizeForPdf(med.unitsDuringBreakfast || ''),
             this.sanitizeForPdf(med.unitsBeforeLunch || ''),
@@ -0,0 +1,199 @@
+import { Injectable } from '@angular/core';
+import { Observable, Subject } from 'rxjs';
+import { FieldSchema, ObjectSchema } from '../models/api.schemas';
+
+export interface ContractViolation {
+  endpoint: string;
+  path: string;       // e.g. "[2].intakeMoments.unitsAtBedtime"
+  message: string;
+  value?: unknown;
+}
+
+/**
+ * Single deserialization point for backend responses.
+ * Normalizes key casing (camelCase / PascalCase / UPPERCASE and declared aliases),
+ * coerces scalar values the backend serializes inconsistently ("true", "12"),
+ * fills in defaults and reports contract violations in one place instead of throwing,
+ * so a slightly off payload still renders.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ApiContractService {
+  private violationsSubject = new Subject<ContractViolation>();
+  private reportedViolations = new Set<string>();
+
+  public violations$: Observable<ContractViolation> = this.violationsSubject.asObservable();
+
+  /**
+   * Normalize a raw response against the schema of an endpoint
+   */
+  parse<T>(endpoint: string, schema: FieldSchema, raw: unknown): T {
+    return this.parseValue(raw, schema, endpoint, '') as T;
+  }
+
+  private parseValue(value: unknown, schema: FieldSchema, endpoint: string, path: string): unknown {
+    if (value === undefined) {
+      if (schema.default !== undefined) {
+        return this.defaultValue(schema, endpoint, path);
+      }
+      if (!schema.optional) {
+        this.report(endpoint, path, 'missing required field');
+      }
+      return undefined;
+    }
+
+    if (value === null) {
+      if (schema.nullable) {
+        return null;
+      }
+      if (schema.default !== undefined) {
+        return this.defaultValue(schema, endpoint, path);
+      }
+      if (!schema.optional) {
+        this.report(endpoint, path, 'unexpected null');
+      }
+      return null;
+    }
+
+    switch (schema.kind) {
+      case 'string':
+        if (typeof value === 'string') {
+          return value;
+        }
+        if (typeof value === 'number' || typeof value === 'boolean') {
+          return String(value);
+        }
+        return this.mismatch(value, schema, endpoint, path, 'expected string');
+
+      case 'number':
+        if (typeof value === 'number' && !isNaN(value)) {
+          return value;
+        }
+        if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+          return Number(value);
+        }
+        return this.mismatch(value, schema, endpoint, path, 'expected number');
+
+      case 'boolean':
+        if (typeof value === 'boolean') {
+          return value;
+        }
+        if (typeof value === 'string' && ['true', 'false'].includes(value.toLowerCase())) {
+          return value.toLowerCase() === 'true';
+        }
+        return this.mismatch(value, schema, endpoint, path, 'expected boolean');
+
+      case 'array':
+        if (!Array.isArray(value)) {
+          return this.mismatch(value, schema, endpoint, path, 'expected array');
+        }
+        return value.map((item, index) => this.parseValue(item, schema.items, endpoint, `${path}[${index}]`));
+
+      case 'object':
+        if (typeof value !== 'object' || Array.isArray(value)) {
+          return this.mismatch(value, schema, endpoint, path, 'expected object');
+        }
+        return this.parseObject(value as Record<string, unknown>, schema, endpoint, path);
+
+      default:
+        return value;
+    }
+  }
+
+  private parseObject(raw: Record<string, unknown>, schema: ObjectSchema, endpoint: string, path: string): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    const consumedKeys = new Set<string>();
+
+    for (const [field, fieldSchema] of Object.entries(schema.fields)) {
+      const sourceKey = this.findKey(raw, field, fieldSchema.aliases);
+      if (sourceKey !== undefined) {
+        consumedKeys.add(sourceKey);
+      }
+
+      const parsed = this.parseValue(
+        sourceKey !== undefined ? raw[sourceKey] : undefined,
+        fieldSchema,
+        endpoint,
+        path ? `${path}.${field}` : field
+      );
+      if (parsed !== undefined) {
+        result[field] = parsed;
+      }
+    }
+
+    if (schema.passthrough) {
+      for (const [key, value] of Object.entries(raw)) {
+        const camelKey = this.camelize(key);
+        if (!consumedKeys.has(key) && !(camelKey in result)) {
+          result[camelKey] = this.camelizeDeep(value);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Find the key holding a field: exact match, then case-insensitive, then aliases
+   */
+  private findKey(raw: Record<string, unknown>, field: string, aliases: string[] = []): string | undefined {
+    if (field in raw) {
+      return field;
+    }
+
+    const keys = Object.keys(raw);
+    for (const candidate of [field, ...aliases]) {
+      const lower = candidate.toLowerCase();
+      const match = keys.find(key => key.toLowerCase() === lower);
+      if (match !== undefined) {
+        return match;
+      }
+    }
+    return undefined;
+  }
+
+  private defaultValue(schema: FieldSchema, endpoint: string, path: string): unknown {
+    // Object defaults are parsed so nested fields get their own defaults
+    if (schema.kind === 'object' && schema.default !== null && typeof schema.default === 'object') {
+      return this.parseObject(schema.default as Record<string, unknown>, schema, endpoint, path);
+    }
+    return Array.isArray(schema.default) ? [...schema.default] : schema.default;
+  }
+
+  private mismatch(value: unknown, schema: FieldSchema, endpoint: string, path: string, message: string): unknown {
+    this.report(endpoint, path, message, value);
+    return schema.default !== undefined ? this.defaultValue(schema, endpoint, path) : value;
+  }
+
+  private report(endpoint: string, path: string, message: string, value?: unknown): void {
+    const violation: ContractViolation = { endpoint, path: path || '(root)', message, value };
+    this.violationsSubject.next(violation);
+
+    // Only warn once per endpoint/field, list responses would otherwise flood the console
+    const key = `${endpoint}|${path.replace(/\[\d+\]/g, '[]')}|${message}`;
+    if (!this.reportedViolations.has(key)) {
+      this.reportedViolations.add(key);
+      console.warn(`[API contract] ${endpoint}: ${violation.path} ${message}`, value);
+    }
+  }
+
+  private camelize(key: string): string {
+    if (key === key.toUpperCase()) {
+      return key.toLowerCase();
+    }
+    return key.charAt(0).toLowerCase() + key.slice(1);
+  }
+
+  private camelizeDeep(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map(item => this.camelizeDeep(item));
+    }
+    if (value !== null && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([key, item]) => [this.camelize(key), this.camelizeDeep(item)])
+      );
+    }
+    return value;
+  }
+}
@@ -1,38 +1,38 @@
 import { Injectable } from '@angular/core';
-import { HttpClient, HttpHeaders } from '@angular/common/http';
-import { Observable, of, Subject } from 'rxjs';
-import { map, tap } from 'rxjs/operators';
-import { 
-  LoginRequest, 
-  LoginResponse, 
-  UpdatePatientRequest, 
-  UpdatePatientResponse, 
-  UpdateMedicationReviewRequest, 
+import { HttpClient, HttpContext, HttpErrorResponse, HttpHeaders } from '@angular/common/http';
+import { Observable, of, Subject, throwError } from 'rxjs';
+import { catchError, map, tap } from 'rxjs/operators';
+import {
+  LoginRequest,
+  LoginResponse,
+  ReviewContext,
+  TokenGrant,
+  MedicationReviewSummary,
+  FollowUpReviewRequest,
+  UpdatePatientRequest,
+  UpdatePatientResponse,
+  UpdateMedicationReviewRequest,
   UpdateMedicationReviewResponse,
   APBContraindicationsRequest,
   APBContraindicationsResponse,
-  APBContraindicationsResponseBackend,
   Contraindication,
-  AddContraindicationRequest,
-  UpdateContraindicationRequest,
   ContraindicationResponse,
   MedicationSearchRequest,
   MedicationSearchResponse,
   Medication,
-  AddMedicationRequest,
   MedicationResponse,
-  UpdateMedicationRequest,
   LabValue,
-  AddLabValueRequest,
-  UpdateLabValueRequest,
   LabValueResponse,
   DispensingHistoryResponse,
+  UploadDispensingHistoryResponse,
   AddManualDispensingMomentRequest,
   AddManualDispensingMomentResponse,
+  DeleteResponse,
   QuestionAnswer,
   AddQuestionAnswerRequest,
   UpdateQuestionAnswerRequest,
   QuestionAnswerResponse,
+  ImportedMedication,
   ImportMedicationsResponse,
   ImportEvent,
   ImportProgressEvent,
@@ -42,9 +42,62 @@ import {
   VmpLookupRequest,
   VmpLookupResponse,
   BulkVmpLookupRequest,
-  BulkVmpLookupResponse
+  BulkVmpLookupResponse,
+  InteractionsRequest,
+  InteractionsResponse,
+  InteractionDetailsRequest,
+  InteractionDetailsResponse,
+  ContraindicationMatchesRequest,
+  ContraindicationMatchesResponse,
+  ProductContraindicationsResponse,
+  ProductDosageResponse,
+  ProductRenadaptorResponse,
+  ReviewNote,
+  DeprescribingPlan
 } from '../models/api.models';
+import {
+  arr,
+  FieldSchema,
+  loginSchema,
+  reviewContextSchema,
+  medicationReviewSummarySchema,
+  updatePatientResponseSchema,
+  updateMedicationReviewResponseSchema,
+  apbContraindicationsSchema,
+  contraindicationSchema,
+  medicationSearchSchema,
+  medicationSchema,
+  medicationResponseSchema,
+  importProgressEventSchema,
+  importCompleteSchema,
+  labValueSchema,
+  dispensingHistorySchema,
+  uploadDispensingHistorySchema,
+  manualDispensingMomentSchema,
+  deleteResultSchema,
+  interactionsSchema,
+  interactionDetailsSchema,
+  contraindicationMatchesSchema,
+  productContraindicationsSchema,
+  productDosageSchema,
+  productRenadaptorSchema,
+  reviewNoteSchema,
+  questionAnswerSchema,
+  feedbackResponseSchema,
+  vmpLookupSchema,
+  bulkVmpLookupSchema,
+  gheopsResultSchema,
+  anticholinergicResultSchema,
+  medicationToAvoidResultSchema,
+  fallRiskResultSchema,
+  deprescribingPlanSchema
+} from '../models/api.schemas';
 import { environment } from '../../environments/environment';
+import { AuthService, toExpiresAt } from './auth.service';
+import { ApiContractService } from './api-contract.service';
+import { ConcurrencyService, EntityRef } from './concurrency.service';
+import { AuditService } from './audit.service';
+import { REQUEST_TIMEOUT_MS, SKIP_ERROR_HANDLING } from '../interceptors/error.interceptor';
 
 @Injectable({
   providedIn: 'root'
@@ -56,7 +109,13 @@ export class ApiService {
   private readonly API_BASE_URL = environment.apiBaseUrl;
   private contraindicationsCache: Map<string, APBContraindicationsResponse> = new Map();
 
-  constructor(private http: HttpClient) {}
+  constructor(
+    private http: HttpClient,
+    private authService: AuthService,
+    private contract: ApiContractService,
+    private concurrency: ConcurrencyService,
+    private audit: AuditService
+  ) {}
 
   private getHeaders(): HttpHeaders {
     return new HttpHeaders({
@@ -67,42 +126,86 @@ export class ApiService {
     });
   }
 
+  // Headers for changing an entity, with If-Match when its version is known
+  private getVersionedHeaders(ref: EntityRef): HttpHeaders {
+    const eTag = this.concurrency.eTagFor(ref);
+    return eTag ? this.getHeaders().set('If-Match', eTag) : this.getHeaders();
+  }
+
+  // Normalize a raw response against the schema of its endpoint
+  private parse<T>(endpoint: string, schema: FieldSchema) {
+    return map((raw: unknown) => this.contract.parse<T>(endpoint, schema, raw));
+  }
+
   login(request: LoginRequest): Observable<LoginResponse> {
     const headers = this.getHeaders();
 
-    return this.http.post<any>(`${this.API_BASE_URL}/login`, request, { headers })
+    // Wrong credentials are reported on the login form itself
+    const context = new HttpContext().set(SKIP_ERROR_HANDLING, true);
+
+    return this.http.post<unknown>(`${this.API_BASE_URL}/login`, request, { headers, context })
       .pipe(
-        map(response => ({
-          patientCreated: response.patientCreated ?? response.PatientCreated ?? false,
-          reviewCreated: response.reviewCreated ?? response.ReviewCreated ?? false,
-          patientId: response.patientId ?? response.PatientId ?? '',
-          medicationReviewId: response.medicationReviewId ?? response.MedicationReviewId ?? '',
-          patient: {
-            dateOfBirth: response.patient?.dateOfBirth ?? response.patient?.DateOfBirth ?? response.Patient?.dateOfBirth ?? response.Patient?.DateOfBirth ?? null,
-            sex: response.patient?.sex ?? response.patient?.Sex ?? response.Patient?.sex ?? response.Patient?.Sex ?? null
-          },
-          review: {
-            reviewDate: response.review?.reviewDate ?? response.review?.ReviewDate ?? response.Review?.reviewDate ?? response.Review?.ReviewDate ?? null,
-            firstNameAtTimeOfReview: response.review?.firstNameAtTimeOfReview ?? response.review?.FirstNameAtTimeOfReview ?? response.Review?.firstNameAtTimeOfReview ?? response.Review?.FirstNameAtTimeOfReview ?? null,
-            lastNameAtTimeOfReview: response.review?.lastNameAtTimeOfReview ?? response.review?.LastNameAtTimeOfReview ?? response.Review?.lastNameAtTimeOfReview ?? response.Review?.LastNameAtTimeOfReview ?? null,
-            renalFunction: response.review?.renalFunction ?? response.review?.RenalFunction ?? response.Review?.renalFunction ?? response.Review?.RenalFunction ?? null
-          }
+        this.parse<ReviewContext & TokenGrant>('login', loginSchema),
+        map(({ expiresIn, ...response }) => ({
+          ...response,
+          accessTokenExpiresAt: toExpiresAt(expiresIn)
         }))
       );
   }
 
+  // Medication Reviews (review picker)
+  listMedicationReviews(apbNumber: string): Observable<MedicationReviewSummary[]> {
+    return this.http.get<unknown>(`${this.API_BASE_URL}/manage_medication_reviews`, {
+      headers: this.getHeaders()
+    })
+      .pipe(
+        this.parse<MedicationReviewSummary[]>('manage_medication_reviews', arr(medicationReviewSummarySchema))
+      );
+  }
+
+  openMedicationReview(apbNumber: string, medicationReviewId: string): Observable<ReviewContext> {
+    return this.http.get<unknown>(`${this.API_BASE_URL}/manage_medication_reviews?medicationReviewId=${medicationReviewId}`, {
+      headers: this.getHeaders()
+    })
+      .pipe(
+        this.parse<ReviewContext>('manage_medication_reviews', reviewContextSchema)
+      );
+  }
+
+  /**
+   * Create a review, for a new patient or, with `followUp`, as a follow-up of an existing review of the same patient
+   */
+  createMedicationReview(apbNumber: string, followUp?: FollowUpReviewRequest): Observable<ReviewContext> {
+    const headers = this.getHeaders();
+
+    return this.http.post<unknown>(`${this.API_BASE_URL}/manage_medication_reviews`, { apbNumber, ...followUp }, { headers })
+      .pipe(
+        this.parse<ReviewContext>('manage_medication_reviews', reviewContextSchema)
+      );
+  }
+
   updatePatient(request: UpdatePatientRequest): Observable<UpdatePatientResponse> {
     const headers = this.getHeaders();
 
-    return this.http.put<UpdatePatientResponse>(`${this.API_BASE_URL}/update_patient`, request, { headers })
-      ;
+    return this.http.put<unknown>(`${this.API_BASE_URL}/update_patient`, request, { headers })
+      .pipe(
+        this.parse<UpdatePatientResponse>('update_patient', updatePatientResponseSchema),
+        this.audit.log<UpdatePatientResponse>(null, () => ({
+          entity: 'patient', action: 'updated', entityId: request.patientId, changes: this.audit.diff(null, request)
+        }))
+      );
   }
 
   updateMedicationReview(request: UpdateMedicationReviewRequest): Observable<UpdateMedicationReviewResponse> {
     const headers = this.getHeaders();
 
-    return this.http.put<UpdateMedicationReviewResponse>(`${this.API_BASE_URL}/update_medication_review`, request, { headers })
-      ;
+    return this.http.put<unknown>(`${this.API_BASE_URL}/update_medication_review`, request, { headers })
+      .pipe(
+        this.parse<UpdateMedicationReviewResponse>('update_medication_review', updateMedicationReviewResponseSchema),
+        this.audit.log<UpdateMedicationReviewResponse>(request.medicationReviewId, () => ({
+          entity: 'review', action: 'updated', entityId: request.medicationReviewId, changes: this.audit.diff(null, request)
+        }))
+      );
   }
 
   // APB Contraindications
@@ -115,37 +218,10 @@ export class ApiService {
       return of(this.contraindicationsCache.get(cacheKey)!);
     }
 
-    return this.http.post<APBContraindicationsResponseBackend>(`${this.API_BASE_URL}/get_apb_contraindications`, request, { headers })
+    return this.http.post<unknown>(`${this.API_BASE_URL}/get_apb_contraindications`, request, { headers })
       .pipe(
-        map(backendResponse => {
-          // Convert PascalCase to camelCase, including nested items
-          const response: APBContraindicationsResponse = {
-            language: backendResponse.Language,
-            result: {
-              hypersensitivities: {
-                list: backendResponse.Result.Hypersensitivities.List.map(item => ({
-                  code: (item as any).Code || item.code,
-                  description: (item as any).Description || item.description
-                }))
-              },
-              pathologies: {
-                list: backendResponse.Result.Pathologies.List.map(item => ({
-                  code: (item as any).Code || item.code,
-                  description: (item as any).Description || item.description
-                }))
-              },
-              physiologicalConditions: {
-                list: backendResponse.Result.PhysiologicalConditions.List.map(item => ({
-                  code: (item as any).Code || item.code,
-                  description: (item as any).Description || item.description
-                }))
-              }
-            }
-          };
-          // Cache the result
-          this.contraindicationsCache.set(cacheKey, response);
-          return response;
-        })
+        this.parse<APBContraindicationsResponse>('get_apb_contraindications', apbContraindicationsSchema),
+        tap(response => this.contraindicationsCache.set(cacheKey, response))
       );
   }
 
@@ -156,15 +232,12 @@ export class ApiService {
 
   // Contraindication CRUD
   getContraindications(apbNumber: string, medicationReviewId: string): Observable<Contraindication[]> {
-    return this.http.get<any[]>(`${this.API_BASE_URL}/manage_contraindications?apbNumber=${apbNumber}&medicationReviewId=${medicationReviewId}`, {
+    return this.http.get<unknown>(`${this.API_BASE_URL}/manage_contraindications?medicationReviewId=${medicationReviewId}`, {
       headers: this.getHeaders()
     })
       .pipe(
-        map(items => items.map(item => ({
-          contraindicationId: item.rowKey || item.ContraindicationId || item.contraindicationId,
-          name: item.name || item.Name,
-          contraindicationCode: item.contraindicationCode || item.ContraindicationCode
-        })))
+        this.parse<Contraindication[]>('manage_contraindications', arr(contraindicationSchema)),
+        this.concurrency.track<Contraindication[]>('manage_contraindications', medicationReviewId, contraindication => contraindication['contraindicationId'])
       );
   }
 
@@ -173,105 +246,91 @@ export class ApiService {
 
     const request = { apbNumber, medicationReviewId: reviewId, ...contraindication };
 
-    return this.http.post<any>(`${this.API_BASE_URL}/manage_contraindications`, request, { headers })
+    return this.http.post<unknown>(`${this.API_BASE_URL}/manage_contraindications`, request, { headers })
       .pipe(
-        map(item => ({
-          contraindicationId: item.rowKey || item.ContraindicationId || item.contraindicationId,
-          name: item.name || item.Name,
-          contraindicationCode: item.contraindicationCode || item.ContraindicationCode
+        this.parse<ContraindicationResponse>('manage_contraindications', contraindicationSchema),
+        this.concurrency.track<ContraindicationResponse>('manage_contraindications', reviewId, contraindication => contraindication['contraindicationId']),
+        this.audit.log<ContraindicationResponse>(reviewId, created => ({
+          entity: 'contraindication',
+          action: 'created',
+          entityId: created.contraindicationId,
+          label: created.name || created.contraindicationCode,
+          changes: this.audit.diff(null, contraindication)
         }))
       );
   }
 
   updateContraindication(apbNumber: string, reviewId: string, contraindicationId: string, contraindication: any): Observable<ContraindicationResponse> {
     const headers = this.getHeaders();
+    const before = this.concurrency.snapshotFor({ endpoint: 'manage_contraindications', reviewId, id: contraindicationId });
 
-    const request = { 
+    const request = {
       apbNumber,
-      medicationReviewId: reviewId, 
-      contraindicationId, 
-      ...contraindication 
+      medicationReviewId: reviewId,
+      contraindicationId,
+      ...contraindication
     };
 
-    return this.http.put<any>(`${this.API_BASE_URL}/manage_contraindications`, request, { headers })
+    return this.http.put<unknown>(`${this.API_BASE_URL}/manage_contraindications`, request, { headers })
       .pipe(
-        map(item => ({
-          contraindicationId: item.rowKey || item.ContraindicationId || item.contraindicationId,
-          name: item.name || item.Name,
-          contraindicationCode: item.contraindicationCode || item.ContraindicationCode
+        this.parse<ContraindicationResponse>('manage_contraindications', contraindicationSchema),
+        this.concurrency.track<ContraindicationResponse>('manage_contraindications', reviewId, () => contraindicationId),
+        this.audit.log<ContraindicationResponse>(reviewId, updated => ({
+          entity: 'contraindication',
+          action: 'updated',
+          entityId: contraindicationId,
+          label: updated.name || updated.contraindicationCode,
+          changes: this.audit.diff(before, contraindication, Object.keys(contraindication))
         }))
       );
   }
 
   deleteContraindication(apbNumber: string, medicationReviewId: string, contraindicationId: string): Observable<void> {
-    return this.http.delete<void>(`${this.API_BASE_URL}/manage_contraindications?apbNumber=${apbNumber}&medicationReviewId=${medicationReviewId}&contraindicationId=${contraindicationId}`);
+    const ref: EntityRef = { endpoint: 'manage_contraindications', reviewId: medicationReviewId, id: contraindicationId };
+    const before = this.concurrency.snapshotFor(ref);
+
+    return this.http.delete<void>(`${this.API_BASE_URL}/manage_contraindications?medicationReviewId=${medicationReviewId}&contraindicationId=${contraindicationId}`)
+      .pipe(
+        tap(() => this.concurrency.forget(ref)),
+        this.audit.log<void>(medicationReviewId, () => ({
+          entity: 'contraindication',
+          action: 'deleted',
+          entityId: contraindicationId,
+          label: (before?.['name'] || before?.['contraindicationCode']) as string | undefined,
+          changes: this.audit.diff(before, null)
+        }))
+      );
   }
 
   // Medication Search
   searchMedications(request: MedicationSearchRequest): Observable<MedicationSearchResponse> {
     const headers = this.getHeaders();
 
-    return this.http.post<any>(`${this.API_BASE_URL}/search_medications`, request, { headers })
+    return this.http.post<unknown>(`${this.API_BASE_URL}/search_medications`, request, { headers })
       .pipe(
-        map(backendResponse => ({
-          searchTerm: backendResponse.searchTerm || backendResponse.SearchTerm,
-          count: backendResponse.count || backendResponse.Count,
-          results: (backendResponse.results || backendResponse.Results || []).map((item: any) => ({
-            benaming: item.benaming || item.Benaming,
-            cnk: item.cnk || item.CNK || item.Cnk,
-            verpakking: item.verpakking || item.Verpakking,
-            vmp: item.vmp || item.VMP || item.Vmp || null
-          }))
-        }))
+        this.parse<MedicationSearchResponse>('search_medications', medicationSearchSchema)
       );
   }
 
   // Medication CRUD
   getMedications(apbNumber: string, medicationReviewId: string): Observable<Medication[]> {
-    
-    return this.http.get<any[]>(`${this.API_BASE_URL}/manage_medications?apbNumber=${apbNumber}&medicationReviewId=${medicationReviewId}`, { 
-      headers: this.getHeaders() 
+
+    return this.http.get<unknown>(`${this.API_BASE_URL}/manage_medications?medicationReviewId=${medicationReviewId}`, {
+      headers: this.getHeaders()
     })
       .pipe(
-        tap(rawResponse => {
-          console.log('API getMedications response:', rawResponse);
-          rawResponse?.forEach(med => {
-            console.log(`Medication ${med.name || med.Name}: activeIngredient =`, med.activeIngredient || med.ActiveIngredient);
-          });
-        }),
-        map(items => {
-          const mapped = items.map(item => ({
-            medicationId: item.rowKey ?? item.MedicationId ?? item.medicationId,
-            name: item.name ?? item.Name ?? null,
-            cnk: item.cnk ?? item.CNK ?? item.Cnk ?? null,
-            asNeeded: (item.asNeeded === true || item.asNeeded === 'true' || item.AsNeeded === true || item.AsNeeded === 'true') ? true : false,
-            vmp: item.vmp ?? item.VMP ?? item.Vmp ?? null,
-            packageSize: item.packageSize ?? item.PackageSize ?? null,
-            activeIngredient: item.activeIngredient ?? item.ActiveIngredient ?? null,
-            dosageMg: item.dosageMg ?? item.DosageMg ?? null,
-            routeOfAdministration: item.routeOfAdministration ?? item.RouteOfAdministration ?? null,
-            indication: item.indication ?? item.Indication ?? null,
-            specialFrequency: item.specialFrequency ?? item.SpecialFrequency ?? null,
-            specialDescription: item.specialDescription ?? item.SpecialDescription ?? null,
-            unitsBeforeBreakfast: item.unitsBeforeBreakfast ?? item.UnitsBeforeBreakfast ?? null,
-            unitsDuringBreakfast: item.unitsDuringBreakfast ?? item.UnitsDuringBreakfast ?? null,
-            unitsBeforeLunch: item.unitsBeforeLunch ?? item.UnitsBeforeLunch ?? null,
-            unitsDuringLunch: item.unitsDuringLunch ?? item.UnitsDuringLunch ?? null,
-            unitsBeforeDinner: item.unitsBeforeDinner ?? item.UnitsBeforeDinner ?? null,
-            unitsDuringDinner: item.unitsDuringDinner ?? item.UnitsDuringDinner ?? null,
-            unitsAtBedtime: item.unitsAtBedtime ?? item.UnitsAtBedtime ?? null,
-            timestamp: item.timestamp ?? item.Timestamp ?? null
-          }));
-          
+        this.parse<Medication[]>('manage_medications', arr(medicationSchema)),
+        this.concurrency.track<Medication[]>('manage_medications', medicationReviewId, medication => medication['medicationId']),
+        map(medications => {
           // Sort by timestamp (oldest first)
-          mapped.sort((a, b) => {
+          medications.sort((a, b) => {
             if (!a.timestamp && !b.timestamp) return 0;
             if (!a.timestamp) return 1;
             if (!b.timestamp) return -1;
             return new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
           });
-          
-          return mapped;
+
+          return medications;
         })
       );
   }
@@ -281,76 +340,71 @@ export class ApiService {
 
     const request = { apbNumber, medicationReviewId: reviewId, ...medication };
 
-    return this.http.post<any>(`${this.API_BASE_URL}/manage_medications`, request, { headers })
+    return this.http.post<unknown>(`${this.API_BASE_URL}/manage_medications`, request, { headers })
       .pipe(
-        tap(rawResponse => {
-          console.log('API addMedication response:', rawResponse);
-          console.log('Active ingredient from backend:', rawResponse?.activeIngredient || rawResponse?.ActiveIngredient);
-        }),
-        map(item => ({
-          medicationId: item.rowKey ?? item.MedicationId ?? item.medicationId,
-          name: item.name ?? item.Name ?? null,
-          asNeeded: (item.asNeeded === true || item.asNeeded === 'true' || item.AsNeeded === true || item.AsNeeded === 'true') ? true : false,
-          cnk: item.cnk ?? item.CNK ?? item.Cnk ?? null,
-          vmp: item.vmp ?? item.VMP ?? item.Vmp ?? null,
-          packageSize: item.packageSize ?? item.PackageSize ?? null,
-          activeIngredient: item.activeIngredient ?? item.ActiveIngredient ?? null,
-          dosageMg: item.dosageMg ?? item.DosageMg ?? null,
-          routeOfAdministration: item.routeOfAdministration ?? item.RouteOfAdministration ?? null,
-          indication: item.indication ?? item.Indication ?? null,
-          specialFrequency: item.specialFrequency ?? item.SpecialFrequency ?? null,
-          specialDescription: item.specialDescription ?? item.SpecialDescription ?? null,
-          unitsBeforeBreakfast: item.unitsBeforeBreakfast ?? item.UnitsBeforeBreakfast ?? null,
-          unitsDuringBreakfast: item.unitsDuringBreakfast ?? item.UnitsDuringBreakfast ?? null,
-          unitsBeforeLunch: item.unitsBeforeLunch ?? item.UnitsBeforeLunch ?? null,
-          unitsDuringLunch: item.unitsDuringLunch ?? item.UnitsDuringLunch ?? null,
-          unitsBeforeDinner: item.unitsBeforeDinner ?? item.UnitsBeforeDinner ?? null,
-          unitsDuringDinner: item.unitsDuringDinner ?? item.UnitsDuringDinner ?? null,
-          unitsAtBedtime: item.unitsAtBedtime ?? item.UnitsAtBedtime ?? null
+        this.parse<MedicationResponse>('manage_medications', medicationResponseSchema),
+        this.concurrency.track<MedicationResponse>('manage_medications', reviewId, medication => medication['medicationId']),
+        this.audit.log<MedicationResponse>(reviewId, created => ({
+          entity: 'medication',
+          action: 'created',
+          entityId: created.medicationId,
+          label: created.name ?? medication.name,
+          changes: this.audit.diff(null, medication)
         }))
       );
   }
 
   updateMedication(apbNumber: string, reviewId: string, medicationId: string, medication: any): Observable<MedicationResponse> {
-    const headers = this.getHeaders();
-
-    const request = { 
-      apbNumber,
-      medicationReviewId: reviewId, 
-      medicationId, 
-      ...medication 
-    };
-
-    return this.http.put<any>(`${this.API_BASE_URL}/manage_medications`, request, { headers })
-      .pipe(
-        tap(rawResponse => {
-        }),
-        map(item => ({
-          medicationId: item.rowKey ?? item.MedicationId ?? item.medicationId,
-          name: item.name ?? item.Name ?? null,
-          asNeeded: (item.asNeeded === true || item.asNeeded === 'true' || item.AsNeeded === true || item.AsNeeded === 'true') ? true : false,
-          cnk: item.cnk ?? item.CNK ?? item.Cnk ?? null,
-          vmp: item.vmp ?? item.VMP ?? item.Vmp ?? null,
-          packageSize: item.packageSize ?? item.PackageSize ?? null,
-          activeIngredient: item.activeIngredient ?? item.ActiveIngredient ?? null,
-          dosageMg: item.dosageMg ?? item.DosageMg ?? null,
-          routeOfAdministration: item.routeOfAdministration ?? item.RouteOfAdministration ?? null,
-          indication: item.indication ?? item.Indication ?? null,
-          specialFrequency: item.specialFrequency ?? item.SpecialFrequency ?? null,
-          specialDescription: item.specialDescription ?? item.SpecialDescription ?? null,
-          unitsBeforeBreakfast: item.unitsBeforeBreakfast ?? item.UnitsBeforeBreakfast ?? null,
-          unitsDuringBreakfast: item.unitsDuringBreakfast ?? item.UnitsDuringBreakfast ?? null,
-          unitsBeforeLunch: item.unitsBeforeLunch ?? item.UnitsBeforeLunch ?? null,
-          unitsDuringLunch: item.unitsDuringLunch ?? item.UnitsDuringLunch ?? null,
-          unitsBeforeDinner: item.unitsBeforeDinner ?? item.UnitsBeforeDinner ?? null,
-          unitsDuringDinner: item.unitsDuringDinner ?? item.UnitsDuringDinner ?? null,
-          unitsAtBedtime: item.unitsAtBedtime ?? item.UnitsAtBedtime ?? null
-        }))
-      );
+    const ref: EntityRef = { endpoint: 'manage_medications', reviewId, id: medicationId };
+    const before = this.concurrency.snapshotFor(ref);
+
+    return this.concurrency.guardUpdate(
+      ref,
+      medication,
+      values => this.http.put<unknown>(
+        `${this.API_BASE_URL}/manage_medications`,
+        { apbNumber, medicationReviewId: reviewId, medicationId, ...values },
+        { headers: this.getVersionedHeaders(ref) }
+      ).pipe(
+        this.parse<MedicationResponse>('manage_medications', medicationResponseSchema),
+        this.concurrency.track<MedicationResponse>('manage_medications', reviewId, () => medicationId)
+      ),
+      () => this.getMedications(apbNumber, reviewId).pipe(
+        map(medications => medications.find(item => item.medicationId === medicationId) ?? null)
+      )
+    ).pipe(
+      this.audit.log<MedicationResponse>(reviewId, updated => ({
+        entity: 'medication',
+        action: 'updated',
+        entityId: medicationId,
+        label: updated.name ?? before?.['name'] as string | undefined,
+        changes: this.audit.diff(before, medication, Object.keys(medication))
+      }))
+    );
   }
 
   deleteMedication(apbNumber: string, medicationReviewId: string, medicationId: string): Observable<void> {
-    return this.http.delete<void>(`${this.API_BASE_URL}/manage_medications?apbNumber=${apbNumber}&medicationReviewId=${medicationReviewId}&medicationId=${medicationId}`);
+    const ref: EntityRef = { endpoint: 'manage_medications', reviewId: medicationReviewId, id: medicationId };
+    const before = this.concurrency.snapshotFor(ref);
+
+    return this.concurrency.guardDelete(
+      ref,
+      () => this.http.delete<void>(
+        `${this.API_BASE_URL}/manage_medications?medicationReviewId=${medicationReviewId}&medicationId=${medicationId}`,
+        { headers: this.getVersionedHeaders(ref) }
+      ),
+      () => this.getMedications(apbNumber, medicationReviewId).pipe(
+        map(medications => medications.find(item => item.medicationId === medicationId) ?? null)
+      )
+    ).pipe(
+      this.audit.log<void>(medicationReviewId, () => ({
+        entity: 'medication',
+        action: 'deleted',
+        entityId: medicationId,
+        label: before?.['name'] as string | undefined,
+        changes: this.audit.diff(before, null)
+      }))
+    );
   }
 
   // CSV Import with SSE streaming for real-time progress updates
@@ -360,26 +414,22 @@ export class ApiService {
 
     console.log('[Import] Starting import for file:', csvFile.name, 'size:', csvFile.size);
 
-    // Helper function to map IntakeMoments from PascalCase to camelCase
-    const mapIntakeMoments = (intake: any): any => {
-      if (!intake) return null;
-      return {
-        unitsBeforeBreakfast: intake.unitsBeforeBreakfast ?? intake.UnitsBeforeBreakfast ?? 0,
-        unitsDuringBreakfast: intake.unitsDuringBreakfast ?? intake.UnitsDuringBreakfast ?? 0,
-        unitsBeforeLunch: intake.unitsBeforeLunch ?? intake.UnitsBeforeLunch ?? 0,
-        unitsDuringLunch: intake.unitsDuringLunch ?? intake.UnitsDuringLunch ?? 0,
-        unitsBeforeDinner: intake.unitsBeforeDinner ?? intake.UnitsBeforeDinner ?? 0,
-        unitsDuringDinner: intake.unitsDuringDinner ?? intake.UnitsDuringDinner ?? 0,
-        unitsAtBedtime: intake.unitsAtBedtime ?? intake.UnitsAtBedtime ?? 0,
-        asNeeded: intake.asNeeded ?? intake.AsNeeded ?? false
-      };
-    };
-
     const subject = new Subject<ImportEvent>();
 
-    // Use fetch with SSE for streaming progress updates
-    fetch(
-      `${this.API_BASE_URL}/import_medications_from_csv?apbNumber=${apbNumber}&medicationReviewId=${medicationReviewId}`,
+    // Parse a single SSE "data:" payload and emit it
+    const emitEvent = (eventData: string) => {
+      try {
+        const event = this.parseImportEvent(JSON.parse(eventData));
+        console.log('[Import] Parsed SSE event:', event.type);
+        subject.next(event);
+      } catch (e) {
+        console.error('[Import] Failed to parse SSE data:', eventData, e);
+      }
+    };
+
+    // Use fetch with SSE for streaming progress updates (bypasses HttpClient, so authorize explicitly)
+    this.authService.authorizedFetch(
+      `${this.API_BASE_URL}/import_medications_from_csv?medicationReviewId=${medicationReviewId}`,
       {
         method: 'POST',
         body: formData
@@ -405,7 +455,7 @@ export class ApiService {
 
       const contentType = response.headers.get('content-type') || '';
       console.log('[Import] Content-Type:', contentType);
-      
+
       // Check if the response is SSE (text/event-stream) or regular JSON
       if (contentType.includes('text/event-stream')) {
         console.log('[Import] Handling as SSE stream');
@@ -423,104 +473,23 @@ export class ApiService {
 
         while (true) {
           const { done, value } = await reader.read();
-          
+
           if (done) {
             console.log('[Import] SSE stream done, remaining buffer:', buffer);
             // Process any remaining data in buffer
             if (buffer.trim()) {
-              const lines = buffer.split('\n');
               let eventData = '';
-              for (const line of lines) {
+              for (const line of buffer.split('\n')) {
                 if (line.startsWith('data: ')) {
                   eventData = line.substring(6);
                 } else if (line === '' && eventData) {
-                  try {
-                    const parsed = JSON.parse(eventData) as ImportEvent;
-                    console.log('[Import] Parsed final SSE event:', parsed);
-                    
-                    // Map PascalCase to camelCase for complete events
-                    if (parsed.type === 'complete') {
-                      const completeEvent = parsed as any;
-                      const medications = completeEvent.medications ?? completeEvent.Medications ?? [];
-                      
-                      const mappedMedications = medications.map((med: any) => ({
-                        medicationId: med.medicationId ?? med.MedicationId ?? med.rowKey ?? med.RowKey,
-                        medicationName: med.medicationName ?? med.MedicationName ?? med.name ?? med.Name,
-                        success: med.success ?? med.Success ?? true,
-                        cnk: med.cnk ?? med.CNK ?? med.Cnk ?? null,
-                        vmp: med.vmp ?? med.VMP ?? med.Vmp ?? null,
-                        foundMedicationName: med.foundMedicationName ?? med.FoundMedicationName ?? null,
-                        activeIngredient: med.activeIngredient ?? med.ActiveIngredient ?? null,
-                        indication: med.indication ?? med.Indication ?? null,
-                        intakeMoments: mapIntakeMoments(med.intakeMoments ?? med.IntakeMoments),
-                        missingInformation: med.missingInformation ?? med.MissingInformation ?? [],
-                        errorMessage: med.errorMessage ?? med.ErrorMessage ?? null,
-                        reviewStatus: 'under_review'
-                      }));
-                      
-                      const mappedCompleteEvent: ImportCompleteEvent = {
-                        type: 'complete',
-                        totalProcessed: completeEvent.totalProcessed ?? completeEvent.TotalProcessed ?? 0,
-                        successful: completeEvent.successful ?? completeEvent.Successful ?? 0,
-                        failed: completeEvent.failed ?? completeEvent.Failed ?? 0,
-                        withMissingInformation: completeEvent.withMissingInformation ?? completeEvent.WithMissingInformation ?? 0,
-                        processingTimeMs: completeEvent.processingTimeMs ?? completeEvent.ProcessingTimeMs ?? 0,
-                        medications: mappedMedications
-                      };
-                      
-                      subject.next(mappedCompleteEvent);
-                    } else {
-                      subject.next(parsed);
-                    }
-                  } catch (e) {
-                    console.error('[Import] Failed to parse SSE data:', eventData, e);
-                  }
+                  emitEvent(eventData);
                   eventData = '';
                 }
               }
               // Handle case where eventData exists but no empty line followed
               if (eventData) {
-                try {
-                  const parsed = JSON.parse(eventData) as ImportEvent;
-                  console.log('[Import] Parsed trailing SSE event:', parsed);
-                  
-                  // Map PascalCase to camelCase for complete events
-                  if (parsed.type === 'complete') {
-                    const completeEvent = parsed as any;
-                    const medications = completeEvent.medications ?? completeEvent.Medications ?? [];
-                    
-                    const mappedMedications = medications.map((med: any) => ({
-                      medicationId: med.medicationId ?? med.MedicationId ?? med.rowKey ?? med.RowKey,
-                      medicationName: med.medicationName ?? med.MedicationName ?? med.name ?? med.Name,
-                      success: med.success ?? med.Success ?? true,
-                      cnk: med.cnk ?? med.CNK ?? med.Cnk ?? null,
-                      vmp: med.vmp ?? med.VMP ?? med.Vmp ?? null,
-                      foundMedicationName: med.foundMedicationName ?? med.FoundMedicationName ?? null,
-                      activeIngredient: med.activeIngredient ?? med.ActiveIngredient ?? null,
-                      indication: med.indication ?? med.Indication ?? null,
-                      intakeMoments: mapIntakeMoments(med.intakeMoments ?? med.IntakeMoments),
-                      missingInformation: med.missingInformation ?? med.MissingInformation ?? [],
-                      errorMessage: med.errorMessage ?? med.ErrorMessage ?? null,
-                      reviewStatus: 'under_review'
-                    }));
-                    
-                    const mappedCompleteEvent: ImportCompleteEvent = {
-                      type: 'complete',
-                      totalProcessed: completeEvent.totalProcessed ?? completeEvent.TotalProcessed ?? 0,
-                      successful: completeEvent.successful ?? completeEvent.Successful ?? 0,
-                      failed: completeEvent.failed ?? completeEvent.Failed ?? 0,
-                      withMissingInformation: completeEvent.withMissingInformation ?? completeEvent.WithMissingInformation ?? 0,
-                      processingTimeMs: completeEvent.processingTimeMs ?? completeEvent.ProcessingTimeMs ?? 0,
-                      medications: mappedMedications
-                    };
-                    
-                    subject.next(mappedCompleteEvent);
-                  } else {
-                    subject.next(parsed);
-                  }
-                } catch (e) {
-                  console.error('[Import] Failed to parse final SSE data:', eventData, e);
-                }
+                emitEvent(eventData);
               }
             }
             subject.complete();
@@ -529,7 +498,7 @@ export class ApiService {
 
           buffer += decoder.decode(value, { stream: true });
           console.log('[Import] SSE chunk received, buffer length:', buffer.length);
-          
+
           // Parse SSE events from buffer
           const lines = buffer.split('\n');
           buffer = lines.pop() || ''; // Keep incomplete line in buffer
@@ -541,48 +510,7 @@ export class ApiService {
               eventData = line.substring(6);
             } else if (line === '' && eventData) {
               // Empty line = end of event
-              try {
-                const parsed = JSON.parse(eventData) as ImportEvent;
-                console.log('[Import] Parsed SSE event:', parsed.type, parsed);
-                
-                // If it's a complete event, map PascalCase to camelCase
-                if (parsed.type === 'complete') {
-                  const completeEvent = parsed as any;
-                  const medications = completeEvent.medications ?? completeEvent.Medications ?? [];
-                  
-                  const mappedMedications = medications.map((med: any) => ({
-                    medicationId: med.medicationId ?? med.MedicationId ?? med.rowKey ?? med.RowKey,
-                    medicationName: med.medicationName ?? med.MedicationName ?? med.name ?? med.Name,
-                    success: med.success ?? med.Success ?? true,
-                    cnk: med.cnk ?? med.CNK ?? med.Cnk ?? null,
-                    vmp: med.vmp ?? med.VMP ?? med.Vmp ?? null,
-                    foundMedicationName: med.foundMedicationName ?? med.FoundMedicationName ?? null,
-                    activeIngredient: med.activeIngredient ?? med.ActiveIngredient ?? null,
-                    indication: med.indication ?? med.Indication ?? null,
-                    intakeMoments: mapIntakeMoments(med.intakeMoments ?? med.IntakeMoments),
-                    missingInformation: med.missingInformation ?? med.MissingInformation ?? [],
-                    errorMessage: med.errorMessage ?? med.ErrorMessage ?? null,
-                    reviewStatus: 'under_review'
-                  }));
-                  
-                  const mappedCompleteEvent: ImportCompleteEvent = {
-                    type: 'complete',
-                    totalProcessed: completeEvent.totalProcessed ?? completeEvent.TotalProcessed ?? 0,
-                    successful: completeEvent.successful ?? completeEvent.Successful ?? 0,
-                    failed: completeEvent.failed ?? completeEvent.Failed ?? 0,
-                    withMissingInformation: completeEvent.withMissingInformation ?? completeEvent.WithMissingInformation ?? 0,
-                    processingTimeMs: completeEvent.processingTimeMs ?? completeEvent.ProcessingTimeMs ?? 0,
-                    medications: mappedMedications
-                  };
-                  
-                  console.log('[Import] Mapped complete event with', mappedMedications.length, 'medications');
-                  subject.next(mappedCompleteEvent);
-                } else {
-                  subject.next(parsed);
-                }
-              } catch (e) {
-                console.error('[Import] Failed to parse SSE data:', eventData, e);
-              }
+              emitEvent(eventData);
               eventData = '';
             }
           }
@@ -592,45 +520,11 @@ export class ApiService {
         // Handle regular JSON response (fallback for non-SSE backends)
         try {
           const jsonResponse = await response.json();
-          console.log('=== RAW API RESPONSE ===');
-          console.log(JSON.stringify(jsonResponse, null, 2));
-          console.log('[Import] Raw JSON response:', JSON.stringify(jsonResponse, null, 2));
-          
+          console.log('[Import] Raw JSON response:', jsonResponse);
+
           // Convert legacy response to ImportCompleteEvent format
-          const medications = jsonResponse.medications ?? jsonResponse.Medications ?? [];
-          console.log('[Import] Medications array:', medications);
-          console.log('[Import] First medication raw:', medications[0]);
-          
-          const mappedMedications = medications.map((med: any, index: number) => {
-            console.log(`[Import] Mapping medication ${index}:`, JSON.stringify(med, null, 2));
-            const mapped = {
-              medicationId: med.medicationId ?? med.MedicationId ?? med.rowKey ?? med.RowKey,
-              medicationName: med.medicationName ?? med.MedicationName ?? med.name ?? med.Name,
-              success: med.success ?? med.Success ?? true,
-              cnk: med.cnk ?? med.CNK ?? med.Cnk ?? null,
-              vmp: med.vmp ?? med.VMP ?? med.Vmp ?? null,
-              foundMedicationName: med.foundMedicationName ?? med.FoundMedicationName ?? null,
-              activeIngredient: med.activeIngredient ?? med.ActiveIngredient ?? null,
-              indication: med.indication ?? med.Indication ?? null,
-              intakeMoments: mapIntakeMoments(med.intakeMoments ?? med.IntakeMoments),
-              missingInformation: med.missingInformation ?? med.MissingInformation ?? [],
-              errorMessage: med.errorMessage ?? med.ErrorMessage ?? null,
-              reviewStatus: 'under_review'
-            };
-            console.log(`[Import] Mapped medication ${index}:`, mapped);
-            return mapped;
-          });
+          const completeEvent = this.parseImportEvent({ ...jsonResponse, type: 'complete' });
 
-          const completeEvent: ImportCompleteEvent = {
-            type: 'complete',
-            totalProcessed: jsonResponse.totalProcessed ?? jsonResponse.TotalProcessed ?? 0,
-            successful: jsonResponse.successful ?? jsonResponse.Successful ?? 0,
-            failed: jsonResponse.failed ?? jsonResponse.Failed ?? 0,
-            withMissingInformation: jsonResponse.withMissingInformation ?? jsonResponse.WithMissingInformation ?? 0,
-            processingTimeMs: jsonResponse.processingTimeMs ?? 0,
-            medications: mappedMedications
-          };
-          
           console.log('[Import] Complete event:', completeEvent);
           subject.next(completeEvent);
           subject.complete();
@@ -644,7 +538,46 @@ export class ApiService {
       subject.error(error);
     });
 
-    return subject.asObservable();
+    return subject.asObservable().pipe(
+      this.audit.log<ImportEvent>(medicationReviewId, event => event.type === 'complete' ? this.importRecord(csvFile, event.medications) : null)
+    );
+  }
+
+  private parseImportEvent(raw: any): ImportEvent {
+    const type = raw?.type ?? raw?.Type;
+
+    if (type === 'complete') {
+      const event = this.contract.parse<Omit<ImportCompleteEvent, 'type'>>('import_medications_from_csv', importCompleteSchema, raw);
+      return {
+        ...event,
+        type: 'complete',
+        medications: event.medications.map(medication => this.markUnderReview(medication))
+      };
+    }
+
+    const event = this.contract.parse<ImportProgressEvent>('import_medications_from_csv', importProgressEventSchema, raw);
+    return {
+      ...event,
+      type: 'progress',
+      medication: event.medication ? this.markUnderReview(event.medication) : null
+    };
+  }
+
+  // One audit entry per import, listing the medications that were added
+  private importRecord(file: File, medications: ImportedMedication[]) {
+    return {
+      entity: 'medication' as const,
+      action: 'imported' as const,
+      label: file.name,
+      changes: medications
+        .filter(medication => medication.success)
+        .map(medication => ({ field: 'medication', from: null, to: medication.foundMedicationName ?? medication.medicationName }))
+    };
+  }
+
+  // Imported medications always need to be reviewed by the pharmacist first
+  private markUnderReview(medication: ImportedMedication): ImportedMedication {
+    return { ...medication, reviewStatus: 'under_review' };
   }
 
   // Legacy non-streaming import (fallback)
@@ -652,24 +585,24 @@ export class ApiService {
     const formData = new FormData();
     formData.append('file', csvFile);
 
-    return this.http.post<ImportMedicationsResponse>(
-      `${this.API_BASE_URL}/import_medications_from_csv?apbNumber=${apbNumber}&medicationReviewId=${medicationReviewId}`,
-      formData
+    return this.http.post<unknown>(
+      `${this.API_BASE_URL}/import_medications_from_csv?medicationReviewId=${medicationReviewId}`,
+      formData,
+      { context: new HttpContext().set(REQUEST_TIMEOUT_MS, 0) }
+    ).pipe(
+      this.parse<ImportMedicationsResponse>('import_medications_from_csv', importCompleteSchema),
+      this.audit.log<ImportMedicationsResponse>(medicationReviewId, response => this.importRecord(csvFile, response.medications))
     );
   }
 
   // Lab Value CRUD
   getLabValues(apbNumber: string, medicationReviewId: string): Observable<LabValue[]> {
-    return this.http.get<any[]>(`${this.API_BASE_URL}/manage_lab_values?apbNumber=${apbNumber}&medicationReviewId=${medicationReviewId}`, {
+    return this.http.get<unknown>(`${this.API_BASE_URL}/manage_lab_values?medicationReviewId=${medicationReviewId}`, {
       headers: this.getHeaders()
     })
       .pipe(
-        map(items => items.map(item => ({
-          labValueId: item.rowKey ?? item.LabValueId ?? item.labValueId,
-          name: item.name ?? item.Name ?? null,
-          value: item.value ?? item.Value ?? 0,
-          unit: item.unit ?? item.Unit ?? null
-        })))
+        this.parse<LabValue[]>('manage_lab_values', arr(labValueSchema)),
+        this.concurrency.track<LabValue[]>('manage_lab_values', medicationReviewId, labValue => labValue['labValueId'])
       );
   }
 
@@ -678,101 +611,102 @@ export class ApiService {
 
     const request = { apbNumber, medicationReviewId: reviewId, ...labValue };
 
-    return this.http.post<any>(`${this.API_BASE_URL}/manage_lab_values`, request, { headers })
+    return this.http.post<unknown>(`${this.API_BASE_URL}/manage_lab_values`, request, { headers })
       .pipe(
-        map(item => ({
-          labValueId: item.rowKey ?? item.LabValueId ?? item.labValueId,
-          name: item.name ?? item.Name ?? null,
-          value: item.value ?? item.Value ?? 0,
-          unit: item.unit ?? item.Unit ?? null
+        this.parse<LabValueResponse>('manage_lab_values', labValueSchema),
+        this.concurrency.track<LabValueResponse>('manage_lab_values', reviewId, labValue => labValue['labValueId']),
+        this.audit.log<LabValueResponse>(reviewId, created => ({
+          entity: 'lab_value', action: 'created', entityId: created.labValueId, label: created.name, changes: this.audit.diff(null, labValue)
         }))
       );
   }
 
   updateLabValue(apbNumber: string, reviewId: string, labValueId: string, labValue: any): Observable<LabValueResponse> {
     const headers = this.getHeaders();
+    const before = this.concurrency.snapshotFor({ endpoint: 'manage_lab_values', reviewId, id: labValueId });
 
-    const request = { 
+    const request = {
       apbNumber,
-      medicationReviewId: reviewId, 
-      labValueId, 
-      ...labValue 
+      medicationReviewId: reviewId,
+      labValueId,
+      ...labValue
     };
 
-    return this.http.put<any>(`${this.API_BASE_URL}/manage_lab_values`, request, { headers })
+    return this.http.put<unknown>(`${this.API_BASE_URL}/manage_lab_values`, request, { headers })
       .pipe(
-        map(item => ({
-          labValueId: item.rowKey ?? item.LabValueId ?? item.labValueId,
-          name: item.name ?? item.Name ?? null,
-          value: item.value ?? item.Value ?? 0,
-          unit: item.unit ?? item.Unit ?? null
+        this.parse<LabValueResponse>('manage_lab_values', labValueSchema),
+        this.concurrency.track<LabValueResponse>('manage_lab_values', reviewId, () => labValueId),
+        this.audit.log<LabValueResponse>(reviewId, updated => ({
+          entity: 'lab_value',
+          action: 'updated',
+          entityId: labValueId,
+          label: updated.name,
+          changes: this.audit.diff(before, labValue, Object.keys(labValue))
         }))
       );
   }
 
   deleteLabValue(apbNumber: string, medicationReviewId: string, labValueId: string): Observable<void> {
-    return this.http.delete<void>(`${this.API_BASE_URL}/manage_lab_values?apbNumber=${apbNumber}&medicationReviewId=${medicationReviewId}&labValueId=${labValueId}`);
+    const ref: EntityRef = { endpoint: 'manage_lab_values', reviewId: medicationReviewId, id: labValueId };
+    const before = this.concurrency.snapshotFor(ref);
+
+    return this.http.delete<void>(`${this.API_BASE_URL}/manage_lab_values?medicationReviewId=${medicationReviewId}&labValueId=${labValueId}`)
+      .pipe(
+        tap(() => this.concurrency.forget(ref)),
+        this.audit.log<void>(medicationReviewId, () => ({
+          entity: 'lab_value',
+          action: 'deleted',
+          entityId: labValueId,
+          label: before?.['name'] as string | undefined,
+          changes: this.audit.diff(before, null)
+        }))
+      );
   }
 
   // Dispensing History
-  uploadDispensingHistory(apbNumber: string, reviewId: string, file: File): Observable<any> {
+  uploadDispensingHistory(apbNumber: string, reviewId: string, file: File): Observable<UploadDispensingHistoryResponse> {
     const formData = new FormData();
     formData.append('file', file);
-    
-    return this.http.post(
-      `${this.API_BASE_URL}/upload_dispensing_history?apbNumber=${apbNumber}&medicationReviewId=${reviewId}`,
-      formData
+
+    return this.http.post<unknown>(
+      `${this.API_BASE_URL}/upload_dispensing_history?medicationReviewId=${reviewId}`,
+      formData,
+      { context: new HttpContext().set(REQUEST_TIMEOUT_MS, 0) }
+    ).pipe(
+      this.parse<UploadDispensingHistoryResponse>('upload_dispensing_history', uploadDispensingHistorySchema),
+      this.audit.log<UploadDispensingHistoryResponse>(reviewId, response => ({
+        entity: 'dispensing_history',
+        action: 'imported',
+        label: file.name,
+        changes: this.audit.diff(null, response, ['totalCnkCodes', 'totalDispensingMoments'])
+      }))
     );
   }
 
   queryDispensingHistory(apbNumber: string, reviewId: string): Observable<DispensingHistoryResponse> {
-    return this.http.get<any>(
-      `${this.API_BASE_URL}/query_dispensing_history?apbNumber=${apbNumber}&medicationReviewId=${reviewId}`
+    return this.http.get<unknown>(
+      `${this.API_BASE_URL}/query_dispensing_history?medicationReviewId=${reviewId}`
     ).pipe(
-      tap(response => {
-        if (response.dispensingData?.[0]?.dispensingMoments?.[0]) {
-        }
-      }),
-      map(response => ({
-        medicationReviewId: response.medicationReviewId ?? response.MedicationReviewId,
-        blobUri: response.blobUri ?? response.BlobUri,
-        totalCnkCodes: response.totalCnkCodes ?? response.TotalCnkCodes,
-        totalDispensingMoments: response.totalDispensingMoments ?? response.TotalDispensingMoments,
-        csvMoments: response.csvMoments ?? response.CsvMoments,
-        manualMoments: response.manualMoments ?? response.ManualMoments,
-        dispensingData: (response.dispensingData ?? response.DispensingData ?? []).map((cnkGroup: any) => ({
-          cnk: cnkGroup.cnk ?? cnkGroup.Cnk ?? cnkGroup.CNK,
-          vmp: cnkGroup.vmp ?? cnkGroup.Vmp ?? cnkGroup.VMP ?? null,
-          description: cnkGroup.description ?? cnkGroup.Description,
-          dispensingMoments: (cnkGroup.dispensingMoments ?? cnkGroup.DispensingMoments ?? []).map((moment: any) => {
-            const extractedId = moment.id ?? moment.Id ?? moment.rowKey ?? moment.RowKey;
-            return {
-              date: moment.date ?? moment.Date,
-              amount: moment.amount ?? moment.Amount,
-              source: moment.source ?? moment.Source,
-              id: extractedId
-            };
-          })
-        }))
-      })),
-      tap(response => {
-        if (response.dispensingData?.[0]?.dispensingMoments?.[0]) {
-        }
-      })
+      this.parse<DispensingHistoryResponse>('query_dispensing_history', dispensingHistorySchema)
     );
   }
 
   addManualDispensingMoment(
-    apbNumber: string, 
-    reviewId: string, 
+    apbNumber: string,
+    reviewId: string,
     moment: AddManualDispensingMomentRequest
   ): Observable<AddManualDispensingMomentResponse> {
     const headers = this.getHeaders();
 
-    return this.http.post<AddManualDispensingMomentResponse>(
-      `${this.API_BASE_URL}/add_manual_dispensing_moment?apbNumber=${apbNumber}&medicationReviewId=${reviewId}`,
+    return this.http.post<unknown>(
+      `${this.API_BASE_URL}/add_manual_dispensing_moment?medicationReviewId=${reviewId}`,
       moment,
       { headers }
+    ).pipe(
+      this.parse<AddManualDispensingMomentResponse>('add_manual_dispensing_moment', manualDispensingMomentSchema),
+      this.audit.log<AddManualDispensingMomentResponse>(reviewId, created => ({
+        entity: 'dispensing_history', action: 'created', entityId: created.id, label: moment.description, changes: this.audit.diff(null, moment)
+      }))
     );
   }
 
@@ -780,87 +714,102 @@ export class ApiService {
     apbNumber: string,
     reviewId: string,
     id: string
-  ): Observable<any> {
+  ): Observable<DeleteResponse | null> {
     // Strip Azure Table Storage suffix (:1, :2, etc.) from ID if present
     const cleanId = id.includes(':') ? id.split(':')[0] : id;
-    
-    return this.http.delete<any>(
-      `${this.API_BASE_URL}/delete_manual_dispensing_moment?apbNumber=${apbNumber}&medicationReviewId=${reviewId}&id=${cleanId}`
+
+    return this.http.delete<unknown>(
+      `${this.API_BASE_URL}/delete_manual_dispensing_moment?medicationReviewId=${reviewId}&id=${cleanId}`
+    ).pipe(
+      this.parse<DeleteResponse | null>('delete_manual_dispensing_moment', deleteResultSchema),
+      this.audit.log<DeleteResponse | null>(reviewId, () => ({ entity: 'dispensing_history', action: 'deleted', entityId: cleanId }))
     );
   }
 
-  checkInteractions(request: any): Observable<any> {
+  checkInteractions(request: InteractionsRequest): Observable<InteractionsResponse> {
     const headers = new HttpHeaders({
       'Content-Type': 'application/json'
     });
 
-    return this.http.post<any>(
+    return this.http.post<unknown>(
       `${this.API_BASE_URL}/get_interactions`,
       request,
       { headers }
+    ).pipe(
+      this.parse<InteractionsResponse>('get_interactions', interactionsSchema)
     );
   }
 
-  getInteractionDetails(request: any): Observable<any> {
+  getInteractionDetails(request: InteractionDetailsRequest): Observable<InteractionDetailsResponse> {
     const headers = new HttpHeaders({
       'Content-Type': 'application/json'
     });
 
-    return this.http.post<any>(
+    return this.http.post<unknown>(
       `${this.API_BASE_URL}/get_interaction_details`,
       request,
       { headers }
+    ).pipe(
+      this.parse<InteractionDetailsResponse>('get_interaction_details', interactionDetailsSchema)
     );
   }
 
   // Contraindication Matching
-  getContraindicationMatches(request: any): Observable<any> {
+  getContraindicationMatches(request: ContraindicationMatchesRequest): Observable<ContraindicationMatchesResponse> {
     const headers = new HttpHeaders({
       'Content-Type': 'application/json'
     });
 
-    return this.http.post<any>(
+    return this.http.post<unknown>(
       `${this.API_BASE_URL}/get_contraindication_matches`,
       request,
       { headers }
+    ).pipe(
+      this.parse<ContraindicationMatchesResponse>('get_contraindication_matches', contraindicationMatchesSchema)
     );
   }
 
-  getProductContraindications(cnk: string, language?: string): Observable<any> {
+  getProductContraindications(cnk: string, language?: string): Observable<ProductContraindicationsResponse> {
     const headers = new HttpHeaders({
       'Content-Type': 'application/json'
     });
 
-    return this.http.post<any>(
+    return this.http.post<unknown>(
       `${this.API_BASE_URL}/get_product_contraindications`,
       { cnk, language: language || 'NL' },
       { headers }
+    ).pipe(
+      this.parse<ProductContraindicationsResponse>('get_product_contraindications', productContraindicationsSchema)
     );
   }
 
   // Product Dosage (Posology)
-  getProductDosage(cnk: string, language?: string): Observable<any> {
+  getProductDosage(cnk: string, language?: string): Observable<ProductDosageResponse> {
     const headers = new HttpHeaders({
       'Content-Type': 'application/json'
     });
 
-    return this.http.post<any>(
+    return this.http.post<unknown>(
       `${this.API_BASE_URL}/get_product_dosage`,
       { cnk, language: language || 'NL' },
       { headers }
+    ).pipe(
+      this.parse<ProductDosageResponse>('get_product_dosage', productDosageSchema)
     );
   }
 
   // Product Renadaptor (Renal Dosing)
-  getProductRenadaptor(cnk: string, language?: string): Observable<any> {
+  getProductRenadaptor(cnk: string, language?: string): Observable<ProductRenadaptorResponse> {
     const headers = new HttpHeaders({
       'Content-Type': 'application/json'
     });
 
-    return this.http.post<any>(
+    return this.http.post<unknown>(
       `${this.API_BASE_URL}/get_product_renadaptor`,
       { cnk, language: language || 'NL' },
       { headers }
+    ).pipe(
+      this.parse<ProductRenadaptorResponse>('get_product_renadaptor', productRenadaptorSchema)
     );
   }
 
@@ -876,79 +825,273 @@ export class ApiService {
   }
 
   // Review Notes CRUD
-  getReviewNotes(apbNumber: string, medicationReviewId: string): Observable<any[]> {
-    return this.http.get<any[]>(`${this.API_BASE_URL}/manage_review_notes?apbNumber=${apbNumber}&medicationReviewId=${medicationReviewId}`, {
+  getReviewNotes(apbNumber: string, medicationReviewId: string): Observable<ReviewNote[]> {
+    return this.http.get<unknown>(`${this.API_BASE_URL}/manage_review_notes?medicationReviewId=${medicationReviewId}`, {
       headers: this.getHeaders()
-    });
+    }).pipe(
+      this.parse<ReviewNote[]>('manage_review_notes', arr(reviewNoteSchema)),
+      this.concurrency.track<ReviewNote[]>('manage_review_notes', medicationReviewId, note => note['rowKey'])
+    );
   }
 
-  addReviewNote(apbNumber: string, reviewId: string, note: any): Observable<any> {
+  addReviewNote(apbNumber: string, reviewId: string, note: Partial<ReviewNote>): Observable<ReviewNote> {
     const headers = this.getHeaders();
     const request = { apbNumber, medicationReviewId: reviewId, ...note };
 
-    return this.http.post<any>(`${this.API_BASE_URL}/manage_review_notes`, request, { headers })
-      ;
+    return this.http.post<unknown>(`${this.API_BASE_URL}/manage_review_notes`, request, { headers })
+      .pipe(
+        this.parse<ReviewNote>('manage_review_notes', reviewNoteSchema),
+        this.concurrency.track<ReviewNote>('manage_review_notes', reviewId, note => note['rowKey']),
+        this.audit.log<ReviewNote>(reviewId, created => ({
+          entity: 'review_note',
+          action: 'created',
+          entityId: created.rowKey,
+          label: this.noteLabel(created),
+          changes: this.audit.diff(null, note)
+        }))
+      );
+  }
+
+  updateReviewNote(apbNumber: string, reviewId: string, reviewNoteId: string, updates: Partial<ReviewNote>): Observable<ReviewNote> {
+    const ref: EntityRef = { endpoint: 'manage_review_notes', reviewId, id: reviewNoteId };
+    const before = this.concurrency.snapshotFor(ref);
+
+    return this.concurrency.guardUpdate(
+      ref,
+      updates,
+      values => this.http.put<unknown>(
+        `${this.API_BASE_URL}/manage_review_notes`,
+        { apbNumber, medicationReviewId: reviewId, reviewNoteId, ...values },
+        { headers: this.getVersionedHeaders(ref) }
+      ).pipe(
+        this.parse<ReviewNote>('manage_review_notes', reviewNoteSchema),
+        this.concurrency.track<ReviewNote>('manage_review_notes', reviewId, () => reviewNoteId)
+      ),
+      () => this.getReviewNotes(apbNumber, reviewId).pipe(
+        map(notes => notes.find(note => note.rowKey === reviewNoteId) ?? null)
+      )
+    ).pipe(
+      this.audit.log<ReviewNote>(reviewId, updated => ({
+        entity: 'review_note',
+        action: 'updated',
+        entityId: reviewNoteId,
+        label: this.noteLabel(updated),
+        changes: this.audit.diff(before, updates, Object.keys(updates))
+      }))
+    );
+  }
+
+  deleteReviewNote(apbNumber: string, medicationReviewId: string, reviewNoteId: string): Observable<DeleteResponse | null> {
+    const ref: EntityRef = { endpoint: 'manage_review_notes', reviewId: medicationReviewId, id: reviewNoteId };
+    const before = this.concurrency.snapshotFor(ref);
+
+    return this.concurrency.guardDelete(
+      ref,
+      () => this.http.delete<unknown>(
+        `${this.API_BASE_URL}/manage_review_notes?medicationReviewId=${medicationReviewId}&reviewNoteId=${reviewNoteId}`,
+        { headers: this.getVersionedHeaders(ref) }
+      ).pipe(
+        this.parse<DeleteResponse | null>('manage_review_notes', deleteResultSchema)
+      ),
+      () => this.getReviewNotes(apbNumber, medicationReviewId).pipe(
+        map(notes => notes.find(note => note.rowKey === reviewNoteId) ?? null)
+      )
+    ).pipe(
+      this.audit.log<DeleteResponse | null>(medicationReviewId, () => ({
+        entity: 'review_note',
+        action: 'deleted',
+        entityId: reviewNoteId,
+        label: before ? this.noteLabel(before as Partial<ReviewNote>) : null,
+        changes: this.audit.diff(before, null)
+      }))
+    );
+  }
+
+  // Notes have no name, show what they are about
+  private noteLabel(note: Partial<ReviewNote>): string | null {
+    return note.medicationName || note.category || null;
+  }
+
+  // Deprescribing Plans CRUD
+  getDeprescribingPlans(apbNumber: string, medicationReviewId: string): Observable<DeprescribingPlan[]> {
+    return this.http.get<unknown>(`${this.API_BASE_URL}/manage_deprescribing_plans?medicationReviewId=${medicationReviewId}`, {
+      headers: this.getHeaders()
+    }).pipe(
+      this.parse<DeprescribingPlan[]>('manage_deprescribing_plans', arr(deprescribingPlanSchema)),
+      this.concurrency.track<DeprescribingPlan[]>('manage_deprescribing_plans', medicationReviewId, plan => plan['planId'])
+    );
   }
 
-  updateReviewNote(apbNumber: string, reviewId: string, reviewNoteId: string, updates: any): Observable<any> {
+  addDeprescribingPlan(apbNumber: string, reviewId: string, plan: Partial<DeprescribingPlan>): Observable<DeprescribingPlan> {
     const headers = this.getHeaders();
-    const request = { 
-      apbNumber,
-      medicationReviewId: reviewId, 
-      reviewNoteId, 
-      ...updates 
-    };
+    const request = { apbNumber, medicationReviewId: reviewId, ...plan };
 
-    return this.http.put<any>(`${this.API_BASE_URL}/manage_review_notes`, request, { headers })
-      ;
+    return this.http.post<unknown>(`${this.API_BASE_URL}/manage_deprescribing_plans`, request, { headers })
+      .pipe(
+        this.parse<DeprescribingPlan>('manage_deprescribing_plans', deprescribingPlanSchema),
+        this.concurrency.track<DeprescribingPlan>('manage_deprescribing_plans', reviewId, plan => plan['planId']),
+        this.audit.log<DeprescribingPlan>(reviewId, created => ({
+          entity: 'deprescribing_plan',
+          action: 'created',
+          entityId: created.planId,
+          label: created.medicationName || null,
+          changes: this.audit.diff(null, plan)
+        }))
+      );
   }
 
-  deleteReviewNote(apbNumber: string, medicationReviewId: string, reviewNoteId: string): Observable<any> {
-    return this.http.delete<any>(
-      `${this.API_BASE_URL}/manage_review_notes?apbNumber=${apbNumber}&medicationReviewId=${medicationReviewId}&reviewNoteId=${reviewNoteId}`,
-      { headers: this.getHeaders() }
+  updateDeprescribingPlan(apbNumber: string, reviewId: string, planId: string, updates: Partial<DeprescribingPlan>): Observable<DeprescribingPlan> {
+    const ref: EntityRef = { endpoint: 'manage_deprescribing_plans', reviewId, id: planId };
+    const before = this.concurrency.snapshotFor(ref);
+
+    return this.concurrency.guardUpdate(
+      ref,
+      updates,
+      values => this.http.put<unknown>(
+        `${this.API_BASE_URL}/manage_deprescribing_plans`,
+        { apbNumber, medicationReviewId: reviewId, planId, ...values },
+        { headers: this.getVersionedHeaders(ref) }
+      ).pipe(
+        this.parse<DeprescribingPlan>('manage_deprescribing_plans', deprescribingPlanSchema),
+        this.concurrency.track<DeprescribingPlan>('manage_deprescribing_plans', reviewId, () => planId)
+      ),
+      () => this.getDeprescribingPlans(apbNumber, reviewId).pipe(
+        map(plans => plans.find(plan => plan.planId === planId) ?? null)
+      )
+    ).pipe(
+      this.audit.log<DeprescribingPlan>(reviewId, updated => ({
+        entity: 'deprescribing_plan',
+        action: 'updated',
+        entityId: planId,
+        label: updated.medicationName || null,
+        changes: this.audit.diff(before, updates, Object.keys(updates))
+      }))
+    );
+  }
+
+  deleteDeprescribingPlan(apbNumber: string, medicationReviewId: string, planId: string): Observable<DeleteResponse | null> {
+    const ref: EntityRef = { endpoint: 'manage_deprescribing_plans', reviewId: medicationReviewId, id: planId };
+    const before = this.concurrency.snapshotFor(ref);
+
+    return this.concurrency.guardDelete(
+      ref,
+      () => this.http.delete<unknown>(
+        `${this.API_BASE_URL}/manage_deprescribing_plans?medicationReviewId=${medicationReviewId}&planId=${planId}`,
+        { headers: this.getVersionedHeaders(ref) }
+      ).pipe(
+        this.parse<DeleteResponse | null>('manage_deprescribing_plans', deleteResultSchema)
+      ),
+      () => this.getDeprescribingPlans(apbNumber, medicationReviewId).pipe(
+        map(plans => plans.find(plan => plan.planId === planId) ?? null)
+      )
+    ).pipe(
+      this.audit.log<DeleteResponse | null>(medicationReviewId, () => ({
+        entity: 'deprescribing_plan',
+        action: 'deleted',
+        entityId: planId,
+        label: (before?.['medicationName'] as string | undefined) || null,
+        changes: this.audit.diff(before, null)
+      }))
     );
   }
 
   // Question Answer CRUD
   getQuestionAnswers(apbNumber: string, medicationReviewId: string): Observable<QuestionAnswer[]> {
-    return this.http.get<QuestionAnswer[]>(
-      `${this.API_BASE_URL}/manage_question_answers?apbNumber=${apbNumber}&medicationReviewId=${medicationReviewId}`,
+    return this.http.get<unknown>(
+      `${this.API_BASE_URL}/manage_question_answers?medicationReviewId=${medicationReviewId}`,
       { headers: this.getHeaders() }
+    ).pipe(
+      this.parse<QuestionAnswer[]>('manage_question_answers', arr(questionAnswerSchema)),
+      this.concurrency.track<QuestionAnswer[]>('manage_question_answers', medicationReviewId, answer => answer['questionName'])
     );
   }
 
   getQuestionAnswer(apbNumber: string, medicationReviewId: string, questionName: string): Observable<QuestionAnswerResponse> {
-    return this.http.get<QuestionAnswerResponse>(
-      `${this.API_BASE_URL}/manage_question_answers?apbNumber=${apbNumber}&medicationReviewId=${medicationReviewId}&questionName=${questionName}`,
+    return this.http.get<unknown>(
+      `${this.API_BASE_URL}/manage_question_answers?medicationReviewId=${medicationReviewId}&questionName=${questionName}`,
       { headers: this.getHeaders() }
+    ).pipe(
+      this.parse<QuestionAnswerResponse>('manage_question_answers', questionAnswerSchema),
+      this.concurrency.track<QuestionAnswerResponse>('manage_question_answers', medicationReviewId, answer => answer['questionName'])
     );
   }
 
   addQuestionAnswer(apbNumber: string, request: AddQuestionAnswerRequest): Observable<QuestionAnswerResponse> {
     const headers = this.getHeaders();
 
-    return this.http.post<QuestionAnswerResponse>(
+    return this.http.post<unknown>(
       `${this.API_BASE_URL}/manage_question_answers`,
       { apbNumber, ...request },
       { headers }
+    ).pipe(
+      this.parse<QuestionAnswerResponse>('manage_question_answers', questionAnswerSchema),
+      this.concurrency.track<QuestionAnswerResponse>('manage_question_answers', request.medicationReviewId, () => request.questionName),
+      this.audit.log<QuestionAnswerResponse>(request.medicationReviewId, () => ({
+        entity: 'question_answer',
+        action: 'created',
+        entityId: request.questionName,
+        label: request.questionName,
+        changes: this.audit.diff(null, request, ['value', 'shareWithPatient', 'shareWithDoctor'])
+      }))
     );
   }
 
   updateQuestionAnswer(apbNumber: string, request: UpdateQuestionAnswerRequest): Observable<QuestionAnswerResponse> {
-    const headers = this.getHeaders();
+    const { medicationReviewId, questionName } = request;
+    const ref: EntityRef = { endpoint: 'manage_question_answers', reviewId: medicationReviewId, id: questionName };
+    const before = this.concurrency.snapshotFor(ref);
+
+    return this.concurrency.guardUpdate(
+      ref,
+      { ...request },
+      values => this.http.put<unknown>(
+        `${this.API_BASE_URL}/manage_question_answers`,
+        { apbNumber, ...values, medicationReviewId, questionName },
+        { headers: this.getVersionedHeaders(ref) }
+      ).pipe(
+        this.parse<QuestionAnswerResponse>('manage_question_answers', questionAnswerSchema),
+        this.concurrency.track<QuestionAnswerResponse>('manage_question_answers', medicationReviewId, () => questionName)
+      ),
+      () => this.findQuestionAnswer(apbNumber, medicationReviewId, questionName)
+    ).pipe(
+      this.audit.log<QuestionAnswerResponse>(medicationReviewId, () => ({
+        entity: 'question_answer',
+        action: 'updated',
+        entityId: questionName,
+        label: questionName,
+        changes: this.audit.diff(before, request, ['value', 'shareWithPatient', 'shareWithDoctor'])
+      }))
+    );
+  }
 
-    return this.http.put<QuestionAnswerResponse>(
-      `${this.API_BASE_URL}/manage_question_answers`,
-      { apbNumber, ...request },
-      { headers }
+  deleteQuestionAnswer(apbNumber: string, medicationReviewId: string, questionName: string): Observable<DeleteResponse | null> {
+    const ref: EntityRef = { endpoint: 'manage_question_answers', reviewId: medicationReviewId, id: questionName };
+    const before = this.concurrency.snapshotFor(ref);
+
+    return this.concurrency.guardDelete(
+      ref,
+      () => this.http.delete<unknown>(
+        `${this.API_BASE_URL}/manage_question_answers?medicationReviewId=${medicationReviewId}&questionName=${questionName}`,
+        { headers: this.getVersionedHeaders(ref) }
+      ).pipe(
+        this.parse<DeleteResponse | null>('manage_question_answers', deleteResultSchema)
+      ),
+      () => this.findQuestionAnswer(apbNumber, medicationReviewId, questionName)
+    ).pipe(
+      this.audit.log<DeleteResponse | null>(medicationReviewId, () => ({
+        entity: 'question_answer',
+        action: 'deleted',
+        entityId: questionName,
+        label: questionName,
+        changes: this.audit.diff(before, null, ['value', 'shareWithPatient', 'shareWithDoctor'])
+      }))
     );
   }
 
-  deleteQuestionAnswer(apbNumber: string, medicationReviewId: string, questionName: string): Observable<any> {
-    return this.http.delete<any>(
-      `${this.API_BASE_URL}/manage_question_answers?apbNumber=${apbNumber}&medicationReviewId=${medicationReviewId}&questionName=${questionName}`,
-      { headers: this.getHeaders() }
+  // Current version of an answer, null when it no longer exists
+  private findQuestionAnswer(apbNumber: string, medicationReviewId: string, questionName: string): Observable<QuestionAnswerResponse | null> {
+    return this.getQuestionAnswer(apbNumber, medicationReviewId, questionName).pipe(
+      catchError(error => error instanceof HttpErrorResponse && error.status === 404 ? of(null) : throwError(() => error))
     );
   }
 
@@ -956,10 +1099,12 @@ export class ApiService {
   submitFeedback(feedback: Feedback): Observable<FeedbackResponse> {
     const headers = this.getHeaders();
 
-    return this.http.post<FeedbackResponse>(
+    return this.http.post<unknown>(
       `${this.API_BASE_URL}/submit_feedback`,
       feedback,
       { headers }
+    ).pipe(
+      this.parse<FeedbackResponse>('submit_feedback', feedbackResponseSchema)
     );
   }
 
@@ -968,16 +1113,15 @@ export class ApiService {
     const headers = this.getHeaders();
     const request: VmpLookupRequest = { cnk };
 
-    return this.http.post<any>(
+    return this.http.post<unknown>(
       `${this.API_BASE_URL}/get_vmp_from_cnk`,
       request,
       { headers }
     ).pipe(
+      this.parse<VmpLookupResponse>('get_vmp_from_cnk', vmpLookupSchema),
       map(response => ({
-        cnk: response.cnk ?? response.Cnk ?? response.CNK ?? parseInt(String(cnk)),
-        vmp: response.vmp ?? response.Vmp ?? response.VMP ?? null,
-        found: response.found ?? response.Found ?? false,
-        medicationName: response.medicationName ?? response.MedicationName ?? null
+        ...response,
+        cnk: response.cnk || parseInt(String(cnk))
       }))
     );
   }
@@ -986,20 +1130,12 @@ export class ApiService {
     const headers = this.getHeaders();
     const request: BulkVmpLookupRequest = { cnkCodes };
 
-    return this.http.post<any>(
+    return this.http.post<unknown>(
       `${this.API_BASE_URL}/get_vmp_from_cnk`,
       request,
       { headers }
     ).pipe(
-      map(response => {
-        const results = (response.results ?? response.Results ?? []).map((item: any) => ({
-          cnk: item.cnk ?? item.Cnk ?? item.CNK ?? 0,
-          vmp: item.vmp ?? item.Vmp ?? item.VMP ?? null,
-          found: item.found ?? item.Found ?? false,
-          medicationName: item.medicationName ?? item.MedicationName ?? null
-        }));
-        return { results };
-      })
+      this.parse<BulkVmpLookupResponse>('get_vmp_from_cnk', bulkVmpLookupSchema)
     );
   }
 
@@ -1007,22 +1143,12 @@ export class ApiService {
   queryGheops(cnkCodes: string[]): Observable<GheopsToolResult[]> {
     const headers = this.getHeaders();
 
-    return this.http.post<any[]>(
+    return this.http.post<unknown>(
       `${this.API_BASE_URL}/query_gheops_tool`,
       { cnkCodes },
       { headers }
     ).pipe(
-      map(response => response.map((item: any) => ({
-        cnk: item.cnk ?? item.Cnk ?? item.CNK ?? '',
-        atcCode: item.atcCode ?? item.AtcCode ?? item.ATC ?? null,
-        entries: (item.entries ?? item.Entries ?? []).map((entry: any) => ({
-          type: entry.type ?? entry.Type ?? '',
-          criteria: entry.criteria ?? entry.Criteria ?? '',
-          rationale: entry.rationale ?? entry.Rationale ?? '',
-          alternative: entry.alternative ?? entry.Alternative ?? ''
-        })),
-        matchCount: item.matchCount ?? item.MatchCount ?? 0
-      })))
+      this.parse<GheopsToolResult[]>('query_gheops_tool', arr(gheopsResultSchema))
     );
   }
 
@@ -1030,17 +1156,12 @@ export class ApiService {
   queryAnticholinergics(cnkCodes: string[]): Observable<AnticholinergicResult[]> {
     const headers = this.getHeaders();
 
-    return this.http.post<any[]>(
+    return this.http.post<unknown>(
       `${this.API_BASE_URL}/query_anticholinergics`,
       { cnkCodes },
       { headers }
     ).pipe(
-      map(response => response.map((item: any) => ({
-        cnk: item.cnk ?? item.Cnk ?? item.CNK ?? '',
-        atcCode: item.atcCode ?? item.AtcCode ?? item.ATC ?? null,
-        strength: item.strength ?? item.Strength ?? null,
-        isAnticholinergic: item.isAnticholinergic ?? item.IsAnticholinergic ?? false
-      })))
+      this.parse<AnticholinergicResult[]>('query_anticholinergics', arr(anticholinergicResultSchema))
     );
   }
 
@@ -1048,16 +1169,12 @@ export class ApiService {
   getMedicationToAvoid(cnkCodes: string[]): Observable<MedicationToAvoidResult[]> {
     const headers = this.getHeaders();
 
-    return this.http.post<any[]>(
+    return this.http.post<unknown>(
       `${this.API_BASE_URL}/get_medication_to_avoid`,
       { cnkCodes },
       { headers }
     ).pipe(
-      map(response => response.map((item: any) => ({
-        cnk: item.cnk ?? item.Cnk ?? item.CNK ?? '',
-        atcCode: item.atcCode ?? item.AtcCode ?? item.ATC ?? null,
-        shouldAvoid: item.shouldAvoid ?? item.ShouldAvoid ?? false
-      })))
+      this.parse<MedicationToAvoidResult[]>('get_medication_to_avoid', arr(medicationToAvoidResultSchema))
     );
   }
 
@@ -1065,16 +1182,12 @@ export class ApiService {
   getFallRiskMedications(cnkCodes: string[]): Observable<FallRiskResult[]> {
     const headers = this.getHeaders();
 
-    return this.http.post<any[]>(
+    return this.http.post<unknown>(
       `${this.API_BASE_URL}/get_fall_risk_medications`,
       { cnkCodes },
       { headers }
     ).pipe(
-      map(response => response.map((item: any) => ({
-        cnk: item.cnk ?? item.Cnk ?? item.CNK ?? '',
-        atcCode: item.atcCode ?? item.AtcCode ?? item.ATC ?? null,
-        increasesRiskOfFalling: item.increasesRiskOfFalling ?? item.IncreasesRiskOfFalling ?? false
-      })))
+      this.parse<FallRiskResult[]>('get_fall_risk_medications', arr(fallRiskResultSchema))
     );
   }
 }
@@ -1115,4 +1228,3 @@ export interface FallRiskResult {
   atcCode: string | null;
   increasesRiskOfFalling: boolean;
 }
-
@@ -0,0 +1,121 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpContext, HttpHeaders } from '@angular/common/http';
+import { MonoTypeOperatorFunction, Observable, map, tap } from 'rxjs';
+import { AuditAction, AuditChange, AuditEntity, AuditEntry } from '../models/api.models';
+import { arr, auditEntrySchema } from '../models/api.schemas';
+import { environment } from '../../environments/environment';
+import { ApiContractService } from './api-contract.service';
+import { StateService } from './state.service';
+import { SKIP_ERROR_HANDLING } from '../interceptors/error.interceptor';
+
+// What a mutation changed, as described by the caller of `log`
+export interface AuditRecord {
+  entity: AuditEntity;
+  action: AuditAction;
+  entityId?: string | null;
+  label?: string | null;
+  changes?: AuditChange[];
+}
+
+type Row = Record<string, unknown>;
+
+// Fields that identify or version an entity rather than describe it
+const IGNORED_FIELDS = ['apbNumber', 'medicationReviewId', 'patientId', 'partitionKey', 'rowKey', 'eTag', 'timestamp', 'updated', 'message'];
+
+/**
+ * Audit trail of everything changed in a review, for quality programmes and disputes.
+ * ApiService reports every successful mutation through `log`; entries are stored with the
+ * review by the backend (append-only) and go through the offline outbox like any other edit.
+ * The entry of an edit made offline is queued right behind it, so it only reaches the backend
+ * once the edit is applied; until then it is listed as pending, and it is dropped with the
+ * edit when the backend rejects that (see OfflineQueueService).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AuditService {
+  private readonly API_BASE_URL = environment.apiBaseUrl;
+
+  constructor(
+    private http: HttpClient,
+    private contract: ApiContractService,
+    private stateService: StateService
+  ) {}
+
+  /**
+   * Record the mutation once the request succeeded. `describe` returns null for responses
+   * that are not a change themselves (e.g. progress events of an import).
+   */
+  log<T>(reviewId: string | null, describe: (response: T) => AuditRecord | null): MonoTypeOperatorFunction<T> {
+    return tap(response => {
+      const record = describe(response);
+      if (record) {
+        this.record(reviewId ?? this.stateService.medicationReviewId, record);
+      }
+    });
+  }
+
+  getEntries(apbNumber: string, medicationReviewId: string): Observable<AuditEntry[]> {
+    return this.http.get<unknown>(`${this.API_BASE_URL}/manage_audit_log?medicationReviewId=${medicationReviewId}`, {
+      headers: this.getHeaders()
+    }).pipe(
+      map(raw => this.contract.parse<AuditEntry[]>('manage_audit_log', arr(auditEntrySchema), raw)),
+      // Newest first
+      map(entries => entries.sort((a, b) => b.occurredAt.localeCompare(a.occurredAt)))
+    );
+  }
+
+  /**
+   * Field-level differences between two versions of an entity. Pass null as `before`
+   * for a created entity and null as `after` for a deleted one. Only `fields` are compared
+   * when given, e.g. the fields that were part of the request.
+   */
+  diff(before: object | null, after: object | null, fields?: string[]): AuditChange[] {
+    const from = (before ?? {}) as Row;
+    const to = (after ?? {}) as Row;
+    const keys = fields ?? [...new Set([...Object.keys(from), ...Object.keys(to)])];
+
+    return keys
+      .filter(key => !IGNORED_FIELDS.includes(key) && !this.same(from[key], to[key]))
+      .map(key => ({ field: key, from: this.normalize(from[key]), to: this.normalize(to[key]) }));
+  }
+
+  private record(reviewId: string, record: AuditRecord): void {
+    if (!reviewId) {
+      return;
+    }
+
+    const apbNumber = this.stateService.apbNumber;
+    const entry: Omit<AuditEntry, 'auditId' | 'pending'> = {
+      medicationReviewId: reviewId,
+      entity: record.entity,
+      entityId: record.entityId ?? null,
+      label: record.label ?? null,
+      action: record.action,
+      changes: record.changes ?? [],
+      actor: this.stateService.userName,
+      occurredAt: new Date().toISOString()
+    };
+
+    // Logging happens in the background, a failure must not interrupt the edit that was just saved
+    this.http.post<unknown>(`${this.API_BASE_URL}/manage_audit_log`, { apbNumber, ...entry }, {
+      headers: this.getHeaders(),
+      context: new HttpContext().set(SKIP_ERROR_HANDLING, true)
+    }).subscribe({
+      error: error => console.error('[Audit] Failed to record change:', entry, error)
+    });
+  }
+
+  private getHeaders(): HttpHeaders {
+    return new HttpHeaders({ 'Content-Type': 'application/json' });
+  }
+
+  // The backend does not distinguish missing, null and empty
+  private normalize(value: unknown): unknown {
+    return value === undefined || value === '' ? null : value;
+  }
+
+  private same(a: unknown, b: unknown): boolean {
+    return JSON.stringify(this.normalize(a)) === JSON.stringify(this.normalize(b));
+  }
+}
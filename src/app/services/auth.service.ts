@@ -0,0 +1,173 @@
+import { Injectable, Injector } from '@angular/core';
+import { HttpClient, HttpContext, HttpHeaders } from '@angular/common/http';
+import { Router } from '@angular/router';
+import { Observable, firstValueFrom, of, throwError } from 'rxjs';
+import { catchError, finalize, map, shareReplay, tap } from 'rxjs/operators';
+import { RefreshTokenRequest, RefreshTokenResponse, TokenGrant } from '../models/api.models';
+import { refreshTokenSchema } from '../models/api.schemas';
+import { StateService } from './state.service';
+import { ApiContractService } from './api-contract.service';
+import { MockBackendService } from '../mock-backend/mock-backend.service';
+import { environment } from '../../environments/environment';
+import { SKIP_ERROR_HANDLING } from '../interceptors/error.interceptor';
+
+// Pharmacy the request is made for; sent as a header, never in the URL where it ends up in logs
+export const APB_NUMBER_HEADER = 'X-APB-Number';
+
+// Convert the backend's "expiresIn" (seconds) to an absolute ISO timestamp
+export function toExpiresAt(expiresIn: number | string | null | undefined): string | null {
+  const seconds = Number(expiresIn);
+  if (!expiresIn || isNaN(seconds)) {
+    return null;
+  }
+  return new Date(Date.now() + seconds * 1000).toISOString();
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class AuthService {
+  private readonly API_BASE_URL = environment.apiBaseUrl;
+  // Shared in-flight refresh so concurrent 401s only trigger one refresh call
+  private refreshInFlight$: Observable<string> | null = null;
+
+  constructor(
+    private http: HttpClient,
+    private stateService: StateService,
+    private router: Router,
+    private contract: ApiContractService,
+    private injector: Injector
+  ) {}
+
+  get accessToken(): string | null {
+    return this.stateService.getSessionData()?.accessToken || null;
+  }
+
+  get apbNumber(): string {
+    return this.stateService.apbNumber;
+  }
+
+  /**
+   * Whether a request goes to our backend and should carry the access token
+   */
+  isApiRequest(url: string): boolean {
+    return url.startsWith(this.API_BASE_URL);
+  }
+
+  /**
+   * Whether a request is part of the authentication flow itself (never authorized or refreshed)
+   */
+  isAuthRequest(url: string): boolean {
+    return [`${this.API_BASE_URL}/login`, `${this.API_BASE_URL}/refresh_token`]
+      .some(authUrl => url.startsWith(authUrl));
+  }
+
+  /**
+   * Exchange the refresh token for a new access token
+   */
+  refreshAccessToken(): Observable<string> {
+    if (this.refreshInFlight$) {
+      return this.refreshInFlight$;
+    }
+
+    const session = this.stateService.getSessionData();
+    if (!session?.refreshToken) {
+      return throwError(() => new Error('No refresh token available'));
+    }
+
+    const request: RefreshTokenRequest = { refreshToken: session.refreshToken };
+    this.refreshInFlight$ = this.http.post<unknown>(`${this.API_BASE_URL}/refresh_token`, request, {
+      headers: new HttpHeaders({ 'Content-Type': 'application/json' }),
+      context: new HttpContext().set(SKIP_ERROR_HANDLING, true)
+    }).pipe(
+      map(raw => this.contract.parse<TokenGrant>('refresh_token', refreshTokenSchema, raw)),
+      map((response): RefreshTokenResponse => ({
+        accessToken: response.accessToken,
+        refreshToken: response.refreshToken ?? session.refreshToken,
+        accessTokenExpiresAt: toExpiresAt(response.expiresIn)
+      })),
+      tap(tokens => {
+        const current = this.stateService.getSessionData();
+        if (current) {
+          this.stateService.setSessionData({ ...current, ...tokens });
+        }
+      }),
+      map(tokens => tokens.accessToken),
+      finalize(() => this.refreshInFlight$ = null),
+      shareReplay(1)
+    );
+    return this.refreshInFlight$;
+  }
+
+  /**
+   * The refresh token was rejected: end the session and send the user back to login
+   */
+  handleAuthenticationLost(): void {
+    const reviewId = this.stateService.medicationReviewId;
+    const returnUrl = this.router.url;
+    this.stateService.expireSession();
+
+    const queryParams: Record<string, string> = {};
+    if (returnUrl && !returnUrl.startsWith('/login')) {
+      queryParams['returnUrl'] = returnUrl;
+    }
+    if (reviewId) {
+      queryParams['reviewId'] = reviewId;
+    }
+    this.router.navigate(['/login'], { queryParams });
+  }
+
+  /**
+   * Revoke the tokens on the backend and clear the local session
+   */
+  logout(): Observable<void> {
+    const session = this.stateService.getSessionData();
+    if (!session?.accessToken) {
+      this.stateService.clearSessionData();
+      return of(undefined);
+    }
+
+    return this.http.post<void>(`${this.API_BASE_URL}/logout`, { refreshToken: session.refreshToken }, {
+      headers: new HttpHeaders({ 'Content-Type': 'application/json' }),
+      context: new HttpContext().set(SKIP_ERROR_HANDLING, true)
+    }).pipe(
+      // Revocation failures must never keep the user logged in locally
+      catchError(() => of(undefined)),
+      map(() => undefined),
+      finalize(() => this.stateService.clearSessionData())
+    );
+  }
+
+  /**
+   * fetch() with the access token attached and a single refresh-and-retry on 401,
+   * for streaming endpoints that cannot go through HttpClient
+   */
+  async authorizedFetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const send = (token: string | null) => {
+      const headers = new Headers(init.headers);
+      if (token) {
+        headers.set('Authorization', `Bearer ${token}`);
+      }
+      if (this.apbNumber) {
+        headers.set(APB_NUMBER_HEADER, this.apbNumber);
+      }
+      // fetch() bypasses the interceptors, so demo mode has to be routed explicitly
+      return environment.mockBackend
+        ? this.injector.get(MockBackendService).fetch(url, { ...init, headers })
+        : fetch(url, { ...init, headers });
+    };
+
+    const response = await send(this.accessToken);
+    if (response.status !== 401) {
+      return response;
+    }
+
+    try {
+      const token = await firstValueFrom(this.refreshAccessToken());
+      return send(token);
+    } catch {
+      this.handleAuthenticationLost();
+      return response;
+    }
+  }
+}
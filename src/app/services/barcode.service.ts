@@ -0,0 +1,195 @@
+import { Injectable } from '@angular/core';
+import { Observable, catchError, map, of } from 'rxjs';
+import { MedicationSearchResult } from '../models/api.models';
+import { ApiService } from './api.service';
+
+/**
+ * What a scanned barcode contains:
+ * - cnk: the 7-digit CNK barcode on Belgian packages
+ * - gtin: a plain EAN-13 / GTIN-14
+ * - gs1: a GS1 DataMatrix (or GS1-128) with application identifiers: GTIN, expiry, batch, serial
+ */
+export type BarcodeKind = 'cnk' | 'gtin' | 'gs1';
+
+export interface ScannedCode {
+  kind: BarcodeKind;
+  raw: string;
+  identity: string;                  // Same value when the same box is scanned again
+  cnk: string | null;                // 7 digits
+  gtin: string | null;               // 14 digits
+  expiry: string | null;             // yyyy-mm-dd
+  batch: string | null;
+  serial: string | null;
+}
+
+// Group separator, sent by scanners for FNC1 between variable-length fields
+const GS = '\u001d';
+
+// Application identifiers with a fixed length (without the identifier itself)
+const FIXED_LENGTH_AIS: Record<string, number> = {
+  '00': 18, '01': 14, '02': 14, '11': 6, '12': 6, '13': 6, '15': 6, '16': 6, '17': 6, '20': 2
+};
+
+// GTIN (14 digits) -> CNK (7 digits), learned on this device
+const STORAGE_KEY = 'mr.gtinCnk';
+
+/**
+ * Parses package barcodes, from a keyboard-wedge scanner or the camera, and resolves them to
+ * a medication. The backend only looks up CNK codes, so an EAN or GS1 DataMatrix code is
+ * resolved through a GTIN -> CNK table in localStorage. The table is filled the first time a
+ * GTIN is not known: the user scans the CNK barcode on the same box (or picks the medication)
+ * and the pair is remembered. It holds product codes only, no patient data.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class BarcodeService {
+
+  constructor(private apiService: ApiService) {}
+
+  /**
+   * Null when the text is not a barcode (e.g. a medication name typed in the search field)
+   */
+  parse(raw: string): ScannedCode | null {
+    // Symbology identifier some scanners prepend: ]d2 DataMatrix, ]C1 GS1-128, ]Q3 QR, ]E0 EAN-13
+    const text = raw.trim().replace(/^\][A-Za-z]\d/, '');
+    if (!text) {
+      return null;
+    }
+
+    if (/^\d{7}$/.test(text)) {
+      return this.code('cnk', raw, { cnk: text });
+    }
+    if (/^\d{8}$|^\d{12,14}$/.test(text) && this.validCheckDigit(text)) {
+      return this.code('gtin', raw, { gtin: text.padStart(14, '0') });
+    }
+
+    const fields = text.startsWith('(') ? this.parseBracketed(text) : this.parseElementString(text);
+    const gtin = fields.get('01') ?? null;
+    if (!gtin || !/^\d{14}$/.test(gtin) || !this.validCheckDigit(gtin)) {
+      return null;
+    }
+    return this.code('gs1', raw, {
+      gtin,
+      expiry: this.toDate(fields.get('17')),
+      batch: fields.get('10') ?? null,
+      serial: fields.get('21') ?? null
+    });
+  }
+
+  /**
+   * The CNK of the code: scanned, or learned for its GTIN. Null for a GTIN not seen before
+   */
+  cnkOf(code: ScannedCode): string | null {
+    return code.cnk ?? (code.gtin ? this.getGtinTable()[code.gtin] ?? null : null);
+  }
+
+  /**
+   * The medication the code refers to, null when it is unknown or its GTIN was not learned yet
+   */
+  resolve(code: ScannedCode): Observable<MedicationSearchResult | null> {
+    const cnk = this.cnkOf(code);
+    if (!cnk) {
+      return of(null);
+    }
+    return this.apiService.searchMedications({ searchTerm: cnk, maxResults: 20 }).pipe(
+      map(response => response.results.find(result => result.cnk.padStart(7, '0') === cnk) ?? null),
+      catchError(() => of(null))
+    );
+  }
+
+  /**
+   * Remembers the CNK of a GTIN, so the next scan of that package resolves directly
+   */
+  learn(gtin: string, cnk: string): void {
+    const table = this.getGtinTable();
+    table[gtin] = cnk.padStart(7, '0');
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(table));
+    } catch (error) {
+      console.error('[Barcode] Failed to store the GTIN table:', error);
+    }
+  }
+
+  private getGtinTable(): Record<string, string> {
+    try {
+      const table = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+      return table && typeof table === 'object' && !Array.isArray(table) ? table : {};
+    } catch {
+      return {};
+    }
+  }
+
+  // Element string as sent by a scanner: AIs one after the other, variable-length fields ended by GS
+  private parseElementString(text: string): Map<string, string> {
+    const fields = new Map<string, string>();
+    let position = 0;
+
+    while (position < text.length) {
+      if (text[position] === GS) {
+        position++;
+        continue;
+      }
+      const ai = text.substring(position, position + 2);
+      if (!/^\d\d$/.test(ai)) {
+        break;
+      }
+      position += 2;
+
+      const length = FIXED_LENGTH_AIS[ai];
+      if (length) {
+        fields.set(ai, text.substring(position, position + length));
+        position += length;
+      } else {
+        // Without a group separator (not every scanner sends one) the field runs to the end
+        const end = text.indexOf(GS, position);
+        fields.set(ai, text.substring(position, end < 0 ? text.length : end));
+        position = end < 0 ? text.length : end + 1;
+      }
+    }
+    return fields;
+  }
+
+  // Human-readable form: (01)05400014165361(17)270131(10)AB12(21)XYZ
+  private parseBracketed(text: string): Map<string, string> {
+    const fields = new Map<string, string>();
+    for (const match of text.matchAll(/\((\d{2,4})\)([^(]*)/g)) {
+      fields.set(match[1], match[2].trim());
+    }
+    return fields;
+  }
+
+  private validCheckDigit(digits: string): boolean {
+    const body = digits.slice(0, -1);
+    const sum = [...body].reverse().reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+    return (10 - sum % 10) % 10 === Number(digits[digits.length - 1]);
+  }
+
+  // GS1 dates are yymmdd; day 00 means the end of the month
+  private toDate(value: string | undefined): string | null {
+    if (!value || !/^\d{6}$/.test(value)) {
+      return null;
+    }
+    const year = 2000 + Number(value.substring(0, 2));
+    const month = Number(value.substring(2, 4));
+    const day = Number(value.substring(4, 6)) || new Date(year, month, 0).getDate();
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+
+  private code(kind: BarcodeKind, raw: string, values: Partial<ScannedCode>): ScannedCode {
+    const code: ScannedCode = {
+      kind,
+      raw,
+      identity: '',
+      cnk: null,
+      gtin: null,
+      expiry: null,
+      batch: null,
+      serial: null,
+      ...values
+    };
+    // Serialised packs are told apart by their serial number, others only by product
+    code.identity = [code.cnk ?? code.gtin, code.batch, code.serial].filter(Boolean).join('/');
+    return code;
+  }
+}
@@ -0,0 +1,254 @@
+import { Injectable } from '@angular/core';
+import { HttpErrorResponse } from '@angular/common/http';
+import { BehaviorSubject, MonoTypeOperatorFunction, Observable, ReplaySubject, catchError, of, switchMap, tap, throwError } from 'rxjs';
+import { NotificationService } from './notification.service';
+
+// An entity of a review-scoped endpoint, e.g. one medication of a review
+export interface EntityRef {
+  endpoint: string;
+  reviewId: string;
+  id: string;
+}
+
+export type MergeChoice = 'mine' | 'theirs';
+
+export interface MergeField {
+  key: string;
+  mine: unknown;
+  theirs: unknown;
+}
+
+export interface MergeConflict {
+  endpoint: string;
+  mode: 'update' | 'delete';
+  fields: MergeField[];       // Update: fields both sides changed. Delete: fields changed by the other user.
+  autoMerged: string[];       // Fields changed by only one side, merged without asking
+}
+
+// A conflict waiting for the user. Resolved with a choice per field, or null to keep the other version.
+export interface PendingMergeConflict extends MergeConflict {
+  resolve: (choices: Record<string, MergeChoice> | null) => void;
+}
+
+interface EntityVersion {
+  eTag: string | null;
+  snapshot: Record<string, unknown>;
+}
+
+type Row = Record<string, unknown>;
+
+// Request fields that identify the entity rather than describe it
+const META_FIELDS = ['apbNumber', 'medicationReviewId', 'partitionKey', 'rowKey', 'eTag', 'timestamp'];
+
+const isPreconditionFailed = (error: unknown) => error instanceof HttpErrorResponse && error.status === 412;
+
+/**
+ * Optimistic concurrency for entities edited by several pharmacists (or tabs) at once.
+ * Remembers the eTag and last known version of every loaded entity, so updates and deletes
+ * can be sent with If-Match. When the backend answers 412 the current version is fetched and
+ * merged three-way: changes made by only one side are merged silently, fields both sides
+ * changed are put to the user in the merge dialog.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ConcurrencyService {
+  private versions = new Map<string, EntityVersion>();
+  private pending: PendingMergeConflict[] = [];
+
+  private conflictSubject = new BehaviorSubject<PendingMergeConflict | null>(null);
+  public conflict$: Observable<PendingMergeConflict | null> = this.conflictSubject.asObservable();
+
+  constructor(private notificationService: NotificationService) {}
+
+  /**
+   * Remember eTags and versions of the entities in a response (single entity or list)
+   */
+  track<T>(endpoint: string, reviewId: string, idOf: (entity: Row) => unknown): MonoTypeOperatorFunction<T> {
+    return tap(response => {
+      const entities = Array.isArray(response) ? response : [response];
+      entities
+        .filter((entity): entity is Row => !!entity && typeof entity === 'object')
+        .forEach(entity => {
+          const id = idOf(entity);
+          if (id) {
+            this.remember({ endpoint, reviewId, id: String(id) }, entity);
+          }
+        });
+    });
+  }
+
+  remember(ref: EntityRef, entity: object): void {
+    const row = entity as Row;
+    // Optimistic responses (e.g. from the offline queue) carry no eTag, keep the one we had
+    const eTag = typeof row['eTag'] === 'string' ? row['eTag'] : this.eTagFor(ref);
+    this.versions.set(this.keyOf(ref), { eTag, snapshot: { ...row } });
+  }
+
+  forget(ref: EntityRef): void {
+    this.versions.delete(this.keyOf(ref));
+  }
+
+  eTagFor(ref: EntityRef): string | null {
+    return this.versions.get(this.keyOf(ref))?.eTag ?? null;
+  }
+
+  // Last known version of an entity, null when it was never loaded
+  snapshotFor(ref: EntityRef): Record<string, unknown> | null {
+    return this.versions.get(this.keyOf(ref))?.snapshot ?? null;
+  }
+
+  /**
+   * Send an update, resolving 412 conflicts against the current version.
+   * `save` is called again with the merged values; it must read the eTag at call time.
+   * When the user keeps the other version, that version is emitted instead.
+   */
+  guardUpdate<T>(
+    ref: EntityRef,
+    mine: Row,
+    save: (values: Row) => Observable<T>,
+    loadTheirs: () => Observable<object | null>
+  ): Observable<T> {
+    // The version is sent as If-Match, never as part of the entity
+    const { eTag: _, ...changes } = mine;
+
+    return save(changes).pipe(
+      catchError(error => {
+        if (!isPreconditionFailed(error)) {
+          return throwError(() => error);
+        }
+
+        return this.loadCurrent(ref, error, loadTheirs).pipe(
+          switchMap(({ base, theirs }) => {
+            const { values, fields, autoMerged } = this.merge(base, changes, theirs);
+            const decision$ = fields.length > 0
+              ? this.ask({ endpoint: ref.endpoint, mode: 'update', fields, autoMerged })
+              : of({} as Record<string, MergeChoice>);
+
+            return decision$.pipe(
+              switchMap(choices => {
+                if (choices === null) {
+                  this.notificationService.info('concurrency.kept_theirs');
+                  return of(theirs as T);
+                }
+
+                fields
+                  .filter(field => choices[field.key] === 'theirs')
+                  .forEach(field => values[field.key] = field.theirs);
+                return this.guardUpdate(ref, values, save, loadTheirs);
+              })
+            );
+          })
+        );
+      })
+    );
+  }
+
+  /**
+   * Send a delete, asking for confirmation when the entity was changed by someone else in the meantime
+   */
+  guardDelete<T>(ref: EntityRef, remove: () => Observable<T>, loadTheirs: () => Observable<object | null>): Observable<T> {
+    return remove().pipe(
+      tap(() => this.forget(ref)),
+      catchError(error => {
+        if (!isPreconditionFailed(error)) {
+          return throwError(() => error);
+        }
+
+        return this.loadCurrent(ref, error, loadTheirs).pipe(
+          switchMap(({ base, theirs }) => {
+            const fields = this.changedKeys(base, theirs).map(key => ({ key, mine: base?.[key], theirs: theirs[key] }));
+            return this.ask({ endpoint: ref.endpoint, mode: 'delete', fields, autoMerged: [] }).pipe(
+              switchMap(choices => {
+                if (choices === null) {
+                  this.notificationService.markReported(error);
+                  this.notificationService.info('concurrency.delete_cancelled');
+                  return throwError(() => error);
+                }
+                return this.guardDelete(ref, remove, loadTheirs);
+              })
+            );
+          })
+        );
+      })
+    );
+  }
+
+  private loadCurrent(ref: EntityRef, error: unknown, loadTheirs: () => Observable<object | null>): Observable<{ base: Row | null; theirs: Row }> {
+    const base = this.versions.get(this.keyOf(ref))?.snapshot ?? null;
+
+    return loadTheirs().pipe(
+      switchMap(theirs => {
+        if (!theirs) {
+          this.forget(ref);
+          this.notificationService.markReported(error);
+          this.notificationService.warning('concurrency.deleted_elsewhere');
+          return throwError(() => error);
+        }
+        this.remember(ref, theirs);
+        return of({ base, theirs: theirs as Row });
+      })
+    );
+  }
+
+  /**
+   * Three-way merge of my changes with the current version, relative to the version I started from
+   */
+  private merge(base: Row | null, mine: Row, theirs: Row): { values: Row; fields: MergeField[]; autoMerged: string[] } {
+    const values: Row = { ...mine };
+    const fields: MergeField[] = [];
+    const autoMerged: string[] = [];
+
+    Object.keys(mine)
+      .filter(key => !META_FIELDS.includes(key) && key in theirs && !this.same(mine[key], theirs[key]))
+      .forEach(key => {
+        if (base && key in base && this.same(mine[key], base[key])) {
+          // Only they changed it
+          values[key] = theirs[key];
+          autoMerged.push(key);
+        } else if (base && key in base && this.same(theirs[key], base[key])) {
+          // Only I changed it
+          autoMerged.push(key);
+        } else {
+          fields.push({ key, mine: mine[key], theirs: theirs[key] });
+        }
+      });
+
+    return { values, fields, autoMerged };
+  }
+
+  private changedKeys(base: Row | null, theirs: Row): string[] {
+    if (!base) {
+      return [];
+    }
+    return Object.keys(theirs).filter(key => !META_FIELDS.includes(key) && key in base && !this.same(base[key], theirs[key]));
+  }
+
+  private ask(conflict: MergeConflict): Observable<Record<string, MergeChoice> | null> {
+    const decision = new ReplaySubject<Record<string, MergeChoice> | null>(1);
+    this.pending.push({
+      ...conflict,
+      resolve: choices => {
+        this.pending.shift();
+        this.conflictSubject.next(this.pending[0] ?? null);
+        decision.next(choices);
+        decision.complete();
+      }
+    });
+    // Conflicts are shown one at a time
+    if (this.pending.length === 1) {
+      this.conflictSubject.next(this.pending[0]);
+    }
+    return decision.asObservable();
+  }
+
+  // Values are compared loosely: the backend does not distinguish missing, null and empty
+  private same(a: unknown, b: unknown): boolean {
+    const normalize = (value: unknown) => value === undefined || value === '' ? null : value;
+    return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+  }
+
+  private keyOf(ref: EntityRef): string {
+    return `${ref.endpoint}|${ref.reviewId}|${ref.id}`;
+  }
+}
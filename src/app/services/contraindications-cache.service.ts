@@ -3,13 +3,18 @@ import { BehaviorSubject, Observable, forkJoin, of } from 'rxjs';
 import { catchError } from 'rxjs/operators';
 import { ApiService } from './api.service';
 import { StateService } from './state.service';
-import { Medication } from '../models/api.models';
+import {
+  Medication,
+  Contraindication,
+  ContraindicationMatchesResponse,
+  ProductContraindicationsResponse
+} from '../models/api.models';
 
 export interface ContraindicationsCacheData {
-  matchesResponse: any | null;
-  productResponses: any[];
+  matchesResponse: ContraindicationMatchesResponse | null;
+  productResponses: ProductContraindicationsResponse[];
   medications: Medication[];
-  patientContraindications: any[];
+  patientContraindications: Contraindication[];
   loading: boolean;
   error: string | null;
   lastUpdated: number | null;
@@ -209,7 +214,7 @@ export class ContraindicationsCacheService {
     forkJoin(productObservables).subscribe({
       next: (products) => {
         this.updateCache({
-          productResponses: products.filter(p => p !== null),
+          productResponses: products.filter((p): p is ProductContraindicationsResponse => p !== null),
           loadingProductContraindications: false,
           productContraindicationsLoaded: true
         });
@@ -0,0 +1,214 @@
+import { Injectable } from '@angular/core';
+import { TranslocoService } from '@jsverse/transloco';
+import { Observable, of } from 'rxjs';
+import {
+  DeprescribingMonitoringPoint,
+  DeprescribingPlan,
+  DeprescribingProgress,
+  DeprescribingStep,
+  ReviewNote
+} from '../models/api.models';
+import { ApiService } from './api.service';
+import { StateService } from './state.service';
+
+export type TimelineEventKind = 'step' | 'monitoring' | 'progress';
+export type TimelineEventState = 'past' | 'current' | 'upcoming';
+
+export interface TimelineEvent {
+  kind: TimelineEventKind;
+  date: string;                     // yyyy-mm-dd
+  state: TimelineEventState;
+  index: number;                    // Position in the steps, monitoring or progress of the plan
+  step?: DeprescribingStep;
+  monitoring?: DeprescribingMonitoringPoint;
+  progress?: DeprescribingProgress;
+}
+
+// Reduction per step and step length for a generated schedule
+export interface TaperingProposal {
+  startDate: string;
+  startUnits: number;
+  reductionPercent: number;
+  daysPerStep: number;
+  smallestUnit: number;             // Doses are rounded to this, e.g. 0.5 for tablets that can be halved
+}
+
+// Note categories of the tools that recommend stopping a medication
+export const DEPRESCRIBING_NOTE_CATEGORIES = ['GheOPS', 'START-STOP-NL'];
+
+const ONE_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Deprescribing plans: a stepwise tapering schedule with dates, the moments at which the
+ * patient is followed up and the progress recorded at those moments. A plan belongs to a
+ * medication of the review and is usually linked to the GheOPS or START-STOP-NL note that
+ * recommended stopping it.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class DeprescribingService {
+
+  constructor(
+    private apiService: ApiService,
+    private stateService: StateService,
+    private transloco: TranslocoService
+  ) {}
+
+  getPlans(): Observable<DeprescribingPlan[]> {
+    const reviewId = this.stateService.medicationReviewId;
+    if (!reviewId) {
+      return of([]);
+    }
+    return this.apiService.getDeprescribingPlans(this.stateService.apbNumber, reviewId);
+  }
+
+  /**
+   * Adds the plan when it has no id yet, updates it otherwise
+   */
+  save(plan: Partial<DeprescribingPlan>): Observable<DeprescribingPlan> {
+    const { planId, eTag, timestamp, ...values } = plan;
+    const normalized = {
+      ...values,
+      steps: this.sortByDate(values.steps ?? []),
+      monitoring: this.sortByDate(values.monitoring ?? []),
+      progress: this.sortByDate(values.progress ?? [])
+    };
+
+    return planId
+      ? this.apiService.updateDeprescribingPlan(this.stateService.apbNumber, this.stateService.medicationReviewId, planId, normalized)
+      : this.apiService.addDeprescribingPlan(this.stateService.apbNumber, this.stateService.medicationReviewId, normalized);
+  }
+
+  delete(plan: DeprescribingPlan): Observable<unknown> {
+    return this.apiService.deleteDeprescribingPlan(this.stateService.apbNumber, this.stateService.medicationReviewId, plan.planId);
+  }
+
+  /**
+   * Steps from `startUnits` down to 0, each `reductionPercent` of the starting dose lower,
+   * e.g. 25% every 14 days for a benzodiazepine
+   */
+  propose(proposal: TaperingProposal): DeprescribingStep[] {
+    const smallest = proposal.smallestUnit > 0 ? proposal.smallestUnit : 0.5;
+    const reduction = Math.max(proposal.startUnits * proposal.reductionPercent / 100, smallest);
+    const steps: DeprescribingStep[] = [];
+
+    let units = proposal.startUnits;
+    let date = proposal.startDate;
+    while (units > 0 && steps.length < 50) {
+      steps.push({ startDate: date, unitsPerDay: units, instructions: null });
+      // The last reduction may be smaller than the others, never below zero
+      units = Math.max(0, Math.round((units - reduction) / smallest) * smallest);
+      date = this.addDays(date, proposal.daysPerStep);
+    }
+    steps.push({ startDate: date, unitsPerDay: 0, instructions: null });
+    return steps;
+  }
+
+  /**
+   * The step in effect on `day` (today by default), null before the first step
+   */
+  currentStep(plan: DeprescribingPlan, day: string = this.today()): DeprescribingStep | null {
+    return [...plan.steps].reverse().find(step => step.startDate <= day) ?? null;
+  }
+
+  nextStep(plan: DeprescribingPlan, day: string = this.today()): DeprescribingStep | null {
+    return plan.steps.find(step => step.startDate > day) ?? null;
+  }
+
+  /**
+   * Share of the schedule that has started, from 0 (not started) to 1 (last step reached)
+   */
+  completion(plan: DeprescribingPlan, day: string = this.today()): number {
+    if (plan.status === 'completed') {
+      return 1;
+    }
+    const started = plan.steps.filter(step => step.startDate <= day).length;
+    return plan.steps.length > 0 ? started / plan.steps.length : 0;
+  }
+
+  nextMonitoring(plan: DeprescribingPlan): DeprescribingMonitoringPoint | null {
+    return plan.monitoring.find(point => !point.done) ?? null;
+  }
+
+  isOverdue(point: DeprescribingMonitoringPoint, day: string = this.today()): boolean {
+    return !point.done && point.date < day;
+  }
+
+  /**
+   * Steps, monitoring points and progress in date order. The step in effect today is current;
+   * on the same day a step comes before a monitoring point and the progress recorded at it.
+   */
+  timeline(plan: DeprescribingPlan, day: string = this.today()): TimelineEvent[] {
+    const current = this.currentStep(plan, day);
+    const order: Record<TimelineEventKind, number> = { step: 0, monitoring: 1, progress: 2 };
+
+    const events: TimelineEvent[] = [
+      ...plan.steps.map((step, index): TimelineEvent => ({
+        kind: 'step',
+        date: step.startDate,
+        state: step === current ? 'current' : step.startDate < day ? 'past' : 'upcoming',
+        index,
+        step
+      })),
+      ...plan.monitoring.map((monitoring, index): TimelineEvent => ({
+        kind: 'monitoring',
+        date: monitoring.date,
+        state: monitoring.done || monitoring.date < day ? 'past' : monitoring.date === day ? 'current' : 'upcoming',
+        index,
+        monitoring
+      })),
+      ...plan.progress.map((progress, index): TimelineEvent => ({
+        kind: 'progress',
+        date: progress.date,
+        state: 'past',
+        index,
+        progress
+      }))
+    ];
+    return events.sort((a, b) => a.date.localeCompare(b.date) || order[a.kind] - order[b.kind]);
+  }
+
+  /**
+   * The notes a plan can be linked to: the ones of the tools that recommend stopping,
+   * those about the plan's medication first
+   */
+  linkableNotes(notes: ReviewNote[], medicationName?: string | null): ReviewNote[] {
+    const name = (medicationName ?? '').toLowerCase();
+    const aboutMedication = (note: ReviewNote) => !!name && (note.medicationName ?? '').toLowerCase() === name ? 0 : 1;
+    return notes
+      .filter(note => DEPRESCRIBING_NOTE_CATEGORIES.includes(note.category ?? ''))
+      .sort((a, b) => aboutMedication(a) - aboutMedication(b));
+  }
+
+  /**
+   * e.g. "1.5 units/day · ½ tablet at bedtime" or "Stop", in the active language (or `lang`)
+   */
+  describeStep(step: DeprescribingStep, lang?: string): string {
+    const dose = step.unitsPerDay > 0
+      ? this.transloco.translate('deprescribing.units_per_day', { units: step.unitsPerDay }, lang)
+      : this.transloco.translate('deprescribing.stop', {}, lang);
+    return step.instructions ? `${dose} · ${step.instructions}` : dose;
+  }
+
+  /**
+   * Today in local time, in the yyyy-mm-dd format of the plan dates
+   */
+  today(): string {
+    return this.toDayString(new Date());
+  }
+
+  addDays(day: string, days: number): string {
+    return this.toDayString(new Date(Date.parse(`${day}T00:00:00`) + days * ONE_DAY + ONE_DAY / 2));
+  }
+
+  private sortByDate<T extends { date: string } | { startDate: string }>(items: T[]): T[] {
+    const dateOf = (item: T) => 'startDate' in item ? item.startDate : item.date;
+    return [...items].sort((a, b) => dateOf(a).localeCompare(dateOf(b)));
+  }
+
+  private toDayString(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+}
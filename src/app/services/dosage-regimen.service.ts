@@ -0,0 +1,220 @@
+import { Injectable } from '@angular/core';
+import { TranslocoService } from '@jsverse/transloco';
+import { DosageRegimen, Medication } from '../models/api.models';
+
+// What the calculations need from a medication, shared by the API model and the view models
+export type DosageSource = Pick<Medication,
+  'unitsBeforeBreakfast' | 'unitsDuringBreakfast' | 'unitsBeforeLunch' | 'unitsDuringLunch' |
+  'unitsBeforeDinner' | 'unitsDuringDinner' | 'unitsAtBedtime' | 'dosageRegimen'>;
+
+const ONE_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Interprets the structured dosage regimen of a medication.
+ * Without a regimen (or with a plain daily one) the seven intake slots are taken every day,
+ * which is how medications were modelled before. The regimen decides on which days the slots
+ * apply, or replaces them for interval dosing and tapering.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class DosageRegimenService {
+
+  constructor(private transloco: TranslocoService) {}
+
+  /**
+   * Units on a day the medication is taken, according to the intake slots
+   */
+  unitsPerIntakeDay(medication: DosageSource): number {
+    return [
+      medication.unitsBeforeBreakfast,
+      medication.unitsDuringBreakfast,
+      medication.unitsBeforeLunch,
+      medication.unitsDuringLunch,
+      medication.unitsBeforeDinner,
+      medication.unitsDuringDinner,
+      medication.unitsAtBedtime
+    ].reduce((sum: number, units) => sum + (Number(units) || 0), 0);
+  }
+
+  /**
+   * Whether the regimen adds anything to "the intake slots, every day"
+   */
+  isStructured(regimen: DosageRegimen | null | undefined): boolean {
+    return !!regimen && (
+      regimen.periodicity !== 'daily' || !!regimen.taperingSteps?.length || !!regimen.startDate || !!regimen.endDate
+    );
+  }
+
+  /**
+   * Whether the doses are entered in the intake slots. Interval dosing and tapering
+   * specify their own units.
+   */
+  usesIntakeSlots(regimen: DosageRegimen | null | undefined): boolean {
+    return !regimen || (regimen.periodicity !== 'interval' && !regimen.taperingSteps?.length);
+  }
+
+  /**
+   * Units taken on a calendar day, 0 when it is not an intake day
+   */
+  unitsOn(medication: DosageSource, date: Date): number {
+    const regimen = medication.dosageRegimen;
+    if (!regimen) {
+      return this.unitsPerIntakeDay(medication);
+    }
+
+    const day = this.toDayString(date);
+    if ((regimen.startDate && day < regimen.startDate) || (regimen.endDate && day > regimen.endDate)) {
+      return 0;
+    }
+    if (!this.isIntakeDay(regimen, date)) {
+      return 0;
+    }
+
+    if (regimen.taperingSteps?.length) {
+      // Steps follow each other from the start date; the medication stops after the last one
+      let elapsed = regimen.startDate ? this.daysBetween(regimen.startDate, day) : 0;
+      for (const step of regimen.taperingSteps) {
+        if (elapsed < step.days) {
+          return step.units;
+        }
+        elapsed -= step.days;
+      }
+      return 0;
+    }
+
+    return this.unitsPerDose(medication);
+  }
+
+  /**
+   * Average units per day over one period of the regimen (a week, a cycle, the tapering schedule),
+   * for stock and adherence calculations
+   */
+  averageDailyUnits(medication: DosageSource): number {
+    const regimen = medication.dosageRegimen;
+    if (!regimen) {
+      return this.unitsPerIntakeDay(medication);
+    }
+
+    const steps = regimen.taperingSteps ?? [];
+    const totalDays = steps.reduce((sum, step) => sum + step.days, 0);
+    const units = totalDays > 0
+      ? steps.reduce((sum, step) => sum + step.days * step.units, 0) / totalDays
+      : this.unitsPerDose(medication);
+
+    return units * this.intakeDayFraction(regimen);
+  }
+
+  /**
+   * Short description of the regimen in the active language (or `lang`),
+   * e.g. "Mon, Thu · from 01/03/2026". Empty for a plain daily regimen.
+   */
+  describe(regimen: DosageRegimen | null | undefined, lang?: string): string {
+    if (!regimen) {
+      return '';
+    }
+
+    const t = (key: string, params?: Record<string, unknown>) => this.transloco.translate(`dosage_regimen.${key}`, params, lang);
+    const parts: string[] = [];
+
+    switch (regimen.periodicity) {
+      case 'every_n_days':
+        parts.push((regimen.everyNDays ?? 1) === 2 ? t('alternate_days') : t('every_n_days', { count: regimen.everyNDays ?? 1 }));
+        break;
+      case 'weekdays':
+        parts.push(this.weekdayNames(regimen.weekdays ?? [], lang).join(', '));
+        break;
+      case 'interval':
+        parts.push(t('every_n_hours', { units: regimen.unitsPerIntake ?? 0, hours: regimen.intervalHours ?? 0 }));
+        break;
+      case 'cycle':
+        parts.push(t('cycle', { on: regimen.cycleDaysOn ?? 0, length: regimen.cycleLength ?? 0 }));
+        break;
+    }
+
+    if (regimen.taperingSteps?.length) {
+      const steps = regimen.taperingSteps.map(step => t('tapering_step', { units: step.units, days: step.days }));
+      parts.push(`${t('tapering')}: ${steps.join(', ')}`);
+    }
+    if (regimen.startDate) {
+      parts.push(t('from', { date: this.formatDate(regimen.startDate, lang) }));
+    }
+    if (regimen.endDate) {
+      parts.push(t('until', { date: this.formatDate(regimen.endDate, lang) }));
+    }
+
+    return parts.join(' · ');
+  }
+
+  /**
+   * Localized short weekday names for ISO weekday numbers (1 = Monday … 7 = Sunday)
+   */
+  weekdayNames(weekdays: number[], lang?: string): string[] {
+    const formatter = new Intl.DateTimeFormat(lang ?? this.transloco.getActiveLang(), { weekday: 'short' });
+    // 1 January 2024 was a Monday
+    return [...weekdays].sort((a, b) => a - b).map(weekday => formatter.format(new Date(2024, 0, weekday)));
+  }
+
+  // Units on an intake day before tapering: from the interval or from the intake slots
+  private unitsPerDose(medication: DosageSource): number {
+    const regimen = medication.dosageRegimen;
+    if (regimen?.periodicity === 'interval') {
+      const hours = regimen.intervalHours ?? 0;
+      return hours > 0 ? (24 / hours) * (regimen.unitsPerIntake ?? 0) : 0;
+    }
+    return this.unitsPerIntakeDay(medication);
+  }
+
+  private isIntakeDay(regimen: DosageRegimen, date: Date): boolean {
+    switch (regimen.periodicity) {
+      case 'every_n_days':
+        return this.mod(this.daysSinceAnchor(regimen, date), Math.max(1, regimen.everyNDays ?? 1)) === 0;
+      case 'weekdays':
+        return (regimen.weekdays ?? []).includes(date.getDay() === 0 ? 7 : date.getDay());
+      case 'cycle': {
+        const length = Math.max(1, regimen.cycleLength ?? 1);
+        return this.mod(this.daysSinceAnchor(regimen, date), length) < (regimen.cycleDaysOn ?? length);
+      }
+      default:
+        return true;
+    }
+  }
+
+  // Share of the days that are intake days
+  private intakeDayFraction(regimen: DosageRegimen): number {
+    switch (regimen.periodicity) {
+      case 'every_n_days':
+        return 1 / Math.max(1, regimen.everyNDays ?? 1);
+      case 'weekdays':
+        return new Set(regimen.weekdays ?? []).size / 7;
+      case 'cycle': {
+        const length = Math.max(1, regimen.cycleLength ?? 1);
+        return Math.min(regimen.cycleDaysOn ?? length, length) / length;
+      }
+      default:
+        return 1;
+    }
+  }
+
+  // Days since the start date; without one, counted from a fixed day so the pattern is stable
+  private daysSinceAnchor(regimen: DosageRegimen, date: Date): number {
+    return this.daysBetween(regimen.startDate ?? '1970-01-01', this.toDayString(date));
+  }
+
+  private mod(value: number, divisor: number): number {
+    return ((value % divisor) + divisor) % divisor;
+  }
+
+  private daysBetween(from: string, until: string): number {
+    return Math.round((Date.parse(`${until}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / ONE_DAY);
+  }
+
+  private toDayString(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
+  private formatDate(day: string, lang?: string): string {
+    return new Date(`${day}T00:00:00`).toLocaleDateString(lang ?? this.transloco.getActiveLang());
+  }
+}
@@ -0,0 +1,134 @@
+import { Injectable } from '@angular/core';
+import { Observable, catchError, map, of } from 'rxjs';
+import { Medication } from '../models/api.models';
+import { ApiService } from './api.service';
+import { MedicationStatusService } from './medication-status.service';
+
+/**
+ * What the medications of a finding have in common, from most to least specific:
+ * - vmp: the same product (substance, strength and form) under different CNKs
+ * - ingredient: the same active ingredient
+ * - atc5: the same chemical substance (ATC level 5, e.g. A02BC01)
+ * - atc4: the same chemical subgroup (ATC level 4, e.g. A02BC, proton pump inhibitors)
+ */
+export type DuplicationLevel = 'vmp' | 'ingredient' | 'atc5' | 'atc4';
+
+export type DuplicationSeverity = 'high' | 'moderate' | 'low';
+
+export interface DuplicationFinding {
+  id: string;
+  level: DuplicationLevel;
+  severity: DuplicationSeverity;
+  key: string;                           // The shared VMP, ingredient or ATC code
+  medications: Medication[];
+}
+
+const LEVELS: DuplicationLevel[] = ['vmp', 'ingredient', 'atc5', 'atc4'];
+
+const SEVERITY_BY_LEVEL: Record<DuplicationLevel, DuplicationSeverity> = {
+  vmp: 'high',
+  ingredient: 'high',
+  atc5: 'high',
+  atc4: 'moderate'
+};
+
+/**
+ * Therapeutic duplication: two or more current medications with the same product, active
+ * ingredient or ATC class. Every group of medications is reported once, at the most specific
+ * level it shares. ATC codes come from the GheOPS tool. Stopped medications are not checked.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class DuplicationCheckService {
+
+  constructor(
+    private apiService: ApiService,
+    private medicationStatus: MedicationStatusService
+  ) {}
+
+  /**
+   * Look up the ATC codes of the medications and find their duplications.
+   * Without ATC codes (lookup failed) the VMP and ingredient checks still apply.
+   */
+  check(medications: Medication[]): Observable<DuplicationFinding[]> {
+    const current = this.medicationStatus.forChecks(medications);
+    const cnkCodes = current
+      .filter(medication => medication.cnk != null)
+      .map(medication => this.padCnk(medication.cnk!));
+
+    const atcCodes$ = cnkCodes.length === 0
+      ? of(new Map<string, string>())
+      : this.apiService.queryGheops(cnkCodes).pipe(
+          map(results => new Map(results
+            .filter(result => !!result.atcCode)
+            .map(result => [result.cnk, result.atcCode!]))),
+          catchError(() => of(new Map<string, string>()))
+        );
+
+    return atcCodes$.pipe(map(atcCodes => this.findDuplicates(current, atcCodes)));
+  }
+
+  /**
+   * @param atcCodes ATC code per 7-digit CNK
+   */
+  findDuplicates(medications: Medication[], atcCodes: Map<string, string>): DuplicationFinding[] {
+    const findings: DuplicationFinding[] = [];
+
+    for (const level of LEVELS) {
+      const groups = new Map<string, Medication[]>();
+      for (const medication of medications) {
+        const key = this.keyFor(level, medication, atcCodes);
+        if (key) {
+          groups.set(key, [...(groups.get(key) ?? []), medication]);
+        }
+      }
+
+      groups.forEach((group, key) => {
+        // Already reported together at a more specific level
+        const ids = group.map(medication => medication.medicationId);
+        if (group.length < 2 || findings.some(finding => ids.every(id => finding.medications.some(m => m.medicationId === id)))) {
+          return;
+        }
+        findings.push({
+          id: `${level}-${key}`,
+          level,
+          severity: this.severity(level, group),
+          key,
+          medications: group
+        });
+      });
+    }
+
+    const order: DuplicationSeverity[] = ['high', 'moderate', 'low'];
+    return findings.sort((a, b) => order.indexOf(a.severity) - order.indexOf(b.severity));
+  }
+
+  // An as-needed medication next to a regular one is often intended (e.g. a rescue dose)
+  private severity(level: DuplicationLevel, group: Medication[]): DuplicationSeverity {
+    const severity = SEVERITY_BY_LEVEL[level];
+    const mixesAsNeeded = group.some(medication => medication.asNeeded) && group.some(medication => !medication.asNeeded);
+    if (!mixesAsNeeded) {
+      return severity;
+    }
+    return severity === 'high' ? 'moderate' : 'low';
+  }
+
+  private keyFor(level: DuplicationLevel, medication: Medication, atcCodes: Map<string, string>): string | null {
+    const atc = medication.cnk != null ? atcCodes.get(this.padCnk(medication.cnk)) : undefined;
+    switch (level) {
+      case 'vmp':
+        return medication.vmp ? String(medication.vmp) : null;
+      case 'ingredient':
+        return medication.activeIngredient?.trim().toLowerCase() || null;
+      case 'atc5':
+        return atc && atc.length >= 7 ? atc.substring(0, 7).toUpperCase() : null;
+      case 'atc4':
+        return atc && atc.length >= 5 ? atc.substring(0, 5).toUpperCase() : null;
+    }
+  }
+
+  private padCnk(cnk: number): string {
+    return String(cnk).padStart(7, '0');
+  }
+}
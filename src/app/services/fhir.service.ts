@@ -0,0 +1,630 @@
+import { Injectable } from '@angular/core';
+import { Observable, catchError, concatMap, from, map, of, switchMap, toArray } from 'rxjs';
+import {
+  Contraindication,
+  DosageRegimen,
+  LabValue,
+  Medication,
+  MedicationReview,
+  MedicationStatus,
+  Patient,
+  ReviewContext,
+  ReviewNote
+} from '../models/api.models';
+import {
+  FhirBundle,
+  FhirCodeableConcept,
+  FhirCommunication,
+  FhirDetectedIssue,
+  FhirDosage,
+  FhirEventTiming,
+  FhirMedicationStatement,
+  FhirResource,
+  FhirTimingRepeat
+} from '../models/fhir.models';
+import { FieldSchema } from '../models/api.schemas';
+import { fhirBundleSchema, fhirCodes, fhirDateFields, fhirResourceSchemas } from '../models/fhir.schemas';
+import { ApiService } from './api.service';
+import { ReviewComparisonService } from './review-comparison.service';
+
+type MedicationValues = Omit<Medication, 'medicationId' | 'timestamp' | 'eTag'>;
+
+type IntakeSlot =
+  'unitsBeforeBreakfast' | 'unitsDuringBreakfast' | 'unitsBeforeLunch' | 'unitsDuringLunch' |
+  'unitsBeforeDinner' | 'unitsDuringDinner' | 'unitsAtBedtime';
+
+export interface FhirExportData {
+  patient: Patient | null;
+  review: MedicationReview | null;
+  medications: Medication[];
+  contraindications: Contraindication[];
+  labValues: LabValue[];
+  notes: ReviewNote[];
+}
+
+export interface FhirIssue {
+  path: string;                      // e.g. "Bundle.entry[3].resource.status"
+  message: string;
+}
+
+export interface FhirValidation {
+  bundle: FhirBundle | null;         // Null when there are issues
+  issues: FhirIssue[];
+  ignored: string[];                 // Resource types in the bundle a review has no place for
+}
+
+export interface FhirImportData {
+  patient: Patient;
+  review: Pick<MedicationReview, 'firstNameAtTimeOfReview' | 'lastNameAtTimeOfReview'>;
+  medications: MedicationValues[];
+  contraindications: Pick<Contraindication, 'name' | 'contraindicationCode'>[];
+  labValues: Omit<LabValue, 'labValueId'>[];
+  notes: Partial<ReviewNote>[];
+}
+
+export interface FhirImportResult {
+  context: ReviewContext;
+  imported: number;
+  failed: number;
+}
+
+export const FHIR_CNK_SYSTEM = 'https://cnk.apb.be/codings/cnk_product_codes';
+export const FHIR_VMP_SYSTEM = 'https://www.ehealth.fgov.be/standards/fhir/medication/NamingSystem/be-ns-vmp';
+const CONTRAINDICATION_SYSTEM = 'urn:medication-review:contraindication';
+const NOTE_CATEGORY_SYSTEM = 'urn:medication-review:note-category';
+// The regimen as this application stores it, so cycles and tapering survive a round trip
+const REGIMEN_EXTENSION = 'urn:medication-review:dosage-regimen';
+
+// Intake slots and the FHIR event timing they are taken at
+const SLOT_TIMINGS: [IntakeSlot, FhirEventTiming][] = [
+  ['unitsBeforeBreakfast', 'ACM'],
+  ['unitsDuringBreakfast', 'CM'],
+  ['unitsBeforeLunch', 'ACD'],
+  ['unitsDuringLunch', 'CD'],
+  ['unitsBeforeDinner', 'ACV'],
+  ['unitsDuringDinner', 'CV'],
+  ['unitsAtBedtime', 'HS']
+];
+
+// Event timings of other systems on the nearest slot
+const TIMING_SLOTS: Record<string, IntakeSlot> = {
+  ...Object.fromEntries(SLOT_TIMINGS.map(([slot, timing]) => [timing, slot])),
+  MORN: 'unitsDuringBreakfast', 'MORN.early': 'unitsDuringBreakfast', 'MORN.late': 'unitsDuringBreakfast', WAKE: 'unitsBeforeBreakfast',
+  NOON: 'unitsDuringLunch', PCM: 'unitsDuringBreakfast', PCD: 'unitsDuringLunch', AC: 'unitsBeforeBreakfast', C: 'unitsDuringBreakfast', PC: 'unitsDuringBreakfast',
+  AFT: 'unitsBeforeDinner', 'AFT.early': 'unitsBeforeDinner', 'AFT.late': 'unitsBeforeDinner',
+  EVE: 'unitsDuringDinner', 'EVE.early': 'unitsDuringDinner', 'EVE.late': 'unitsDuringDinner', PCV: 'unitsDuringDinner',
+  NIGHT: 'unitsAtBedtime', PHS: 'unitsAtBedtime'
+};
+
+// Slots for a number of intakes a day without event timing
+const DAILY_SLOTS: Record<number, IntakeSlot[]> = {
+  1: ['unitsDuringBreakfast'],
+  2: ['unitsDuringBreakfast', 'unitsDuringDinner'],
+  3: ['unitsDuringBreakfast', 'unitsDuringLunch', 'unitsDuringDinner'],
+  4: ['unitsDuringBreakfast', 'unitsDuringLunch', 'unitsDuringDinner', 'unitsAtBedtime']
+};
+
+const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] as const;
+
+// Note categories exchanged as DetectedIssue: the findings of the interaction and GheOPS checks
+const FINDING_CATEGORIES = ['Interactions', 'GheOPS'];
+
+const FHIR_DATE = /^\d{4}(-\d{2}(-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?)?)?$/;
+
+/**
+ * Exchange of a medication review as a FHIR R4 collection Bundle: the Patient, a
+ * MedicationStatement per medication (dosage timing from the intake moments), a Condition per
+ * contraindication, an Observation per lab value, a DetectedIssue per interaction or GheOPS
+ * finding and a Communication per note for the doctor. Imported bundles are checked against
+ * the resource structure first and go into a new review.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FhirService {
+
+  constructor(
+    private apiService: ApiService,
+    private reviewComparison: ReviewComparisonService
+  ) {}
+
+  // ---------------------------------------------------------------------------
+  // Export
+  // ---------------------------------------------------------------------------
+
+  createBundle(data: FhirExportData): FhirBundle {
+    const entries: { fullUrl: string; resource: FhirResource }[] = [];
+    const add = (resource: FhirResource): string => {
+      const id = crypto.randomUUID();
+      const fullUrl = `urn:uuid:${id}`;
+      entries.push({ fullUrl, resource: { ...resource, id } });
+      return fullUrl;
+    };
+
+    const firstName = data.review?.firstNameAtTimeOfReview || undefined;
+    const lastName = data.review?.lastNameAtTimeOfReview || undefined;
+    const patientUrl = add(this.withoutEmpty({
+      resourceType: 'Patient' as const,
+      name: firstName || lastName ? [this.withoutEmpty({ family: lastName, given: firstName ? [firstName] : undefined })] : undefined,
+      gender: data.patient?.sex === 'M' ? 'male' as const : data.patient?.sex === 'F' ? 'female' as const : undefined,
+      birthDate: data.patient?.dateOfBirth || undefined
+    }));
+    const subject = { reference: patientUrl };
+
+    const medicationUrls = new Map<string, string>();
+    for (const medication of data.medications) {
+      const url = add(this.toMedicationStatement(medication, subject));
+      if (medication.cnk) {
+        medicationUrls.set(this.cnkOf(medication.cnk), url);
+      }
+    }
+
+    for (const contraindication of data.contraindications) {
+      add({
+        resourceType: 'Condition',
+        code: this.withoutEmpty({
+          coding: [this.withoutEmpty({ system: CONTRAINDICATION_SYSTEM, code: contraindication.contraindicationCode, display: contraindication.name || undefined })],
+          text: contraindication.name || undefined
+        }),
+        subject
+      });
+    }
+
+    for (const labValue of data.labValues.filter(labValue => labValue.name)) {
+      add({
+        resourceType: 'Observation',
+        status: 'final',
+        code: { text: labValue.name! },
+        subject,
+        valueQuantity: this.withoutEmpty({ value: labValue.value, unit: labValue.unit || undefined })
+      });
+    }
+
+    // A finding for the doctor is both; the Communication is based on the DetectedIssue, which
+    // brings them back together on import
+    for (const note of data.notes.filter(note => note.text)) {
+      const category = note.category || 'General';
+      const medicationUrl = note.linkedCnk ? medicationUrls.get(note.linkedCnk) : undefined;
+      const implicated = medicationUrl ? [{ reference: medicationUrl, display: note.medicationName }] : undefined;
+      const code: FhirCodeableConcept = { coding: [{ system: NOTE_CATEGORY_SYSTEM, code: category }], text: category };
+
+      const issueUrl = FINDING_CATEGORIES.includes(category)
+        ? add(this.withoutEmpty<FhirDetectedIssue>({ resourceType: 'DetectedIssue', status: 'final', code, patient: subject, implicated, detail: note.text }))
+        : undefined;
+      if (note.communicateToDoctor) {
+        add(this.withoutEmpty<FhirCommunication>({
+          resourceType: 'Communication',
+          status: 'preparation',
+          basedOn: issueUrl ? [{ reference: issueUrl }] : undefined,
+          category: [code],
+          subject,
+          about: implicated,
+          payload: [{ contentString: note.text }]
+        }));
+      }
+    }
+
+    return { resourceType: 'Bundle', type: 'collection', timestamp: new Date().toISOString(), entry: entries };
+  }
+
+  private toMedicationStatement(medication: Medication, subject: { reference: string }): FhirMedicationStatement {
+    const status = medication.status === 'stopped' ? 'stopped' : medication.status === 'paused' ? 'on-hold' : 'active';
+    const regimen = medication.dosageRegimen ?? null;
+    const repeat = this.repeatOf(regimen);
+
+    const dosage: FhirDosage[] = regimen?.periodicity === 'interval'
+      ? [{
+          timing: { repeat: { ...repeat, frequency: 1, period: regimen.intervalHours ?? 24, periodUnit: 'h' } },
+          doseAndRate: [{ doseQuantity: { value: regimen.unitsPerIntake ?? 1 } }]
+        }]
+      : SLOT_TIMINGS
+          .filter(([slot]) => (medication[slot] ?? 0) > 0)
+          .map(([slot, timing]) => ({
+            timing: { repeat: { ...repeat, when: [timing] } },
+            doseAndRate: [{ doseQuantity: { value: medication[slot]! } }]
+          }));
+    if (dosage.length === 0 && (medication.asNeeded || medication.instructions)) {
+      dosage.push({});
+    }
+    dosage.forEach((line, index) => {
+      line.sequence = index + 1;
+      if (medication.asNeeded) {
+        line.asNeededBoolean = true;
+      }
+    });
+    if (dosage.length > 0) {
+      dosage[0] = this.withoutEmpty({
+        ...dosage[0],
+        text: this.reviewComparison.describeDosage(medication) || undefined,
+        patientInstruction: medication.instructions || undefined
+      });
+    }
+
+    return this.withoutEmpty<FhirMedicationStatement>({
+      resourceType: 'MedicationStatement',
+      extension: regimen ? [{ url: REGIMEN_EXTENSION, valueString: JSON.stringify(regimen) }] : undefined,
+      status,
+      statusReason: medication.changeReason ? [{ text: medication.changeReason }] : undefined,
+      medicationCodeableConcept: this.withoutEmpty({
+        coding: [
+          ...(medication.cnk ? [{ system: FHIR_CNK_SYSTEM, code: this.cnkOf(medication.cnk), display: medication.name || undefined }] : []),
+          ...(medication.vmp ? [{ system: FHIR_VMP_SYSTEM, code: String(medication.vmp) }] : [])
+        ].map(coding => this.withoutEmpty(coding)),
+        text: medication.name || undefined
+      }),
+      subject,
+      effectivePeriod: medication.startDate || medication.stopDate || regimen?.endDate
+        ? this.withoutEmpty({ start: medication.startDate || undefined, end: medication.stopDate || regimen?.endDate || undefined })
+        : undefined,
+      reasonCode: medication.indication ? [{ text: medication.indication }] : undefined,
+      dosage: dosage.length ? dosage : undefined
+    });
+  }
+
+  private repeatOf(regimen: DosageRegimen | null): FhirTimingRepeat {
+    const boundsPeriod = regimen?.startDate || regimen?.endDate
+      ? this.withoutEmpty({ start: regimen.startDate || undefined, end: regimen.endDate || undefined })
+      : undefined;
+
+    switch (regimen?.periodicity) {
+      case 'every_n_days':
+        return this.withoutEmpty({ boundsPeriod, frequency: 1, period: regimen.everyNDays ?? 1, periodUnit: 'd' });
+      case 'weekdays':
+        return this.withoutEmpty({ boundsPeriod, dayOfWeek: (regimen.weekdays ?? []).map(day => WEEKDAYS[day - 1]) });
+      default:
+        // Cycles and tapering have no timing equivalent; the regimen extension carries them
+        return this.withoutEmpty({ boundsPeriod, frequency: 1, period: 1, periodUnit: 'd' });
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Validation
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Checks parsed JSON against the structure of a Bundle and of the resources a review imports
+   */
+  validate(json: unknown): FhirValidation {
+    const issues: FhirIssue[] = [];
+    const ignored: string[] = [];
+    const resourceType = (json as { resourceType?: unknown } | null)?.resourceType;
+    if (resourceType !== 'Bundle') {
+      return { bundle: null, issues: [{ path: 'resourceType', message: `expected "Bundle", found "${resourceType ?? ''}"` }], ignored };
+    }
+    this.check(json, fhirBundleSchema, 'Bundle', '', 'Bundle', issues);
+    if (issues.length > 0) {
+      return { bundle: null, issues, ignored };
+    }
+
+    const bundle = json as { entry: { fullUrl?: string; resource: unknown }[] };
+
+    // bdl-7: the entries are told apart by their fullUrl
+    const fullUrls = new Set<string>();
+    bundle.entry.forEach((entry, index) => {
+      if (entry.fullUrl && fullUrls.has(entry.fullUrl)) {
+        issues.push({ path: `Bundle.entry[${index}].fullUrl`, message: `duplicate fullUrl "${entry.fullUrl}"` });
+      }
+      fullUrls.add(entry.fullUrl ?? '');
+    });
+
+    bundle.entry.forEach((entry, index) => {
+      const path = `Bundle.entry[${index}].resource`;
+      const resourceType = (entry.resource as { resourceType?: unknown } | null)?.resourceType;
+      if (typeof resourceType !== 'string') {
+        issues.push({ path: `${path}.resourceType`, message: 'missing required element' });
+      } else if (!fhirResourceSchemas[resourceType]) {
+        ignored.push(resourceType);
+      } else {
+        this.check(entry.resource, fhirResourceSchemas[resourceType], path, '', resourceType, issues);
+      }
+    });
+
+    const patients = bundle.entry.filter(entry => (entry.resource as FhirResource).resourceType === 'Patient').length;
+    if (patients !== 1) {
+      issues.push({ path: 'Bundle.entry', message: `expected one Patient, found ${patients}` });
+    }
+
+    return { bundle: issues.length ? null : json as FhirBundle, issues, ignored: [...new Set(ignored)] };
+  }
+
+  private check(value: unknown, schema: FieldSchema, path: string, element: string, resourceType: string, issues: FhirIssue[]): void {
+    if (value === undefined || value === null) {
+      if (!schema.optional) {
+        issues.push({ path, message: 'missing required element' });
+      }
+      return;
+    }
+
+    switch (schema.kind) {
+      case 'string': {
+        if (typeof value !== 'string' || value.trim() === '') {
+          issues.push({ path, message: 'expected a non-empty string' });
+          return;
+        }
+        const codes = fhirCodes[`${resourceType}.${element}`] ?? fhirCodes[element];
+        if (codes && !codes.includes(value)) {
+          issues.push({ path, message: `"${value}" is not a valid code` });
+        } else if (fhirDateFields.includes(element) && !FHIR_DATE.test(value)) {
+          issues.push({ path, message: `"${value}" is not a valid date` });
+        }
+        return;
+      }
+      case 'number':
+        if (typeof value !== 'number' || !isFinite(value)) {
+          issues.push({ path, message: 'expected a number' });
+        }
+        return;
+      case 'boolean':
+        if (typeof value !== 'boolean') {
+          issues.push({ path, message: 'expected a boolean' });
+        }
+        return;
+      case 'array':
+        if (!Array.isArray(value)) {
+          issues.push({ path, message: 'expected an array' });
+          return;
+        }
+        value.forEach((item, index) => this.check(item, schema.items, `${path}[${index}]`, element, resourceType, issues));
+        return;
+      case 'object':
+        if (typeof value !== 'object' || Array.isArray(value)) {
+          issues.push({ path, message: 'expected an object' });
+          return;
+        }
+        for (const [field, fieldSchema] of Object.entries(schema.fields)) {
+          this.check((value as Record<string, unknown>)[field], fieldSchema, `${path}.${field}`, field, resourceType, issues);
+        }
+        return;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Import
+  // ---------------------------------------------------------------------------
+
+  /**
+   * The review content of a validated bundle
+   */
+  readBundle(bundle: FhirBundle): FhirImportData {
+    const resources = new Map(bundle.entry.map((entry, index) => [entry.fullUrl ?? `#${index}`, entry.resource]));
+    const byReference = (reference: string | undefined) => {
+      if (!reference) {
+        return undefined;
+      }
+      // Relative references ("MedicationStatement/12") point at the resource id
+      return resources.get(reference)
+        ?? bundle.entry.map(entry => entry.resource).find(resource => `${resource.resourceType}/${resource.id}` === reference || resource.id === reference);
+    };
+
+    const patient = bundle.entry.map(entry => entry.resource).find(resource => resource.resourceType === 'Patient');
+    const name = patient?.resourceType === 'Patient' ? patient.name?.[0] : undefined;
+    const data: FhirImportData = {
+      patient: {
+        dateOfBirth: patient?.resourceType === 'Patient' ? patient.birthDate?.substring(0, 10) ?? null : null,
+        sex: patient?.resourceType === 'Patient' ? (patient.gender === 'male' ? 'M' : patient.gender === 'female' ? 'F' : null) : null
+      },
+      review: {
+        firstNameAtTimeOfReview: name?.given?.join(' ') || null,
+        lastNameAtTimeOfReview: name?.family || null
+      },
+      medications: [],
+      contraindications: [],
+      labValues: [],
+      notes: []
+    };
+
+    // A Communication based on an imported DetectedIssue is that finding, sent to the doctor
+    const isFinding = (resource: FhirResource | undefined): resource is FhirDetectedIssue =>
+      resource?.resourceType === 'DetectedIssue' && !!resource.detail && resource.status !== 'entered-in-error';
+    const findingOf = (communication: FhirCommunication) => {
+      const basis = byReference(communication.basedOn?.[0]?.reference);
+      return isFinding(basis) ? basis : undefined;
+    };
+    const communicated = new Set<FhirResource>(bundle.entry
+      .map(entry => entry.resource)
+      .flatMap(resource => resource.resourceType === 'Communication' ? findingOf(resource) ?? [] : []));
+    const linkOf = (reference: string | undefined): Partial<ReviewNote> => {
+      const resource = byReference(reference);
+      if (resource?.resourceType !== 'MedicationStatement') {
+        return {};
+      }
+      const medication = this.toMedication(resource);
+      return this.withoutEmpty({
+        linkedCnk: medication?.cnk ? this.cnkOf(medication.cnk) : undefined,
+        medicationName: medication?.name || undefined
+      });
+    };
+
+    for (const { resource } of bundle.entry) {
+      switch (resource.resourceType) {
+        case 'MedicationStatement': {
+          const medication = this.toMedication(resource);
+          if (medication) {
+            data.medications.push(medication);
+          }
+          break;
+        }
+        case 'Condition': {
+          const coding = resource.code.coding?.find(code => code.system === CONTRAINDICATION_SYSTEM) ?? resource.code.coding?.[0];
+          const conditionName = resource.code.text || coding?.display || null;
+          if (conditionName || coding?.code) {
+            data.contraindications.push({ name: conditionName, contraindicationCode: coding?.code ?? '' });
+          }
+          break;
+        }
+        case 'Observation':
+          if (resource.valueQuantity && !['cancelled', 'entered-in-error'].includes(resource.status)) {
+            data.labValues.push({
+              name: this.textOf(resource.code) || null,
+              value: resource.valueQuantity.value,
+              unit: resource.valueQuantity.unit || null
+            });
+          }
+          break;
+        case 'DetectedIssue':
+          if (isFinding(resource)) {
+            data.notes.push({
+              text: resource.detail,
+              category: this.textOf(resource.code) || FINDING_CATEGORIES[0],
+              discussWithPatient: false,
+              communicateToDoctor: communicated.has(resource),
+              ...linkOf(resource.implicated?.[0]?.reference)
+            });
+          }
+          break;
+        case 'Communication': {
+          const text = (resource.payload ?? []).map(payload => payload.contentString).filter(Boolean).join('\n');
+          if (text && resource.status !== 'entered-in-error' && !findingOf(resource)) {
+            data.notes.push({
+              text,
+              category: this.textOf(resource.category?.[0]) || 'General',
+              discussWithPatient: false,
+              communicateToDoctor: true,
+              ...linkOf(resource.about?.[0]?.reference)
+            });
+          }
+          break;
+        }
+      }
+    }
+
+    return data;
+  }
+
+  /**
+   * Creates a new review with the content of a validated bundle, one record at a time through
+   * the regular add endpoints (like a follow-up review)
+   */
+  importBundle(apbNumber: string, bundle: FhirBundle): Observable<FhirImportResult> {
+    const data = this.readBundle(bundle);
+
+    return this.apiService.createMedicationReview(apbNumber).pipe(
+      switchMap(context => {
+        const reviewId = context.medicationReviewId;
+        const records: Observable<unknown>[] = [
+          ...data.medications.map(medication =>
+            this.apiService.addMedication(apbNumber, reviewId, this.reviewComparison.copyOfMedication({ medicationId: '', ...medication }))),
+          ...data.contraindications.map(contraindication =>
+            this.apiService.addContraindication(apbNumber, reviewId, contraindication)),
+          ...data.labValues.map(labValue =>
+            this.apiService.addLabValue(apbNumber, reviewId, labValue)),
+          ...data.notes.map(note =>
+            this.apiService.addReviewNote(apbNumber, reviewId, note))
+        ];
+
+        // One at a time, so the review keeps the order of the bundle
+        const addAll = from(records).pipe(
+          concatMap(request => request.pipe(map(() => true), catchError(() => of(false)))),
+          toArray()
+        );
+
+        return this.apiService.updatePatient({ apbNumber, patientId: context.patientId, ...data.patient }).pipe(
+          catchError(() => of(null)),
+          switchMap(() => this.apiService.updateMedicationReview({
+            apbNumber, medicationReviewId: reviewId, patientId: context.patientId, ...data.review
+          }).pipe(catchError(() => of(null)))),
+          switchMap(() => addAll),
+          map(outcomes => ({
+            context: {
+              ...context,
+              patient: { ...context.patient, ...data.patient },
+              review: { ...context.review, ...data.review }
+            },
+            imported: outcomes.filter(Boolean).length,
+            failed: outcomes.filter(outcome => !outcome).length
+          }))
+        );
+      })
+    );
+  }
+
+  private toMedication(statement: FhirMedicationStatement): MedicationValues | null {
+    if (['entered-in-error', 'not-taken'].includes(statement.status)) {
+      return null;
+    }
+
+    const concept = statement.medicationCodeableConcept;
+    const cnk = concept.coding?.find(coding => coding.system === FHIR_CNK_SYSTEM)?.code;
+    const vmp = concept.coding?.find(coding => coding.system === FHIR_VMP_SYSTEM)?.code;
+    const status: MedicationStatus = ['stopped', 'completed'].includes(statement.status)
+      ? 'stopped'
+      : statement.status === 'on-hold' ? 'paused' : 'active';
+    const dosage = statement.dosage ?? [];
+
+    const slots: Partial<Record<IntakeSlot, number>> = {};
+    for (const line of dosage) {
+      const units = line.doseAndRate?.[0]?.doseQuantity?.value ?? 1;
+      const repeat = line.timing?.repeat;
+      const lineSlots = repeat?.when?.length
+        ? repeat.when.map(timing => TIMING_SLOTS[timing]).filter(Boolean)
+        : repeat?.periodUnit === 'h' ? [] : DAILY_SLOTS[repeat?.frequency ?? 0] ?? [];
+      for (const slot of lineSlots) {
+        slots[slot] = (slots[slot] ?? 0) + units;
+      }
+    }
+
+    return {
+      name: this.textOf(concept) || null,
+      cnk: cnk && /^\d+$/.test(cnk) ? Number(cnk) : null,
+      vmp: vmp && /^\d+$/.test(vmp) ? Number(vmp) : null,
+      indication: this.textOf(statement.reasonCode?.[0]) || null,
+      asNeeded: dosage.some(line => line.asNeededBoolean),
+      dosageRegimen: this.regimenOf(statement),
+      status,
+      startDate: statement.effectivePeriod?.start?.substring(0, 10) ?? null,
+      stopDate: status === 'stopped' ? statement.effectivePeriod?.end?.substring(0, 10) ?? null : null,
+      changeReason: this.textOf(statement.statusReason?.[0]) || null,
+      instructions: dosage.map(line => line.patientInstruction).filter(Boolean).join(' · ') || null,
+      ...Object.fromEntries(SLOT_TIMINGS.map(([slot]) => [slot, slots[slot] ?? null]))
+    };
+  }
+
+  private regimenOf(statement: FhirMedicationStatement): DosageRegimen | null {
+    const stored = statement.extension?.find(extension => extension.url === REGIMEN_EXTENSION)?.valueString;
+    if (stored) {
+      try {
+        const regimen = JSON.parse(stored);
+        if (regimen && typeof regimen.periodicity === 'string') {
+          return regimen;
+        }
+      } catch {
+        // Fall back to the timing
+      }
+    }
+
+    const repeat = statement.dosage?.find(line => line.timing?.repeat)?.timing?.repeat;
+    if (!repeat) {
+      return null;
+    }
+    const bounds = {
+      startDate: repeat.boundsPeriod?.start?.substring(0, 10) ?? null,
+      endDate: repeat.boundsPeriod?.end?.substring(0, 10) ?? null
+    };
+    const period = repeat.period ?? 1;
+
+    if (repeat.dayOfWeek?.length) {
+      return { periodicity: 'weekdays', weekdays: repeat.dayOfWeek.map(day => WEEKDAYS.indexOf(day) + 1), ...bounds };
+    }
+    if (repeat.periodUnit === 'h') {
+      return { periodicity: 'interval', intervalHours: period / (repeat.frequency ?? 1), unitsPerIntake: statement.dosage?.[0]?.doseAndRate?.[0]?.doseQuantity?.value ?? 1, ...bounds };
+    }
+    const days = repeat.periodUnit === 'wk' ? period * 7 : repeat.periodUnit === 'd' ? period : 1;
+    if (days > 1) {
+      return { periodicity: 'every_n_days', everyNDays: days, ...bounds };
+    }
+    return bounds.startDate || bounds.endDate ? { periodicity: 'daily', ...bounds } : null;
+  }
+
+  private textOf(concept: FhirCodeableConcept | undefined): string {
+    return concept?.text || concept?.coding?.find(coding => coding.display)?.display || concept?.coding?.[0]?.code || '';
+  }
+
+  private cnkOf(cnk: number): string {
+    return String(cnk).padStart(7, '0');
+  }
+
+  // FHIR does not allow empty elements, so undefined members are left out
+  private withoutEmpty<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, item]) => item !== undefined)) as T;
+  }
+}
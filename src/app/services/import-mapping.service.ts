@@ -0,0 +1,445 @@
+import { Injectable } from '@angular/core';
+import * as XLSX from 'xlsx';
+import { PosologyParserService } from './posology-parser.service';
+import { ImportedField, IncomingMedication } from './medication-import-diff.service';
+
+export type IntakeField =
+  'unitsBeforeBreakfast' | 'unitsDuringBreakfast' | 'unitsBeforeLunch' | 'unitsDuringLunch' |
+  'unitsBeforeDinner' | 'unitsDuringDinner' | 'unitsAtBedtime';
+
+/**
+ * What a column of the file holds. `posology` is a free-text notation ("1-0-1", "2x/dag 1 co")
+ * that is parsed into the intake fields.
+ */
+export type ImportField = 'ignore' | 'name' | 'cnk' | 'activeIngredient' | 'indication' | 'posology' | 'asNeeded' | IntakeField;
+
+export type ImportDelimiter = ',' | ';' | '\t';
+
+export interface ImportColumnMapping {
+  index: number;
+  header: string;
+  field: ImportField;
+}
+
+/**
+ * The layout of the export of one pharmacy system, reused for every file it produces
+ */
+export interface ImportProfile {
+  name: string;
+  delimiter: ImportDelimiter | null;     // Null: detected from the file
+  sheetName: string | null;              // Null: the first sheet
+  headerRow: number;                     // 1-based, exports often start with a title block
+  columns: ImportColumnMapping[];
+}
+
+/**
+ * A selected file, read once: the text of a CSV file or the workbook of an Excel file
+ */
+export interface ImportSource {
+  fileName: string;
+  text: string | null;
+  workbook: XLSX.WorkBook | null;
+  sheetNames: string[];
+}
+
+export interface ImportTable {
+  headers: string[];
+  rows: string[][];
+  rowNumbers: number[];                  // Row number in the file of each row
+}
+
+export interface MappedMedicationRow {
+  rowNumber: number;
+  name: string;
+  cnk: string | null;
+  activeIngredient: string | null;
+  indication: string | null;
+  posology: string | null;
+  posologyUnderstood: boolean;
+  asNeeded: boolean;
+  unitsBeforeBreakfast: number | null;
+  unitsDuringBreakfast: number | null;
+  unitsBeforeLunch: number | null;
+  unitsDuringLunch: number | null;
+  unitsBeforeDinner: number | null;
+  unitsDuringDinner: number | null;
+  unitsAtBedtime: number | null;
+}
+
+export const IMPORT_FIELDS: ImportField[] = [
+  'ignore', 'name', 'cnk', 'activeIngredient', 'indication', 'posology', 'asNeeded',
+  'unitsBeforeBreakfast', 'unitsDuringBreakfast', 'unitsBeforeLunch', 'unitsDuringLunch',
+  'unitsBeforeDinner', 'unitsDuringDinner', 'unitsAtBedtime'
+];
+
+const INTAKE_FIELDS: IntakeField[] = [
+  'unitsBeforeBreakfast', 'unitsDuringBreakfast', 'unitsBeforeLunch', 'unitsDuringLunch',
+  'unitsBeforeDinner', 'unitsDuringDinner', 'unitsAtBedtime'
+];
+
+// Headers of the file sent to the backend: the medication fields, so nothing is left to guess
+const OUTPUT_FIELDS: (keyof MappedMedicationRow)[] = ['name', 'cnk', 'indication', 'asNeeded', ...INTAKE_FIELDS];
+
+const STORAGE_KEY = 'mr.importProfiles';
+
+// Header words (nl, fr, en) used to suggest a mapping when no profile fits the file
+const HEADER_HINTS: [ImportField, RegExp][] = [
+  ['cnk', /\bcnk\b/],
+  ['activeIngredient', /werkzame|actieve? (?:stof|bestanddeel)|active ingredient|principe actif|substance|molec/],
+  ['indication', /indica/],
+  ['posology', /posolog|dosering|dosage|gebruik|schema|usage/],
+  ['asNeeded', /indien nodig|zo nodig|as needed|prn|si n[ée]cessaire|au besoin/],
+  ['unitsBeforeBreakfast', /voor (?:het )?ontbijt|before breakfast|avant (?:le )?petit/],
+  ['unitsDuringBreakfast', /ontbijt|ochtend|morgen|breakfast|morning|petit[- ]d[ée]jeuner|matin/],
+  ['unitsBeforeLunch', /voor (?:de |het )?(?:middag|lunch)|before lunch|avant (?:le )?d[ée]jeuner/],
+  ['unitsDuringLunch', /middag|lunch|noon|d[ée]jeuner|midi/],
+  ['unitsBeforeDinner', /voor (?:het )?(?:avondmaal|diner)|before dinner|avant (?:le )?(?:d[iî]ner|souper)/],
+  ['unitsDuringDinner', /avond|diner|dinner|evening|d[iî]ner|souper|soir/],
+  ['unitsAtBedtime', /slapen|nacht|bedtijd|bedtime|night|coucher|nuit/],
+  ['name', /naam|name|nom|medica|geneesmiddel|product|m[ée]dicament|specialit/]
+];
+
+const NOT_AS_NEEDED = ['', '0', 'nee', 'neen', 'no', 'non', 'false', 'n'];
+
+/**
+ * Maps the columns of a CSV or Excel export onto the medication fields, so files of any
+ * pharmacy system can be imported. The layout (delimiter, sheet, header row and columns) is
+ * kept as a named profile per export source in localStorage; profiles hold no patient data.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ImportMappingService {
+
+  constructor(private posologyParser: PosologyParserService) {}
+
+  // ---------------------------------------------------------------------------
+  // Reading the file
+  // ---------------------------------------------------------------------------
+
+  async read(file: File): Promise<ImportSource> {
+    const buffer = await file.arrayBuffer();
+    if (/\.xlsx?$/i.test(file.name)) {
+      const workbook = XLSX.read(buffer, { type: 'array', cellDates: true, cellNF: false, cellText: false });
+      return { fileName: file.name, text: null, workbook, sheetNames: workbook.SheetNames };
+    }
+    return { fileName: file.name, text: this.decode(buffer), workbook: null, sheetNames: [] };
+  }
+
+  /**
+   * The most frequent of `;`, `,` and tab on the first lines
+   */
+  detectDelimiter(source: ImportSource): ImportDelimiter {
+    const sample = (source.text ?? '').split(/\r?\n/).filter(line => line.trim()).slice(0, 10).join('\n');
+    const count = (delimiter: string) => sample.split(delimiter).length - 1;
+    return ([';', '\t', ','] as ImportDelimiter[]).reduce((best, delimiter) => count(delimiter) > count(best) ? delimiter : best, ';');
+  }
+
+  /**
+   * The rows below the header row, without the empty ones
+   */
+  table(source: ImportSource, layout: Pick<ImportProfile, 'delimiter' | 'sheetName' | 'headerRow'>): ImportTable {
+    const rows = this.rows(source, layout);
+    const headerIndex = Math.min(Math.max(layout.headerRow, 1), Math.max(rows.length, 1)) - 1;
+    const headers = (rows[headerIndex] ?? []).map(header => header.trim());
+    const body = rows
+      .map((cells, index) => ({ cells, rowNumber: index + 1 }))
+      .slice(headerIndex + 1)
+      .filter(row => row.cells.some(cell => cell.trim()));
+    const width = Math.max(headers.length, ...body.map(row => row.cells.length));
+
+    return {
+      headers: Array.from({ length: width }, (_, index) => headers[index] ?? ''),
+      rows: body.map(row => row.cells),
+      rowNumbers: body.map(row => row.rowNumber)
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Mapping
+  // ---------------------------------------------------------------------------
+
+  /**
+   * A mapping guessed from the header names; every field is only suggested once
+   */
+  suggest(headers: string[]): ImportColumnMapping[] {
+    const used = new Set<ImportField>();
+    return headers.map((header, index) => {
+      const text = header.toLowerCase();
+      const hint = HEADER_HINTS.find(([field, pattern]) => !used.has(field) && pattern.test(text));
+      const field = hint?.[0] ?? 'ignore';
+      if (field !== 'ignore') {
+        used.add(field);
+      }
+      return { index, header, field };
+    });
+  }
+
+  /**
+   * The profile's mapping on the columns of this file: columns are found by header name,
+   * so a reordered export still fits; by position when the columns have no header names
+   */
+  applyProfile(profile: ImportProfile, headers: string[]): ImportColumnMapping[] {
+    const byHeader = new Map(profile.columns.filter(column => column.header).map(column => [this.key(column.header), column.field]));
+    const byIndex = new Map(profile.columns.map(column => [column.index, column.field]));
+    return headers.map((header, index) => {
+      const field = header && byHeader.size ? byHeader.get(this.key(header)) : byIndex.get(index);
+      return { index, header, field: field ?? 'ignore' };
+    });
+  }
+
+  /**
+   * The saved profile made for files with these headers, if any
+   */
+  findProfile(profiles: ImportProfile[], headers: string[]): ImportProfile | null {
+    const present = new Set(headers.filter(Boolean).map(header => this.key(header)));
+    return profiles.find(profile => {
+      const mapped = profile.columns.filter(column => column.field !== 'ignore' && column.header);
+      return mapped.length > 0 && mapped.every(column => present.has(this.key(column.header)));
+    }) ?? null;
+  }
+
+  /**
+   * The medications in the table; several columns with the same field are added up (numbers)
+   * or joined (text), e.g. an "after breakfast" column mapped onto during breakfast
+   */
+  apply(table: ImportTable, columns: ImportColumnMapping[]): MappedMedicationRow[] {
+    return table.rows
+      .map((cells, index) => this.mapRow(cells, columns, table.rowNumbers[index]))
+      .filter(row => row.name || row.cnk);
+  }
+
+  /**
+   * A CSV file with the medication fields as headers, for the import endpoint
+   */
+  toCsvFile(rows: MappedMedicationRow[], fileName: string): File {
+    const clean = (value: unknown) => value === null || value === undefined ? '' : String(value).replace(/\s*[\r\n]+\s*/g, ' ').replace(/;/g, ',').trim();
+    const lines = [
+      OUTPUT_FIELDS.join(';'),
+      ...rows.map(row => OUTPUT_FIELDS.map(field => clean(row[field])).join(';'))
+    ];
+    return new File([lines.join('\r\n')], fileName.replace(/\.(csv|xlsx|xls)$/i, '') + '.csv', { type: 'text/csv' });
+  }
+
+  /**
+   * The row as a medication to compare with the current list; `vmp` is the VMP group of the
+   * row's CNK, when it is known. A CSV export has no status, dates or regimen, so those are not
+   * among the provided fields and an update never clears them.
+   */
+  toIncoming(row: MappedMedicationRow, vmp: number | null): IncomingMedication {
+    const unitsGiven = INTAKE_FIELDS.some(field => row[field] !== null);
+    const values: IncomingMedication['values'] = {
+      name: row.name || null,
+      cnk: row.cnk ? Number(row.cnk) : null,
+      vmp,
+      activeIngredient: row.activeIngredient,
+      indication: row.indication,
+      asNeeded: row.asNeeded,
+      ...Object.fromEntries(INTAKE_FIELDS.map(field => [field, row[field]]))
+    };
+    const given = (['name', 'cnk', 'vmp', 'activeIngredient', 'indication'] as ImportedField[]).filter(field => values[field] !== null);
+    return {
+      values,
+      // The intake moments go together: "1-0-0" also says there is no evening dose
+      provided: unitsGiven || row.asNeeded ? [...given, 'asNeeded', ...INTAKE_FIELDS] : given,
+      warnings: row.posology && !row.posologyUnderstood && !unitsGiven ? ['posology_not_read'] : [],
+      posologyText: row.posology
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Profiles
+  // ---------------------------------------------------------------------------
+
+  getProfiles(): ImportProfile[] {
+    try {
+      const profiles = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+      return Array.isArray(profiles) ? profiles : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Saves the profile, replacing the one with the same name
+   */
+  saveProfile(profile: ImportProfile): ImportProfile[] {
+    const profiles = [
+      ...this.getProfiles().filter(item => this.key(item.name) !== this.key(profile.name)),
+      { ...profile, columns: profile.columns.filter(column => column.field !== 'ignore') }
+    ].sort((a, b) => a.name.localeCompare(b.name));
+    this.store(profiles);
+    return profiles;
+  }
+
+  deleteProfile(name: string): ImportProfile[] {
+    const profiles = this.getProfiles().filter(profile => profile.name !== name);
+    this.store(profiles);
+    return profiles;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Helpers
+  // ---------------------------------------------------------------------------
+
+  private mapRow(cells: string[], columns: ImportColumnMapping[], rowNumber: number): MappedMedicationRow {
+    const row: MappedMedicationRow = {
+      rowNumber,
+      name: '',
+      cnk: null,
+      activeIngredient: null,
+      indication: null,
+      posology: null,
+      posologyUnderstood: false,
+      asNeeded: false,
+      unitsBeforeBreakfast: null,
+      unitsDuringBreakfast: null,
+      unitsBeforeLunch: null,
+      unitsDuringLunch: null,
+      unitsBeforeDinner: null,
+      unitsDuringDinner: null,
+      unitsAtBedtime: null
+    };
+    const join = (current: string | null, value: string) => current ? `${current} ${value}` : value;
+
+    for (const column of columns) {
+      const value = (cells[column.index] ?? '').trim();
+      if (!value) {
+        continue;
+      }
+      switch (column.field) {
+        case 'ignore':
+          break;
+        case 'name':
+          row.name = join(row.name, value);
+          break;
+        case 'cnk': {
+          const digits = value.replace(/\D/g, '');
+          row.cnk = digits ? digits.padStart(7, '0').slice(-7) : null;
+          break;
+        }
+        case 'activeIngredient':
+          row.activeIngredient = join(row.activeIngredient, value);
+          break;
+        case 'indication':
+          row.indication = join(row.indication, value.replace(/^indicatie\s*:\s*/i, ''));
+          break;
+        case 'posology':
+          row.posology = join(row.posology, value);
+          break;
+        case 'asNeeded':
+          row.asNeeded = row.asNeeded || !NOT_AS_NEEDED.includes(value.toLowerCase());
+          break;
+        default: {
+          const units = this.toUnits(value);
+          if (units !== null) {
+            row[column.field] = (row[column.field] ?? 0) + units;
+          }
+        }
+      }
+    }
+
+    // Columns with the units per moment win over the posology text
+    const parsed = this.posologyParser.parse(row.posology);
+    row.posologyUnderstood = !!parsed;
+    if (parsed && INTAKE_FIELDS.every(field => row[field] === null)) {
+      INTAKE_FIELDS.forEach(field => row[field] = parsed[field]);
+      row.asNeeded = row.asNeeded || parsed.asNeeded;
+    }
+    return row;
+  }
+
+  // "1", "1,5", "½", "1½", "1/2", "1 1/2"; null for anything else
+  private toUnits(value: string): number | null {
+    const text = value
+      .replace(/(\d)\s*½/g, '$1.5')
+      .replace(/½/g, '0.5')
+      .replace(/¼/g, '0.25')
+      .replace(/¾/g, '0.75')
+      .replace(',', '.')
+      .trim();
+    const mixed = text.match(/^(?:(\d+)\s+)?(\d+)\/(\d+)$/);
+    if (mixed) {
+      return Number(mixed[3]) ? Number(mixed[1] ?? 0) + Number(mixed[2]) / Number(mixed[3]) : null;
+    }
+    return /^\d+(?:\.\d+)?$/.test(text) ? Number(text) : null;
+  }
+
+  private rows(source: ImportSource, layout: Pick<ImportProfile, 'delimiter' | 'sheetName'>): string[][] {
+    if (source.workbook) {
+      const sheetName = layout.sheetName && source.workbook.Sheets[layout.sheetName] ? layout.sheetName : source.sheetNames[0];
+      const rows = XLSX.utils.sheet_to_json<unknown[]>(source.workbook.Sheets[sheetName], {
+        header: 1,
+        raw: false,
+        blankrows: false,
+        defval: ''
+      });
+      return rows.map(row => row.map(cell => String(cell ?? '')));
+    }
+    return this.parseDelimited(source.text ?? '', layout.delimiter ?? this.detectDelimiter(source));
+  }
+
+  // Quoted cells may hold the delimiter, doubled quotes and line breaks
+  private parseDelimited(text: string, delimiter: ImportDelimiter): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"' && !cell.trim()) {
+        quoted = true;
+        cell = '';
+      } else if (char === delimiter) {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+    if (cell || row.length) {
+      row.push(cell);
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  // Exports of older pharmacy systems are Windows-1252 rather than UTF-8
+  private decode(buffer: ArrayBuffer): string {
+    try {
+      return new TextDecoder('utf-8', { fatal: true }).decode(buffer).replace(/^\uFEFF/, '');
+    } catch {
+      return new TextDecoder('windows-1252').decode(buffer);
+    }
+  }
+
+  private key(header: string): string {
+    return header.trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+
+  private store(profiles: ImportProfile[]): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+    } catch (error) {
+      console.error('[Import] Failed to store the import profiles:', error);
+    }
+  }
+}
@@ -2,75 +2,10 @@ import { Injectable } from '@angular/core';
 import { BehaviorSubject, Observable } from 'rxjs';
 import { ApiService } from './api.service';
 import { StateService } from './state.service';
-import { Medication } from '../models/api.models';
+import { MedicationStatusService } from './medication-status.service';
+import { Medication, InteractionsResponse } from '../models/api.models';
 
-// APB Response Interfaces
-interface Participant {
-  id: string;
-  type: 'produ';
-  routeOfAdministrationCode?: string;
-}
-
-interface CodeDescription {
-  code: string;
-  description: string;
-}
-
-interface Substance {
-  code: string;
-  description: string;
-  routeOfAdministrations?: CodeDescription[];
-}
-
-interface DrugDrugInteraction {
-  interactionNumber: string;
-  isFoodDrugInteraction: boolean;
-  leftSubstance: Substance;
-  rightSubstance: Substance;
-  direction: CodeDescription;
-  sourceAssessment: CodeDescription | null;
-  leftParticipant: Participant;
-  rightParticipant: Participant;
-}
-
-interface InteractionMatch {
-  clinicalRelevance: CodeDescription;
-  interactions: DrugDrugInteraction[];
-}
-
-interface DrugFoodInteractionInfo {
-  interactionNumber: string;
-  leftSubstance: Substance;
-  rightSubstance: Substance;
-  direction: CodeDescription;
-  sourceAssessment: CodeDescription | null;
-}
-
-interface DrugFoodInteractionItem {
-  side: string;
-  interactionInformation: DrugFoodInteractionInfo;
-}
-
-interface DrugFoodInteractionGroup {
-  clinicalRelevance: CodeDescription;
-  interactions: DrugFoodInteractionItem[];
-}
-
-interface DrugFoodInteraction {
-  participant: Participant;
-  interactionGroups: DrugFoodInteractionGroup[];
-}
-
-interface InteractionsResult {
-  interactionMatches: InteractionMatch[];
-  drugFoodInteractions: DrugFoodInteraction[];
-}
-
-export interface InteractionsResponse {
-  language: string;
-  participants: Participant[];
-  result: InteractionsResult;
-}
+export type { InteractionsResponse };
 
 export interface InteractionsCacheData {
   response: InteractionsResponse | null;
@@ -97,7 +32,8 @@ export class InteractionsCacheService {
 
   constructor(
     private apiService: ApiService,
-    private stateService: StateService
+    private stateService: StateService,
+    private medicationStatus: MedicationStatusService
   ) {
     // Subscribe to medication changes, but only refresh if enabled
     this.stateService.medicationsChanged$.subscribe(() => {
@@ -144,7 +80,9 @@ export class InteractionsCacheService {
     // First load medications
     const apbNumber = this.stateService.apbNumber;
     this.apiService.getMedications(apbNumber, reviewId).subscribe({
-      next: (medications) => {
+      next: (allMedications) => {
+        // Stopped medications are documented in the review but no longer interact
+        const medications = this.medicationStatus.forChecks(allMedications);
         
         // Check if we have any medications with CNKs
         const cnks = medications
@@ -0,0 +1,336 @@
+import { Injectable } from '@angular/core';
+import { DosageRegimen, MedicationStatus } from '../models/api.models';
+import { ImportedField, IncomingMedication } from './medication-import-diff.service';
+import { PosologyParserService } from './posology-parser.service';
+
+type IntakeSlot =
+  'unitsBeforeBreakfast' | 'unitsDuringBreakfast' | 'unitsBeforeLunch' | 'unitsDuringLunch' |
+  'unitsBeforeDinner' | 'unitsDuringDinner' | 'unitsAtBedtime';
+
+type SlotUnits = Partial<Record<IntakeSlot, number>>;
+
+// CD-DAYPERIOD codes on the intake slots; moments between meals go to the slot before the next meal
+const DAY_PERIODS: Record<string, IntakeSlot> = {
+  beforebreakfast: 'unitsBeforeBreakfast',
+  duringbreakfast: 'unitsDuringBreakfast',
+  afterbreakfast: 'unitsDuringBreakfast',
+  breakfast: 'unitsDuringBreakfast',
+  morning: 'unitsDuringBreakfast',
+  betweenbreakfastandlunch: 'unitsBeforeLunch',
+  beforelunch: 'unitsBeforeLunch',
+  duringlunch: 'unitsDuringLunch',
+  afterlunch: 'unitsDuringLunch',
+  lunch: 'unitsDuringLunch',
+  midday: 'unitsDuringLunch',
+  afternoon: 'unitsBeforeDinner',
+  betweenlunchanddinner: 'unitsBeforeDinner',
+  beforedinner: 'unitsBeforeDinner',
+  duringdinner: 'unitsDuringDinner',
+  afterdinner: 'unitsDuringDinner',
+  dinner: 'unitsDuringDinner',
+  evening: 'unitsDuringDinner',
+  betweendinnerandsleep: 'unitsAtBedtime',
+  thehourofsleep: 'unitsAtBedtime',
+  night: 'unitsAtBedtime'
+};
+
+const WEEKDAYS: Record<string, number> = {
+  monday: 1, tuesday: 2, wednesday: 3, thursday: 4, friday: 5, saturday: 6, sunday: 7
+};
+
+// Second letter of a CD-PERIODICITY code: DT = every 2 days, WD = every 3 weeks, UV = every 4 hours, …
+const PERIOD_MULTIPLIERS: Record<string, number> = { '': 1, T: 2, D: 3, V: 4, Q: 5, Z: 6, A: 8, N: 9 };
+
+/**
+ * Reads KMEHR medication schemes (the Vitalink medicationscheme transactions GPs and pharmacists
+ * exchange) into medication values: the product (CNK, or the VMP group of a prescription by
+ * active ingredient), the regimen with day periods, weekdays and periodicity, the begin and
+ * end moments, suspensions and the instructions for the patient. The file is parsed locally.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class KmehrImportService {
+
+  constructor(private posologyParser: PosologyParserService) {}
+
+  /**
+   * The medications of the scheme; throws when the text is not a KMEHR message
+   */
+  parse(xml: string, today: string = this.today()): IncomingMedication[] {
+    const document = new DOMParser().parseFromString(xml, 'application/xml');
+    const root = document.documentElement;
+    if (document.getElementsByTagName('parsererror').length > 0 || root?.localName !== 'kmehrmessage') {
+      throw new Error('Not a KMEHR message');
+    }
+
+    const transactions = this.descendants(root, 'transaction');
+    const suspensions = transactions.filter(transaction => this.code(transaction, 'CD-TRANSACTION') === 'treatmentsuspension');
+
+    return transactions
+      .filter(transaction => !suspensions.includes(transaction))
+      .flatMap(transaction => this.children(transaction, 'item')
+        .filter(item => this.code(item, 'CD-ITEM') === 'medication')
+        .map(item => this.readMedication(item, this.suspensionOf(transaction, suspensions), today)));
+  }
+
+  private readMedication(item: Element, suspension: Element | null, today: string): IncomingMedication {
+    const warnings: string[] = [];
+    const content = this.children(item, 'content');
+    const product = content.map(element => this.child(element, 'medicinalproduct')).find(Boolean) ?? null;
+    const substance = content.map(element => this.child(element, 'substanceproduct')).find(Boolean) ?? null;
+    const compound = content.map(element => this.child(element, 'compoundprescription')).find(Boolean) ?? null;
+
+    const cnk = product ? this.codeValue(product, ['intendedcd', 'deliveredcd'], 'CD-DRUG-CNK') : null;
+    const vmp = substance ? this.codeValue(substance, ['intendedcd'], 'CD-VMPGROUP') ?? this.codeValue(substance, ['intendedcd'], 'CD-VMP') : null;
+    const name = this.text(product, 'intendedname') || this.text(substance, 'intendedname')
+      || this.text(compound, 'magistraltext') || this.text(compound, 'text') || '';
+
+    const startDate = this.date(this.child(item, 'beginmoment'));
+    const endDate = this.date(this.child(item, 'endmoment'));
+    const posologyText = this.text(this.child(item, 'posology'), 'text') || null;
+    const instructionForPatient = this.text(item, 'instructionforpatient') || null;
+
+    // Intake slots and regimen from the structured posology, else from the posology text
+    const periodicity = this.code(this.child(this.child(item, 'frequency'), 'periodicity'), 'CD-PERIODICITY');
+    const regimen = this.child(item, 'regimen');
+    let slots: SlotUnits = {};
+    let dosageRegimen: DosageRegimen | null = null;
+    let asNeeded = false;
+    let textUnderstood = false;
+
+    if (regimen) {
+      const read = this.readRegimen(regimen, periodicity, startDate, warnings);
+      slots = read.slots;
+      dosageRegimen = read.regimen;
+    } else if (posologyText) {
+      const parsed = this.posologyParser.parse(posologyText);
+      textUnderstood = !!parsed;
+      if (parsed) {
+        const { asNeeded: parsedAsNeeded, ...units } = parsed;
+        slots = Object.fromEntries(Object.entries(units).filter(([, value]) => value)) as SlotUnits;
+        asNeeded = parsedAsNeeded;
+      } else {
+        warnings.push('posology_text_only');
+      }
+    } else {
+      warnings.push('no_posology');
+    }
+
+    // The planned end of the treatment; one in the past means it was stopped
+    if (endDate) {
+      dosageRegimen = { ...(dosageRegimen ?? { periodicity: 'daily' }), endDate };
+    }
+    let status: MedicationStatus = endDate && endDate < today ? 'stopped' : 'active';
+    let stopDate = status === 'stopped' ? endDate : null;
+    let changeReason: string | null = null;
+
+    const lifecycle = this.code(this.child(item, 'lifecycle'), 'CD-LIFECYCLE');
+    if (lifecycle === 'stopped' || lifecycle === 'suspended') {
+      status = lifecycle === 'stopped' ? 'stopped' : 'paused';
+    }
+    if (suspension) {
+      const applied = this.applySuspension(suspension, today);
+      if (applied) {
+        status = applied.status;
+        stopDate = applied.status === 'stopped' ? applied.from : stopDate;
+        changeReason = applied.reason;
+      }
+    }
+
+    // Posology text that could not be mapped stays with the instructions, so nothing is lost
+    const instructions = [
+      regimen || textUnderstood ? null : posologyText,
+      instructionForPatient
+    ].filter(Boolean).join(' · ') || null;
+
+    const values: IncomingMedication['values'] = {
+      name,
+      cnk: cnk ? Number(cnk) : null,
+      vmp: vmp && /^\d+$/.test(vmp) ? Number(vmp) : null,
+      asNeeded,
+      dosageRegimen,
+      status,
+      startDate,
+      stopDate,
+      changeReason,
+      instructions,
+      unitsBeforeBreakfast: slots.unitsBeforeBreakfast ?? null,
+      unitsDuringBreakfast: slots.unitsDuringBreakfast ?? null,
+      unitsBeforeLunch: slots.unitsBeforeLunch ?? null,
+      unitsDuringLunch: slots.unitsDuringLunch ?? null,
+      unitsBeforeDinner: slots.unitsBeforeDinner ?? null,
+      unitsDuringDinner: slots.unitsDuringDinner ?? null,
+      unitsAtBedtime: slots.unitsAtBedtime ?? null
+    };
+    // A medication scheme describes the whole treatment, so it holds every field it maps
+    return { values, provided: Object.keys(values) as ImportedField[], warnings, posologyText };
+  }
+
+  /**
+   * A regimen is a sequence of an optional day (daynumber, date or weekday) followed by
+   * daytime/quantity pairs. The intake slots hold one day; days with other doses are reported.
+   */
+  private readRegimen(regimen: Element, periodicity: string | null, startDate: string | null, warnings: string[]): { slots: SlotUnits; regimen: DosageRegimen | null } {
+    const days: { day: string; weekday: number | null; slots: SlotUnits }[] = [];
+    let current: { day: string; weekday: number | null; slots: SlotUnits } | null = null;
+    let slot: IntakeSlot | null = null;
+
+    for (const element of Array.from(regimen.children)) {
+      switch (element.localName) {
+        case 'daynumber':
+        case 'date':
+        case 'weekday': {
+          const weekday = element.localName === 'weekday'
+            ? WEEKDAYS[this.code(element, 'CD-WEEKDAY') ?? ''] ?? null
+            : element.localName === 'daynumber' ? this.weekdayOfDayNumber(Number(element.textContent), startDate, periodicity) : null;
+          current = { day: `${element.localName}:${element.textContent?.trim()}`, weekday, slots: {} };
+          days.push(current);
+          break;
+        }
+        case 'daytime':
+          slot = this.slotOf(element);
+          break;
+        case 'quantity': {
+          const units = Number(this.text(element, 'decimal'));
+          if (!current) {
+            current = { day: '', weekday: null, slots: {} };
+            days.push(current);
+          }
+          if (slot && units > 0) {
+            current.slots[slot] = (current.slots[slot] ?? 0) + units;
+          }
+          slot = null;
+          break;
+        }
+      }
+    }
+
+    const first = days[0]?.slots ?? {};
+    if (days.some(day => JSON.stringify(day.slots) !== JSON.stringify(first))) {
+      warnings.push('varying_doses');
+    }
+    const weekdays = [...new Set(days.map(day => day.weekday).filter((weekday): weekday is number => weekday !== null))];
+    return { slots: first, regimen: this.regimenOf(periodicity, weekdays, first, startDate, warnings) };
+  }
+
+  private regimenOf(periodicity: string | null, weekdays: number[], slots: SlotUnits, startDate: string | null, warnings: string[]): DosageRegimen | null {
+    if (!periodicity || periodicity === 'D') {
+      return weekdays.length ? { periodicity: 'weekdays', weekdays: weekdays.sort() } : null;
+    }
+    const unit = periodicity.charAt(0);
+    const multiplier = PERIOD_MULTIPLIERS[periodicity.substring(1)];
+    if (!multiplier || !['U', 'D', 'W'].includes(unit)) {
+      // Monthly and yearly intakes do not fit the regimen
+      warnings.push('unsupported_periodicity');
+      return null;
+    }
+
+    if (unit === 'U') {
+      const units = Object.values(slots).find(Boolean) ?? 1;
+      return { periodicity: 'interval', intervalHours: multiplier, unitsPerIntake: units };
+    }
+    if (unit === 'W' && multiplier === 1 && weekdays.length) {
+      return { periodicity: 'weekdays', weekdays: weekdays.sort() };
+    }
+    const everyNDays = unit === 'W' ? multiplier * 7 : multiplier;
+    return everyNDays === 1 ? null : { periodicity: 'every_n_days', everyNDays, startDate };
+  }
+
+  /**
+   * Status from the suspension of a medication scheme element: stopped from its begin moment,
+   * or paused while it lasts
+   */
+  private applySuspension(suspension: Element, today: string): { status: MedicationStatus; from: string | null; reason: string | null } | null {
+    const items = this.children(suspension, 'item');
+    const medication = items.find(item => this.code(item, 'CD-ITEM') === 'medication');
+    const lifecycle = medication ? this.code(this.child(medication, 'lifecycle'), 'CD-LIFECYCLE') : null;
+    const from = medication ? this.date(this.child(medication, 'beginmoment')) : null;
+    const until = medication ? this.date(this.child(medication, 'endmoment')) : null;
+    const reasonItem = items.find(item => this.code(item, 'CD-ITEM') === 'transactionreason');
+    const reason = reasonItem ? this.text(this.child(reasonItem, 'content'), 'text') || null : null;
+
+    if (from && from > today) {
+      return null;
+    }
+    if (lifecycle === 'stopped') {
+      return { status: 'stopped', from, reason };
+    }
+    if (lifecycle === 'suspended' && (!until || until >= today)) {
+      return { status: 'paused', from, reason };
+    }
+    return null;
+  }
+
+  // A suspension links to the scheme element it applies to: <lnk TYPE="isplannedfor" URL="//transaction[id[@S='ID-KMEHR']='2']"/>
+  private suspensionOf(transaction: Element, suspensions: Element[]): Element | null {
+    const id = this.children(transaction, 'id').find(element => element.getAttribute('S') === 'ID-KMEHR')?.textContent?.trim();
+    if (!id) {
+      return null;
+    }
+    return suspensions.find(suspension => this.descendants(suspension, 'lnk')
+      .some(link => new RegExp(`=\\s*'${id}'\\s*\\]`).test(link.getAttribute('URL') ?? ''))) ?? null;
+  }
+
+  private slotOf(daytime: Element): IntakeSlot | null {
+    const period = this.code(this.child(daytime, 'dayperiod'), 'CD-DAYPERIOD');
+    if (period) {
+      return DAY_PERIODS[period] ?? null;
+    }
+    const hour = Number(this.text(daytime, 'time').split(':')[0]);
+    if (isNaN(hour) || !this.text(daytime, 'time')) {
+      return null;
+    }
+    return hour < 10 ? 'unitsDuringBreakfast' : hour < 15 ? 'unitsDuringLunch' : hour < 20 ? 'unitsDuringDinner' : 'unitsAtBedtime';
+  }
+
+  // Day 1 of a weekly regimen is the weekday of the begin moment
+  private weekdayOfDayNumber(dayNumber: number, startDate: string | null, periodicity: string | null): number | null {
+    if (periodicity !== 'W' || !startDate || !dayNumber) {
+      return null;
+    }
+    const startWeekday = (new Date(`${startDate}T00:00:00`).getDay() + 6) % 7 + 1;
+    return (startWeekday + dayNumber - 2) % 7 + 1;
+  }
+
+  // ---------------------------------------------------------------------------
+  // XML helpers (namespace agnostic: files differ in the prefixes they use)
+  // ---------------------------------------------------------------------------
+
+  private children(element: Element | null, name: string): Element[] {
+    return element ? Array.from(element.children).filter(child => child.localName === name) : [];
+  }
+
+  private child(element: Element | null, name: string): Element | null {
+    return this.children(element, name)[0] ?? null;
+  }
+
+  private descendants(element: Element, name: string): Element[] {
+    return Array.from(element.getElementsByTagNameNS('*', name));
+  }
+
+  private text(element: Element | null, name: string): string {
+    return this.child(element, name)?.textContent?.trim() ?? '';
+  }
+
+  // The <cd S="…"> of an element with the given scheme
+  private code(element: Element | null, scheme: string): string | null {
+    return this.children(element, 'cd').find(cd => cd.getAttribute('S') === scheme)?.textContent?.trim() ?? null;
+  }
+
+  private codeValue(element: Element, names: string[], scheme: string): string | null {
+    return names.flatMap(name => this.children(element, name))
+      .find(code => code.getAttribute('S') === scheme)?.textContent?.trim() || null;
+  }
+
+  private date(moment: Element | null): string | null {
+    const date = this.text(moment, 'date');
+    return /^\d{4}-\d{2}-\d{2}/.test(date) ? date.substring(0, 10) : null;
+  }
+
+  private today(): string {
+    const now = new Date();
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+  }
+}
@@ -0,0 +1,103 @@
+import { of } from 'rxjs';
+import { Medication } from '../models/api.models';
+import { DosageRegimenService } from './dosage-regimen.service';
+import { ImportMappingService, ImportTable } from './import-mapping.service';
+import { IncomingMedication, MedicationImportDiffService } from './medication-import-diff.service';
+import { MedicationStatusService } from './medication-status.service';
+import { MedicationUndoService } from './medication-undo.service';
+import { PosologyParserService } from './posology-parser.service';
+import { ReviewComparisonService } from './review-comparison.service';
+
+describe('MedicationImportDiffService', () => {
+  const transloco = { translate: (key: string) => key } as any;
+  let medicationUndo: jasmine.SpyObj<MedicationUndoService>;
+  let service: MedicationImportDiffService;
+  let mapping: ImportMappingService;
+
+  const table: ImportTable = {
+    headers: ['Naam', 'CNK', 'Posologie'],
+    rows: [
+      ['Amlodipine 5 mg', '1234567', '1-0-0'],
+      ['Alendronaat 70 mg', '2345678', '1-0-0'],
+      ['Paracetamol 1 g', '3456789', '1-1-1']
+    ],
+    rowNumbers: [2, 3, 4]
+  };
+
+  // The rows of the table as the CSV import would compare them
+  const incomingOf = (rows: string[][] = table.rows): IncomingMedication[] => {
+    const columns = mapping.suggest(table.headers);
+    return mapping.apply({ ...table, rows }, columns).map(row => mapping.toIncoming(row, null));
+  };
+
+  // The medications as saved by the first import, then completed by the pharmacist
+  const current = (): Medication[] => [
+    { medicationId: 'm1', name: 'Amlodipine 5 mg', cnk: 1234567, unitsDuringBreakfast: 1, status: 'active' },
+    {
+      medicationId: 'm2', name: 'Alendronaat 70 mg', cnk: 2345678, unitsDuringBreakfast: 1, status: 'active',
+      dosageRegimen: { periodicity: 'weekdays', weekdays: [1] }
+    },
+    {
+      medicationId: 'm3', name: 'Paracetamol 1 g', cnk: 3456789, unitsDuringBreakfast: 1, unitsDuringLunch: 1, unitsDuringDinner: 1,
+      status: 'paused', stopDate: '2026-01-10', changeReason: 'Hospital stay', specialDescription: 'max 3 g a day'
+    }
+  ];
+
+  beforeEach(() => {
+    medicationUndo = jasmine.createSpyObj<MedicationUndoService>('MedicationUndoService', ['addMedications', 'updateMedication']);
+    medicationUndo.addMedications.and.returnValue(of(0));
+    medicationUndo.updateMedication.and.returnValue(of({} as any));
+
+    const medicationStatus = new MedicationStatusService({} as any, transloco);
+    const reviewComparison = new ReviewComparisonService({} as any, {} as any, new DosageRegimenService(transloco), medicationStatus);
+    service = new MedicationImportDiffService(medicationUndo, medicationStatus, reviewComparison, transloco);
+    mapping = new ImportMappingService(new PosologyParserService(transloco));
+  });
+
+  it('changes nothing when the same file is imported twice', () => {
+    const diff = service.diff(current(), incomingOf());
+
+    expect(diff.entries.map(entry => entry.kind)).toEqual(['unchanged', 'unchanged', 'unchanged']);
+    expect(diff.entries.every(entry => entry.decision === 'skip')).toBeTrue();
+
+    service.apply('apb', 'review', diff).subscribe(result => {
+      expect(result).toEqual({ added: 0, updated: 0, failed: 0 });
+    });
+    expect(medicationUndo.addMedications).not.toHaveBeenCalled();
+    expect(medicationUndo.updateMedication).not.toHaveBeenCalled();
+  });
+
+  it('only updates the intake moments when a CSV row changes the dosage', () => {
+    const rows = [['Alendronaat 70 mg', '2345678', '0-0-1']];
+    const diff = service.diff(current(), incomingOf(rows));
+
+    expect(diff.entries[0].kind).toBe('changed');
+    service.apply('apb', 'review', diff).subscribe();
+
+    const [, , medicationId, changes] = medicationUndo.updateMedication.calls.mostRecent().args;
+    expect(medicationId).toBe('m2');
+    expect(changes).toEqual(jasmine.objectContaining({ unitsDuringBreakfast: null, unitsDuringDinner: 1 }));
+    expect(Object.keys(changes)).not.toContain('dosageRegimen');
+    expect(Object.keys(changes)).not.toContain('stopDate');
+    expect(Object.keys(changes)).not.toContain('changeReason');
+  });
+
+  it('leaves the dosage alone when a CSV row has no posology', () => {
+    const rows = [['Paracetamol 1 g', '3456789', '']];
+    const diff = service.diff(current(), incomingOf(rows));
+
+    expect(diff.entries[0].kind).toBe('unchanged');
+  });
+
+  it('adds rows that match nothing in the current list', () => {
+    const rows = [['Bisoprolol 5 mg', '7654321', '1-0-0']];
+    medicationUndo.addMedications.and.returnValue(of(1));
+    const diff = service.diff(current(), incomingOf(rows));
+
+    expect(diff.entries[0].decision).toBe('add');
+    service.apply('apb', 'review', diff).subscribe(result => expect(result.added).toBe(1));
+    expect(medicationUndo.addMedications).toHaveBeenCalledWith('apb', 'review', [
+      jasmine.objectContaining({ name: 'Bisoprolol 5 mg', cnk: 7654321, unitsDuringBreakfast: 1 })
+    ]);
+  });
+});
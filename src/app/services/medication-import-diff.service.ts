@@ -0,0 +1,268 @@
+import { Injectable } from '@angular/core';
+import { TranslocoService } from '@jsverse/transloco';
+import { Observable, concatMap, from, map, of, catchError, toArray, forkJoin } from 'rxjs';
+import { Medication } from '../models/api.models';
+import { MedicationUndoService } from './medication-undo.service';
+import { MedicationStatusService } from './medication-status.service';
+import { ReviewComparisonService } from './review-comparison.service';
+
+type MedicationValues = Omit<Medication, 'medicationId' | 'timestamp' | 'eTag'>;
+
+export type ImportedField = keyof MedicationValues;
+
+/**
+ * A medication read from an imported file (KMEHR, CSV, …), before it is saved
+ */
+export interface IncomingMedication {
+  values: MedicationValues;
+  provided: ImportedField[];         // The fields the file holds; the others are left as they are
+  warnings: string[];                // i18n keys under medication_import.warnings
+  posologyText: string | null;       // The posology as written in the file
+}
+
+export type ImportDiffKind = 'new' | 'changed' | 'unchanged';
+
+// What happens to a medication of the file: added as a new medication, written over the matched one, or left out
+export type ImportDecision = 'add' | 'update' | 'skip';
+
+export type ImportMatch = 'cnk' | 'vmp' | 'active_ingredient' | 'name';
+
+export type ImportDiffField = 'product' | 'dosage' | 'status' | 'start_date' | 'instructions' | 'indication';
+
+export interface ImportFieldChange {
+  field: ImportDiffField;
+  before: string;
+  after: string;
+}
+
+export interface ImportDiffEntry {
+  kind: ImportDiffKind;
+  incoming: IncomingMedication;
+  existing: Medication | null;
+  matchedOn: ImportMatch | null;
+  changes: ImportFieldChange[];
+  decision: ImportDecision;
+}
+
+export interface ImportDiff {
+  entries: ImportDiffEntry[];
+  notInFile: Medication[];           // Current medications the file does not mention; left as they are
+}
+
+export interface ImportApplyResult {
+  added: number;
+  updated: number;
+  failed: number;
+}
+
+const INTAKE_FIELDS: ImportedField[] = [
+  'unitsBeforeBreakfast', 'unitsDuringBreakfast', 'unitsBeforeLunch', 'unitsDuringLunch',
+  'unitsBeforeDinner', 'unitsDuringDinner', 'unitsAtBedtime'
+];
+
+const DOSAGE_FIELDS: ImportedField[] = ['asNeeded', 'dosageRegimen', ...INTAKE_FIELDS];
+
+// The fields an update may send for each kind of change, as far as the file provides them
+const CHANGE_FIELDS: Record<ImportDiffField, ImportedField[]> = {
+  product: ['name', 'cnk', 'vmp'],
+  dosage: DOSAGE_FIELDS,
+  status: ['status', 'stopDate', 'changeReason'],
+  start_date: ['startDate'],
+  instructions: ['instructions'],
+  indication: ['indication']
+};
+
+const KIND_ORDER: ImportDiffKind[] = ['new', 'changed', 'unchanged'];
+
+const DEFAULT_DECISIONS: Record<ImportDiffKind, ImportDecision> = { new: 'add', changed: 'update', unchanged: 'skip' };
+
+/**
+ * Compares imported medications with the current list before anything is saved. Medications
+ * are matched on CNK, then VMP, then active ingredient, then name; new ones are proposed for
+ * adding, changed ones for updating and unchanged ones are skipped, so importing the same file
+ * twice adds nothing. Only what the user decides is written, as undoable actions.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class MedicationImportDiffService {
+
+  constructor(
+    private medicationUndo: MedicationUndoService,
+    private medicationStatus: MedicationStatusService,
+    private reviewComparison: ReviewComparisonService,
+    private transloco: TranslocoService
+  ) {}
+
+  diff(current: Medication[], incoming: IncomingMedication[]): ImportDiff {
+    const unmatched = [...current];
+    const take = (predicate: (medication: Medication) => boolean): Medication | null => {
+      const index = unmatched.findIndex(predicate);
+      return index === -1 ? null : unmatched.splice(index, 1)[0];
+    };
+
+    // Exact product matches go first, so a generic match never claims a medication that is also in the file
+    const pairs = incoming.map(item => {
+      const existing = item.values.cnk ? take(medication => medication.cnk === item.values.cnk) : null;
+      return { item, existing, matchedOn: existing ? 'cnk' as ImportMatch : null };
+    });
+    const matchers: [ImportMatch, (item: IncomingMedication, medication: Medication) => boolean][] = [
+      ['vmp', (item, medication) => !!item.values.vmp && medication.vmp === item.values.vmp],
+      ['active_ingredient', (item, medication) => !!item.values.activeIngredient
+        && this.normalize(medication.activeIngredient) === this.normalize(item.values.activeIngredient)],
+      ['name', (item, medication) => !!item.values.name && this.normalize(medication.name) === this.normalize(item.values.name)]
+    ];
+    for (const [matchedOn, matches] of matchers) {
+      for (const pair of pairs.filter(pair => !pair.existing)) {
+        pair.existing = take(medication => matches(pair.item, medication));
+        pair.matchedOn = pair.existing ? matchedOn : null;
+      }
+    }
+
+    const entries = pairs.map(({ item, existing, matchedOn }): ImportDiffEntry => {
+      const changes = existing ? this.changes(existing, item) : [];
+      const kind: ImportDiffKind = !existing ? 'new' : changes.length ? 'changed' : 'unchanged';
+      return { kind, incoming: item, existing, matchedOn, changes, decision: DEFAULT_DECISIONS[kind] };
+    });
+
+    return {
+      entries: entries.sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind)),
+      notInFile: unmatched
+    };
+  }
+
+  /**
+   * The decisions that make sense for an entry: a matched medication can also be added next to
+   * the current one (e.g. another strength), updating is only offered when something differs
+   */
+  decisionsFor(entry: ImportDiffEntry): ImportDecision[] {
+    switch (entry.kind) {
+      case 'new':
+        return ['add', 'skip'];
+      case 'changed':
+        return ['update', 'add', 'skip'];
+      case 'unchanged':
+        return ['skip', 'add'];
+    }
+  }
+
+  defaultDecision(entry: ImportDiffEntry): ImportDecision {
+    return DEFAULT_DECISIONS[entry.kind];
+  }
+
+  /**
+   * Adds the medications decided to add (one undoable action) and updates the ones decided to
+   * update with the changed fields only
+   */
+  apply(apbNumber: string, reviewId: string, diff: ImportDiff): Observable<ImportApplyResult> {
+    const additions = diff.entries.filter(entry => entry.decision === 'add').map(entry => this.withoutEmpty(entry.incoming.values));
+    const updates = diff.entries.filter(entry => entry.decision === 'update');
+
+    const added$ = additions.length
+      ? this.medicationUndo.addMedications(apbNumber, reviewId, additions)
+      : of(0);
+
+    return added$.pipe(
+      concatMap(added => forkJoin({ added: of(added), updated: this.update(apbNumber, reviewId, updates) })),
+      map(({ added, updated }) => ({ added, updated, failed: additions.length + updates.length - added - updated }))
+    );
+  }
+
+  /**
+   * Writes the changed fields of the entries over their matched medication, one at a time;
+   * emits how many succeeded
+   */
+  update(apbNumber: string, reviewId: string, entries: ImportDiffEntry[]): Observable<number> {
+    return from(entries.filter(entry => entry.existing && entry.changes.length)).pipe(
+      concatMap(entry => this.medicationUndo.updateMedication(apbNumber, reviewId, entry.existing!.medicationId, this.updateOf(entry)).pipe(
+        map(() => true),
+        catchError(() => of(false))
+      )),
+      toArray(),
+      map(results => results.filter(Boolean).length)
+    );
+  }
+
+  describeDosage(values: MedicationValues | Medication | null): string {
+    return values ? this.reviewComparison.describeDosage({ medicationId: '', ...values }) : '';
+  }
+
+  private changes(existing: Medication, item: IncomingMedication): ImportFieldChange[] {
+    const incoming = item.values;
+    const changes: ImportFieldChange[] = [];
+    const add = (field: ImportDiffField, before: string, after: string) => {
+      if (before !== after) {
+        changes.push({ field, before, after });
+      }
+    };
+
+    if (incoming.cnk && existing.cnk !== incoming.cnk) {
+      add('product', this.productOf(existing), this.productOf(incoming));
+    }
+    // A file without posology or status says nothing about them, rather than clearing them
+    if (this.hasDosage(incoming) && item.provided.includes('dosageRegimen')) {
+      add('dosage', this.describeDosage(existing), this.describeDosage(incoming));
+    } else if (this.hasDosage(incoming) && item.provided.some(field => INTAKE_FIELDS.includes(field))) {
+      // Without a regimen in the file only the intake moments are compared, the regimen stays
+      add('dosage', this.describeIntake(existing), this.describeIntake(incoming));
+    }
+    if (incoming.status && item.provided.includes('status')) {
+      add('status', this.statusOf(existing), this.statusOf(incoming));
+    }
+    if (incoming.startDate) {
+      add('start_date', this.dateOf(existing.startDate), this.dateOf(incoming.startDate));
+    }
+    if (incoming.instructions) {
+      add('instructions', existing.instructions ?? '', incoming.instructions);
+    }
+    if (incoming.indication) {
+      add('indication', existing.indication ?? '', incoming.indication);
+    }
+    return changes;
+  }
+
+  private hasDosage(values: MedicationValues): boolean {
+    return !!values.asNeeded || !!values.dosageRegimen || INTAKE_FIELDS.some(field => values[field]);
+  }
+
+  private updateOf(entry: ImportDiffEntry): Record<string, unknown> {
+    const values = entry.incoming.values as Record<string, unknown>;
+    const fields = entry.changes
+      .flatMap(change => CHANGE_FIELDS[change.field])
+      .filter(field => entry.incoming.provided.includes(field));
+    // Null clears what the file empties, e.g. an intake moment that was dropped; fields the file
+    // does not hold are not sent at all
+    return Object.fromEntries(fields.map(field => [field, values[field] ?? null]));
+  }
+
+  // The intake moments as "1-0-0-0-0-1-0", and whether as needed
+  private describeIntake(values: MedicationValues | Medication): string {
+    const slots = INTAKE_FIELDS.map(field => (values[field] as number | null | undefined) ?? 0).join('-');
+    return values.asNeeded ? `${slots} · ${this.transloco.translate('medication.as_needed_short')}` : slots;
+  }
+
+  private productOf(values: MedicationValues | Medication): string {
+    return values.cnk ? `${values.name ?? ''} (CNK ${String(values.cnk).padStart(7, '0')})` : values.name ?? '';
+  }
+
+  private statusOf(values: MedicationValues | Medication): string {
+    return this.medicationStatus.describe({
+      status: values.status ?? null,
+      startDate: null,
+      stopDate: values.stopDate ?? null,
+      changeReason: null
+    });
+  }
+
+  private dateOf(day: string | null | undefined): string {
+    return day ? this.medicationStatus.formatDate(day) : '';
+  }
+
+  private withoutEmpty(values: MedicationValues): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== null && value !== undefined && value !== ''));
+  }
+
+  private normalize(name: string | null | undefined): string {
+    return (name ?? '').toLowerCase().replace(/\s+/g, ' ').trim();
+  }
+}
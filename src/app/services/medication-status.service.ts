@@ -0,0 +1,90 @@
+import { Injectable } from '@angular/core';
+import { TranslocoService } from '@jsverse/transloco';
+import { Observable, map } from 'rxjs';
+import { AuditEntry, Medication, MedicationStatus } from '../models/api.models';
+import { AuditService } from './audit.service';
+
+// What the status needs from a medication, shared by the API model and the view models
+export type StatusSource = Pick<Medication, 'status' | 'startDate' | 'stopDate' | 'changeReason'>;
+
+/**
+ * Lifecycle of a medication within a review: active, paused or stopped, with effective dates
+ * and the reason for the last change. Stopped medications stay in the review and its reports,
+ * but are left out of the interaction and GheOPS checks.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class MedicationStatusService {
+
+  constructor(
+    private auditService: AuditService,
+    private transloco: TranslocoService
+  ) {}
+
+  /**
+   * Status on a given day (today by default). A stop date that has passed counts as stopped,
+   * also when the status itself was not updated.
+   */
+  statusOf(medication: StatusSource, date: Date = new Date()): MedicationStatus {
+    if (medication.status === 'stopped' || (medication.stopDate && medication.stopDate <= this.toDayString(date))) {
+      return 'stopped';
+    }
+    return medication.status === 'paused' ? 'paused' : 'active';
+  }
+
+  isStopped(medication: StatusSource): boolean {
+    return this.statusOf(medication) === 'stopped';
+  }
+
+  /**
+   * The medications clinical checks should look at: everything except stopped medications
+   */
+  forChecks<T extends StatusSource>(medications: T[]): T[] {
+    return medications.filter(medication => !this.isStopped(medication));
+  }
+
+  /**
+   * Short description for lists and reports, e.g. "Stopped on 01/09/2026 (deprescribing)".
+   * Empty for an active medication.
+   */
+  describe(medication: StatusSource, lang?: string): string {
+    const t = (key: string, params?: Record<string, unknown>) => this.transloco.translate(`medication_status.${key}`, params, lang);
+    const status = this.statusOf(medication);
+    if (status === 'active') {
+      return '';
+    }
+
+    const text = status === 'stopped' && medication.stopDate
+      ? t('stopped_on', { date: this.formatDate(medication.stopDate, lang) })
+      : t(`statuses.${status}`);
+    return medication.changeReason ? `${text} (${medication.changeReason})` : text;
+  }
+
+  /**
+   * Changes to one medication from the audit trail, oldest first
+   */
+  getHistory(apbNumber: string, medicationReviewId: string, medicationId: string): Observable<AuditEntry[]> {
+    return this.auditService.getEntries(apbNumber, medicationReviewId).pipe(
+      map(entries => entries
+        .filter(entry => entry.entity === 'medication' && entry.entityId === medicationId)
+        .reverse())
+    );
+  }
+
+  /**
+   * Today in local time, in the yyyy-mm-dd format of the date fields
+   */
+  today(): string {
+    return this.toDayString(new Date());
+  }
+
+  formatDate(day: string, lang?: string): string {
+    return new Date(`${day}T00:00:00`).toLocaleDateString(lang ?? this.transloco.getActiveLang());
+  }
+
+  private toDayString(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+}
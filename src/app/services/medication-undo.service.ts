@@ -0,0 +1,321 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, Subject, concatMap, from, map, of, catchError, tap, toArray, finalize } from 'rxjs';
+import { MedicationResponse } from '../models/api.models';
+import { ApiService } from './api.service';
+import { ConcurrencyService } from './concurrency.service';
+import { NotificationService } from './notification.service';
+import { StateService } from './state.service';
+
+export type UndoAction = 'add' | 'add_all' | 'edit' | 'delete' | 'delete_all';
+
+type MedicationValues = Record<string, unknown>;
+
+// One API call of an undoable action, with the values needed to replay it either way
+interface UndoStep {
+  kind: 'add' | 'update' | 'delete';
+  medicationId: string;
+  before: MedicationValues | null;   // null for an add
+  after: MedicationValues | null;    // null for a delete
+}
+
+export interface UndoEntry {
+  action: UndoAction;
+  name: string;                      // Medication name, or the number of medications for "add all" and "delete all"
+  steps: UndoStep[];
+}
+
+export interface UndoState {
+  undo: UndoEntry | null;            // What Ctrl+Z would revert
+  redo: UndoEntry | null;            // What Ctrl+Shift+Z would re-apply
+  busy: boolean;
+}
+
+// Fields that make up a medication, i.e. what has to be sent to re-create it
+const MEDICATION_FIELDS = [
+  'name', 'cnk', 'vmp', 'packageSize', 'activeIngredient', 'dosageMg', 'routeOfAdministration', 'indication',
+  'asNeeded', 'specialFrequency', 'specialDescription', 'dosageRegimen',
+  'status', 'startDate', 'stopDate', 'changeReason', 'instructions',
+  'unitsBeforeBreakfast', 'unitsDuringBreakfast', 'unitsBeforeLunch', 'unitsDuringLunch',
+  'unitsBeforeDinner', 'unitsDuringDinner', 'unitsAtBedtime'
+];
+
+const MAX_ENTRIES = 50;
+
+/**
+ * Undo/redo for the medication schema.
+ * Adds, edits and deletes of medications go through this service, which records each change
+ * with the version it replaced (known from ConcurrencyService) and reverts it by replaying the
+ * inverse ApiService calls. A re-created medication gets a new id from the backend; older
+ * entries referring to it are followed through `currentIds`. The history is kept per review.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class MedicationUndoService {
+  private undoStack: UndoEntry[] = [];
+  private redoStack: UndoEntry[] = [];
+  private busy = false;
+  // Id a medication had when it was recorded -> id after it was re-created by an undo/redo
+  private currentIds = new Map<string, string>();
+
+  private stateSubject = new BehaviorSubject<UndoState>({ undo: null, redo: null, busy: false });
+  public state$: Observable<UndoState> = this.stateSubject.asObservable();
+
+  private appliedSubject = new Subject<void>();
+  /** Emits after an undo or redo changed the medications, so views can reload them */
+  public applied$: Observable<void> = this.appliedSubject.asObservable();
+
+  constructor(
+    private apiService: ApiService,
+    private concurrency: ConcurrencyService,
+    private notificationService: NotificationService,
+    private stateService: StateService
+  ) {
+    // The history belongs to the review it was made in
+    let currentReview: string | null = null;
+    this.stateService.sessionData$.subscribe(session => {
+      const review = session?.medicationReviewId ?? null;
+      if (review !== currentReview) {
+        currentReview = review;
+        this.clear();
+      }
+    });
+  }
+
+  addMedication(apbNumber: string, reviewId: string, medication: MedicationValues): Observable<MedicationResponse> {
+    return this.apiService.addMedication(apbNumber, reviewId, medication).pipe(
+      tap(created => this.record({
+        action: 'add',
+        name: String(created.name ?? medication['name'] ?? ''),
+        steps: [{ kind: 'add', medicationId: created.medicationId, before: null, after: this.valuesOf({ ...medication, ...created }) }]
+      }))
+    );
+  }
+
+  /**
+   * Adds several medications one at a time (e.g. scanned boxes), undoable as one action.
+   * Emits the number that was added; failures are skipped.
+   */
+  addMedications(apbNumber: string, reviewId: string, medications: MedicationValues[]): Observable<number> {
+    const steps: UndoStep[] = [];
+
+    return from(medications).pipe(
+      concatMap(medication => this.apiService.addMedication(apbNumber, reviewId, medication).pipe(
+        map(created => {
+          steps.push({ kind: 'add', medicationId: created.medicationId, before: null, after: this.valuesOf({ ...medication, ...created }) });
+          return true;
+        }),
+        catchError(() => of(false))
+      )),
+      toArray(),
+      map(() => {
+        if (steps.length > 0) {
+          this.record({ action: 'add_all', name: String(steps.length), steps });
+        }
+        return steps.length;
+      })
+    );
+  }
+
+  updateMedication(apbNumber: string, reviewId: string, medicationId: string, changes: MedicationValues): Observable<MedicationResponse> {
+    const before = this.snapshotOf(reviewId, medicationId);
+
+    return this.apiService.updateMedication(apbNumber, reviewId, medicationId, changes).pipe(
+      tap(updated => {
+        // Fields left undefined are not sent, so they keep their previous value
+        const sent = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+        const after = this.valuesOf({ ...before, ...sent });
+        // Nothing to undo without the previous version, or when nothing actually changed
+        if (before && JSON.stringify(before) !== JSON.stringify(after)) {
+          this.record({
+            action: 'edit',
+            name: String(updated.name ?? before['name'] ?? ''),
+            steps: [{ kind: 'update', medicationId, before, after }]
+          });
+        }
+      })
+    );
+  }
+
+  deleteMedication(apbNumber: string, reviewId: string, medicationId: string): Observable<void> {
+    const before = this.snapshotOf(reviewId, medicationId);
+
+    return this.apiService.deleteMedication(apbNumber, reviewId, medicationId).pipe(
+      tap(() => {
+        if (before) {
+          this.record({
+            action: 'delete',
+            name: String(before['name'] ?? ''),
+            steps: [{ kind: 'delete', medicationId, before, after: null }]
+          });
+        }
+      })
+    );
+  }
+
+  /**
+   * Delete several medications one after the other, as a single undoable action.
+   * Emits the number of medications that were deleted; failed deletes are skipped.
+   */
+  deleteMedications(apbNumber: string, reviewId: string, medicationIds: string[]): Observable<number> {
+    const steps: UndoStep[] = [];
+
+    return from(medicationIds).pipe(
+      concatMap(medicationId => {
+        const before = this.snapshotOf(reviewId, medicationId);
+        return this.apiService.deleteMedication(apbNumber, reviewId, medicationId).pipe(
+          map(() => {
+            if (before) {
+              steps.push({ kind: 'delete', medicationId, before, after: null });
+            }
+            return true;
+          }),
+          catchError(() => of(false))
+        );
+      }),
+      toArray(),
+      map(results => {
+        if (steps.length > 0) {
+          this.record({ action: 'delete_all', name: String(steps.length), steps });
+        }
+        return results.filter(Boolean).length;
+      })
+    );
+  }
+
+  undo(): void {
+    const entry = this.undoStack[this.undoStack.length - 1];
+    if (!entry || this.busy) {
+      return;
+    }
+
+    // Revert the steps in reverse order; restored medications keep their original list order
+    const steps = entry.action === 'delete_all' ? entry.steps : [...entry.steps].reverse();
+    const inverse = steps.map(step => this.invert(step));
+    this.replay(entry, inverse, () => {
+      this.undoStack.pop();
+      this.redoStack.push(entry);
+      this.notificationService.show('info', `medication_undo.undone.${entry.action}`, { name: entry.name }, {
+        labelKey: 'medication_undo.redo',
+        run: () => this.redo()
+      });
+    });
+  }
+
+  redo(): void {
+    const entry = this.redoStack[this.redoStack.length - 1];
+    if (!entry || this.busy) {
+      return;
+    }
+
+    this.replay(entry, entry.steps, () => {
+      this.redoStack.pop();
+      this.undoStack.push(entry);
+      this.notificationService.info(`medication_undo.redone.${entry.action}`, { name: entry.name });
+    });
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.currentIds.clear();
+    this.publish();
+  }
+
+  private record(entry: UndoEntry): void {
+    this.undoStack.push(entry);
+    if (this.undoStack.length > MAX_ENTRIES) {
+      this.undoStack.shift();
+    }
+    // A new change invalidates what was undone before
+    this.redoStack = [];
+    this.publish();
+  }
+
+  private invert(step: UndoStep): UndoStep {
+    switch (step.kind) {
+      case 'add':
+        return { kind: 'delete', medicationId: step.medicationId, before: step.after, after: null };
+      case 'delete':
+        return { kind: 'add', medicationId: step.medicationId, before: null, after: step.before };
+      case 'update':
+        return { kind: 'update', medicationId: step.medicationId, before: step.after, after: step.before };
+    }
+  }
+
+  private replay(entry: UndoEntry, steps: UndoStep[], onSuccess: () => void): void {
+    const apbNumber = this.stateService.apbNumber;
+    const reviewId = this.stateService.medicationReviewId;
+    if (!reviewId) {
+      return;
+    }
+
+    this.busy = true;
+    this.publish();
+
+    from(steps).pipe(
+      concatMap(step => this.apply(apbNumber, reviewId, step)),
+      toArray(),
+      finalize(() => {
+        this.busy = false;
+        this.publish();
+        this.stateService.notifyMedicationsChanged();
+        this.appliedSubject.next();
+      })
+    ).subscribe({
+      next: () => onSuccess(),
+      error: error => {
+        // E.g. the medication was removed in another tab: the entry can no longer be replayed
+        this.undoStack = this.undoStack.filter(item => item !== entry);
+        this.redoStack = this.redoStack.filter(item => item !== entry);
+        this.notificationService.error('medication_undo.failed', error);
+      }
+    });
+  }
+
+  private apply(apbNumber: string, reviewId: string, step: UndoStep): Observable<unknown> {
+    const medicationId = this.resolve(step.medicationId);
+
+    switch (step.kind) {
+      case 'add':
+        // Like a new medication, only the fields that have a value are sent
+        return this.apiService.addMedication(apbNumber, reviewId, this.withoutEmpty(step.after!)).pipe(
+          tap(created => this.currentIds.set(medicationId, created.medicationId))
+        );
+      case 'update':
+        return this.apiService.updateMedication(apbNumber, reviewId, medicationId, step.after!);
+      case 'delete':
+        return this.apiService.deleteMedication(apbNumber, reviewId, medicationId);
+    }
+  }
+
+  private resolve(medicationId: string): string {
+    let id = medicationId;
+    while (this.currentIds.has(id)) {
+      id = this.currentIds.get(id)!;
+    }
+    return id;
+  }
+
+  // Last version of the medication as loaded from or saved to the backend
+  private snapshotOf(reviewId: string, medicationId: string): MedicationValues | null {
+    const snapshot = this.concurrency.snapshotFor({ endpoint: 'manage_medications', reviewId, id: this.resolve(medicationId) });
+    return snapshot ? this.valuesOf(snapshot) : null;
+  }
+
+  private valuesOf(source: MedicationValues): MedicationValues {
+    return Object.fromEntries(MEDICATION_FIELDS.map(field => [field, source[field] ?? null]));
+  }
+
+  private withoutEmpty(values: MedicationValues): MedicationValues {
+    return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== null && value !== undefined));
+  }
+
+  private publish(): void {
+    this.stateSubject.next({
+      undo: this.undoStack[this.undoStack.length - 1] ?? null,
+      redo: this.redoStack[this.redoStack.length - 1] ?? null,
+      busy: this.busy
+    });
+  }
+}
@@ -0,0 +1,128 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, Subject } from 'rxjs';
+
+export type NotificationType = 'success' | 'info' | 'warning' | 'error';
+
+export interface NotificationAction {
+  labelKey: string;           // Translation key of the action button
+  run: () => void;
+}
+
+export interface AppNotification {
+  id: number;
+  type: NotificationType;
+  messageKey: string;         // Translation key of the message
+  params?: Record<string, unknown>;
+  action?: NotificationAction;
+}
+
+// How long toasts stay visible before dismissing themselves
+const DURATION_MS: Record<NotificationType, number> = {
+  success: 4000,
+  info: 5000,
+  warning: 8000,
+  error: 10000
+};
+
+/**
+ * Non-blocking, translatable toast notifications
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class NotificationService {
+  private notificationsSubject = new BehaviorSubject<AppNotification[]>([]);
+  public notifications$: Observable<AppNotification[]> = this.notificationsSubject.asObservable();
+
+  private nextId = 1;
+  private dismissed = new Map<number, Subject<void>>();
+  // Errors that were already shown to the user (e.g. by the HTTP error interceptor)
+  private reportedErrors = new WeakSet<object>();
+
+  show(type: NotificationType, messageKey: string, params?: Record<string, unknown>, action?: NotificationAction): number {
+    const id = this.nextId++;
+    const notification: AppNotification = { id, type, messageKey, params };
+    if (action) {
+      notification.action = {
+        labelKey: action.labelKey,
+        run: () => {
+          action.run();
+          this.dismiss(id);
+        }
+      };
+    }
+
+    this.notificationsSubject.next([...this.notificationsSubject.value, notification]);
+    setTimeout(() => this.dismiss(id), DURATION_MS[type]);
+    return id;
+  }
+
+  success(messageKey: string, params?: Record<string, unknown>): number {
+    return this.show('success', messageKey, params);
+  }
+
+  info(messageKey: string, params?: Record<string, unknown>): number {
+    return this.show('info', messageKey, params);
+  }
+
+  warning(messageKey: string, params?: Record<string, unknown>): number {
+    return this.show('warning', messageKey, params);
+  }
+
+  /**
+   * Show an error toast, unless the given error was already reported to the user
+   */
+  error(messageKey: string, error?: unknown, params?: Record<string, unknown>): void {
+    if (this.wasReported(error)) {
+      return;
+    }
+    this.show('error', messageKey, params);
+  }
+
+  /**
+   * Show an error toast with a retry button. Emits true when the user chooses to retry,
+   * false when the toast is dismissed (or times out) without retrying.
+   */
+  errorWithRetry(messageKey: string, params?: Record<string, unknown>): Observable<boolean> {
+    const decision = new Subject<boolean>();
+    let retried = false;
+    const id = this.show('error', messageKey, params, {
+      labelKey: 'common.retry',
+      run: () => retried = true
+    });
+
+    const closed = new Subject<void>();
+    this.dismissed.set(id, closed);
+    closed.subscribe(() => {
+      decision.next(retried);
+      decision.complete();
+    });
+
+    return decision.asObservable();
+  }
+
+  dismiss(id: number): void {
+    const remaining = this.notificationsSubject.value.filter(n => n.id !== id);
+    if (remaining.length === this.notificationsSubject.value.length) {
+      return;
+    }
+    this.notificationsSubject.next(remaining);
+
+    const closed = this.dismissed.get(id);
+    if (closed) {
+      this.dismissed.delete(id);
+      closed.next();
+      closed.complete();
+    }
+  }
+
+  markReported(error: unknown): void {
+    if (error && typeof error === 'object') {
+      this.reportedErrors.add(error);
+    }
+  }
+
+  wasReported(error: unknown): boolean {
+    return !!error && typeof error === 'object' && this.reportedErrors.has(error);
+  }
+}
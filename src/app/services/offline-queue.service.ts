@@ -0,0 +1,547 @@
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpContext, HttpContextToken, HttpErrorResponse, HttpHeaders, HttpRequest } from '@angular/common/http';
+import { BehaviorSubject, Observable, firstValueFrom } from 'rxjs';
+import { environment } from '../../environments/environment';
+import { StateService } from './state.service';
+import { NotificationService } from './notification.service';
+import { EncryptedEnvelope, SessionPersistenceService } from './session-persistence.service';
+import { SKIP_ERROR_HANDLING } from '../interceptors/error.interceptor';
+
+// Set on requests replayed from the outbox, so they are sent instead of queued again
+export const OFFLINE_REPLAY = new HttpContextToken<boolean>(() => false);
+
+const DB_NAME = 'medication-review-offline';
+const OUTBOX_STORE = 'outbox';
+const RESPONSE_STORE = 'responses';
+const RETRY_DELAY_MS = 30000;
+
+// Review-scoped endpoints that can be edited offline, with the field identifying the entity
+const QUEUEABLE_ENDPOINTS: Record<string, string> = {
+  manage_medications: 'medicationId',
+  manage_lab_values: 'labValueId',
+  manage_contraindications: 'contraindicationId',
+  manage_review_notes: 'reviewNoteId',
+  manage_question_answers: 'questionName',
+  manage_deprescribing_plans: 'planId',
+  update_patient: 'patientId',
+  update_medication_review: 'medicationReviewId',
+  manage_audit_log: 'auditId'
+};
+
+// Read-only endpoints whose last response is kept so the review can be opened offline
+const CACHEABLE_ENDPOINTS = [
+  ...Object.keys(QUEUEABLE_ENDPOINTS),
+  'manage_medication_reviews',
+  'query_dispensing_history'
+];
+
+export type MutationMethod = 'POST' | 'PUT' | 'DELETE';
+
+export interface QueuedMutation {
+  id?: number;                // IndexedDB key, also the replay order
+  apbNumber: string;
+  reviewId: string | null;
+  method: MutationMethod;
+  endpoint: string;
+  url: string;
+  body: unknown;
+  entityId: string | null;    // Affected entity; client generated for creates
+  ifMatch: string | null;     // eTag the edit was based on
+  queuedAt: string;
+}
+
+export interface SyncConflict {
+  mutation: QueuedMutation;
+  status: number;
+  message: string | null;
+  occurredAt: string;
+}
+
+export type SyncState = 'synced' | 'pending' | 'offline' | 'syncing' | 'conflict';
+
+export interface SyncStatus {
+  state: SyncState;
+  pending: number;
+  conflicts: SyncConflict[];
+  lastSyncedAt: string | null;
+}
+
+interface StoredMutation {
+  id?: number;
+  apbNumber: string;
+  envelope: EncryptedEnvelope;
+}
+
+type Row = Record<string, unknown>;
+
+/**
+ * Keeps the open review usable without connectivity.
+ * Successful GETs of review data are cached (encrypted) in IndexedDB and served when offline;
+ * edits made offline go into an ordered outbox that is replayed once the connection returns.
+ * Edits the backend rejects during replay are reported as conflicts instead of being retried,
+ * and the audit entry queued for them is dropped.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OfflineQueueService {
+  private readonly API_BASE_URL = environment.apiBaseUrl;
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  // In-memory copy of the outbox, the source of truth while the app runs
+  private outbox: QueuedMutation[] = [];
+  private loaded: Promise<void>;
+  private syncing = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private statusSubject = new BehaviorSubject<SyncStatus>({
+    state: 'synced',
+    pending: 0,
+    conflicts: [],
+    lastSyncedAt: null
+  });
+  public status$: Observable<SyncStatus> = this.statusSubject.asObservable();
+
+  constructor(
+    private http: HttpClient,
+    private stateService: StateService,
+    private notificationService: NotificationService,
+    private persistence: SessionPersistenceService
+  ) {
+    this.loaded = this.loadOutbox();
+
+    window.addEventListener('online', () => this.sync());
+    window.addEventListener('offline', () => this.publishStatus());
+
+    // Replay what was left from a previous visit as soon as someone is logged in,
+    // forget the cached review data when they log out
+    let loggedIn = false;
+    this.stateService.sessionData$.subscribe(session => {
+      if (session?.accessToken) {
+        loggedIn = true;
+        this.sync();
+      } else if (loggedIn) {
+        loggedIn = false;
+        this.clearCache();
+        this.publishStatus();
+      }
+    });
+  }
+
+  get isOnline(): boolean {
+    return navigator.onLine;
+  }
+
+  // Only edits of the logged-in pharmacy count: edits of another one are replayed after its own login
+  get hasPending(): boolean {
+    return this.pendingCount > 0;
+  }
+
+  isQueueable(req: HttpRequest<unknown>): boolean {
+    return req.method !== 'GET' && this.endpointOf(req.url) in QUEUEABLE_ENDPOINTS;
+  }
+
+  isCacheable(req: HttpRequest<unknown>): boolean {
+    return req.method === 'GET' && CACHEABLE_ENDPOINTS.includes(this.endpointOf(req.url));
+  }
+
+  /**
+   * Put a mutation in the outbox and return the optimistic response body the caller receives
+   */
+  async enqueue(req: HttpRequest<unknown>): Promise<unknown> {
+    await this.loaded;
+
+    const endpoint = this.endpointOf(req.url);
+    const idField = QUEUEABLE_ENDPOINTS[endpoint];
+    const params = this.paramsOf(req.urlWithParams);
+    const body = req.body && typeof req.body === 'object' ? { ...(req.body as Row) } : req.body;
+
+    let entityId: string | null;
+    if (req.method === 'DELETE') {
+      entityId = params.get(idField);
+    } else {
+      const row = body as Row;
+      // Creates get a client id, so later offline edits of the same entity can refer to it
+      if (req.method === 'POST' && !row[idField]) {
+        row[idField] = crypto.randomUUID();
+      }
+      entityId = row[idField] != null ? String(row[idField]) : null;
+    }
+
+    const mutation: QueuedMutation = {
+      apbNumber: this.stateService.apbNumber,
+      reviewId: params.get('medicationReviewId') ?? ((body as Row)?.['medicationReviewId'] as string | undefined) ?? null,
+      method: req.method as MutationMethod,
+      endpoint,
+      url: req.urlWithParams,
+      body,
+      entityId,
+      ifMatch: req.headers.get('If-Match'),
+      queuedAt: new Date().toISOString()
+    };
+
+    mutation.id = await this.storeMutation(mutation);
+    this.outbox.push(mutation);
+    this.publishStatus();
+    // Queued while the browser thinks it is online (server unreachable): no online event will follow
+    this.scheduleRetry();
+
+    if (req.method === 'DELETE') {
+      return null;
+    }
+    return { ...(body as Row), rowKey: entityId, partitionKey: mutation.reviewId, timestamp: mutation.queuedAt };
+  }
+
+  /**
+   * Remember the response of a review GET for offline use
+   */
+  async cacheResponse(req: HttpRequest<unknown>, body: unknown): Promise<void> {
+    const envelope = await this.persistence.encrypt(body);
+    const db = await this.getDb();
+    if (!envelope || !db) {
+      return;
+    }
+
+    try {
+      await this.request(db.transaction(RESPONSE_STORE, 'readwrite').objectStore(RESPONSE_STORE).put(envelope, this.cacheKeyOf(req)));
+    } catch (error) {
+      console.warn('[Offline] Failed to cache response:', error);
+    }
+  }
+
+  /**
+   * The last cached response for a GET, with pending offline edits applied (undefined when not cached)
+   */
+  async cachedResponse(req: HttpRequest<unknown>): Promise<unknown> {
+    const db = await this.getDb();
+    if (!db) {
+      return undefined;
+    }
+
+    try {
+      const envelope = await this.request<EncryptedEnvelope | undefined>(
+        db.transaction(RESPONSE_STORE, 'readonly').objectStore(RESPONSE_STORE).get(this.cacheKeyOf(req))
+      );
+      const body = envelope ? await this.persistence.decrypt<unknown>(envelope) : null;
+      return body === null ? undefined : this.applyPending(req, body);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Apply outbox mutations to a list response, so data loaded while edits are pending
+   * (from the server or the cache) still shows those edits
+   */
+  async applyPending(req: HttpRequest<unknown>, body: unknown): Promise<unknown> {
+    await this.loaded;
+
+    const endpoint = this.endpointOf(req.url);
+    const idField = QUEUEABLE_ENDPOINTS[endpoint];
+    const reviewId = this.paramsOf(req.urlWithParams).get('medicationReviewId');
+    if (!idField || !Array.isArray(body) || !reviewId) {
+      return body;
+    }
+
+    const matches = (row: Row, id: string | null) => row['rowKey'] === id || row[idField] === id;
+
+    return this.outbox
+      .filter(mutation => mutation.endpoint === endpoint && mutation.reviewId === reviewId)
+      .reduce((rows: Row[], mutation) => {
+        // Audit entries of queued edits are listed, but as not applied yet
+        const changes = { ...(mutation.body as Row), rowKey: mutation.entityId, ...(endpoint === 'manage_audit_log' ? { pending: true } : {}) };
+        switch (mutation.method) {
+          case 'POST':
+            return rows.some(row => matches(row, mutation.entityId))
+              ? rows.map(row => matches(row, mutation.entityId) ? { ...row, ...changes } : row)
+              : [...rows, changes];
+          case 'PUT':
+            return rows.map(row => matches(row, mutation.entityId) ? { ...row, ...changes } : row);
+          case 'DELETE':
+            return rows.filter(row => !matches(row, mutation.entityId));
+        }
+      }, body as Row[]);
+  }
+
+  /**
+   * Replay the outbox in order. Stops at the first network failure and retries later.
+   */
+  async sync(): Promise<void> {
+    await this.loaded;
+
+    if (this.syncing || !this.isOnline || !this.stateService.getSessionData()?.accessToken) {
+      this.publishStatus();
+      return;
+    }
+
+    const apbNumber = this.stateService.apbNumber;
+    if (!this.outbox.some(mutation => mutation.apbNumber === apbNumber)) {
+      this.publishStatus();
+      return;
+    }
+
+    this.syncing = true;
+    this.publishStatus();
+    let synced = 0;
+
+    try {
+      while (this.isOnline) {
+        const mutation = this.outbox.find(item => item.apbNumber === apbNumber);
+        if (!mutation) {
+          break;
+        }
+
+        try {
+          const response = await firstValueFrom(this.send(mutation));
+          this.remapCreatedId(mutation, response);
+          this.carryOverETag(mutation, response);
+          synced++;
+        } catch (error) {
+          const status = error instanceof HttpErrorResponse ? error.status : 0;
+          if (status === 0 || status === 401 || status >= 500) {
+            // Connectivity, login or server trouble: keep the mutation and try again later
+            this.scheduleRetry();
+            break;
+          }
+          this.addConflict(mutation, error as HttpErrorResponse);
+          await this.dropAuditEntryOf(mutation);
+        }
+
+        await this.removeMutation(mutation);
+      }
+    } finally {
+      this.syncing = false;
+      if (synced > 0) {
+        this.statusSubject.next({ ...this.statusSubject.value, lastSyncedAt: new Date().toISOString() });
+        this.notificationService.success('sync.synced', { count: synced });
+      }
+      this.publishStatus();
+    }
+  }
+
+  dismissConflicts(): void {
+    this.statusSubject.next({ ...this.statusSubject.value, conflicts: [] });
+    this.publishStatus();
+  }
+
+  /**
+   * Drop all cached review data. Pending edits are kept and synced after the next login.
+   */
+  async clearCache(): Promise<void> {
+    const db = await this.getDb();
+    if (db) {
+      await this.request(db.transaction(RESPONSE_STORE, 'readwrite').objectStore(RESPONSE_STORE).clear()).catch(() => undefined);
+    }
+  }
+
+  private send(mutation: QueuedMutation): Observable<unknown> {
+    let headers = new HttpHeaders({ 'Content-Type': 'application/json' });
+    if (mutation.ifMatch) {
+      headers = headers.set('If-Match', mutation.ifMatch);
+    }
+    const options = {
+      headers,
+      context: new HttpContext().set(OFFLINE_REPLAY, true).set(SKIP_ERROR_HANDLING, true)
+    };
+
+    switch (mutation.method) {
+      case 'POST':
+        return this.http.post(mutation.url, mutation.body, options);
+      case 'PUT':
+        return this.http.put(mutation.url, mutation.body, options);
+      case 'DELETE':
+        return this.http.delete(mutation.url, options);
+    }
+  }
+
+  // When the backend assigned its own id to an offline create, point the later mutations to it
+  private remapCreatedId(mutation: QueuedMutation, response: unknown): void {
+    const idField = QUEUEABLE_ENDPOINTS[mutation.endpoint];
+    const row = response as Row | null;
+    const serverId = row?.['rowKey'] ?? row?.[idField];
+    if (mutation.method !== 'POST' || !mutation.entityId || !serverId || serverId === mutation.entityId) {
+      return;
+    }
+
+    const tempId = mutation.entityId;
+    this.outbox
+      .filter(item => item !== mutation)
+      .forEach(item => {
+        item.url = item.url.split(tempId).join(String(serverId));
+        item.body = JSON.parse(JSON.stringify(item.body).split(tempId).join(String(serverId)));
+        if (item.entityId === tempId) {
+          item.entityId = String(serverId);
+        }
+        this.storeMutation(item);
+      });
+  }
+
+  // Later edits of the same entity were based on the version this replay just replaced
+  private carryOverETag(mutation: QueuedMutation, response: unknown): void {
+    const eTag = (response as Row | null)?.['eTag'];
+    if (typeof eTag !== 'string' || !mutation.entityId) {
+      return;
+    }
+
+    this.outbox
+      .filter(item => item !== mutation && item.endpoint === mutation.endpoint && item.entityId === mutation.entityId && item.ifMatch)
+      .forEach(item => {
+        item.ifMatch = eTag;
+        this.storeMutation(item);
+      });
+  }
+
+  private addConflict(mutation: QueuedMutation, error: HttpErrorResponse): void {
+    const conflict: SyncConflict = {
+      mutation,
+      status: error.status,
+      message: error.error?.error ?? error.error?.message ?? null,
+      occurredAt: new Date().toISOString()
+    };
+    this.statusSubject.next({ ...this.statusSubject.value, conflicts: [...this.statusSubject.value.conflicts, conflict] });
+    this.notificationService.warning('sync.conflict_toast');
+  }
+
+  // The URL does not name the pharmacy (it is sent as a header), so the key does
+  private cacheKeyOf(req: HttpRequest<unknown>): string {
+    return `${this.stateService.apbNumber} ${req.urlWithParams}`;
+  }
+
+  // The audit entry of an edit is queued right after it, for the same entity
+  private async dropAuditEntryOf(mutation: QueuedMutation): Promise<void> {
+    if (mutation.endpoint === 'manage_audit_log' || !mutation.entityId) {
+      return;
+    }
+    const entry = this.outbox.find(item =>
+      item.endpoint === 'manage_audit_log' && item.apbNumber === mutation.apbNumber && (item.body as Row | null)?.['entityId'] === mutation.entityId
+    );
+    if (entry) {
+      await this.removeMutation(entry);
+    }
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer) {
+      return;
+    }
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.sync();
+    }, RETRY_DELAY_MS);
+  }
+
+  private get pendingCount(): number {
+    const apbNumber = this.stateService.apbNumber;
+    return this.outbox.filter(mutation => mutation.apbNumber === apbNumber).length;
+  }
+
+  private publishStatus(): void {
+    const current = this.statusSubject.value;
+    const pending = this.pendingCount;
+
+    let state: SyncState = 'synced';
+    if (this.syncing) {
+      state = 'syncing';
+    } else if (!this.isOnline) {
+      state = 'offline';
+    } else if (current.conflicts.length > 0) {
+      state = 'conflict';
+    } else if (pending > 0) {
+      state = 'pending';
+    }
+
+    this.statusSubject.next({ ...current, state, pending });
+  }
+
+  private endpointOf(url: string): string {
+    if (!url.startsWith(this.API_BASE_URL)) {
+      return '';
+    }
+    return url.substring(this.API_BASE_URL.length + 1).split('?')[0];
+  }
+
+  private paramsOf(url: string): URLSearchParams {
+    return new URLSearchParams(url.split('?')[1] ?? '');
+  }
+
+  // IndexedDB persistence (mutations are stored encrypted, like the cached responses)
+
+  private async loadOutbox(): Promise<void> {
+    const db = await this.getDb();
+    if (!db) {
+      return;
+    }
+
+    try {
+      const stored = await this.request<StoredMutation[]>(db.transaction(OUTBOX_STORE, 'readonly').objectStore(OUTBOX_STORE).getAll());
+      for (const item of stored) {
+        const mutation = await this.persistence.decrypt<QueuedMutation>(item.envelope);
+        if (mutation) {
+          this.outbox.push({ ...mutation, id: item.id });
+        }
+      }
+      this.outbox.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+    } catch (error) {
+      console.warn('[Offline] Failed to load outbox:', error);
+    }
+    this.publishStatus();
+  }
+
+  private async storeMutation(mutation: QueuedMutation): Promise<number | undefined> {
+    const db = await this.getDb();
+    const envelope = await this.persistence.encrypt(mutation);
+    if (!db || !envelope) {
+      // Without storage the edit only survives until the page is closed
+      return mutation.id;
+    }
+
+    const record: StoredMutation = { apbNumber: mutation.apbNumber, envelope };
+    if (mutation.id !== undefined) {
+      record.id = mutation.id;
+    }
+    try {
+      return await this.request<number>(db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE).put(record));
+    } catch (error) {
+      console.warn('[Offline] Failed to store mutation:', error);
+      return mutation.id;
+    }
+  }
+
+  private async removeMutation(mutation: QueuedMutation): Promise<void> {
+    this.outbox = this.outbox.filter(item => item !== mutation);
+    this.publishStatus();
+
+    const db = await this.getDb();
+    if (db && mutation.id !== undefined) {
+      await this.request(db.transaction(OUTBOX_STORE, 'readwrite').objectStore(OUTBOX_STORE).delete(mutation.id)).catch(() => undefined);
+    }
+  }
+
+  private getDb(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase | null>(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+        const open = indexedDB.open(DB_NAME, 1);
+        open.onupgradeneeded = () => {
+          open.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+          open.result.createObjectStore(RESPONSE_STORE);
+        };
+        open.onsuccess = () => resolve(open.result);
+        open.onerror = () => {
+          console.warn('[Offline] IndexedDB unavailable:', open.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private request<T>(req: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      req.onsuccess = () => resolve(req.result as T);
+      req.onerror = () => reject(req.error);
+    });
+  }
+}
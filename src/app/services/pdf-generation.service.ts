@@ -6,8 +6,10 @@ import { TDocumentDefinitions, Content } from 'pdfmake/interfaces';
 import { ApiService } from './api.service';
 import { StateService } from './state.service';
 import { ReviewNotesService, ReviewNote } from './review-notes.service';
+import { DosageRegimenService } from './dosage-regimen.service';
+import { MedicationStatusService } from './medication-status.service';
 import { forkJoin, Observable, of } from 'rxjs';
-import { map, catchError } from 'rxjs/operators';
+import { map, catchError, switchMap } from 'rxjs/operators';
 import { 
   QuestionAnswer, 
   Medication, 
@@ -20,6 +22,18 @@ import {
 // Initialize pdfMake with fonts
 (pdfMake as any).vfs = vfs;
 
+type IntakeSlot = 'unitsBeforeBreakfast' | 'unitsDuringBreakfast' | 'unitsBeforeLunch' | 'unitsDuringLunch' |
+  'unitsBeforeDinner' | 'unitsDuringDinner' | 'unitsAtBedtime';
+type IntakeTiming = 'before_meal' | 'during_meal' | 'bedtime';
+
+// Rows of the weekly planner: the intake moments, with the slots that fall on them
+const PLANNER_ROWS: { label: string; slots: { field: IntakeSlot; timing: IntakeTiming }[] }[] = [
+  { label: 'medication.breakfast', slots: [{ field: 'unitsBeforeBreakfast', timing: 'before_meal' }, { field: 'unitsDuringBreakfast', timing: 'during_meal' }] },
+  { label: 'medication.lunch', slots: [{ field: 'unitsBeforeLunch', timing: 'before_meal' }, { field: 'unitsDuringLunch', timing: 'during_meal' }] },
+  { label: 'medication.dinner', slots: [{ field: 'unitsBeforeDinner', timing: 'before_meal' }, { field: 'unitsDuringDinner', timing: 'during_meal' }] },
+  { label: 'medication.bedtime', slots: [{ field: 'unitsAtBedtime', timing: 'bedtime' }] }
+];
+
 interface ReportData {
   patient: Patient | null;
   review: MedicationReview | null;
@@ -38,6 +52,8 @@ export class PdfGenerationService {
   private stateService = inject(StateService);
   private transloco = inject(TranslocoService);
   private reviewNotesService = inject(ReviewNotesService);
+  private dosageRegimen = inject(DosageRegimenService);
+  private medicationStatus = inject(MedicationStatusService);
 
   // Brand colors
   private readonly brandPrimary = '#454B60';
@@ -98,6 +114,16 @@ export class PdfGenerationService {
     });
   }
 
+  /**
+   * Landscape pill-box planner for the patient: the seven days from `weekStart` (the coming Monday
+   * by default) against the intake moments, with as-needed medications listed apart
+   */
+  generateWeeklyPlanner(weekStart: Date = this.comingMonday()): Observable<Blob> {
+    return this.loadReportData().pipe(
+      switchMap(data => this.createPdfBlob(this.createWeeklyPlannerDocument(data, weekStart)))
+    );
+  }
+
   // ============================================================================
   // Helper methods for PDF generation
   // ============================================================================
@@ -589,7 +615,7 @@ export class PdfGenerationService {
     medications.forEach(med => {
       tableBody.push([
         { text: med.name || this.transloco.translate('pdf.no_medication'), style: 'tableCell' },
-        { text: this.formatFrequency(med), style: 'tableCell' },
+        { text: this.medicationStatus.isStopped(med) ? this.medicationStatus.describe(med) : this.formatFrequency(med), style: 'tableCell' },
         { text: med.indication || '-', style: 'tableCell' }
       ]);
     });
@@ -625,8 +651,15 @@ export class PdfGenerationService {
     ];
 
     medications.forEach(med => {
-      // Check for special frequency (non-daily)
-      if (med.specialFrequency && med.specialDescription) {
+      // Stopped medications are listed for documentation, without intake
+      if (this.medicationStatus.isStopped(med)) {
+        tableBody.push([
+          { text: med.name || 'Unknown', style: 'tableCell', decoration: 'lineThrough' },
+          { text: this.medicationStatus.describe(med), style: 'tableCell', alignment: 'center', colSpan: 4 },
+          {}, {}, {}
+        ]);
+      } else if (med.specialFrequency && med.specialDescription) {
+        // Special frequency (non-daily)
         const frequencyMap: Record<number, string> = {
           1: 'daily',
           2: 'twice weekly',
@@ -652,6 +685,13 @@ export class PdfGenerationService {
           { text: med.name || 'Unknown', style: 'tableCell' },
           { text: 'As needed', style: 'tableCell', alignment: 'center', colSpan: 4 }
         ]);
+      } else if (!this.dosageRegimen.usesIntakeSlots(med.dosageRegimen)) {
+        // Interval dosing or tapering: the regimen itself is the schedule
+        tableBody.push([
+          { text: med.name || 'Unknown', style: 'tableCell' },
+          { text: this.dosageRegimen.describe(med.dosageRegimen), style: 'tableCell', alignment: 'center', colSpan: 4 },
+          {}, {}, {}
+        ]);
       } else {
         // Standard daily schedule
         const morning = [med.unitsBeforeBreakfast, med.unitsDuringBreakfast]
@@ -673,8 +713,14 @@ export class PdfGenerationService {
           ? String(med.unitsAtBedtime) 
           : '-';
 
+        // Days the slots apply on, e.g. "Mon, Thu", and a pause below the name
+        const note = [this.medicationStatus.describe(med), this.dosageRegimen.describe(med.dosageRegimen)].filter(Boolean).join(' · ');
+        const name: Content = note
+          ? { stack: [med.name || 'Unknown', { text: note, style: 'tableCellNote' }], style: 'tableCell' }
+          : { text: med.name || 'Unknown', style: 'tableCell' };
+
         tableBody.push([
-          { text: med.name || 'Unknown', style: 'tableCell' },
+          name,
           { text: morning, style: 'tableCell', alignment: 'center' },
           { text: noon, style: 'tableCell', alignment: 'center' },
           { text: evening, style: 'tableCell', alignment: 'center' },
@@ -702,6 +748,207 @@ export class PdfGenerationService {
     };
   }
 
+  private createWeeklyPlannerDocument(data: ReportData, weekStart: Date): TDocumentDefinitions {
+    const lang = this.transloco.getActiveLang();
+    const t = (key: string, params?: Record<string, unknown>) => this.transloco.translate(key, params);
+    const days = Array.from({ length: 7 }, (_, index) =>
+      new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + index));
+
+    // As-needed and non-daily (special frequency) medications do not belong in a compartment
+    const current = this.medicationStatus.forChecks(data.medications);
+    const scheduled = current.filter(med => !med.asNeeded && !med.specialFrequency);
+    const inSlots = scheduled.filter(med => this.dosageRegimen.usesIntakeSlots(med.dosageRegimen));
+    const ownSchedule = scheduled.filter(med => !this.dosageRegimen.usesIntakeSlots(med.dosageRegimen));
+
+    const content: Content[] = [];
+    content.push(this.createHeader(t('weekly_planner.title')));
+    content.push({
+      text: t('weekly_planner.week_of', { date: weekStart.toLocaleDateString(lang, { day: 'numeric', month: 'long', year: 'numeric' }) }),
+      style: 'tableCellNote'
+    });
+    content.push(this.createSpacer(10));
+    content.push(this.createPatientInfoSection(data));
+    content.push(this.createSpacer(12));
+
+    if (scheduled.length === 0) {
+      content.push({ text: t('pdf.no_medication'), style: 'emptyState' });
+    } else {
+      content.push(this.createPlannerGrid(days, inSlots, ownSchedule, lang));
+      content.push(this.createSpacer(6));
+      content.push(this.createPlannerLegend());
+    }
+
+    // Interval dosing and tapering: the grid shows the units of the day, the regimen explains when
+    const notes = [
+      ...ownSchedule.map(med => `${med.name || 'Unknown'}: ${this.dosageRegimen.describe(med.dosageRegimen)}`),
+      ...current.filter(med => !med.asNeeded && med.specialFrequency)
+        .map(med => `${med.name || 'Unknown'}: ${med.specialDescription || this.formatFrequency(med)}`)
+    ];
+    if (notes.length > 0) {
+      content.push(this.createSpacer(12));
+      content.push({ text: t('weekly_planner.other_schedules'), style: 'subsectionTitle' });
+      content.push({ ul: notes, style: 'listItem' });
+    }
+
+    const asNeeded = current.filter(med => med.asNeeded);
+    if (asNeeded.length > 0) {
+      content.push(this.createSpacer(12));
+      content.push(this.createAsNeededBox(asNeeded));
+    }
+
+    return {
+      content,
+      styles: this.getStyles(),
+      pageSize: 'A4',
+      pageOrientation: 'landscape',
+      pageMargins: [30, 40, 30, 40]
+    };
+  }
+
+  private createPlannerGrid(days: Date[], inSlots: Medication[], ownSchedule: Medication[], lang: string): Content {
+    const header = [
+      { text: '', style: 'tableHeader' },
+      ...days.map(day => ({
+        text: day.toLocaleDateString(lang, { weekday: 'long', day: 'numeric', month: 'numeric' }),
+        style: 'tableHeader',
+        alignment: 'center'
+      }))
+    ];
+
+    const body: any[] = [header];
+    for (const row of PLANNER_ROWS) {
+      body.push([
+        { text: this.transloco.translate<string>(row.label), style: 'plannerMoment' },
+        ...days.map(day => this.createPlannerCell(row.slots.flatMap(slot => inSlots
+          .filter(med => this.unitsTakenOn(med, day) > 0 && Number(med[slot.field]) > 0)
+          .map(med => ({ med, units: Number(med[slot.field]), timing: slot.timing as IntakeTiming | null })))))
+      ]);
+    }
+    if (ownSchedule.length > 0) {
+      body.push([
+        { text: this.transloco.translate<string>('weekly_planner.other_times'), style: 'plannerMoment' },
+        ...days.map(day => this.createPlannerCell(ownSchedule
+          .filter(med => this.unitsTakenOn(med, day) > 0)
+          .map(med => ({ med, units: this.unitsTakenOn(med, day), timing: null }))))
+      ]);
+    }
+
+    return {
+      table: {
+        headerRows: 1,
+        dontBreakRows: true,
+        widths: [70, '*', '*', '*', '*', '*', '*', '*'],
+        body
+      },
+      layout: {
+        hLineWidth: () => 0.5,
+        vLineWidth: () => 0.5,
+        hLineColor: () => this.borderColor,
+        vLineColor: () => this.borderColor,
+        paddingLeft: () => 4,
+        paddingRight: () => 4,
+        paddingTop: () => 5,
+        paddingBottom: () => 5
+      }
+    };
+  }
+
+  // One compartment: "2 × name" per medication, with the pictogram of when to take it
+  private createPlannerCell(entries: { med: Medication; units: number; timing: IntakeTiming | null }[]): Content {
+    if (entries.length === 0) {
+      return { text: '' };
+    }
+    return {
+      stack: entries.map(({ med, units, timing }) => ({
+        columns: [
+          timing ? { svg: this.plannerPictogram(timing), width: 9, height: 9, margin: [0, 1, 0, 0] } : { text: '', width: 9 },
+          { text: [{ text: `${units} × `, bold: true }, med.name || 'Unknown'], style: 'plannerEntry', width: '*' }
+        ],
+        columnGap: 3,
+        margin: [0, 0, 0, 3]
+      }))
+    };
+  }
+
+  private createPlannerLegend(): Content {
+    const timings: IntakeTiming[] = ['before_meal', 'during_meal', 'bedtime'];
+    return {
+      columns: timings.flatMap(timing => [
+        { svg: this.plannerPictogram(timing), width: 9, height: 9, margin: [0, 1, 0, 0] },
+        { text: this.transloco.translate<string>(`weekly_planner.${timing}`), style: 'tableCellNote', width: 'auto', margin: [0, 0, 15, 0] }
+      ]),
+      columnGap: 4
+    };
+  }
+
+  // Highlighted so the patient does not look for these in the compartments
+  private createAsNeededBox(medications: Medication[]): Content {
+    return {
+      table: {
+        widths: ['*'],
+        body: [[{
+          stack: [
+            { text: this.transloco.translate<string>('weekly_planner.as_needed_title'), style: 'noteLabel' },
+            { text: this.transloco.translate<string>('weekly_planner.as_needed_hint'), style: 'tableCellNote', margin: [0, 0, 0, 6] },
+            {
+              ul: medications.map(med => {
+                const details = [
+                  this.dosageRegimen.unitsPerIntakeDay(med) > 0 ? this.formatDailyFrequency(med) : '',
+                  med.indication || ''
+                ].filter(Boolean).join(' · ');
+                return { text: [{ text: med.name || 'Unknown', bold: true }, details ? ` — ${details}` : ''], style: 'listItem' };
+              })
+            }
+          ],
+          fillColor: '#eef6ef'
+        }]]
+      },
+      layout: {
+        hLineWidth: () => 1,
+        vLineWidth: () => 1,
+        hLineColor: () => this.brandAccent,
+        vLineColor: () => this.brandAccent,
+        paddingLeft: () => 10,
+        paddingRight: () => 10,
+        paddingTop: () => 8,
+        paddingBottom: () => 8
+      }
+    };
+  }
+
+  // Empty plate with a clock (before the meal), plate with cutlery (during the meal), moon (bedtime)
+  private plannerPictogram(timing: IntakeTiming): string {
+    switch (timing) {
+      case 'before_meal':
+        return `<svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 12 12">
+          <circle cx="6" cy="6" r="5.2" fill="none" stroke="${this.brandPrimary}" stroke-width="1.2"/>
+          <path d="M6 3v3h2.3" fill="none" stroke="${this.brandPrimary}" stroke-width="1.2"/></svg>`;
+      case 'during_meal':
+        return `<svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 12 12">
+          <circle cx="6" cy="6" r="3.4" fill="${this.brandAccent}"/>
+          <path d="M1 1.5v9M11 1.5v9" fill="none" stroke="${this.brandPrimary}" stroke-width="1.2"/></svg>`;
+      case 'bedtime':
+        return `<svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 12 12">
+          <path d="M8.5 1.2A5 5 0 1 0 10.8 8.6 4 4 0 0 1 8.5 1.2z" fill="${this.brandPrimary}"/></svg>`;
+    }
+  }
+
+  // Units on a calendar day, 0 while the medication is paused, not yet started or stopped
+  private unitsTakenOn(med: Medication, date: Date): number {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    if (this.medicationStatus.statusOf(med, date) !== 'active' || (med.startDate && day < med.startDate)) {
+      return 0;
+    }
+    return this.dosageRegimen.unitsOn(med, date);
+  }
+
+  private comingMonday(): Date {
+    const today = new Date();
+    const daysUntilMonday = (8 - today.getDay()) % 7;
+    return new Date(today.getFullYear(), today.getMonth(), today.getDate() + daysUntilMonday);
+  }
+
   private createLabValuesTable(labValues: LabValue[]): Content {
     const tableBody: any[] = [
       [
@@ -746,6 +993,15 @@ export class PdfGenerationService {
   }
 
   private formatFrequency(med: Medication): string {
+    const regimen = this.dosageRegimen.describe(med.dosageRegimen);
+    if (!this.dosageRegimen.usesIntakeSlots(med.dosageRegimen)) {
+      return regimen;
+    }
+    const daily = this.formatDailyFrequency(med);
+    return regimen && daily !== '-' ? `${daily} (${regimen})` : daily;
+  }
+
+  private formatDailyFrequency(med: Medication): string {
     const doses = [
       med.unitsBeforeBreakfast || 0,
       med.unitsDuringBreakfast || 0,
@@ -860,6 +1116,19 @@ export class PdfGenerationService {
         fontSize: 10,
         color: this.textPrimary
       },
+      tableCellNote: {
+        fontSize: 8,
+        color: this.textSecondary
+      },
+      plannerMoment: {
+        fontSize: 10,
+        bold: true,
+        color: this.brandPrimary
+      },
+      plannerEntry: {
+        fontSize: 8,
+        color: this.textPrimary
+      },
       listItem: {
         fontSize: 10,
         color: this.textPrimary,
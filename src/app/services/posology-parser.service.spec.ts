@@ -0,0 +1,47 @@
+import { PosologyParserService } from './posology-parser.service';
+
+describe('PosologyParserService', () => {
+  const service = new PosologyParserService({ translate: (key: string) => key } as any);
+
+  // The intake fields the text sets, without the empty ones
+  const fieldsOf = (text: string) => {
+    const posology = service.parse(text);
+    return posology ? service.intakeFields(posology) : null;
+  };
+
+  const examples: [string, ReturnType<PosologyParserService['intakeFields']>][] = [
+    ['1-0-1', { unitsDuringBreakfast: 1, unitsDuringDinner: 1 }],
+    ['1/0/1', { unitsDuringBreakfast: 1, unitsDuringDinner: 1 }],
+    ['1-0-0-1', { unitsDuringBreakfast: 1, unitsAtBedtime: 1 }],
+    ['½-0-½', { unitsDuringBreakfast: 0.5, unitsDuringDinner: 0.5 }],
+    ['1/2-0-1/2', { unitsDuringBreakfast: 0.5, unitsDuringDinner: 0.5 }],
+    ['2x/dag 1 co', { unitsDuringBreakfast: 1, unitsDuringDinner: 1 }],
+    ['3 maal daags 2 tabl', { unitsDuringBreakfast: 2, unitsDuringLunch: 2, unitsDuringDinner: 2 }],
+    ["1 's avonds", { unitsDuringDinner: 1 }],
+    ["½ tablet 's morgens en 1 's avonds", { unitsDuringBreakfast: 0.5, unitsDuringDinner: 1 }],
+    ['1 co voor het ontbijt', { unitsBeforeBreakfast: 1 }],
+    ['1 co 2 fois par jour', { unitsDuringBreakfast: 1, unitsDuringDinner: 1 }],
+    ['1 tab bid prn', { asNeeded: true, unitsDuringBreakfast: 1, unitsDuringDinner: 1 }],
+    ['once daily', { unitsDuringBreakfast: 1 }],
+    ['3 dd 1 tablet', { unitsDuringBreakfast: 1, unitsDuringLunch: 1, unitsDuringDinner: 1 }],
+    // Once a day without a count
+    ['1 tablet per dag', { unitsDuringBreakfast: 1 }],
+    ['1 per dag', { unitsDuringBreakfast: 1 }],
+    ['1 dd', { unitsDuringBreakfast: 1 }],
+    ['1 co par jour', { unitsDuringBreakfast: 1 }],
+    ['1 tablet daily', { unitsDuringBreakfast: 1 }],
+    ['½ tablet per dag', { unitsDuringBreakfast: 0.5 }]
+  ];
+
+  examples.forEach(([text, fields]) => {
+    it(`reads "${text}"`, () => {
+      expect(fieldsOf(text)).toEqual(fields);
+    });
+  });
+
+  it('does not guess from text it does not understand', () => {
+    expect(service.parse('zie bijsluiter')).toBeNull();
+    expect(service.parse('20 mg per dag')).toBeNull();
+    expect(service.parse('1 tablet per week')).toBeNull();
+  });
+});
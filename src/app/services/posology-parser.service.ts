@@ -0,0 +1,257 @@
+import { Injectable } from '@angular/core';
+import { TranslocoService } from '@jsverse/transloco';
+
+/**
+ * The intake fields of a medication as read from a posology text
+ */
+export interface ParsedPosology {
+  asNeeded: boolean;
+  unitsBeforeBreakfast: number | null;
+  unitsDuringBreakfast: number | null;
+  unitsBeforeLunch: number | null;
+  unitsDuringLunch: number | null;
+  unitsBeforeDinner: number | null;
+  unitsDuringDinner: number | null;
+  unitsAtBedtime: number | null;
+}
+
+type Slot = Exclude<keyof ParsedPosology, 'asNeeded'>;
+type Moment = 'breakfast' | 'lunch' | 'dinner' | 'bedtime';
+
+const SLOTS: Slot[] = [
+  'unitsBeforeBreakfast', 'unitsDuringBreakfast', 'unitsBeforeLunch', 'unitsDuringLunch',
+  'unitsBeforeDinner', 'unitsDuringDinner', 'unitsAtBedtime'
+];
+
+// Moments of "1-0-1" (morning, noon, evening) and "1-0-0-1" (… bedtime)
+const DASH_MOMENTS: Moment[] = ['breakfast', 'lunch', 'dinner', 'bedtime'];
+
+// Moments used for "n times a day"
+const TIMES_A_DAY: Record<number, Moment[]> = {
+  1: ['breakfast'],
+  2: ['breakfast', 'dinner'],
+  3: ['breakfast', 'lunch', 'dinner'],
+  4: ['breakfast', 'lunch', 'dinner', 'bedtime']
+};
+
+const MOMENT_WORDS: [Moment, RegExp][] = [
+  ['breakfast', /\b(?:morgen|ochtend|ontbijt|morning|breakfast|matin|petit[- ]d[ée]jeuner)/],
+  ['lunch', /\b(?:middag|noon|lunch|midi)|(?<!petit[- ])d[ée]jeuner/],
+  ['dinner', /\b(?:avond|d[iî]ner|souper|evening|dinner|supper|soir)/],
+  ['bedtime', /\b(?:slapengaan|slapen|bedtijd|nacht|bedtime|night|coucher|nuit)/]
+];
+
+const BEFORE_MEAL = /\b(?:voor (?:het|de) |nuchter|before |avant (?:le |la )?|[àa] jeun|empty stomach)/;
+const AS_NEEDED = /\b(?:zo nodig|indien nodig|z\.?n\.?(?!\w)|bij pijn|prn|as needed|if needed|when needed|si n[ée]cessaire|au besoin|si besoin|en cas de)/;
+const FREQUENCY = /(\d+)\s*(?:x|maal|keer|fois|times|dd(?![a-z]))\s*(?:\/|per|par|a|daags|p\.?\s*d\.?)?\s*(?:dag|d\b|j\b|jour|day|daily|daags)?/;
+const NOT_DAILY = /\b(?:week|semaine|maand|mois|month|jaar|year)/;
+const LATIN_FREQUENCY: Record<string, number> = { od: 1, qd: 1, bid: 2, tid: 3, qid: 4 };
+const WORD_FREQUENCY: [RegExp, number][] = [
+  [/\b(?:once daily|once a day|eenmaal daags|une fois par jour)/, 1],
+  [/\b(?:twice daily|twice a day|tweemaal daags|deux fois par jour)/, 2],
+  [/\b(?:three times (?:daily|a day)|driemaal daags|trois fois par jour)/, 3],
+  [/\b(?:four times (?:daily|a day)|viermaal daags|quatre fois par jour)/, 4],
+  // Without a count: "1 tablet per dag", "1 co par jour", "1 dd"
+  [/\b(?:per dag|par jour|per day|a day|daily|dd)(?![a-z])/, 1]
+];
+// Units per intake: "1 co", "2 tabl", "½ comprimé", "1 capsule", "2 stuks"
+const UNITS = /(\d+(?:\.\d+)?)\s*(?:co|comp|compr|comprim[ée]s?|tab|tabl|tablet(?:ten|s)?|caps|capsules?|g[ée]lules?|stuks?|pcs|pieces?|dosis|doses?)(?![a-z])/;
+// An amount of the substance ("20 mg", "5 ml") says nothing about the number of units
+const STRENGTH = /\d+(?:\.\d+)?\s*(?:mg|mcg|µg|ug|g|ml|ie|iu)(?![a-zµé])/;
+
+/**
+ * Turns the posology notations pharmacists use ("1-0-1", "2x/dag 1 co", "1 's avonds",
+ * "½ tablet 's morgens", "1 co 2 fois par jour", "1 tab bid prn") into the seven intake fields
+ * and `asNeeded`. Doses are placed during the meal unless the text says before (or fasting).
+ * Returns null for text it does not understand, so the fields are never filled by guessing.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PosologyParserService {
+
+  constructor(private transloco: TranslocoService) {}
+
+  parse(text: string | null | undefined): ParsedPosology | null {
+    const normalized = this.normalize(text ?? '');
+    if (!normalized) {
+      return null;
+    }
+
+    const result = this.empty();
+    result.asNeeded = AS_NEEDED.test(normalized);
+    const rest = normalized.replace(AS_NEEDED, ' ').trim();
+
+    const parsed = this.parseDashes(rest, result) || this.parseMoments(rest, result) || this.parseFrequency(rest, result);
+    if (!parsed && !result.asNeeded) {
+      return null;
+    }
+    return result;
+  }
+
+  /**
+   * Interpretation for confirmation, e.g. "Breakfast (during) 1 · Bedtime 1", in the active language
+   */
+  describe(posology: ParsedPosology, lang?: string): string {
+    const t = (key: string) => this.transloco.translate(key, {}, lang);
+    const parts: string[] = [];
+
+    const moments: [string, Slot, Slot | null][] = [
+      ['medication.breakfast', 'unitsBeforeBreakfast', 'unitsDuringBreakfast'],
+      ['medication.lunch', 'unitsBeforeLunch', 'unitsDuringLunch'],
+      ['medication.dinner', 'unitsBeforeDinner', 'unitsDuringDinner'],
+      ['medication.bedtime', 'unitsAtBedtime', null]
+    ];
+    for (const [label, before, during] of moments) {
+      if (posology[before]) {
+        parts.push(during ? `${t(label)} (${t('medication.before').toLowerCase()}) ${posology[before]}` : `${t(label)} ${posology[before]}`);
+      }
+      if (during && posology[during]) {
+        parts.push(`${t(label)} (${t('medication.during').toLowerCase()}) ${posology[during]}`);
+      }
+    }
+    if (posology.asNeeded) {
+      parts.push(t('medication.as_needed_short'));
+    }
+    return parts.join(' · ');
+  }
+
+  /**
+   * Only the fields the posology sets, to spread into an add request
+   */
+  intakeFields(posology: ParsedPosology | null | undefined): Partial<Record<keyof ParsedPosology, number | boolean>> {
+    if (!posology) {
+      return {};
+    }
+    return Object.fromEntries(Object.entries(posology).filter(([, value]) => value !== null && value !== false));
+  }
+
+  // "1-0-1", "1/0/1", "1-0-0-1", "½-0-½" or all seven slots "0-1-0-0-0-1-0"; fractions such as
+  // "1/2-0-1/2" are decimals by now, so a "/" left between numbers separates slots
+  private parseDashes(text: string, result: ParsedPosology): boolean {
+    const match = text.match(/^(\d+(?:\.\d+)?(?:(?:\s*-\s*|\s+\/\s+|\/)\d+(?:\.\d+)?){2,6})(?:\s|$)/);
+    if (!match) {
+      return false;
+    }
+    const values = match[1].split(/-|\//).map(value => Number(value.trim()));
+    const before = BEFORE_MEAL.test(text);
+
+    if (values.length === SLOTS.length) {
+      SLOTS.forEach((slot, index) => result[slot] = values[index] || null);
+      return true;
+    }
+    if (values.length > DASH_MOMENTS.length) {
+      return false;
+    }
+    values.forEach((units, index) => this.add(result, DASH_MOMENTS[index], units, before));
+    return true;
+  }
+
+  // "1 's avonds", "½ tablet 's morgens en 1 's avonds", "1 co voor het ontbijt"
+  private parseMoments(text: string, result: ParsedPosology): boolean {
+    let found = false;
+    for (const segment of text.split(/\s+(?:en|et|and|\+)\s+|[,;+]/)) {
+      const moments = MOMENT_WORDS.filter(([, pattern]) => pattern.test(segment)).map(([moment]) => moment);
+      if (moments.length === 0) {
+        continue;
+      }
+      const units = this.unitsIn(segment);
+      if (units === null) {
+        return false;
+      }
+      const before = BEFORE_MEAL.test(segment);
+      moments.forEach(moment => this.add(result, moment, units, before));
+      found = true;
+    }
+    return found;
+  }
+
+  // "2x/dag 1 co", "3 dd 1 tabl", "1 co 2 fois par jour", "bid", "1 tablet per dag"
+  private parseFrequency(text: string, result: ParsedPosology): boolean {
+    // Weekly or monthly doses do not fit the daily intake fields
+    if (NOT_DAILY.test(text)) {
+      return false;
+    }
+    let times: number | null = null;
+    const frequency = text.match(FREQUENCY);
+    if (frequency) {
+      times = Number(frequency[1]);
+    } else {
+      const latin = text.match(/\b(od|qd|bid|tid|qid)\b/);
+      times = latin ? LATIN_FREQUENCY[latin[1]] : WORD_FREQUENCY.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+    }
+
+    const moments = times ? TIMES_A_DAY[times] : null;
+    if (!moments) {
+      return false;
+    }
+    const units = this.unitsIn(frequency ? text.replace(frequency[0], ' ') : text);
+    if (units === null) {
+      return false;
+    }
+    const before = BEFORE_MEAL.test(text);
+    moments.forEach(moment => this.add(result, moment, units, before));
+    return true;
+  }
+
+  // Units per intake, 1 when the text gives no number; null when it only gives an amount ("20 mg")
+  private unitsIn(text: string): number | null {
+    const withUnit = text.match(UNITS);
+    if (withUnit) {
+      return Number(withUnit[1]);
+    }
+    if (STRENGTH.test(text)) {
+      return null;
+    }
+    const number = text.match(/(?:^|\s)(\d+(?:\.\d+)?)(?=\s|$)/);
+    return number ? Number(number[1]) : 1;
+  }
+
+  private add(result: ParsedPosology, moment: Moment, units: number, before: boolean): void {
+    if (!units) {
+      return;
+    }
+    const slot: Slot = moment === 'bedtime'
+      ? 'unitsAtBedtime'
+      : `units${before ? 'Before' : 'During'}${moment.charAt(0).toUpperCase()}${moment.slice(1)}` as Slot;
+    result[slot] = (result[slot] ?? 0) + units;
+  }
+
+  // Lower case, fractions as decimals, one kind of apostrophe and single spaces
+  private normalize(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/[’‘`]/g, "'")
+      .replace(/(\d+)\s*½/g, (_, whole) => `${Number(whole) + 0.5}`)
+      .replace(/½/g, '0.5')
+      .replace(/¼/g, '0.25')
+      .replace(/¾/g, '0.75')
+      .replace(/(?<![\d/.])(?:(\d+)\s+)?(\d+)\/(\d+)(?![\d/])/g, (fraction, whole, numerator, denominator) =>
+        this.fraction(fraction, whole, Number(numerator), Number(denominator)))
+      .replace(/(\d),(\d)/g, '$1.$2')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  // "1/2" and "1 1/2" as a decimal; "1/0/1" and the like are left, the slash separates slots there
+  private fraction(text: string, whole: string | undefined, numerator: number, denominator: number): string {
+    if (numerator >= denominator) {
+      return text;
+    }
+    const value = Math.round((Number(whole ?? 0) + numerator / denominator) * 100) / 100;
+    return `${value}`;
+  }
+
+  private empty(): ParsedPosology {
+    return {
+      asNeeded: false,
+      unitsBeforeBreakfast: null,
+      unitsDuringBreakfast: null,
+      unitsBeforeLunch: null,
+      unitsDuringLunch: null,
+      unitsBeforeDinner: null,
+      unitsDuringDinner: null,
+      unitsAtBedtime: null
+    };
+  }
+}
@@ -0,0 +1,213 @@
+import { Injectable } from '@angular/core';
+import { Observable, map, of, switchMap } from 'rxjs';
+import { Medication, MedicationReviewSummary } from '../models/api.models';
+import { ApiService } from './api.service';
+import { StateService } from './state.service';
+import { DosageRegimenService, DosageSource } from './dosage-regimen.service';
+import { MedicationStatusService, StatusSource } from './medication-status.service';
+import { ReviewComparisonService } from './review-comparison.service';
+
+// What the score needs from a medication, shared by the API model and the view models
+export type ComplexitySource = DosageSource & StatusSource &
+  Pick<Medication, 'routeOfAdministration' | 'asNeeded' | 'specialFrequency' | 'specialDescription'>;
+
+export type DosageForm = 'oral' | 'sublingual' | 'topical' | 'transdermal' | 'ocular' | 'auricular' |
+  'nasal' | 'inhalation' | 'rectal' | 'vaginal' | 'injection';
+
+/**
+ * Medication Regimen Complexity Index with its three sections, plus the pill burden
+ */
+export interface RegimenComplexity {
+  dosageForm: number;       // A: every dosage form in the regimen, counted once
+  frequency: number;        // B: dosing frequency, per medication
+  directions: number;       // C: additional directions, per medication
+  total: number;
+  dailyPills: number;       // Average oral units per day, as-needed medications excluded
+  intakeMoments: number;    // Moments per day at which something has to be taken
+  medicationCount: number;
+}
+
+export interface ComplexityTrend {
+  current: RegimenComplexity;
+  previous: RegimenComplexity | null;
+  previousReview: MedicationReviewSummary | null;
+}
+
+// Routes are free text in the language of the source (e.g. "oraal gebruik", "voie orale"),
+// so they are recognised by keyword. Order matters: subcutaneous before cutaneous.
+const DOSAGE_FORMS: { form: DosageForm; pattern: RegExp }[] = [
+  { form: 'injection', pattern: /subcut|sous-cut|intramusc|intraveine|intraven|parenter|inject/ },
+  { form: 'transdermal', pattern: /transderm/ },
+  { form: 'sublingual', pattern: /sublingu|oromucos/ },
+  { form: 'inhalation', pattern: /inhal/ },
+  { form: 'nasal', pattern: /nasa|\bneus/ },
+  { form: 'ocular', pattern: /ocula|ophtalm|ophthalm|\boog|\beye/ },
+  { form: 'auricular', pattern: /auric|\boor|\bear|oreille/ },
+  { form: 'rectal', pattern: /\brect/ },
+  { form: 'vaginal', pattern: /vagin/ },
+  { form: 'topical', pattern: /cutan|topi|derm|huid|peau|skin/ }
+];
+
+// Section A weights, after George et al. (2004)
+const DOSAGE_FORM_WEIGHTS: Record<DosageForm, number> = {
+  oral: 1,
+  sublingual: 2,
+  topical: 2,
+  transdermal: 2,
+  ocular: 3,
+  auricular: 3,
+  nasal: 2,
+  inhalation: 4,
+  rectal: 2,
+  vaginal: 3,
+  injection: 3
+};
+
+// Section B weights for interval dosing: [maximum interval in hours, weight]
+const INTERVAL_WEIGHTS: [number, number][] = [[2, 12.5], [4, 6.5], [6, 4.5], [8, 3.5], [12, 2.5], [24, 1]];
+
+const BEFORE_MEAL_SLOTS: (keyof DosageSource)[] = ['unitsBeforeBreakfast', 'unitsBeforeLunch', 'unitsBeforeDinner'];
+
+const INTAKE_SLOTS: (keyof DosageSource)[] = [
+  'unitsBeforeBreakfast', 'unitsDuringBreakfast', 'unitsBeforeLunch', 'unitsDuringLunch',
+  'unitsBeforeDinner', 'unitsDuringDinner', 'unitsAtBedtime'
+];
+
+/**
+ * Regimen complexity of the current medications: the Medication Regimen Complexity Index
+ * (dosage forms, frequency and additional directions) derived from the route, the intake slots
+ * and the dosage regimen, and the pill burden (units and intake moments per day).
+ * Stopped medications are not counted. The score of the previous review shows whether a review
+ * simplified the regimen.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class RegimenComplexityService {
+
+  constructor(
+    private apiService: ApiService,
+    private stateService: StateService,
+    private dosageRegimen: DosageRegimenService,
+    private medicationStatus: MedicationStatusService,
+    private reviewComparison: ReviewComparisonService
+  ) {}
+
+  score(medications: ComplexitySource[]): RegimenComplexity {
+    const current = this.medicationStatus.forChecks(medications);
+    const forms = new Set(current.map(medication => this.dosageFormOf(medication)));
+    const dosageForm = [...forms].reduce((sum, form) => sum + DOSAGE_FORM_WEIGHTS[form], 0);
+    const frequency = current.reduce((sum, medication) => sum + this.frequencyWeight(medication), 0);
+    const directions = current.reduce((sum, medication) => sum + this.directionsWeight(medication), 0);
+
+    const scheduled = current.filter(medication => !medication.asNeeded);
+    const dailyPills = scheduled
+      .filter(medication => this.dosageFormOf(medication) === 'oral')
+      .reduce((sum, medication) => sum + this.dosageRegimen.averageDailyUnits(medication), 0);
+
+    return {
+      dosageForm,
+      frequency,
+      directions,
+      total: dosageForm + frequency + directions,
+      dailyPills: Math.round(dailyPills * 10) / 10,
+      intakeMoments: this.intakeMoments(scheduled),
+      medicationCount: current.length
+    };
+  }
+
+  /**
+   * Score of the open review next to the score of the patient's previous review
+   * (null when there is none)
+   */
+  trend(medications: ComplexitySource[]): Observable<ComplexityTrend> {
+    const apbNumber = this.stateService.apbNumber;
+    const current = this.score(medications);
+
+    return this.reviewComparison.findPreviousReview(apbNumber, this.stateService.medicationReviewId, this.stateService.patientId).pipe(
+      switchMap(previousReview => !previousReview
+        ? of({ current, previous: null, previousReview: null })
+        : this.apiService.getMedications(apbNumber, previousReview.medicationReviewId).pipe(
+            map(previous => ({ current, previous: this.score(previous), previousReview }))
+          ))
+    );
+  }
+
+  /**
+   * Empty routes count as oral, unknown routes as the lowest weight
+   */
+  dosageFormOf(medication: ComplexitySource): DosageForm {
+    const route = (medication.routeOfAdministration ?? '').toLowerCase();
+    return DOSAGE_FORMS.find(entry => entry.pattern.test(route))?.form ?? 'oral';
+  }
+
+  private frequencyWeight(medication: ComplexitySource): number {
+    if (medication.asNeeded) {
+      return 0.5;
+    }
+
+    const regimen = medication.dosageRegimen;
+    if (regimen?.periodicity === 'interval') {
+      const hours = regimen.intervalHours ?? 24;
+      return INTERVAL_WEIGHTS.find(([maximum]) => hours <= maximum)?.[1] ?? 2;
+    }
+
+    const slots = this.usedSlots(medication).length;
+    const daily = slots >= 5 ? 6.5 : Math.max(slots, 1);
+
+    // Alternate days or less often
+    if (medication.specialFrequency || (regimen && regimen.periodicity !== 'daily')) {
+      return Math.max(daily, 2);
+    }
+    return daily;
+  }
+
+  private directionsWeight(medication: ComplexitySource): number {
+    const regimen = medication.dosageRegimen;
+    const units = this.dosageRegimen.usesIntakeSlots(regimen)
+      ? this.usedSlots(medication).map(slot => Number(medication[slot]))
+      : [regimen?.unitsPerIntake ?? 0, ...(regimen?.taperingSteps ?? []).map(step => step.units)].filter(value => value > 0);
+
+    let weight = 0;
+    if (units.some(value => value > 1)) {
+      weight += 1;    // Multiple units at one time
+    }
+    if (units.some(value => !Number.isInteger(value))) {
+      weight += 1;    // Break tablet
+    }
+    if (new Set(units).size > 1 && !regimen?.taperingSteps?.length) {
+      weight += 1;    // Variable dose
+    }
+    if (this.dosageRegimen.usesIntakeSlots(regimen) && BEFORE_MEAL_SLOTS.some(slot => Number(medication[slot]) > 0)) {
+      weight += 1;    // Relation to food
+    }
+    if (regimen?.taperingSteps?.length) {
+      weight += 2;    // Tapering or increasing dose
+    }
+    if (regimen?.periodicity === 'cycle') {
+      weight += 2;    // Alternating dose
+    }
+    return weight;
+  }
+
+  private intakeMoments(medications: ComplexitySource[]): number {
+    const slots = new Set<keyof DosageSource>();
+    let moments = 0;
+
+    for (const medication of medications) {
+      const regimen = medication.dosageRegimen;
+      if (regimen?.periodicity === 'interval') {
+        moments = Math.max(moments, regimen.intervalHours ? Math.ceil(24 / regimen.intervalHours) : 1);
+      } else if (!this.dosageRegimen.usesIntakeSlots(regimen)) {
+        moments = Math.max(moments, 1);
+      } else {
+        this.usedSlots(medication).forEach(slot => slots.add(slot));
+      }
+    }
+    return Math.max(moments, slots.size);
+  }
+
+  private usedSlots(medication: ComplexitySource): (keyof DosageSource)[] {
+    return INTAKE_SLOTS.filter(slot => Number(medication[slot]) > 0);
+  }
+}
@@ -0,0 +1,99 @@
+import { Injectable } from '@angular/core';
+import { Observable, catchError, concatMap, forkJoin, from, map, of, switchMap, toArray } from 'rxjs';
+import { MedicationReviewSummary, ReviewContext } from '../models/api.models';
+import { ApiService } from './api.service';
+import { ReviewComparisonService } from './review-comparison.service';
+
+export interface FollowUpOptions {
+  includeOpenNotes: boolean;
+}
+
+export interface FollowUpResult {
+  context: ReviewContext;
+  copied: number;
+  failed: number;
+}
+
+/**
+ * Starts a follow-up review for the patient of an existing review.
+ * The new review is linked to the source review and gets a copy of its medications,
+ * contraindications, lab values and, optionally, its open notes (notes without a recorded
+ * pharmacist action), added one at a time through the regular add endpoints.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ReviewCloneService {
+
+  constructor(
+    private apiService: ApiService,
+    private reviewComparison: ReviewComparisonService
+  ) {}
+
+  createFollowUp(apbNumber: string, source: MedicationReviewSummary, options: FollowUpOptions): Observable<FollowUpResult> {
+    const sourceId = source.medicationReviewId;
+
+    // Read everything first, so a failing read does not leave an empty review behind
+    return forkJoin({
+      medications: this.apiService.getMedications(apbNumber, sourceId),
+      contraindications: this.apiService.getContraindications(apbNumber, sourceId),
+      labValues: this.apiService.getLabValues(apbNumber, sourceId),
+      notes: options.includeOpenNotes ? this.apiService.getReviewNotes(apbNumber, sourceId) : of([]),
+      questionAnswers: options.includeOpenNotes ? this.apiService.getQuestionAnswers(apbNumber, sourceId) : of([])
+    }).pipe(
+      switchMap(data => this.apiService.createMedicationReview(apbNumber, {
+        patientId: source.patientId,
+        previousMedicationReviewId: sourceId
+      }).pipe(map(context => ({ ...data, context })))),
+      switchMap(data => {
+        const reviewId = data.context.medicationReviewId;
+        const actions = new Set(data.questionAnswers
+          .filter(answer => answer.questionName.startsWith('note_comment_') && answer.value)
+          .map(answer => answer.questionName.substring('note_comment_'.length)));
+        const openNotes = data.notes.filter(note => note.text && !actions.has(note.rowKey));
+
+        const review = {
+          firstNameAtTimeOfReview: source.firstNameAtTimeOfReview,
+          lastNameAtTimeOfReview: source.lastNameAtTimeOfReview,
+          renalFunction: source.renalFunction ?? null
+        };
+        const copies: Observable<unknown>[] = [
+          ...data.medications.map(medication =>
+            this.apiService.addMedication(apbNumber, reviewId, this.reviewComparison.copyOfMedication(medication))),
+          ...data.contraindications.map(contraindication =>
+            this.apiService.addContraindication(apbNumber, reviewId, {
+              name: contraindication.name,
+              contraindicationCode: contraindication.contraindicationCode
+            })),
+          ...data.labValues.map(labValue =>
+            this.apiService.addLabValue(apbNumber, reviewId, { name: labValue.name, value: labValue.value, unit: labValue.unit })),
+          ...openNotes.map(note =>
+            this.apiService.addReviewNote(apbNumber, reviewId, {
+              text: note.text,
+              discussWithPatient: note.discussWithPatient,
+              communicateToDoctor: note.communicateToDoctor,
+              category: note.category,
+              linkedCnk: note.linkedCnk,
+              medicationName: note.medicationName
+            }))
+        ];
+
+        // One at a time, so the copies keep the order (and timestamps) of the source review
+        const copyAll = from(copies).pipe(
+          concatMap(request => request.pipe(map(() => true), catchError(() => of(false)))),
+          toArray()
+        );
+
+        return this.apiService.updateMedicationReview({ apbNumber, medicationReviewId: reviewId, patientId: source.patientId, ...review }).pipe(
+          catchError(() => of(null)),
+          switchMap(() => copyAll),
+          map(outcomes => ({
+            context: { ...data.context, review: { ...data.context.review, ...review } },
+            copied: outcomes.filter(Boolean).length,
+            failed: outcomes.filter(outcome => !outcome).length
+          }))
+        );
+      })
+    );
+  }
+}
@@ -0,0 +1,302 @@
+import { Injectable } from '@angular/core';
+import { Observable, catchError, concatMap, forkJoin, from, map, of, toArray } from 'rxjs';
+import { Contraindication, LabValue, Medication, MedicationReviewSummary } from '../models/api.models';
+import { ApiService } from './api.service';
+import { DosageRegimenService } from './dosage-regimen.service';
+import { MedicationStatusService } from './medication-status.service';
+import { StateService } from './state.service';
+
+/**
+ * How a medication of the current review relates to the previous review:
+ * - unchanged: same product and dosage
+ * - added: new since the previous review
+ * - previous_only: in the previous review but not (yet) in this one, can be carried over
+ * - stopped: in both reviews, but stopped in this one
+ * - dose_changed: same product, different dosage
+ * - switched: a different CNK of the same VMP (e.g. another brand or package)
+ */
+export type MedicationChange = 'unchanged' | 'added' | 'previous_only' | 'stopped' | 'dose_changed' | 'switched';
+
+export type ItemChange = 'unchanged' | 'added' | 'previous_only' | 'changed';
+
+export interface MedicationComparison {
+  change: MedicationChange;
+  name: string;
+  current: Medication | null;
+  previous: Medication | null;
+}
+
+export interface ContraindicationComparison {
+  change: ItemChange;
+  name: string;
+  current: Contraindication | null;
+  previous: Contraindication | null;
+}
+
+export interface LabValueComparison {
+  change: ItemChange;
+  name: string;
+  current: LabValue | null;
+  previous: LabValue | null;
+}
+
+export interface ReviewComparison {
+  previousReview: MedicationReviewSummary;
+  medications: MedicationComparison[];
+  contraindications: ContraindicationComparison[];
+  labValues: LabValueComparison[];
+}
+
+export interface CarryOverResult {
+  medications: number;
+  contraindications: number;
+  failed: number;
+}
+
+// Intake moments in schema order
+const INTAKE_FIELDS: (keyof Medication)[] = [
+  'unitsBeforeBreakfast', 'unitsDuringBreakfast', 'unitsBeforeLunch', 'unitsDuringLunch',
+  'unitsBeforeDinner', 'unitsDuringDinner', 'unitsAtBedtime'
+];
+
+// Fields that make up the dosage of a medication
+const DOSAGE_FIELDS: (keyof Medication)[] = ['dosageMg', 'asNeeded', 'specialFrequency', 'specialDescription', ...INTAKE_FIELDS];
+
+// Fields copied when a medication is carried over; ids, versions and timestamps belong to the previous review
+const CARRY_OVER_FIELDS: (keyof Medication)[] = [
+  'name', 'cnk', 'vmp', 'packageSize', 'activeIngredient', 'routeOfAdministration', 'indication',
+  'dosageRegimen', 'status', 'startDate', 'stopDate', 'changeReason', 'instructions', ...DOSAGE_FIELDS
+];
+
+// Order of the changes in lists and reports: what needs attention first
+const CHANGE_ORDER: MedicationChange[] = ['added', 'stopped', 'dose_changed', 'switched', 'previous_only', 'unchanged'];
+
+/**
+ * Reconciliation of a review against the patient's previous review.
+ * Medications are matched on CNK, then on VMP (a switch to another product of the same
+ * substance and strength), then on name. Contraindications are matched on code and lab values
+ * on name. Items that are only in the previous review can be carried over into the current one.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ReviewComparisonService {
+
+  constructor(
+    private apiService: ApiService,
+    private stateService: StateService,
+    private dosageRegimen: DosageRegimenService,
+    private medicationStatus: MedicationStatusService
+  ) {}
+
+  /**
+   * The review the given one is a follow-up of, or else the most recent review of the same patient
+   * before it. Null when there is none.
+   */
+  findPreviousReview(apbNumber: string, medicationReviewId: string, patientId: string): Observable<MedicationReviewSummary | null> {
+    return this.apiService.listMedicationReviews(apbNumber).pipe(
+      map(reviews => {
+        const current = reviews.find(review => review.medicationReviewId === medicationReviewId);
+        const linked = reviews.find(review => !!current?.previousMedicationReviewId && review.medicationReviewId === current.previousMedicationReviewId);
+        if (linked) {
+          return linked;
+        }
+        return reviews
+          .filter(review => review.patientId === patientId && review.medicationReviewId !== medicationReviewId)
+          .filter(review => !current || this.sortKey(review) < this.sortKey(current))
+          .sort((a, b) => this.sortKey(b).localeCompare(this.sortKey(a)))[0] ?? null;
+      })
+    );
+  }
+
+  /**
+   * Compare the open review with the patient's previous review.
+   * Emits null when the patient has no earlier review.
+   */
+  compareWithPrevious(): Observable<ReviewComparison | null> {
+    const apbNumber = this.stateService.apbNumber;
+    const reviewId = this.stateService.medicationReviewId;
+
+    return this.findPreviousReview(apbNumber, reviewId, this.stateService.patientId).pipe(
+      concatMap(previousReview => {
+        if (!previousReview) {
+          return of(null);
+        }
+        return forkJoin({
+          current: this.loadReview(apbNumber, reviewId),
+          previous: this.loadReview(apbNumber, previousReview.medicationReviewId)
+        }).pipe(
+          map(({ current, previous }) => ({
+            previousReview,
+            medications: this.compareMedications(current.medications, previous.medications),
+            contraindications: this.compareContraindications(current.contraindications, previous.contraindications),
+            labValues: this.compareLabValues(current.labValues, previous.labValues)
+          }))
+        );
+      })
+    );
+  }
+
+  compareMedications(current: Medication[], previous: Medication[]): MedicationComparison[] {
+    const unmatched = [...previous];
+    const take = (predicate: (medication: Medication) => boolean): Medication | null => {
+      const index = unmatched.findIndex(predicate);
+      return index === -1 ? null : unmatched.splice(index, 1)[0];
+    };
+
+    // Exact product matches go first, so a switch never claims a medication that is still there
+    const pairs = current.map(medication => ({
+      medication,
+      previous: medication.cnk ? take(candidate => candidate.cnk === medication.cnk) : null,
+      switched: false
+    }));
+    for (const pair of pairs.filter(pair => !pair.previous && pair.medication.vmp)) {
+      pair.previous = take(candidate => candidate.vmp === pair.medication.vmp);
+      pair.switched = !!pair.previous;
+    }
+    for (const pair of pairs.filter(pair => !pair.previous && pair.medication.name)) {
+      pair.previous = take(candidate => this.normalize(candidate.name) === this.normalize(pair.medication.name));
+    }
+
+    const result: MedicationComparison[] = pairs.map(({ medication, previous, switched }) => ({
+      change: this.medicationChange(medication, previous, switched),
+      name: medication.name || '',
+      current: medication,
+      previous
+    }));
+    for (const medication of unmatched) {
+      result.push({ change: 'previous_only', name: medication.name || '', current: null, previous: medication });
+    }
+
+    return result.sort((a, b) => CHANGE_ORDER.indexOf(a.change) - CHANGE_ORDER.indexOf(b.change));
+  }
+
+  compareContraindications(current: Contraindication[], previous: Contraindication[]): ContraindicationComparison[] {
+    return this.compareItems(current, previous, item => item.contraindicationCode, () => false)
+      .map(item => ({ ...item, name: (item.current ?? item.previous)!.name || (item.current ?? item.previous)!.contraindicationCode }));
+  }
+
+  compareLabValues(current: LabValue[], previous: LabValue[]): LabValueComparison[] {
+    return this.compareItems(current, previous, item => this.normalize(item.name),
+      (a, b) => a.value !== b.value || (a.unit || '') !== (b.unit || ''))
+      .map(item => ({ ...item, name: (item.current ?? item.previous)!.name || '' }));
+  }
+
+  /**
+   * Copy the medications and contraindications that are only in the previous review into the
+   * current one. Lab values are not carried over: they are measurements of a moment.
+   */
+  carryOver(comparison: ReviewComparison): Observable<CarryOverResult> {
+    const apbNumber = this.stateService.apbNumber;
+    const reviewId = this.stateService.medicationReviewId;
+
+    type Outcome = 'medication' | 'contraindication' | 'failed';
+    const requests: (() => Observable<Outcome>)[] = [
+      ...comparison.medications
+        .filter(item => item.change === 'previous_only')
+        .map(item => () => this.apiService.addMedication(apbNumber, reviewId, this.copyOfMedication(item.previous!))
+          .pipe(map((): Outcome => 'medication'))),
+      ...comparison.contraindications
+        .filter(item => item.change === 'previous_only')
+        .map(item => () => this.apiService.addContraindication(apbNumber, reviewId, {
+          name: item.previous!.name,
+          contraindicationCode: item.previous!.contraindicationCode
+        }).pipe(map((): Outcome => 'contraindication')))
+    ];
+
+    // One at a time, so a failure leaves the others in place and the order is kept
+    return from(requests).pipe(
+      concatMap(request => request().pipe(catchError(() => of<Outcome>('failed')))),
+      toArray(),
+      map(outcomes => {
+        const result: CarryOverResult = {
+          medications: outcomes.filter(outcome => outcome === 'medication').length,
+          contraindications: outcomes.filter(outcome => outcome === 'contraindication').length,
+          failed: outcomes.filter(outcome => outcome === 'failed').length
+        };
+        if (result.medications > 0) {
+          this.stateService.notifyMedicationsChanged();
+        }
+        if (result.contraindications > 0) {
+          this.stateService.notifyContraindicationsChanged();
+        }
+        return result;
+      })
+    );
+  }
+
+  /**
+   * Short dosage description for the comparison and the report: the intake moments
+   * (e.g. "1-0-0-0-0-0-1") and/or the structured regimen, or the special frequency
+   */
+  describeDosage(medication: Medication | null, lang?: string): string {
+    if (!medication) {
+      return '';
+    }
+    if (medication.asNeeded || medication.specialFrequency) {
+      return medication.specialDescription || '';
+    }
+    const regimen = this.dosageRegimen.describe(medication.dosageRegimen, lang);
+    if (!this.dosageRegimen.usesIntakeSlots(medication.dosageRegimen)) {
+      return regimen;
+    }
+    const slots = INTAKE_FIELDS.map(field => (medication[field] as number | null | undefined) ?? 0).join('-');
+    return regimen ? `${slots} · ${regimen}` : slots;
+  }
+
+  /**
+   * The fields to add a medication to another review with
+   */
+  copyOfMedication(medication: Medication): Record<string, unknown> {
+    return Object.fromEntries(CARRY_OVER_FIELDS
+      .filter(field => medication[field] !== null && medication[field] !== undefined)
+      .map(field => [field, medication[field]]));
+  }
+
+  private loadReview(apbNumber: string, reviewId: string) {
+    return forkJoin({
+      medications: this.apiService.getMedications(apbNumber, reviewId),
+      contraindications: this.apiService.getContraindications(apbNumber, reviewId).pipe(catchError(() => of([]))),
+      labValues: this.apiService.getLabValues(apbNumber, reviewId).pipe(catchError(() => of([])))
+    });
+  }
+
+  private medicationChange(current: Medication, previous: Medication | null, switched: boolean): MedicationChange {
+    if (!previous) {
+      return 'added';
+    }
+    if (this.medicationStatus.isStopped(current) && !this.medicationStatus.isStopped(previous)) {
+      return 'stopped';
+    }
+    if (switched) {
+      return 'switched';
+    }
+    return this.sameDosage(current, previous) ? 'unchanged' : 'dose_changed';
+  }
+
+  private sameDosage(a: Medication, b: Medication): boolean {
+    const value = (medication: Medication, field: keyof Medication) => medication[field] ?? null;
+    return DOSAGE_FIELDS.every(field => value(a, field) === value(b, field)) &&
+      JSON.stringify(a.dosageRegimen ?? null) === JSON.stringify(b.dosageRegimen ?? null);
+  }
+
+  private compareItems<T>(current: T[], previous: T[], key: (item: T) => string, changed: (a: T, b: T) => boolean) {
+    const previousByKey = new Map(previous.map(item => [key(item), item]));
+    const result: { change: ItemChange; current: T | null; previous: T | null }[] = current.map(item => {
+      const match = previousByKey.get(key(item)) ?? null;
+      previousByKey.delete(key(item));
+      const change: ItemChange = !match ? 'added' : changed(item, match) ? 'changed' : 'unchanged';
+      return { change, current: item, previous: match };
+    });
+    previousByKey.forEach(item => result.push({ change: 'previous_only', current: null, previous: item }));
+    return result;
+  }
+
+  private sortKey(review: MedicationReviewSummary): string {
+    return `${review.reviewDate || ''}|${review.lastModified || ''}`;
+  }
+
+  private normalize(value: string | null | undefined): string {
+    return (value || '').trim().toLowerCase();
+  }
+}
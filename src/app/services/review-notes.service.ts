@@ -1,19 +1,11 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject, Observable } from 'rxjs';
 import { ApiService } from './api.service';
+import { NotificationService } from './notification.service';
+import { StateService } from './state.service';
+import { ReviewNote } from '../models/api.models';
 
-export interface ReviewNote {
-  partitionKey: string;       // Medication Review ID
-  rowKey: string;             // Review Note ID
-  text?: string;
-  discussWithPatient: boolean;
-  communicateToDoctor: boolean;
-  category?: string;          // Category for organizing notes (e.g., "Posology", "Interactions", "GheOPS")
-  linkedCnk?: string;         // CNK code to link note to specific medication
-  medicationName?: string;    // Medication name stored separately from CNK
-  timestamp?: string;
-  eTag?: string;
-}
+export type { ReviewNote };
 
 @Injectable({
   providedIn: 'root'
@@ -25,7 +17,11 @@ export class ReviewNotesService {
   public notes$ = this.notesSubject.asObservable();
   public notesCount$ = new BehaviorSubject<number>(0);
 
-  constructor(private apiService: ApiService) {}
+  constructor(
+    private apiService: ApiService,
+    private notificationService: NotificationService,
+    private stateService: StateService
+  ) {}
 
   /**
    * Load all review notes for a specific review
@@ -39,6 +35,7 @@ export class ReviewNotesService {
         this.notesCount$.next(notes.length);
       },
       error: (error) => {
+        this.notificationService.error('errors.failed_to_load_notes', error);
       }
     });
   }
@@ -59,6 +56,7 @@ export class ReviewNotesService {
           const updatedNotes = [...currentNotes, newNote];
           this.notesSubject.next(updatedNotes);
           this.notesCount$.next(updatedNotes.length);
+          this.stateService.notifyReviewNotesChanged();
           observer.next(newNote);
           observer.complete();
         },
@@ -82,6 +80,7 @@ export class ReviewNotesService {
             currentNotes[index] = updatedNote;
             this.notesSubject.next([...currentNotes]);
           }
+          this.stateService.notifyReviewNotesChanged();
           observer.next(updatedNote);
           observer.complete();
         },
@@ -103,6 +102,7 @@ export class ReviewNotesService {
           const updatedNotes = currentNotes.filter(n => n.rowKey !== noteId);
           this.notesSubject.next(updatedNotes);
           this.notesCount$.next(updatedNotes.length);
+          this.stateService.notifyReviewNotesChanged();
           observer.next();
           observer.complete();
         },
@@ -0,0 +1,184 @@
+import { Injectable, NgZone } from '@angular/core';
+import { BehaviorSubject, Observable, Subject, merge, map } from 'rxjs';
+import { StateService } from './state.service';
+import { ReviewNotesService } from './review-notes.service';
+import { NotificationService } from './notification.service';
+
+export type ReviewDataTopic = 'medications' | 'contraindications' | 'notes' | 'questionAnswers';
+
+type SyncMessage =
+  | { type: 'changed'; tabId: string; apbNumber: string; reviewId: string; topic: ReviewDataTopic }
+  | { type: 'present'; tabId: string; apbNumber: string; reviewId: string }
+  | { type: 'left'; tabId: string };
+
+const CHANNEL_NAME = 'medication-review-sync';
+const HEARTBEAT_MS = 10000;
+// A tab that stopped sending heartbeats (crashed, suspended) is no longer counted
+const PEER_TIMEOUT_MS = 3 * HEARTBEAT_MS;
+
+/**
+ * Keeps tabs that have the same review open in sync.
+ * Local change notifications (StateService, note edits) are broadcast to the other tabs,
+ * which reload the affected data. Tabs also announce which review they have open,
+ * so the user is warned when the same review is being edited in another tab.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ReviewSyncService {
+  private readonly tabId = crypto.randomUUID();
+  private channel: BroadcastChannel | null = null;
+  // Other tabs on the current review, with the time they were last heard from
+  private peers = new Map<string, number>();
+  private warnedPeers = new Set<string>();
+  // Set while a remote change is re-emitted locally, so it is not broadcast back
+  private applyingRemote = false;
+
+  private remoteChangeSubject = new Subject<ReviewDataTopic>();
+  /** Changes made in another tab to the review open in this one */
+  public remoteChange$: Observable<ReviewDataTopic> = this.remoteChangeSubject.asObservable();
+
+  private otherTabsSubject = new BehaviorSubject<number>(0);
+  /** Number of other tabs that have the current review open */
+  public otherTabs$: Observable<number> = this.otherTabsSubject.asObservable();
+
+  constructor(
+    private zone: NgZone,
+    private stateService: StateService,
+    private reviewNotesService: ReviewNotesService,
+    private notificationService: NotificationService
+  ) {
+    if (typeof BroadcastChannel === 'undefined') {
+      return;
+    }
+
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.onmessage = event => this.zone.run(() => this.receive(event.data as SyncMessage));
+
+    merge(
+      this.stateService.medicationsChanged$.pipe(map(() => 'medications' as const)),
+      this.stateService.contraindicationsChanged$.pipe(map(() => 'contraindications' as const)),
+      this.stateService.reviewNotesChanged$.pipe(map(() => 'notes' as const)),
+      this.stateService.questionAnswersChanged$.pipe(map(() => 'questionAnswers' as const))
+    ).subscribe(topic => {
+      if (!this.applyingRemote) {
+        this.publishChange(topic);
+      }
+    });
+
+    // Announce the review this tab has open whenever it changes
+    let currentReview: string | null = null;
+    this.stateService.sessionData$.subscribe(session => {
+      const review = session ? `${session.apbNumber}|${session.medicationReviewId}` : null;
+      if (review !== currentReview) {
+        currentReview = review;
+        this.peers.clear();
+        this.publishPeers();
+        this.announce();
+      }
+    });
+
+    this.zone.runOutsideAngular(() => setInterval(() => this.heartbeat(), HEARTBEAT_MS));
+    window.addEventListener('pagehide', () => this.post({ type: 'left', tabId: this.tabId }));
+  }
+
+  private publishChange(topic: ReviewDataTopic): void {
+    const { apbNumber, medicationReviewId } = this.stateService;
+    if (medicationReviewId) {
+      this.post({ type: 'changed', tabId: this.tabId, apbNumber, reviewId: medicationReviewId, topic });
+    }
+  }
+
+  private receive(message: SyncMessage): void {
+    if (message.tabId === this.tabId) {
+      return;
+    }
+
+    if (message.type === 'left' || !this.isCurrentReview(message.apbNumber, message.reviewId)) {
+      this.peers.delete(message.tabId);
+      this.publishPeers();
+      return;
+    }
+
+    const isNewPeer = !this.peers.has(message.tabId);
+    this.peers.set(message.tabId, Date.now());
+    if (isNewPeer) {
+      this.publishPeers();
+      this.warnConcurrentEditing(message.tabId);
+      // Answer a newcomer, so both tabs know about each other
+      this.announce();
+    }
+
+    if (message.type === 'changed') {
+      this.applyRemoteChange(message.topic);
+    }
+  }
+
+  private applyRemoteChange(topic: ReviewDataTopic): void {
+    this.applyingRemote = true;
+    try {
+      switch (topic) {
+        case 'medications':
+          this.stateService.notifyMedicationsChanged();
+          break;
+        case 'contraindications':
+          this.stateService.notifyContraindicationsChanged();
+          break;
+        case 'notes':
+          this.reviewNotesService.loadReviewNotes(this.stateService.apbNumber, this.stateService.medicationReviewId);
+          break;
+      }
+      this.remoteChangeSubject.next(topic);
+    } finally {
+      this.applyingRemote = false;
+    }
+  }
+
+  // Warn once per tab that opens the same review
+  private warnConcurrentEditing(tabId: string): void {
+    if (!this.warnedPeers.has(tabId)) {
+      this.warnedPeers.add(tabId);
+      this.notificationService.warning('review_sync.open_elsewhere');
+    }
+  }
+
+  private heartbeat(): void {
+    this.expirePeers();
+    this.announce();
+  }
+
+  private announce(): void {
+    const { apbNumber, medicationReviewId } = this.stateService;
+    if (medicationReviewId) {
+      this.post({ type: 'present', tabId: this.tabId, apbNumber, reviewId: medicationReviewId });
+    }
+  }
+
+  private expirePeers(): void {
+    const now = Date.now();
+    this.peers.forEach((lastSeen, tabId) => {
+      if (now - lastSeen > PEER_TIMEOUT_MS) {
+        this.peers.delete(tabId);
+      }
+    });
+    this.publishPeers();
+  }
+
+  private publishPeers(): void {
+    if (this.otherTabsSubject.value !== this.peers.size) {
+      this.zone.run(() => this.otherTabsSubject.next(this.peers.size));
+    }
+  }
+
+  private isCurrentReview(apbNumber: string, reviewId: string): boolean {
+    return !!reviewId && apbNumber === this.stateService.apbNumber && reviewId === this.stateService.medicationReviewId;
+  }
+
+  private post(message: SyncMessage): void {
+    try {
+      this.channel?.postMessage(message);
+    } catch (error) {
+      console.warn('[ReviewSync] Failed to broadcast:', error);
+    }
+  }
+}
@@ -0,0 +1,189 @@
+import { Injectable } from '@angular/core';
+import { SessionData } from '../models/api.models';
+
+const STORAGE_KEY = 'mr.session';
+const KEY_DB_NAME = 'medication-review-keys';
+const KEY_STORE = 'keys';
+const KEY_ID = 'session';
+
+export interface PersistedSession {
+  data: SessionData;
+  expiresAt: number;
+}
+
+export interface EncryptedEnvelope {
+  iv: string;        // Base64 encoded AES-GCM initialisation vector
+  payload: string;   // Base64 encoded ciphertext of the JSON value
+}
+
+/**
+ * Stores the review session encrypted in sessionStorage so it survives page reloads.
+ * The AES-GCM key is non-extractable and kept in IndexedDB, so the stored blob is
+ * useless outside of this origin. When Web Crypto or IndexedDB are unavailable the
+ * session simply isn't persisted.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SessionPersistenceService {
+  private keyPromise: Promise<CryptoKey | null> | null = null;
+
+  /**
+   * Encrypt and store the session
+   */
+  async save(session: PersistedSession): Promise<void> {
+    const envelope = await this.encrypt(session);
+    if (!envelope) {
+      return;
+    }
+
+    try {
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(envelope));
+    } catch (error) {
+      console.error('[Session] Failed to persist session:', error);
+    }
+  }
+
+  /**
+   * Load and decrypt the stored session, or null if none (or it cannot be decrypted)
+   */
+  async load(): Promise<PersistedSession | null> {
+    const raw = sessionStorage.getItem(STORAGE_KEY);
+    if (!raw) {
+      return null;
+    }
+
+    let envelope: EncryptedEnvelope;
+    try {
+      envelope = JSON.parse(raw) as EncryptedEnvelope;
+    } catch {
+      this.clear();
+      return null;
+    }
+
+    const session = await this.decrypt<PersistedSession>(envelope);
+    if (!session) {
+      // Tampered data or a rotated key: the stored session is unusable
+      console.warn('[Session] Discarding unreadable stored session');
+      this.clear();
+    }
+    return session;
+  }
+
+  /**
+   * Encrypt any JSON-serializable value with the origin-bound key (null when unavailable).
+   * Also used for the offline review data in IndexedDB.
+   */
+  async encrypt(value: unknown): Promise<EncryptedEnvelope | null> {
+    const key = await this.getKey();
+    if (!key) {
+      return null;
+    }
+
+    try {
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const encoded = new TextEncoder().encode(JSON.stringify(value));
+      const cipher = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoded);
+      return {
+        iv: this.toBase64(iv),
+        payload: this.toBase64(new Uint8Array(cipher))
+      };
+    } catch (error) {
+      console.error('[Session] Encryption failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Decrypt a value produced by encrypt(), or null if it cannot be decrypted
+   */
+  async decrypt<T>(envelope: EncryptedEnvelope): Promise<T | null> {
+    const key = await this.getKey();
+    if (!key) {
+      return null;
+    }
+
+    try {
+      const plain = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: this.fromBase64(envelope.iv) },
+        key,
+        this.fromBase64(envelope.payload)
+      );
+      return JSON.parse(new TextDecoder().decode(plain)) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  clear(): void {
+    try {
+      sessionStorage.removeItem(STORAGE_KEY);
+    } catch (e) {
+    }
+  }
+
+  private getKey(): Promise<CryptoKey | null> {
+    if (!this.keyPromise) {
+      this.keyPromise = this.loadOrCreateKey().catch(error => {
+        console.warn('[Session] Session persistence unavailable:', error);
+        return null;
+      });
+    }
+    return this.keyPromise;
+  }
+
+  private async loadOrCreateKey(): Promise<CryptoKey | null> {
+    if (typeof indexedDB === 'undefined' || !crypto?.subtle) {
+      return null;
+    }
+
+    const db = await this.openKeyDb();
+    const existing = await this.request<CryptoKey | undefined>(
+      db.transaction(KEY_STORE, 'readonly').objectStore(KEY_STORE).get(KEY_ID)
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const key = await crypto.subtle.generateKey(
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+    await this.request(
+      db.transaction(KEY_STORE, 'readwrite').objectStore(KEY_STORE).put(key, KEY_ID)
+    );
+    return key;
+  }
+
+  private openKeyDb(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const open = indexedDB.open(KEY_DB_NAME, 1);
+      open.onupgradeneeded = () => open.result.createObjectStore(KEY_STORE);
+      open.onsuccess = () => resolve(open.result);
+      open.onerror = () => reject(open.error);
+    });
+  }
+
+  private request<T>(req: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      req.onsuccess = () => resolve(req.result as T);
+      req.onerror = () => reject(req.error);
+    });
+  }
+
+  private toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(b => binary += String.fromCharCode(b));
+    return btoa(binary);
+  }
+
+  private fromBase64(value: string): Uint8Array<ArrayBuffer> {
+    const binary = atob(value);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+}
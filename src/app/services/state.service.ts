@@ -1,6 +1,10 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject, Observable, Subject } from 'rxjs';
 import { SessionData } from '../models/api.models';
+import { SessionPersistenceService } from './session-persistence.service';
+
+// Sessions expire after this period of inactivity (refreshed on every session update)
+const SESSION_TTL_MS = 8 * 60 * 60 * 1000;
 
 @Injectable({
   providedIn: 'root'
@@ -9,17 +13,74 @@ export class StateService {
   private sessionDataSubject = new BehaviorSubject<SessionData | null>(null);
   public sessionData$: Observable<SessionData | null> = this.sessionDataSubject.asObservable();
 
+  private sessionExpiresAt: number | null = null;
+  // Review ID of a session that expired, so the login page can offer to resume it
+  private expiredReviewId: string | null = null;
+  private restored: Promise<void> | null = null;
+
   private contraindicationsChangedSubject = new Subject<void>();
   public contraindicationsChanged$: Observable<void> = this.contraindicationsChangedSubject.asObservable();
 
   private medicationsChangedSubject = new Subject<void>();
   public medicationsChanged$: Observable<void> = this.medicationsChangedSubject.asObservable();
 
+  private reviewNotesChangedSubject = new Subject<void>();
+  public reviewNotesChanged$: Observable<void> = this.reviewNotesChangedSubject.asObservable();
+
+  private questionAnswersChangedSubject = new Subject<void>();
+  public questionAnswersChanged$: Observable<void> = this.questionAnswersChangedSubject.asObservable();
+
   private noteOverviewModalSubject = new Subject<void>();
   public noteOverviewModal$: Observable<void> = this.noteOverviewModalSubject.asObservable();
 
+  constructor(private sessionPersistence: SessionPersistenceService) {}
+
   setSessionData(data: SessionData): void {
+    this.sessionExpiresAt = Date.now() + SESSION_TTL_MS;
+    this.expiredReviewId = null;
     this.sessionDataSubject.next(data);
+    this.sessionPersistence.save({ data, expiresAt: this.sessionExpiresAt });
+  }
+
+  /**
+   * Restore a persisted session after a page reload (runs once, at app start-up)
+   */
+  restoreSession(): Promise<void> {
+    if (!this.restored) {
+      this.restored = this.sessionPersistence.load().then(persisted => {
+        if (!persisted) {
+          return;
+        }
+        if (persisted.expiresAt <= Date.now()) {
+          this.expiredReviewId = persisted.data.medicationReviewId || null;
+          this.sessionPersistence.clear();
+          return;
+        }
+        this.sessionExpiresAt = persisted.expiresAt;
+        this.sessionDataSubject.next(persisted.data);
+      });
+    }
+    return this.restored;
+  }
+
+  /**
+   * Whether the user is logged in (and, unless requireReview is false, has a review open)
+   */
+  hasValidSession(requireReview: boolean = true): boolean {
+    const session = this.sessionDataSubject.value;
+    if (!session || !this.sessionExpiresAt) {
+      return false;
+    }
+    if (this.sessionExpiresAt <= Date.now()) {
+      this.expireSession();
+      return false;
+    }
+    // Sessions from before the user name was asked have to log in again, edits need an actor
+    return !!session.apbNumber && !!session.userName && (!requireReview || !!session.medicationReviewId);
+  }
+
+  getExpiredReviewId(): string | null {
+    return this.expiredReviewId;
   }
 
   openNoteOverviewModal(): void {
@@ -31,6 +92,8 @@ export class StateService {
   }
 
   clearSessionData(): void {
+    this.sessionExpiresAt = null;
+    this.sessionPersistence.clear();
     this.sessionDataSubject.next(null);
   }
 
@@ -42,10 +105,22 @@ export class StateService {
     this.medicationsChangedSubject.next();
   }
 
+  notifyReviewNotesChanged(): void {
+    this.reviewNotesChangedSubject.next();
+  }
+
+  notifyQuestionAnswersChanged(): void {
+    this.questionAnswersChangedSubject.next();
+  }
+
   get apbNumber(): string {
     return this.sessionDataSubject.value?.apbNumber || '';
   }
 
+  get userName(): string {
+    return this.sessionDataSubject.value?.userName || '';
+  }
+
   get patientId(): string {
     return this.sessionDataSubject.value?.patientId || '';
   }
@@ -53,4 +128,12 @@ export class StateService {
   get medicationReviewId(): string {
     return this.sessionDataSubject.value?.medicationReviewId || '';
   }
+
+  /**
+   * End the session but remember its review, so logging in again resumes it
+   */
+  expireSession(): void {
+    this.expiredReviewId = this.sessionDataSubject.value?.medicationReviewId || null;
+    this.clearSessionData();
+  }
 }
@@ -0,0 +1,8 @@
+// This file contains the configuration for running without a backend
+// All API calls are answered by the in-browser mock backend (src/app/mock-backend) with demo data.
+// Log in with any APB number and the password "demo".
+export const environment = {
+  production: false,
+  apiBaseUrl: '/api',
+  mockBackend: true
+};
@@ -4,5 +4,6 @@
 // or a full URL like 'https://your-backend-domain.com/api'
 export const environment = {
   production: true,
-  apiBaseUrl: 'https://medication-review-dev-ckg0gbg2bufhgwcp.westeurope-01.azurewebsites.net/api'
+  apiBaseUrl: 'https://medication-review-dev-ckg0gbg2bufhgwcp.westeurope-01.azurewebsites.net/api',
+  mockBackend: false
 }
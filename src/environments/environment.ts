@@ -2,5 +2,6 @@
 // In development, the proxy.conf.json file will redirect /api requests to http://localhost:7071/api
 export const environment = {
   production: false,
-  apiBaseUrl: '/api'
+  apiBaseUrl: '/api',
+  mockBackend: false
 };